@@ -4,6 +4,9 @@ declare namespace App {
   interface Locals {
     user: import('./src/rest-api/types').User | null;
     session: import('./src/rest-api/types').Session | null;
+    team: import('./src/rest-api/types').Team | null;
+    csrfToken: string | null;
+    cspNonce: string | null;
   }
 }
 
@@ -15,9 +18,9 @@ declare module 'astro' {
 
   interface APIContext {
     locals: App.Locals;
-    redirect: (url: string) => never;
+    redirect: (path: string, status?: ValidRedirectStatus) => Response;
     request: Request;
-    params: Record<string, string>;
+    params: Record<string, string | undefined>;
     url: URL;
   }
 
@@ -45,8 +48,15 @@ declare module 'astro' {
           clientEntrypoint: string;
           serverEntrypoint: string;
         }) => void;
+        updateConfig: (config: { vite?: import('vite').UserConfig }) => void;
+        config: { root: URL };
+        command: 'dev' | 'build' | 'preview' | 'sync';
         logger: AstroIntegrationLogger;
       }) => void;
     };
   }
-}
\ No newline at end of file
+}
+// Options built into the server bundle by the integration's Vite plugin
+declare module 'virtual:astro-stack-auth/options' {
+  export const options: import('./src/types').StackAuthRuntimeOptions;
+}
@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+/**
+ * Audit Log Verification Script
+ *
+ * Checks the hash chain of exported audit logs (one JSON entry per line,
+ * as written by FileAuditSink) and reports tampered, missing, reordered
+ * and unsigned entries. Exits with 1 when any problem is found.
+ *
+ * The chain secret is read from STACK_AUDIT_CHAIN_SECRET rather than the
+ * command line, so it does not end up in shell history.
+ */
+
+import fs from 'fs';
+import { verifyAuditChain } from '../dist/server.mjs';
+
+/**
+ * Show help message
+ */
+function showHelp() {
+  console.log(`
+Stack Auth Audit Log Verification
+
+Usage: astro-stack-auth-verify-audit [options] <file...>
+
+Files are read in the order given and checked as one log. Pass rotated
+files oldest first, e.g. audit.ndjson.2 audit.ndjson.1 audit.ndjson
+
+Options:
+  --partial   The log does not start at the beginning of each chain
+              (e.g. older rotated files were deleted)
+  --json      Print the report as JSON
+  --help      Show this help message
+
+Environment Variables:
+  STACK_AUDIT_CHAIN_SECRET   Secret the entries were chained with (required)
+`);
+}
+
+/**
+ * Parse command line arguments
+ */
+function getConfiguration() {
+  const config = { files: [], partial: false, json: false };
+
+  for (const arg of process.argv.slice(2)) {
+    switch (arg) {
+      case '--partial':
+        config.partial = true;
+        break;
+      case '--json':
+        config.json = true;
+        break;
+      case '--help':
+        showHelp();
+        process.exit(0);
+        break;
+      default:
+        config.files.push(arg);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Read entries from NDJSON files, collecting lines that are not JSON
+ */
+function readEntries(files) {
+  const entries = [];
+  const malformed = [];
+
+  for (const file of files) {
+    fs.readFileSync(file, 'utf8').split('\n').forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        malformed.push(`${file}:${index + 1}`);
+      }
+    });
+  }
+
+  return { entries, malformed };
+}
+
+function main() {
+  const config = getConfiguration();
+  const secret = process.env.STACK_AUDIT_CHAIN_SECRET;
+
+  if (config.files.length === 0) {
+    showHelp();
+    return 1;
+  }
+  if (!secret) {
+    console.error('STACK_AUDIT_CHAIN_SECRET must be set to the secret the log was chained with');
+    return 1;
+  }
+
+  const { entries, malformed } = readEntries(config.files);
+  const report = verifyAuditChain(entries, secret, { partial: config.partial });
+  const valid = report.valid && malformed.length === 0;
+
+  if (config.json) {
+    console.log(JSON.stringify({ ...report, valid, malformed }, null, 2));
+    return valid ? 0 : 1;
+  }
+
+  console.log(`Checked ${report.entries} entries in ${report.chains.length} chain(s)`);
+  report.chains.forEach(chain => {
+    console.log(`  ${chain.chainId}: #${chain.firstSequence} to #${chain.lastSequence} (${chain.count} entries)`);
+  });
+  malformed.forEach(location => console.log(`\x1b[31m✗\x1b[0m ${location}: not a JSON entry`));
+  report.issues.forEach(issue => {
+    console.log(`\x1b[31m✗\x1b[0m entry ${issue.index + 1} [${issue.type}] ${issue.message}`);
+  });
+
+  if (valid) {
+    console.log('\x1b[32m✓\x1b[0m Audit log is intact');
+  } else {
+    console.log(`\x1b[31m✗\x1b[0m ${report.issues.length + malformed.length} problem(s) found`);
+  }
+  return valid ? 0 : 1;
+}
+
+try {
+  process.exit(main());
+} catch (error) {
+  console.error('Audit log verification failed:', error.message);
+  process.exit(1);
+}
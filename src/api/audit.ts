@@ -0,0 +1,203 @@
+/**
+ * Audit log query endpoint for admin dashboards
+ *
+ * Served by the injected route handler when the `auditEndpoint` option
+ * is set (otherwise the path is proxied like any other):
+ * - GET {prefix}/audit - query buffered audit entries, newest first
+ *
+ * Query parameters: `eventType` and `riskLevel` (comma-separated lists),
+ * `userId`, `endpoint` (exact, or a prefix ending in `*`), `from` and `to`
+ * (ISO dates), `limit`, `cursor`, and `format` (`json`, `ndjson` or `csv`).
+ * JSON responses carry the next page's cursor in the body; exports carry
+ * it in an `X-Next-Cursor` header and return every match by default.
+ */
+
+import type { APIContext } from 'astro';
+import { getRuntimeOptions } from '../runtime-options.js';
+import { auditLogger, type AuditEventType, type AuditLogEntry, type RiskLevel } from '../server/audit.js';
+import {
+  queryAuditLogs,
+  AuditQueryError,
+  MAX_AUDIT_PAGE_SIZE,
+  type AuditLogQuery
+} from '../server/audit-query.js';
+import { hasPermission } from '../server/authorization.js';
+import { addSecurityHeaders, secretsEqual } from '../server/security.js';
+
+/**
+ * Access control for the audit endpoint. Requests are allowed with the
+ * bearer secret or, for signed-in users, the permission; set at least one.
+ */
+export interface AuditEndpointOptions {
+  /**
+   * Permission a signed-in user needs, e.g. `'audit:read'`
+   */
+  permission?: string;
+
+  /**
+   * Token accepted as `Authorization: Bearer <secret>`, for scripts and
+   * log collectors
+   */
+  secret?: string;
+}
+
+const CSV_COLUMNS: (keyof AuditLogEntry)[] = [
+  'timestamp',
+  'eventType',
+  'riskLevel',
+  'userId',
+  'sessionId',
+  'clientIP',
+  'userAgent',
+  'endpoint',
+  'method',
+  'success',
+  'message',
+  'details'
+];
+
+/**
+ * Get the audit endpoint options, or null when the endpoint is disabled
+ */
+export function getAuditEndpointOptions(): AuditEndpointOptions | null {
+  return getRuntimeOptions().auditEndpoint ?? null;
+}
+
+/**
+ * Check whether a handler path is the audit endpoint
+ */
+export function matchAuditEndpoint(path: string): boolean {
+  return /^audit\/?$/.test(path);
+}
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  const response = new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+  addSecurityHeaders(response.headers);
+  return response;
+}
+
+function errorResponse(error: string, message: string, status: number): Response {
+  return jsonResponse({ error, message, statusCode: status }, status);
+}
+
+/**
+ * Check the request's credentials
+ *
+ * @returns An error response, or null when access is allowed
+ */
+async function authorize(context: APIContext, options: AuditEndpointOptions): Promise<Response | null> {
+  const authorization = context.request.headers.get('authorization');
+  if (options.secret && authorization?.startsWith('Bearer ')) {
+    if (secretsEqual(authorization.slice('Bearer '.length), options.secret)) {
+      return null;
+    }
+    auditLogger.logAuthFailure(context, 'invalid audit endpoint token');
+    return errorResponse('Unauthorized', 'Invalid token', 401);
+  }
+
+  const user = context.locals.user;
+  if (!options.permission || !user) {
+    return errorResponse('Unauthorized', 'Authentication required', 401);
+  }
+  if (!(await hasPermission(user, options.permission))) {
+    auditLogger.logPermissionDenied(context, user, { permissions: [options.permission] });
+    return errorResponse('Forbidden', 'Access denied', 403);
+  }
+  return null;
+}
+
+/**
+ * Read the query from the request's search parameters
+ */
+function parseQuery(params: URLSearchParams, defaultLimit?: number): AuditLogQuery {
+  const list = <T extends string>(name: string) => params.get(name)?.split(',').map(value => value.trim()) as T[] | undefined;
+  const limit = params.get('limit');
+
+  return {
+    eventType: list<AuditEventType>('eventType'),
+    riskLevel: list<RiskLevel>('riskLevel'),
+    userId: params.get('userId') ?? undefined,
+    endpoint: params.get('endpoint') ?? undefined,
+    from: params.get('from') ?? undefined,
+    to: params.get('to') ?? undefined,
+    cursor: params.get('cursor') ?? undefined,
+    limit: limit !== null ? Number(limit) : defaultLimit
+  };
+}
+
+/**
+ * Format a CSV cell, defusing values a spreadsheet would run as formulas
+ */
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a file download of entries
+ */
+function exportResponse(entries: AuditLogEntry[], format: 'csv' | 'ndjson', nextCursor: string | null): Response {
+  const body = format === 'csv'
+    ? [CSV_COLUMNS.join(','), ...entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(','))].join('\r\n') + '\r\n'
+    : entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+
+  const response = new Response(body, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="audit-log.${format}"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+  if (nextCursor) {
+    response.headers.set('X-Next-Cursor', nextCursor);
+  }
+  addSecurityHeaders(response.headers);
+  return response;
+}
+
+/**
+ * Handle a request to the audit endpoint
+ */
+export async function handleAuditRequest(context: APIContext, options: AuditEndpointOptions): Promise<Response> {
+  if (context.request.method !== 'GET') {
+    const response = errorResponse('Method Not Allowed', `${context.request.method} is not supported here`, 405);
+    response.headers.set('Allow', 'GET');
+    return response;
+  }
+
+  const denied = await authorize(context, options);
+  if (denied) {
+    return denied;
+  }
+
+  const params = context.url.searchParams;
+  const format = params.get('format') ?? 'json';
+  if (format !== 'json' && format !== 'ndjson' && format !== 'csv') {
+    return errorResponse('Bad Request', 'format must be json, ndjson or csv', 400);
+  }
+
+  try {
+    const query = parseQuery(params, format === 'json' ? undefined : MAX_AUDIT_PAGE_SIZE);
+    const { entries, nextCursor } = queryAuditLogs(query);
+    return format === 'json'
+      ? jsonResponse({ items: entries, nextCursor })
+      : exportResponse(entries, format, nextCursor);
+  } catch (error) {
+    if (error instanceof AuditQueryError) {
+      return errorResponse('Bad Request', error.message, 400);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Content-Security-Policy violation report collector
+ *
+ * Served by the injected route handler instead of being proxied:
+ * - POST {prefix}/csp-report - record violation reports sent by browsers
+ *
+ * Accepts both the `report-uri` format (`application/csp-report`) and the
+ * Reporting API format (`application/reports+json`). Each violation is
+ * written to the audit log as a `CSP_VIOLATION` entry. Reports are size
+ * and rate limited so that a client cannot flood the audit log.
+ */
+
+import type { APIContext } from 'astro';
+import { SecurityEvents } from '../server/audit.js';
+import { checkRateLimit, type RateLimitConfig } from '../server/rate-limiting.js';
+import { generateRateLimitKey } from '../server/security.js';
+
+// Largest report body accepted
+const MAX_REPORT_BYTES = 16 * 1024;
+
+// Violations logged from a single request
+const MAX_VIOLATIONS_PER_REPORT = 10;
+
+// Longest value kept from a report field
+const MAX_FIELD_LENGTH = 512;
+
+const CSP_REPORT_RATE_LIMIT: RateLimitConfig = {
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 30 // 30 reports per minute per client
+};
+
+/**
+ * Check whether a handler path is the CSP report endpoint
+ */
+export function matchCSPReportEndpoint(path: string): boolean {
+  return /^csp-report\/?$/.test(path);
+}
+
+function field(value: unknown): string | number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  return typeof value === 'string' && value ? value.slice(0, MAX_FIELD_LENGTH) : undefined;
+}
+
+/**
+ * Normalize a violation from either report format
+ */
+function normalizeViolation(report: Record<string, unknown>): Record<string, string | number | undefined> {
+  return {
+    documentUri: field(report.documentURL ?? report['document-uri']),
+    blockedUri: field(report.blockedURL ?? report['blocked-uri']),
+    directive: field(report.effectiveDirective ?? report['effective-directive'] ?? report['violated-directive']),
+    disposition: field(report.disposition),
+    sourceFile: field(report.sourceFile ?? report['source-file']),
+    lineNumber: field(report.lineNumber ?? report['line-number']),
+    sample: field(report.sample ?? report['script-sample'])
+  };
+}
+
+/**
+ * Extract the violations from a report body
+ */
+export function parseCSPReport(body: unknown): Record<string, string | number | undefined>[] {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+  if (Array.isArray(body)) {
+    // Reporting API: a batch of reports of several types
+    return body
+      .filter(report => isObject(report) && report.type === 'csp-violation' && isObject(report.body))
+      .map(report => normalizeViolation(report.body as Record<string, unknown>));
+  }
+
+  if (isObject(body) && isObject(body['csp-report'])) {
+    return [normalizeViolation(body['csp-report'])];
+  }
+
+  return [];
+}
+
+/**
+ * Handle a violation report
+ */
+export async function handleCSPReportRequest(context: APIContext): Promise<Response> {
+  if (context.request.method !== 'POST') {
+    return new Response(null, { status: 405, headers: { Allow: 'POST' } });
+  }
+
+  const rateLimit = await checkRateLimit(
+    context.request,
+    CSP_REPORT_RATE_LIMIT,
+    generateRateLimitKey(context.request, 'endpoint')
+  );
+  if (!rateLimit.success) {
+    return new Response(null, { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } });
+  }
+
+  const contentLength = Number(context.request.headers.get('content-length'));
+  if (contentLength > MAX_REPORT_BYTES) {
+    return new Response(null, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    const text = await context.request.text();
+    if (Buffer.byteLength(text) > MAX_REPORT_BYTES) {
+      return new Response(null, { status: 413 });
+    }
+    body = JSON.parse(text);
+  } catch {
+    return new Response(null, { status: 400 });
+  }
+
+  parseCSPReport(body)
+    .slice(0, MAX_VIOLATIONS_PER_REPORT)
+    .forEach(violation => {
+      SecurityEvents.cspViolation(context, String(violation.directive ?? 'unknown'), violation);
+    });
+
+  return new Response(null, { status: 204 });
+}
@@ -3,7 +3,7 @@
  * 
  * This handler proxies API requests to Stack Auth's backend service.
  * It handles all HTTP methods and forwards requests with proper authentication
- * headers, cookies, and CORS handling.
+ * headers and cookies. Cross-origin requests follow the `cors` option.
  * 
  * Endpoints handled:
  * - /handler/signin - Sign in flows
@@ -13,17 +13,34 @@
  * - /handler/user - User info
  * - /handler/session - Session management
  * - /handler/me - Current user data
- * - And all other Stack Auth API endpoints
+ * - /handler/sessions - Active sessions and revocation (served locally)
+ * - /handler/oauth/:provider, /handler/oauth/callback - OAuth with PKCE (served locally)
+ * - /handler/csp-report - Content-Security-Policy violation reports (served locally)
+ * - /handler/audit - Audit log queries for admins (served locally when enabled)
+ * - The Stack Auth API endpoints allowed by the proxy policy (`proxyRoutes`)
  */
 
 import type { APIContext } from 'astro';
 import { getConfig } from '../config.js';
-
-/**
- * Stack Auth API base URL - the official hosted service
- * This is where we proxy all requests to
- */
-const STACK_AUTH_API_BASE = 'https://api.stack-auth.com';
+import { matchSessionsEndpoint, handleSessionsRequest } from './sessions.js';
+import { matchOAuthEndpoint, handleOAuthRequest } from './oauth.js';
+import { matchCSPReportEndpoint, handleCSPReportRequest } from './csp-report.js';
+import { matchAuditEndpoint, handleAuditRequest, getAuditEndpointOptions } from './audit.js';
+import { withSpan, traceContextHeaders, SpanKind, SpanStatusCode } from '../server/tracing.js';
+import { resolveProxyRoute, DEFAULT_PROXY_ROUTES, type ProxyKey, type ProxyPolicyDecision } from '../server/proxy-policy.js';
+import { SecurityEvents } from '../server/audit.js';
+import { isSignInRequest, auditSignInResult } from '../server/sign-in-audit.js';
+import { getRuntimeOptions, loadRuntimeOptions } from '../runtime-options.js';
+import { rewriteSetCookie } from '../server/cookies.js';
+import {
+  getCorsOptions,
+  getCrossOrigin,
+  isCorsOriginAllowed,
+  getCorsResponseHeaders,
+  getCorsPreflightHeaders,
+  withCorsHeaders
+} from '../server/cors.js';
+import { getStackAuthApiUrl } from '../stack-auth-url.js';
 
 /**
  * Headers that should be forwarded from client to Stack Auth API
@@ -42,6 +59,42 @@ const FORWARDED_HEADERS = [
   'x-stack-publishable-client-key'
 ];
 
+/**
+ * Hop-by-hop headers (RFC 9110, section 7.6.1), which apply to a single
+ * connection and are never forwarded
+ */
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade'
+];
+
+/**
+ * Statuses whose responses cannot carry a body
+ */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Largest request body forwarded when `proxyMaxBodySize` is not set (1 MiB)
+ */
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Raised while streaming a request body that outgrows the size limit
+ */
+class RequestBodyTooLargeError extends Error {
+  constructor(public readonly maxBytes: number) {
+    super(`Request body exceeds ${maxBytes} bytes`);
+    this.name = 'RequestBodyTooLargeError';
+  }
+}
+
 /**
  * Headers that should be forwarded from Stack Auth API back to client
  */
@@ -56,17 +109,27 @@ const RESPONSE_HEADERS = [
   'vary'
 ];
 
+/**
+ * Get the Stack Auth API path after the route prefix
+ * 
+ * Taken from the `[...stack]` route parameter, so it is correct for any
+ * configured `prefix` or `STACK_AUTH_PREFIX`.
+ */
+function getProxyPath(context: APIContext): string {
+  return context.params?.stack ?? '';
+}
+
 /**
  * Create the Stack Auth API URL for proxying requests
+ * 
+ * Requests go to the configured Stack Auth backend, the hosted service
+ * unless `baseUrl` or `STACK_BASE_URL` points at a self-hosted one.
  */
-function createApiUrl(context: APIContext): string {
+function createApiUrl(context: APIContext, config: ReturnType<typeof getConfig>, stackPath: string): string {
   const { url } = context;
   
-  // Extract the path after /handler/
-  const stackPath = url.pathname.replace(/^.*\/handler\//, '');
-  
   // Build the full Stack Auth API URL
-  const apiUrl = `${STACK_AUTH_API_BASE}/api/v1/${stackPath}`;
+  const apiUrl = `${getStackAuthApiUrl(config.baseUrl)}/${stackPath}`;
   
   // Add query parameters if present
   if (url.search) {
@@ -76,16 +139,35 @@ function createApiUrl(context: APIContext): string {
   return apiUrl;
 }
 
+/**
+ * Names of the hop-by-hop headers of a message, including those its
+ * `Connection` header lists
+ */
+function getHopByHopHeaders(headers: Headers): Set<string> {
+  const names = new Set(HOP_BY_HOP_HEADERS);
+  (headers.get('connection') || '').split(',').forEach(token => {
+    const name = token.trim().toLowerCase();
+    if (name) {
+      names.add(name);
+    }
+  });
+  return names;
+}
+
 /**
  * Forward headers from the incoming request to Stack Auth API
+ * 
+ * Only the key the matched policy route asks for is attached, so client
+ * routes never carry the secret server key.
  */
-function forwardRequestHeaders(request: Request, config: ReturnType<typeof getConfig>): Record<string, string> {
+function forwardRequestHeaders(request: Request, config: ReturnType<typeof getConfig>, key: ProxyKey): Record<string, string> {
   const headers: Record<string, string> = {};
+  const hopByHop = getHopByHopHeaders(request.headers);
   
   // Forward allowed headers from the request
   FORWARDED_HEADERS.forEach(headerName => {
     const value = request.headers.get(headerName);
-    if (value) {
+    if (value && !hopByHop.has(headerName)) {
       headers[headerName] = value;
     }
   });
@@ -93,39 +175,99 @@ function forwardRequestHeaders(request: Request, config: ReturnType<typeof getCo
   // Add Stack Auth configuration headers
   headers['x-stack-project-id'] = config.projectId;
   headers['x-stack-publishable-client-key'] = config.publishableClientKey;
-  headers['x-stack-secret-server-key'] = config.secretServerKey;
-  
-  // Add custom base URL if configured
-  if (config.baseUrl) {
-    headers['x-stack-base-url'] = config.baseUrl;
+  if (key === 'server') {
+    headers['x-stack-secret-server-key'] = config.secretServerKey;
   }
+  headers['x-stack-access-type'] = key;
   
   return headers;
 }
 
 /**
  * Forward headers from Stack Auth API response back to client
+ * 
+ * Each `Set-Cookie` header is forwarded separately; joining them would
+ * corrupt cookies whose attributes contain commas, such as `Expires`.
+ * Cookies are rewritten to the configured names and attributes.
  */
-function forwardResponseHeaders(response: Response): Record<string, string> {
-  const headers: Record<string, string> = {};
+function forwardResponseHeaders(response: Response, context: APIContext): Headers {
+  const headers = new Headers();
+  const hopByHop = getHopByHopHeaders(response.headers);
   
   RESPONSE_HEADERS.forEach(headerName => {
+    if (hopByHop.has(headerName)) {
+      return;
+    }
+    if (headerName === 'set-cookie') {
+      const secure = context.url.protocol === 'https:' || process.env.NODE_ENV === 'production';
+      response.headers.getSetCookie()
+        .forEach(cookie => headers.append('set-cookie', rewriteSetCookie(cookie, { secure })));
+      return;
+    }
     const value = response.headers.get(headerName);
     if (value) {
-      headers[headerName] = value;
+      headers.set(headerName, value);
     }
   });
   
   return headers;
 }
 
+/**
+ * Stream a request body, failing once it grows past `maxBytes`
+ */
+function limitBodySize(body: ReadableStream<Uint8Array>, maxBytes: number): ReadableStream<Uint8Array> {
+  let received = 0;
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > maxBytes) {
+        controller.error(new RequestBodyTooLargeError(maxBytes));
+        return;
+      }
+      controller.enqueue(chunk);
+    }
+  }));
+}
+
+/**
+ * Check whether a failed upstream request was stopped by the body size limit
+ */
+function getBodyTooLargeError(error: unknown): RequestBodyTooLargeError | null {
+  if (error instanceof RequestBodyTooLargeError) {
+    return error;
+  }
+  // fetch reports stream errors as the cause of its own TypeError
+  const cause = error instanceof Error ? (error as Error & { cause?: unknown }).cause : undefined;
+  return cause instanceof RequestBodyTooLargeError ? cause : null;
+}
+
+/**
+ * Reject a request body larger than the proxy accepts
+ */
+function payloadTooLarge(maxBytes: number): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'PAYLOAD_TOO_LARGE',
+      message: `Request body exceeds ${maxBytes} bytes`
+    }),
+    {
+      status: 413,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    }
+  );
+}
+
 /**
  * Handle errors during API proxying with helpful debugging info
  */
 function handleProxyError(error: unknown, context: APIContext): Response {
-  const { url, request } = context;
+  const { request } = context;
   const method = request.method;
-  const stackPath = url.pathname.replace(/^.*\/handler\//, '');
+  const stackPath = getProxyPath(context);
   const isDevelopment = process.env.NODE_ENV === 'development';
   
   // Log detailed error in development, minimal in production
@@ -146,7 +288,7 @@ function handleProxyError(error: unknown, context: APIContext): Response {
       errorType = 'NETWORK_ERROR';
       specificSteps = [
         '🌐 Check your internet connection',
-        '🔍 Verify Stack Auth API is accessible: curl https://api.stack-auth.com/health',
+        `🔍 Verify Stack Auth API is accessible: curl ${getStackAuthApiUrl()}/health`,
         '🔥 Check if a firewall or proxy is blocking the connection',
         '📋 Stack Auth service status: https://status.stack-auth.com'
       ];
@@ -218,10 +360,56 @@ function handleProxyError(error: unknown, context: APIContext): Response {
   );
 }
 
+/**
+ * Answer a request the proxy policy does not allow, without contacting Stack Auth
+ */
+function rejectProxyRequest(
+  context: APIContext,
+  stackPath: string,
+  decision: Exclude<ProxyPolicyDecision, { allowed: true }>
+): Response {
+  SecurityEvents.proxyBlocked(context, stackPath, { status: decision.status });
+  
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store'
+  };
+  if (decision.status === 405) {
+    headers['Allow'] = decision.allow.join(', ');
+  }
+  
+  return new Response(
+    JSON.stringify(decision.status === 405 ? {
+      error: 'METHOD_NOT_ALLOWED',
+      message: `${context.request.method} is not allowed for this endpoint`
+    } : {
+      error: 'NOT_FOUND',
+      message: 'Endpoint not found'
+    }),
+    { status: decision.status, headers }
+  );
+}
+
 /**
  * Main proxy handler that forwards requests to Stack Auth API
+ * 
+ * Only endpoints allowed by the `proxyRoutes` policy are forwarded.
+ * Request and response bodies are streamed rather than buffered, and
+ * request bodies over `proxyMaxBodySize` are answered with a 413.
  */
 async function proxyToStackAuth(context: APIContext): Promise<Response> {
+  const { proxyRoutes, proxyMaxBodySize = DEFAULT_MAX_BODY_SIZE } = getRuntimeOptions();
+  const stackPath = getProxyPath(context);
+  const decision = resolveProxyRoute(context.request.method, stackPath, proxyRoutes ?? DEFAULT_PROXY_ROUTES);
+  if (!decision.allowed) {
+    return rejectProxyRequest(context, stackPath, decision);
+  }
+  
+  const declaredLength = Number(context.request.headers.get('content-length'));
+  if (declaredLength > proxyMaxBodySize) {
+    return payloadTooLarge(proxyMaxBodySize);
+  }
+  
   try {
     // Get Stack Auth configuration with error handling
     let config;
@@ -261,42 +449,147 @@ async function proxyToStackAuth(context: APIContext): Promise<Response> {
     }
     
     // Create the target API URL
-    const apiUrl = createApiUrl(context);
+    const apiUrl = createApiUrl(context, config, stackPath);
     
-    // Get request body if present
+    // Stream the request body if present, counting bytes as they pass
     const { request } = context;
-    const body = ['GET', 'HEAD'].includes(request.method) ? undefined : await request.text();
-    
-    // Forward the request to Stack Auth API
-    const response = await fetch(apiUrl, {
-      method: request.method,
-      headers: forwardRequestHeaders(request, config),
-      body,
-      // Don't follow redirects - let the client handle them
-      redirect: 'manual'
-    });
+    // Keep a copy of sign-in attempts so the attempted account can be audited
+    const signInAttempt = isSignInRequest(request.method, stackPath) ? request.clone() : null;
+    const body = ['GET', 'HEAD'].includes(request.method) || !request.body
+      ? undefined
+      : limitBodySize(request.body, proxyMaxBodySize);
     
-    // Forward the response back to client
-    const responseBody = await response.text();
-    const responseHeaders = forwardResponseHeaders(response);
+    const attributes = {
+      'http.request.method': request.method,
+      'url.path': new URL(apiUrl).pathname
+    };
     
-    return new Response(responseBody, {
-      status: response.status,
-      statusText: response.statusText,
-      headers: responseHeaders
+    return await withSpan('stack-auth.proxy', { kind: SpanKind.CLIENT, attributes }, async span => {
+      // Forward the request to Stack Auth API
+      const response = await fetch(apiUrl, {
+        method: request.method,
+        headers: { ...forwardRequestHeaders(request, config, decision.route.key ?? 'client'), ...traceContextHeaders(span) },
+        body,
+        // Required by fetch for streamed request bodies
+        duplex: 'half',
+        // Don't follow redirects - let the client handle them
+        redirect: 'manual'
+      } as RequestInit);
+      
+      span?.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 500) {
+        span?.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      
+      if (signInAttempt) {
+        // Auditing must never break the sign-in itself
+        await auditSignInResult(context, stackPath, signInAttempt, response.clone()).catch(() => {});
+      }
+      
+      // Stream the response back to client
+      const responseBody = NULL_BODY_STATUSES.includes(response.status) ? null : response.body;
+      const responseHeaders = forwardResponseHeaders(response, context);
+      
+      return new Response(responseBody, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: responseHeaders
+      });
     });
     
   } catch (error) {
+    const bodyTooLarge = getBodyTooLargeError(error);
+    if (bodyTooLarge) {
+      return payloadTooLarge(bodyTooLarge.maxBytes);
+    }
     return handleProxyError(error, context);
   }
 }
 
+/**
+ * Methods the injected route answers
+ */
+const ALLOWED_METHODS = 'GET, POST, PUT, PATCH, DELETE, OPTIONS';
+
+/**
+ * Refuse a cross-origin request from an origin the `cors` option does not allow
+ */
+function rejectOrigin(context: APIContext, origin: string): Response {
+  SecurityEvents.invalidOrigin(context, origin, { endpoint: context.url.pathname });
+  
+  return new Response(
+    JSON.stringify({
+      error: 'ORIGIN_NOT_ALLOWED',
+      message: 'This cross-origin request is not allowed'
+    }),
+    {
+      status: 403,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        'Vary': 'Origin'
+      }
+    }
+  );
+}
+
+/**
+ * Apply the CORS policy around the route's handlers
+ * 
+ * Same-origin requests pass through untouched. Cross-origin requests
+ * from allowed origins get CORS headers on the response; others are
+ * rejected before any endpoint runs.
+ */
+async function handleRequest(context: APIContext): Promise<Response> {
+  await loadRuntimeOptions();
+  
+  const origin = getCrossOrigin(context.request, context.url);
+  if (!origin) {
+    return dispatchRequest(context);
+  }
+  
+  const cors = getCorsOptions();
+  if (!cors || !isCorsOriginAllowed(origin, cors)) {
+    return rejectOrigin(context, origin);
+  }
+  
+  return withCorsHeaders(await dispatchRequest(context), getCorsResponseHeaders(origin, cors));
+}
+
+/**
+ * Serve the endpoints implemented by the integration, proxying everything else
+ */
+function dispatchRequest(context: APIContext): Promise<Response> {
+  const stackPath = getProxyPath(context);
+  
+  const sessionId = matchSessionsEndpoint(stackPath);
+  if (sessionId !== undefined) {
+    return handleSessionsRequest(context, sessionId);
+  }
+  
+  const oauthEndpoint = matchOAuthEndpoint(stackPath);
+  if (oauthEndpoint) {
+    return handleOAuthRequest(context, stackPath, oauthEndpoint);
+  }
+  
+  if (matchCSPReportEndpoint(stackPath)) {
+    return handleCSPReportRequest(context);
+  }
+  
+  const auditEndpoint = getAuditEndpointOptions();
+  if (auditEndpoint && matchAuditEndpoint(stackPath)) {
+    return handleAuditRequest(context, auditEndpoint);
+  }
+  
+  return proxyToStackAuth(context);
+}
+
 /**
  * Handle GET requests to Stack Auth endpoints
  * Used for: signin pages, user info, session checks, OAuth callbacks
  */
 export const GET = async (context: APIContext): Promise<Response> => {
-  return proxyToStackAuth(context);
+  return handleRequest(context);
 };
 
 /**
@@ -304,7 +597,7 @@ export const GET = async (context: APIContext): Promise<Response> => {
  * Used for: authentication submissions, user creation, password resets
  */
 export const POST = async (context: APIContext): Promise<Response> => {
-  return proxyToStackAuth(context);
+  return handleRequest(context);
 };
 
 /**
@@ -312,7 +605,7 @@ export const POST = async (context: APIContext): Promise<Response> => {
  * Used for: user profile updates, settings changes
  */
 export const PUT = async (context: APIContext): Promise<Response> => {
-  return proxyToStackAuth(context);
+  return handleRequest(context);
 };
 
 /**
@@ -320,7 +613,7 @@ export const PUT = async (context: APIContext): Promise<Response> => {
  * Used for: partial user updates, preference changes
  */
 export const PATCH = async (context: APIContext): Promise<Response> => {
-  return proxyToStackAuth(context);
+  return handleRequest(context);
 };
 
 /**
@@ -328,32 +621,36 @@ export const PATCH = async (context: APIContext): Promise<Response> => {
  * Used for: account deletion, session termination, data cleanup
  */
 export const DELETE = async (context: APIContext): Promise<Response> => {
-  return proxyToStackAuth(context);
+  return handleRequest(context);
 };
 
 /**
  * Handle OPTIONS requests for CORS preflight
- * Required for browser-based requests to Stack Auth endpoints
+ * Required for browser-based requests from origins allowed by the `cors` option
  */
 export const OPTIONS = async (context: APIContext): Promise<Response> => {
-  // For OPTIONS requests, we need to handle CORS preflight
   const { request } = context;
+  const origin = getCrossOrigin(request, context.url);
   
-  // Get CORS headers from the request
-  const origin = request.headers.get('origin');
-  const requestHeaders = request.headers.get('access-control-request-headers');
+  // Not a cross-origin preflight - just list the supported methods
+  if (!origin) {
+    return new Response(null, {
+      status: 204,
+      headers: { 'Allow': ALLOWED_METHODS }
+    });
+  }
   
-  const corsHeaders: Record<string, string> = {
-    'Access-Control-Allow-Origin': origin || '*',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': requestHeaders || 'Content-Type, Authorization, X-Requested-With',
-    'Access-Control-Allow-Credentials': 'true',
-    'Access-Control-Max-Age': '86400', // 24 hours
-    'Vary': 'Origin'
-  };
+  await loadRuntimeOptions();
+  const cors = getCorsOptions();
+  const corsHeaders = cors && isCorsOriginAllowed(origin, cors)
+    ? getCorsPreflightHeaders(origin, request.headers.get('access-control-request-method'), cors)
+    : null;
+  if (!corsHeaders) {
+    return rejectOrigin(context, origin);
+  }
   
   return new Response(null, {
     status: 204,
-    headers: corsHeaders
+    headers: { ...corsHeaders, 'Vary': 'Origin' }
   });
 };
\ No newline at end of file
@@ -0,0 +1,224 @@
+/**
+ * OAuth sign-in endpoints with PKCE and state verification
+ * 
+ * Served by the injected route handler instead of being proxied:
+ * - GET {prefix}/oauth/{provider}?redirectTo=/path - start a sign-in
+ * - GET {prefix}/oauth/callback                     - finish it
+ * 
+ * The start route stores the flow state in a signed, HttpOnly cookie and
+ * sends the browser to the provider with a PKCE challenge. The callback
+ * checks `state` against that cookie, exchanges the code with the
+ * verifier, sets the session cookies and redirects to a same-origin URL.
+ * Failures go to the `signInUrl` option, or back to the starting page,
+ * with an `error` query parameter.
+ */
+
+import type { APIContext } from 'astro';
+import { StackAuthRestClient } from '../rest-api/client.js';
+import { getConfig } from '../config.js';
+import {
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_MAX_AGE,
+  createOAuthFlowState,
+  signOAuthFlowState,
+  verifyOAuthFlowState
+} from '../server/oauth.js';
+import { createTokenCookies, readCookie, serializeCookie } from '../server/cookies.js';
+import { auditLogger, AuditEventType, logAuthFailure, SecurityEvents } from '../server/audit.js';
+import { validateRedirectURL } from '../server/security.js';
+import { getTokenSubject } from '../server/jwt.js';
+import { getRuntimeOptions } from '../runtime-options.js';
+
+const PROVIDER_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/**
+ * OAuth endpoint addressed by a handler path
+ */
+export type OAuthEndpoint =
+  | { type: 'authorize'; provider: string }
+  | { type: 'callback' };
+
+/**
+ * Match a handler path against the OAuth endpoints
+ */
+export function matchOAuthEndpoint(path: string): OAuthEndpoint | null {
+  const match = /^oauth\/([^/]+)\/?$/.exec(path);
+  if (!match) {
+    return null;
+  }
+  if (match[1] === 'callback') {
+    return { type: 'callback' };
+  }
+  return PROVIDER_PATTERN.test(match[1]) ? { type: 'authorize', provider: match[1] } : null;
+}
+
+/**
+ * Resolve a post-sign-in redirect, allowing only same-origin targets
+ */
+export function resolveRedirectTarget(target: string | null, origin: string): string {
+  if (!target) {
+    return '/';
+  }
+
+  try {
+    const validated = validateRedirectURL(target, [origin]);
+    // Protocol-relative and backslash URLs pass as "relative" but leave the origin
+    const resolved = new URL(validated, origin);
+    return resolved.origin === origin ? `${resolved.pathname}${resolved.search}${resolved.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+/**
+ * Where a failed sign-in goes: the `signInUrl` option, else the page the
+ * sign-in started from, with the error code appended
+ */
+export function resolveFailureTarget(error: string, redirectTo: string | null, origin: string): string {
+  const target = new URL(resolveRedirectTarget(getRuntimeOptions().signInUrl ?? redirectTo, origin), origin);
+  target.searchParams.set('error', error);
+  return `${target.pathname}${target.search}${target.hash}`;
+}
+
+function redirect(location: string, cookies: string[] = []): Response {
+  const response = new Response(null, {
+    status: 302,
+    headers: {
+      Location: location,
+      'Cache-Control': 'no-store'
+    }
+  });
+  cookies.forEach(cookie => response.headers.append('Set-Cookie', cookie));
+  return response;
+}
+
+function stateCookie(context: APIContext, basePath: string, value: string, maxAge: number): string {
+  return serializeCookie(OAUTH_STATE_COOKIE, value, {
+    path: `${basePath}oauth`,
+    maxAge,
+    httpOnly: true,
+    secure: context.url.protocol === 'https:' || process.env.NODE_ENV === 'production',
+    sameSite: 'lax'
+  });
+}
+
+/**
+ * Send the browser to the provider with a fresh state and PKCE challenge
+ */
+function startAuthorization(context: APIContext, basePath: string, provider: string): Response {
+  const config = getConfig();
+  const client = new StackAuthRestClient(config);
+  const redirectTo = resolveRedirectTarget(context.url.searchParams.get('redirectTo'), context.url.origin);
+
+  const { flow, codeChallenge } = createOAuthFlowState(provider, redirectTo);
+  const authorizationUrl = client.createOAuthAuthorizationUrl(provider, {
+    redirectUri: `${context.url.origin}${basePath}oauth/callback`,
+    state: flow.state,
+    codeChallenge,
+    errorRedirectUrl: `${context.url.origin}${basePath}oauth/callback`
+  });
+
+  return redirect(authorizationUrl, [
+    stateCookie(context, basePath, signOAuthFlowState(flow, config.secretServerKey), OAUTH_STATE_MAX_AGE)
+  ]);
+}
+
+/**
+ * Verify the callback, exchange the code and sign the user in
+ */
+async function completeAuthorization(context: APIContext, basePath: string): Promise<Response> {
+  const config = getConfig();
+  const { searchParams } = context.url;
+  // The state cookie is single-use whatever the outcome
+  const clearState = stateCookie(context, basePath, '', 0);
+  const fail = (error: string, redirectTo: string | null = null) =>
+    redirect(resolveFailureTarget(error, redirectTo, context.url.origin), [clearState]);
+
+  const flow = verifyOAuthFlowState(
+    readCookie(context.request, OAUTH_STATE_COOKIE),
+    searchParams.get('state'),
+    config.secretServerKey
+  );
+  if (!flow) {
+    SecurityEvents.csrfViolation(context, { operation: 'oauthCallback' });
+    return fail('invalid_state');
+  }
+
+  const code = searchParams.get('code');
+  if (!code) {
+    logAuthFailure(context, 'OAuth provider returned no code', {
+      provider: flow.provider,
+      providerError: searchParams.get('error')
+    });
+    return fail(searchParams.get('error') === 'access_denied' ? 'access_denied' : 'oauth_failed', flow.redirectTo);
+  }
+
+  const client = new StackAuthRestClient(config);
+  let tokens;
+  try {
+    tokens = await client.exchangeOAuthCode({
+      code,
+      redirectUri: `${context.url.origin}${basePath}oauth/callback`,
+      codeVerifier: flow.codeVerifier
+    });
+  } catch (error) {
+    logAuthFailure(context, 'OAuth code exchange failed', {
+      provider: flow.provider,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return fail('oauth_failed', flow.redirectTo);
+  }
+
+  const userId = getTokenSubject(tokens.access_token) ?? undefined;
+  auditLogger.log({
+    eventType: AuditEventType.AUTH_SUCCESS,
+    message: `OAuth sign-in via ${flow.provider}`,
+    context,
+    userId,
+    details: { provider: flow.provider, method: 'oauth' }
+  });
+  if (userId) {
+    SecurityEvents.sessionCreated(context, userId, { provider: flow.provider, method: 'oauth' });
+  }
+
+  return redirect(resolveRedirectTarget(flow.redirectTo, context.url.origin), [
+    clearState,
+    ...createTokenCookies(tokens, {
+      secure: context.url.protocol === 'https:' || process.env.NODE_ENV === 'production'
+    })
+  ]);
+}
+
+/**
+ * Handle a request to an OAuth endpoint
+ * 
+ * @param stackPath - Path after the prefix, e.g. `oauth/github`
+ */
+export async function handleOAuthRequest(context: APIContext, stackPath: string, endpoint: OAuthEndpoint): Promise<Response> {
+  if (context.request.method !== 'GET') {
+    return new Response(null, { status: 405, headers: { Allow: 'GET' } });
+  }
+
+  // Prefix with trailing slash, e.g. "/handler/"
+  const pathname = context.url.pathname.replace(/\/+$/, '');
+  const basePath = pathname.slice(0, pathname.length - stackPath.replace(/\/+$/, '').length);
+
+  try {
+    return endpoint.type === 'callback'
+      ? await completeAuthorization(context, basePath)
+      : startAuthorization(context, basePath, endpoint.provider);
+  } catch (error) {
+    // Configuration missing or invalid
+    auditLogger.logSystemError(context, error instanceof Error ? error : new Error(String(error)), {
+      operation: 'oauth'
+    });
+    return new Response(JSON.stringify({
+      error: 'Service Unavailable',
+      message: 'Authentication service is not configured',
+      statusCode: 503
+    }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+    });
+  }
+}
@@ -7,6 +7,40 @@
 
 import type { APIContext } from 'astro';
 import { getAuthPerformanceStats, getAuthPerformanceSummary } from '../server/performance.js';
+import { renderMetrics, METRICS_CONTENT_TYPES } from '../server/metrics.js';
+import { secretsEqual } from '../server/security.js';
+
+/**
+ * Check the request's credentials
+ *
+ * Outside development the request needs `Authorization: Bearer <secret>`
+ * with the secret from `STACK_AUTH_METRICS_SECRET`; without one
+ * configured, the route is closed.
+ *
+ * @returns An error response, or null when access is allowed
+ */
+function authorize(request: Request, message: string): Response | null {
+  if (process.env.NODE_ENV === 'development') {
+    return null;
+  }
+
+  const secret = process.env.STACK_AUTH_METRICS_SECRET;
+  const authorization = request.headers.get('authorization');
+  if (secret && authorization?.startsWith('Bearer ') && secretsEqual(authorization.slice('Bearer '.length), secret)) {
+    return null;
+  }
+
+  return new Response(JSON.stringify({
+    error: 'Unauthorized',
+    message
+  }), {
+    status: 401,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
 
 /**
  * GET /handler/performance - Get authentication performance statistics
@@ -17,23 +51,27 @@ import { getAuthPerformanceStats, getAuthPerformanceSummary } from '../server/pe
  * - Cache hit rates for session operations
  * - Stack Auth provider API response times
  * - Performance alerts and recommendations
+ *
+ * With `format=prometheus` or `format=openmetrics`, returns cumulative
+ * histograms and counters for scraping instead. Every format requires the
+ * metrics secret outside development.
  */
 export async function GET({ url, request }: APIContext) {
   try {
-    // Check if this is an authorized request (basic protection)
-    const authHeader = request.headers.get('authorization');
-    const debugParam = url.searchParams.get('debug');
-    const isDevelopment = process.env.NODE_ENV === 'development';
-    
-    // Only allow access in development or with proper authorization
-    if (!isDevelopment && !authHeader?.startsWith('Bearer ') && debugParam !== 'true') {
-      return new Response(JSON.stringify({
-        error: 'Unauthorized',
-        message: 'Performance monitoring requires authorization'
-      }), {
-        status: 401,
+    // Only allow access in development or with the metrics secret
+    const denied = authorize(request, 'Performance monitoring requires authorization');
+    if (denied) {
+      return denied;
+    }
+
+    // Determine response format
+    const format = url.searchParams.get('format') || 'json';
+
+    if (format === 'prometheus' || format === 'openmetrics') {
+      return new Response(renderMetrics(format), {
+        status: 200,
         headers: {
-          'Content-Type': 'application/json',
+          'Content-Type': METRICS_CONTENT_TYPES[format],
           'Cache-Control': 'no-store'
         }
       });
@@ -43,9 +81,6 @@ export async function GET({ url, request }: APIContext) {
     const stats = getAuthPerformanceStats();
     const summary = getAuthPerformanceSummary();
 
-    // Determine response format
-    const format = url.searchParams.get('format') || 'json';
-    
     if (format === 'summary') {
       // Return just the summary for dashboards
       return new Response(JSON.stringify(summary, null, 2), {
@@ -129,25 +164,15 @@ export async function GET({ url, request }: APIContext) {
  * DELETE /handler/performance - Clear performance statistics
  * 
  * Clears all collected performance data. Useful for testing
- * or when starting fresh monitoring periods.
+ * or when starting fresh monitoring periods. Prometheus metrics are
+ * cumulative and are not cleared.
  */
 export async function DELETE({ request }: APIContext) {
   try {
     // Check authorization for destructive operations
-    const authHeader = request.headers.get('authorization');
-    const isDevelopment = process.env.NODE_ENV === 'development';
-    
-    if (!isDevelopment && !authHeader?.startsWith('Bearer ')) {
-      return new Response(JSON.stringify({
-        error: 'Unauthorized',
-        message: 'Clearing performance data requires authorization'
-      }), {
-        status: 401,
-        headers: {
-          'Content-Type': 'application/json',
-          'Cache-Control': 'no-store'
-        }
-      });
+    const denied = authorize(request, 'Clearing performance data requires authorization');
+    if (denied) {
+      return denied;
     }
 
     // Import the clear function
@@ -0,0 +1,149 @@
+/**
+ * Active sessions endpoint for "devices" pages
+ * 
+ * Served by the injected route handler instead of being proxied:
+ * - GET    {prefix}/sessions       - list the current user's sessions
+ * - DELETE {prefix}/sessions/{id}  - revoke one of them
+ * 
+ * Revoked sessions are dropped from the middleware's session cache
+ * straight away rather than when the cache entry expires.
+ */
+
+import type { APIContext } from 'astro';
+import type { User } from '../rest-api/types.js';
+import { StackAuthRestClient, StackAuthRestError } from '../rest-api/client.js';
+import { getConfig } from '../config.js';
+import { getEffectiveAccessToken } from '../server/token-refresh.js';
+import { invalidateCachedSessionById } from '../server/session-cache.js';
+import { clearTokenCookies } from '../server/cookies.js';
+import { auditLogger, AuditEventType, SecurityEvents } from '../server/audit.js';
+import { addSecurityHeaders, validateOrigin } from '../server/security.js';
+
+/**
+ * Match a handler path against the sessions endpoint
+ * 
+ * @returns The session ID segment (null for the collection), or undefined when the path is not the sessions endpoint
+ */
+export function matchSessionsEndpoint(path: string): string | null | undefined {
+  const match = /^sessions(?:\/([^/]+))?\/?$/.exec(path);
+  if (!match) {
+    return undefined;
+  }
+  return match[1] ? decodeURIComponent(match[1]) : null;
+}
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  const response = new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+  addSecurityHeaders(response.headers);
+  return response;
+}
+
+function errorResponse(error: string, message: string, status: number): Response {
+  return jsonResponse({ error, message, statusCode: status }, status);
+}
+
+/**
+ * Map a Stack Auth failure to a response
+ */
+function stackAuthErrorResponse(error: unknown): Response {
+  if (error instanceof StackAuthRestError && error.status === 404) {
+    return errorResponse('Not Found', 'Session not found', 404);
+  }
+  if (error instanceof StackAuthRestError && error.status === 401) {
+    return errorResponse('Unauthorized', 'Authentication required', 401);
+  }
+  return errorResponse('Bad Gateway', 'Authentication service temporarily unavailable', 502);
+}
+
+/**
+ * List the signed-in user's sessions, flagging the one making the request
+ */
+async function listSessions(context: APIContext, client: StackAuthRestClient, accessToken: string): Promise<Response> {
+  try {
+    const sessions = await client.listSessionsForToken(accessToken);
+    const currentSessionId = context.locals.session?.id;
+    return jsonResponse({
+      items: sessions.map(session => ({ ...session, isCurrent: session.id === currentSessionId }))
+    });
+  } catch (error) {
+    return stackAuthErrorResponse(error);
+  }
+}
+
+/**
+ * Revoke one of the signed-in user's sessions
+ */
+async function revokeSession(
+  context: APIContext,
+  client: StackAuthRestClient,
+  accessToken: string,
+  user: User,
+  sessionId: string
+): Promise<Response> {
+  // Cookies are SameSite=Lax, but don't rely on it for a state-changing call
+  if (!validateOrigin(context.request, [context.url.origin])) {
+    SecurityEvents.invalidOrigin(context, context.request.headers.get('origin') || 'unknown', { sessionId });
+    return errorResponse('Forbidden', 'Invalid request origin', 403);
+  }
+
+  try {
+    await client.revokeSessionForToken(accessToken, sessionId);
+  } catch (error) {
+    return stackAuthErrorResponse(error);
+  }
+
+  await invalidateCachedSessionById(sessionId);
+  auditLogger.log({
+    eventType: AuditEventType.SESSION_REVOKED,
+    message: `User ${user.id} revoked session ${sessionId}`,
+    context,
+    user,
+    details: { sessionId }
+  });
+
+  const response = jsonResponse({ success: true });
+  if (sessionId === context.locals.session?.id) {
+    // Revoking this browser's own session signs it out
+    clearTokenCookies({ secure: context.url.protocol === 'https:' || process.env.NODE_ENV === 'production' })
+      .forEach(cookie => response.headers.append('Set-Cookie', cookie));
+  }
+  return response;
+}
+
+/**
+ * Handle a request to the sessions endpoint
+ * 
+ * @param sessionId - Session to act on, or null for the collection
+ */
+export async function handleSessionsRequest(context: APIContext, sessionId: string | null): Promise<Response> {
+  const user = context.locals.user;
+  const accessToken = getEffectiveAccessToken(context.request);
+  if (!user || !accessToken) {
+    return errorResponse('Unauthorized', 'Authentication required', 401);
+  }
+
+  let client: StackAuthRestClient;
+  try {
+    client = new StackAuthRestClient(getConfig());
+  } catch {
+    return errorResponse('Service Unavailable', 'Authentication service is not configured', 503);
+  }
+
+  const method = context.request.method;
+  if (method === 'GET' && sessionId === null) {
+    return listSessions(context, client, accessToken);
+  }
+  if (method === 'DELETE' && sessionId !== null) {
+    return revokeSession(context, client, accessToken, user, sessionId);
+  }
+
+  const response = errorResponse('Method Not Allowed', `${method} is not supported here`, 405);
+  response.headers.set('Allow', sessionId === null ? 'GET' : 'DELETE');
+  return response;
+}
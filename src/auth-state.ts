@@ -329,9 +329,10 @@ export function getServerAuthState(locals: any): {
  * Create hydration script for passing server data to client
  * 
  * This generates a script tag that can be included in Astro pages
- * to pass server-side auth state to client components.
+ * to pass server-side auth state to client components. Pass
+ * `Astro.locals.cspNonce` as `nonce` when the `csp` option is enabled.
  */
-export function createHydrationScript(user: User | null, session: Session | null): string {
+export function createHydrationScript(user: User | null, session: Session | null, nonce?: string | null): string {
   const authData = {
     user: user ? {
       id: (user as any).id,
@@ -345,7 +346,7 @@ export function createHydrationScript(user: User | null, session: Session | null
     } : null
   };
   
-  return `<script>
+  return `<script${nonce ? ` nonce="${nonce}"` : ''}>
     window.__ASTRO_STACK_AUTH__ = ${JSON.stringify(authData)};
   </script>`;
 }
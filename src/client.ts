@@ -9,6 +9,7 @@ import type { SignInOptions, SignOutOptions } from './types.js';
 import { getAuthStateManager, initAuthState } from './client/state.js';
 import { initSync, broadcastSignIn, broadcastSignOut } from './client/sync.js';
 import { getAuthPrefix, buildAuthUrl, discoverAuthPrefix, clearPrefixCache } from './client/prefix.js';
+import { withCSRFHeader } from './client/csrf.js';
 
 /**
  * Client-side error class with recovery guidance
@@ -336,6 +337,10 @@ if (typeof window !== 'undefined') {
 /**
  * Sign in a user with Stack Auth
  * 
+ * With a provider, the browser is sent to the integration's OAuth route
+ * (`{prefix}/oauth/{provider}`). Without one, the sign-in is posted to
+ * `{prefix}/auth/signin`.
+ * 
  * @param provider - OAuth provider name (optional)
  * @param options - Sign in options
  */
@@ -343,6 +348,12 @@ export async function signIn(provider?: string, options: SignInOptions = {}): Pr
   const { redirectTo = window.location.origin, onSuccess, onError } = options;
   const authStateManager = getAuthStateManager();
   
+  if (provider) {
+    // The OAuth flow runs through full-page redirects, not fetch
+    window.location.href = buildAuthUrl(`oauth/${encodeURIComponent(provider)}`, { redirectTo });
+    return;
+  }
+  
   try {
     // Set loading state
     authStateManager.setLoading(true);
@@ -351,14 +362,11 @@ export async function signIn(provider?: string, options: SignInOptions = {}): Pr
     await performNetworkAwareOperation(
       // Primary operation - API-based sign in
       async () => {
-        const baseUrl = getAuthPrefix();
-        const endpoint = provider ? `${baseUrl}/signin/${provider}` : `${baseUrl}/signin`;
-        
-        const response = await fetch(endpoint, {
+        const response = await fetch(buildAuthUrl('auth/signin'), {
           method: 'POST',
-          headers: {
+          headers: withCSRFHeader({
             'Content-Type': 'application/json',
-          },
+          }),
           body: JSON.stringify({
             redirectTo: redirectTo
           }),
@@ -394,17 +402,8 @@ export async function signIn(provider?: string, options: SignInOptions = {}): Pr
         const finalRedirectTo = responseData.redirectUrl || redirectTo;
         window.location.href = finalRedirectTo;
       },
-      // Fallback operation - redirect-based sign in
-      () => {
-        console.warn('Sign in API unavailable, using redirect fallback');
-        
-        const baseUrl = getAuthPrefix();
-        const signInUrl = provider 
-          ? `${baseUrl}/signin/${provider}?redirectTo=${encodeURIComponent(redirectTo)}`
-          : `${baseUrl}/signin?redirectTo=${encodeURIComponent(redirectTo)}`;
-        
-        window.location.href = signInUrl;
-      },
+      // No fallback - there is no sign-in page to redirect to
+      undefined,
       {
         maxRetries: 3,
         timeout: 10000,
@@ -426,24 +425,8 @@ export async function signIn(provider?: string, options: SignInOptions = {}): Pr
     if (onError) {
       onError(clientError);
     } else {
-      // Check if fallback redirect should be used
-      const shouldFallback = clientError.code === 'NETWORK_ERROR' || 
-                           clientError.code === 'TIMEOUT' || 
-                           clientError.code === 'SERVICE_UNAVAILABLE';
-      
-      if (shouldFallback) {
-        // Fallback to redirect-based sign in for certain errors
-        console.warn('Sign in API failed, falling back to redirect method:', clientError.message);
-        const baseUrl = getAuthPrefix();
-        const signInUrl = provider 
-          ? `${baseUrl}/signin/${provider}?redirectTo=${encodeURIComponent(redirectTo)}`
-          : `${baseUrl}/signin?redirectTo=${encodeURIComponent(redirectTo)}`;
-        
-        window.location.href = signInUrl;
-      } else {
-        // For other errors, throw to let caller handle
-        throw clientError;
-      }
+      // Throw to let caller handle
+      throw clientError;
     }
   } finally {
     authStateManager.setLoading(false);
@@ -453,6 +436,10 @@ export async function signIn(provider?: string, options: SignInOptions = {}): Pr
 /**
  * Sign out the current user
  * 
+ * Ends the session with `DELETE {prefix}/auth/sessions/current`. If that
+ * fails, the local auth state is still cleared and the browser goes to
+ * `redirectTo`.
+ * 
  * @param options - Sign out options
  */
 export async function signOut(options: SignOutOptions = {}): Promise<void> {
@@ -495,15 +482,9 @@ export async function signOut(options: SignOutOptions = {}): Promise<void> {
     await performNetworkAwareOperation(
       // Primary operation - API call to sign out
       async () => {
-        const baseUrl = getAuthPrefix();
-        const response = await fetch(`${baseUrl}/signout`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            redirectTo: redirectTo
-          }),
+        const response = await fetch(buildAuthUrl('auth/sessions/current'), {
+          method: 'DELETE',
+          headers: withCSRFHeader(),
           credentials: 'same-origin'
         });
 
@@ -538,10 +519,8 @@ export async function signOut(options: SignOutOptions = {}): Promise<void> {
           onSuccess();
         }
         
-        // Try redirect-based sign out
-        const baseUrl = getAuthPrefix();
-        const signOutUrl = `${baseUrl}/signout?redirectTo=${encodeURIComponent(redirectTo)}`;
-        window.location.href = signOutUrl;
+        // The local auth state is already cleared
+        window.location.href = redirectTo;
       },
       {
         maxRetries: 3,
@@ -565,16 +544,8 @@ export async function signOut(options: SignOutOptions = {}): Promise<void> {
       onError(clientError);
     } else {
       // Always fall back to redirect on complete failure
-      console.error('All sign out methods failed, attempting final redirect fallback');
-      try {
-        const baseUrl = getAuthPrefix();
-        const signOutUrl = `${baseUrl}/signout?redirectTo=${encodeURIComponent(redirectTo)}`;
-        window.location.href = signOutUrl;
-      } catch (redirectError) {
-        // If even redirect fails, just redirect to the target destination
-        console.error('Redirect fallback failed, redirecting to target:', redirectError);
-        window.location.href = redirectTo;
-      }
+      console.error('All sign out methods failed, redirecting to target');
+      window.location.href = redirectTo;
     }
   } finally {
     authStateManager.setLoading(false);
@@ -649,7 +620,10 @@ export {
   useRequireAuth,
   useAuthGuard,
   useUserProfile,
-  useSessionManagement
+  useSessionManagement,
+  useSessions,
+  useTeams,
+  useSelectedTeam
 } from './client/hooks.js';
 
 // Export prefix discovery utilities
@@ -658,4 +632,7 @@ export {
   discoverAuthPrefix,
   clearPrefixCache,
   buildAuthUrl
-};
\ No newline at end of file
+};
+
+// Export CSRF helpers for custom fetch calls
+export { getCSRFToken, withCSRFHeader } from './client/csrf.js';
@@ -0,0 +1,38 @@
+/**
+ * Client-side CSRF token utilities
+ * 
+ * The Stack Auth middleware stores a per-session CSRF token in the
+ * `stack-auth-csrf-token` cookie. These helpers read it and send it in
+ * the `x-csrf-token` header so state-changing requests pass
+ * `requireCSRF` checks.
+ */
+
+const CSRF_COOKIE_NAME = 'stack-auth-csrf-token';
+const CSRF_HEADER_NAME = 'x-csrf-token';
+
+/**
+ * Get the CSRF token issued by the middleware
+ * 
+ * @returns The token, or null outside the browser or before one was issued
+ */
+export function getCSRFToken(): string | null {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+
+  for (const part of document.cookie.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === CSRF_COOKIE_NAME) {
+      return decodeURIComponent(part.slice(separator + 1).trim()) || null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Add the CSRF header to a set of request headers when a token is available
+ */
+export function withCSRFHeader(headers: Record<string, string> = {}): Record<string, string> {
+  const token = getCSRFToken();
+  return token ? { ...headers, [CSRF_HEADER_NAME]: token } : headers;
+}
@@ -6,9 +6,10 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { User, Session } from '../rest-api/types.js';
+import type { User, Session, Team, TeamCreateRequest, TeamUpdateRequest } from '../rest-api/types.js';
 import { getAuthStateManager, type AuthState } from './state.js';
 import { buildAuthUrl } from './prefix.js';
+import { withCSRFHeader } from './csrf.js';
 import { getSyncManager, type SyncMessage } from './sync.js';
 import { signIn as clientSignIn, signOut as clientSignOut } from '../client.js';
 
@@ -358,9 +359,9 @@ export function useUserProfile(): {
     try {
       const response = await fetch(buildAuthUrl('user/profile'), {
         method: 'PATCH',
-        headers: {
+        headers: withCSRFHeader({
           'Content-Type': 'application/json',
-        },
+        }),
         body: JSON.stringify(updates),
         credentials: 'same-origin'
       });
@@ -445,6 +446,223 @@ export function useSessionManagement(): {
   };
 }
 
+/**
+ * Hook for the current user's active sessions across devices
+ */
+export function useSessions(): {
+  sessions: Session[];
+  isLoading: boolean;
+  error: Error | null;
+  refreshSessions: () => Promise<void>;
+  revokeSession: (sessionId: string) => Promise<void>;
+} {
+  const { isAuthenticated } = useAuthState();
+  const { checkAuthStatus } = useAuthActions();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refreshSessions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(buildAuthUrl('sessions'), {
+        credentials: 'same-origin',
+        headers: { Accept: 'application/json' }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to load sessions: ${response.status}`);
+      }
+
+      const data: { items: Session[] } = await response.json();
+      setSessions(data.items);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load sessions'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshSessions();
+    } else {
+      setSessions([]);
+    }
+  }, [isAuthenticated, refreshSessions]);
+
+  const revokeSession = useCallback(async (sessionId: string) => {
+    const response = await fetch(buildAuthUrl(`sessions/${encodeURIComponent(sessionId)}`), {
+      method: 'DELETE',
+      credentials: 'same-origin',
+      headers: withCSRFHeader({ Accept: 'application/json' })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Session revocation failed: ${response.status}`);
+    }
+
+    const revoked = sessions.find(session => session.id === sessionId);
+    setSessions(current => current.filter(session => session.id !== sessionId));
+
+    // Revoking this browser's session signs it out
+    if (revoked?.isCurrent) {
+      await checkAuthStatus();
+    }
+  }, [sessions, checkAuthStatus]);
+
+  return {
+    sessions,
+    isLoading,
+    error,
+    refreshSessions,
+    revokeSession
+  };
+}
+
+/**
+ * Send a JSON request to a Stack Auth endpoint through the auth prefix
+ */
+async function requestTeamEndpoint<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: withCSRFHeader({
+      Accept: 'application/json',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+    }),
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    credentials: 'same-origin'
+  });
+
+  if (!response.ok) {
+    throw new Error(`Team request failed: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Hook for the teams the current user belongs to
+ */
+export function useTeams(): {
+  teams: Team[];
+  isLoading: boolean;
+  error: Error | null;
+  refreshTeams: () => Promise<void>;
+  createTeam: (data: TeamCreateRequest) => Promise<Team>;
+  updateTeam: (teamId: string, data: TeamUpdateRequest) => Promise<Team>;
+  inviteMember: (teamId: string, email: string, callbackUrl: string) => Promise<void>;
+} {
+  const { isAuthenticated } = useAuthState();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refreshTeams = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await requestTeamEndpoint<{ items: Team[] }>(
+        buildAuthUrl('teams', { user_id: 'me' }),
+        'GET'
+      );
+      setTeams(data.items);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load teams'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshTeams();
+    } else {
+      setTeams([]);
+    }
+  }, [isAuthenticated, refreshTeams]);
+
+  const createTeam = useCallback(async (data: TeamCreateRequest) => {
+    const team = await requestTeamEndpoint<Team>(buildAuthUrl('teams'), 'POST', {
+      ...data,
+      creator_user_id: 'me'
+    });
+    setTeams(current => [...current, team]);
+    return team;
+  }, []);
+
+  const updateTeam = useCallback(async (teamId: string, data: TeamUpdateRequest) => {
+    const team = await requestTeamEndpoint<Team>(
+      buildAuthUrl(`teams/${encodeURIComponent(teamId)}`),
+      'PATCH',
+      data
+    );
+    setTeams(current => current.map(existing => existing.id === team.id ? team : existing));
+    return team;
+  }, []);
+
+  // callbackUrl is the page that accepts the emailed invitation code
+  const inviteMember = useCallback(async (teamId: string, email: string, callbackUrl: string) => {
+    await requestTeamEndpoint(buildAuthUrl('team-invitations/send-code'), 'POST', {
+      team_id: teamId,
+      email,
+      callback_url: callbackUrl
+    });
+  }, []);
+
+  return {
+    teams,
+    isLoading,
+    error,
+    refreshTeams,
+    createTeam,
+    updateTeam,
+    inviteMember
+  };
+}
+
+/**
+ * Hook for the current user's selected team
+ */
+export function useSelectedTeam(): {
+  team: Team | null;
+  isLoading: boolean;
+  error: Error | null;
+  selectTeam: (teamId: string | null) => Promise<void>;
+} {
+  const { user, isLoading: isAuthLoading } = useAuthState();
+  const { refreshSession } = useAuthActions();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const selectTeam = useCallback(async (teamId: string | null) => {
+    setIsSwitching(true);
+    try {
+      await requestTeamEndpoint<User>(buildAuthUrl('users/me'), 'PATCH', {
+        selected_team_id: teamId
+      });
+      setError(null);
+
+      // Refresh session to get the updated selection
+      await refreshSession();
+    } catch (err) {
+      const switchError = err instanceof Error ? err : new Error('Failed to switch team');
+      setError(switchError);
+      throw switchError;
+    } finally {
+      setIsSwitching(false);
+    }
+  }, [refreshSession]);
+
+  return {
+    team: user?.selectedTeam ?? null,
+    isLoading: isAuthLoading || isSwitching,
+    error,
+    selectTeam
+  };
+}
+
 /**
  * Performance-optimized hook that only re-renders when specific auth properties change
  */
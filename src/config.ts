@@ -19,6 +19,15 @@ import {
   type ValidationResult
 } from './validation.js';
 import { validateStackAuthConnection } from './connection-validation.js';
+import { getConfiguredStackAuthUrl } from './stack-auth-url.js';
+
+/**
+ * The configured Stack Auth base URL as a config field, if one is set
+ */
+function configuredBaseUrl(): Pick<StackAuthConfig, 'baseUrl'> {
+  const baseUrl = getConfiguredStackAuthUrl();
+  return baseUrl ? { baseUrl } : {};
+}
 
 /**
  * Get Stack Auth configuration from environment variables with comprehensive validation
@@ -63,7 +72,7 @@ export function getConfig(): StackAuthConfig {
     publishableClientKey: process.env.STACK_PUBLISHABLE_CLIENT_KEY!,
     secretServerKey: process.env.STACK_SECRET_SERVER_KEY!,
     prefix: process.env.STACK_AUTH_PREFIX || '/handler',
-    ...(process.env.STACK_BASE_URL && { baseUrl: process.env.STACK_BASE_URL })
+    ...configuredBaseUrl()
   };
 
   // Validate the configuration object
@@ -121,7 +130,7 @@ export function tryGetConfig(): { config: StackAuthConfig | null; validation: Va
       publishableClientKey: process.env.STACK_PUBLISHABLE_CLIENT_KEY!,
       secretServerKey: process.env.STACK_SECRET_SERVER_KEY!,
       prefix: process.env.STACK_AUTH_PREFIX || '/handler',
-      ...(process.env.STACK_BASE_URL && { baseUrl: process.env.STACK_BASE_URL })
+      ...configuredBaseUrl()
     };
 
     const configValidation = validateConfiguration(config);
@@ -228,7 +237,7 @@ export async function validateConfigWithConnection(options: ValidationOptions =
       publishableClientKey: process.env.STACK_PUBLISHABLE_CLIENT_KEY!,
       secretServerKey: process.env.STACK_SECRET_SERVER_KEY!,
       prefix: process.env.STACK_AUTH_PREFIX || '/handler',
-      ...(process.env.STACK_BASE_URL && { baseUrl: process.env.STACK_BASE_URL })
+      ...configuredBaseUrl()
     };
 
     const connectionResult = await validateStackAuthConnection(config, options);
@@ -270,7 +279,7 @@ export async function tryGetConfigWithValidation(options: ValidationOptions = {}
       publishableClientKey: process.env.STACK_PUBLISHABLE_CLIENT_KEY!,
       secretServerKey: process.env.STACK_SECRET_SERVER_KEY!,
       prefix: process.env.STACK_AUTH_PREFIX || '/handler',
-      ...(process.env.STACK_BASE_URL && { baseUrl: process.env.STACK_BASE_URL })
+      ...configuredBaseUrl()
     };
 
     return {
@@ -300,7 +309,7 @@ export function getConfigSummary(): Record<string, string | boolean> {
     hasProjectId: !!process.env.STACK_PROJECT_ID,
     hasPublishableKey: !!process.env.STACK_PUBLISHABLE_CLIENT_KEY,
     hasSecretKey: !!process.env.STACK_SECRET_SERVER_KEY,
-    hasBaseUrl: !!process.env.STACK_BASE_URL,
+    hasBaseUrl: !!getConfiguredStackAuthUrl(),
     prefix: process.env.STACK_AUTH_PREFIX || '/handler'
   };
 
@@ -11,6 +11,7 @@ import type {
   ValidationOptions,
   ConnectionCacheEntry 
 } from './types.js';
+import { getStackAuthApiUrl } from './stack-auth-url.js';
 
 // Connection validation cache
 const connectionCache = new Map<string, ConnectionCacheEntry>();
@@ -102,13 +103,13 @@ async function testApiReachability(
   timeout: number
 ): Promise<void> {
   try {
-    const baseUrl = config.baseUrl || 'https://api.stack-auth.com';
+    const apiUrl = getStackAuthApiUrl(config.baseUrl);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
     try {
       // Test basic connectivity with a simple endpoint
-      const response = await fetch(`${baseUrl}/v1/projects/${config.projectId}`, {
+      const response = await fetch(`${apiUrl}/projects/${config.projectId}`, {
         method: 'GET',
         headers: {
           'X-Stack-Publishable-Client-Key': config.publishableClientKey,
@@ -146,7 +147,7 @@ async function testApiReachability(
           `   Troubleshooting:\n` +
           `   • Check internet connection\n` +
           `   • Verify firewall settings\n` +
-          `   • Test: curl https://api.stack-auth.com/health\n` +
+          `   • Test: curl ${apiUrl}/health\n` +
           `   • Check proxy configuration if applicable`
         );
         result.apiReachable = false;
@@ -178,12 +179,12 @@ async function testProjectValidation(
   }
 
   try {
-    const baseUrl = config.baseUrl || 'https://api.stack-auth.com';
+    const apiUrl = getStackAuthApiUrl(config.baseUrl);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
     try {
-      const response = await fetch(`${baseUrl}/v1/projects/${config.projectId}`, {
+      const response = await fetch(`${apiUrl}/projects/${config.projectId}`, {
         method: 'GET',
         headers: {
           'X-Stack-Publishable-Client-Key': config.publishableClientKey,
@@ -255,13 +256,13 @@ async function testCredentialValidation(
   }
 
   try {
-    const baseUrl = config.baseUrl || 'https://api.stack-auth.com';
+    const apiUrl = getStackAuthApiUrl(config.baseUrl);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
     try {
       // Test server key by trying to access a server-side endpoint like users
-      const response = await fetch(`${baseUrl}/v1/users`, {
+      const response = await fetch(`${apiUrl}/users`, {
         method: 'GET',
         headers: {
           'X-Stack-Secret-Server-Key': config.secretServerKey,
@@ -311,15 +312,15 @@ async function testPermissionValidation(
   }
 
   try {
-    const baseUrl = config.baseUrl || 'https://api.stack-auth.com';
+    const apiUrl = getStackAuthApiUrl(config.baseUrl);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
     try {
       // Test various permissions by checking different endpoints
       const permissionTests = [
-        { name: 'Read users', endpoint: `${baseUrl}/v1/users` },
-        { name: 'Read project', endpoint: `${baseUrl}/v1/projects/${config.projectId}` }
+        { name: 'Read users', endpoint: `${apiUrl}/users` },
+        { name: 'Read project', endpoint: `${apiUrl}/projects/${config.projectId}` }
       ];
 
       let hasRequiredPermissions = true;
@@ -91,7 +91,8 @@ export function extractAuthDataForHydration(locals: any, config: HydrationConfig
  * Create hydration script tag for Astro pages
  * 
  * This function generates a script tag that can be included in Astro pages
- * to pass authentication state to client components.
+ * to pass authentication state to client components. The tag carries the
+ * request's CSP nonce when the `csp` option is enabled.
  */
 export function createAuthHydrationScript(locals: any, config: HydrationConfig = {}): string {
   const hydrationData = extractAuthDataForHydration(locals, config);
@@ -114,11 +115,12 @@ export function createAuthHydrationScript(locals: any, config: HydrationConfig =
   `.trim();
   
   if (inlineScript) {
+    const nonce = locals?.cspNonce ? ` nonce="${locals.cspNonce}"` : '';
     const scriptTag = strategy === 'defer' 
-      ? `<script id="${scriptId}" defer>${scriptContent}</script>`
+      ? `<script id="${scriptId}"${nonce} defer>${scriptContent}</script>`
       : strategy === 'module'
-      ? `<script id="${scriptId}" type="module">${scriptContent}</script>`
-      : `<script id="${scriptId}">${scriptContent}</script>`;
+      ? `<script id="${scriptId}"${nonce} type="module">${scriptContent}</script>`
+      : `<script id="${scriptId}"${nonce}>${scriptContent}</script>`;
     
     return scriptTag;
   } else {
@@ -7,7 +7,9 @@
  */
 
 import type { AstroIntegration } from 'astro';
-import type { StackAuthConfig } from './types.js';
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+import type { StackAuthConfig, StackAuthRuntimeOptions } from './types.js';
 import { 
   validateAndThrowWithDependencies,
   validateRuntimeCompatibility,
@@ -20,13 +22,15 @@ import {
   createErrorWithGuide
 } from './errors.js';
 import { hasValidConfig, getConfigSummary } from './config.js';
+import { setRuntimeOptions } from './runtime-options.js';
+import { serializeRuntimeOptions, createRuntimeOptionsPlugin } from './runtime-options-plugin.js';
 import { 
   createErrorOverlayIntegration,
   createDevExperience,
   type DevValidationContext 
 } from './dev-tools.js';
 
-export interface StackAuthOptions {
+export interface StackAuthOptions extends StackAuthRuntimeOptions {
   /**
    * Custom prefix for auth endpoints
    * @default '/handler'
@@ -67,6 +71,13 @@ export interface StackAuthOptions {
    * @default true in development, false in production
    */
   enableDevTools?: boolean;
+
+  /**
+   * Module whose default export holds the runtime options that cannot be
+   * built into the server bundle as data: stores, sinks, tracers and
+   * callbacks. Resolved from the project root, e.g. `'./src/auth-options.ts'`.
+   */
+  runtimeModule?: string;
 }
 
 /**
@@ -84,13 +95,52 @@ export function astroStackAuth(options: StackAuthOptions = {}): AstroIntegration
     addMiddleware: enableMiddleware = true,
     config = {}, // eslint-disable-line @typescript-eslint/no-unused-vars
     skipValidation = false,
-    enableDevTools = process.env.NODE_ENV === 'development'
+    enableDevTools = process.env.NODE_ENV === 'development',
+    runtimeModule,
+    sessionCache,
+    rateLimitStore,
+    jwtVerification,
+    forbiddenUrl,
+    signInUrl,
+    protect,
+    trustedProxies,
+    csp,
+    audit,
+    auditEndpoint,
+    tracing,
+    baseUrl,
+    proxyRoutes,
+    proxyMaxBodySize,
+    cors,
+    cookies
   } = options;
 
+  // Make request-time options available to the middleware and injected routes
+  // in this process; a production server loads them from the server build
+  const runtimeOptions: StackAuthRuntimeOptions = {
+    sessionCache,
+    rateLimitStore,
+    jwtVerification,
+    forbiddenUrl,
+    signInUrl,
+    protect,
+    trustedProxies,
+    csp,
+    audit,
+    auditEndpoint,
+    tracing,
+    baseUrl,
+    proxyRoutes,
+    proxyMaxBodySize,
+    cors,
+    cookies
+  };
+  setRuntimeOptions(runtimeOptions);
+
   return {
     name: 'astro-stack-auth',
     hooks: {
-      'astro:config:setup': ({ injectRoute, addMiddleware, addRenderer, logger }) => {
+      'astro:config:setup': ({ injectRoute, addMiddleware, addRenderer, updateConfig, config: astroConfig, command, logger }) => {
         try {
           logger.info('🔐 Setting up Stack Auth integration...');
 
@@ -142,6 +192,28 @@ export function astroStackAuth(options: StackAuthOptions = {}): AstroIntegration
             logger.warn('⚠️  Stack Auth validation skipped - ensure configuration is valid');
           }
 
+          // Build the runtime options into the server bundle
+          const { source, unserializable } = serializeRuntimeOptions(runtimeOptions);
+          if (unserializable.length > 0) {
+            const message = `Options ${unserializable.join(', ')} cannot be built into the server bundle - export them from the module named by the runtimeModule option instead`;
+            if (command === 'build') {
+              throw new StackAuthIntegrationError(message);
+            }
+            logger.warn(`⚠️  ${message}`);
+          }
+          updateConfig({
+            vite: {
+              plugins: [
+                createRuntimeOptionsPlugin(
+                  source,
+                  runtimeModule && resolve(fileURLToPath(astroConfig.root), runtimeModule)
+                )
+              ],
+              // The middleware and routes must be bundled to import the options module
+              ssr: { noExternal: ['astro-stack-auth'] }
+            }
+          });
+
           // Add React renderer for Stack Auth UI components if requested
           if (addReactRenderer) {
             try {
@@ -262,4 +334,88 @@ export { basicStackAuth as basicIntegration };
 export default astroStackAuth;
 
 // Re-export types for convenience  
-export type { StackAuthConfig } from './types.js';
+export type { StackAuthConfig, StackAuthRuntimeOptions, ProtectRule } from './types.js';
+
+// Session cache stores for the sessionCache option
+export {
+  LRUSessionCacheStore,
+  RedisSessionCacheStore,
+  type SessionCacheStore,
+  type CachedSession,
+  type RedisLikeClient,
+  type LRUSessionCacheStoreOptions,
+  type RedisSessionCacheStoreOptions
+} from './server/session-cache.js';
+
+// Rate limit stores for the rateLimitStore option
+export {
+  InMemoryRateLimitStore,
+  RedisRateLimitStore,
+  type RateLimitStore,
+  type RateLimitHit,
+  type RateLimitAlgorithm,
+  type RedisScriptClient,
+  type RedisRateLimitStoreOptions
+} from './server/rate-limiting.js';
+
+// Proxy configuration for the trustedProxies option
+export type { TrustedProxies } from './server/trusted-proxies.js';
+
+// Audit log sinks and anomaly detection for the audit option
+export {
+  ConsoleAuditSink,
+  type AuditSink,
+  type AuditConfig,
+  type AuditLogEntry
+} from './server/audit.js';
+export {
+  BatchingAuditSink,
+  FileAuditSink,
+  WebhookAuditSink,
+  FunctionAuditSink,
+  type BatchingAuditSinkOptions,
+  type FileAuditSinkOptions,
+  type WebhookAuditSinkOptions
+} from './server/audit-sinks.js';
+export type {
+  AnomalyDetectionOptions,
+  AnomalyRuleOptions,
+  AnomalyRule,
+  Anomaly,
+  GeoLocation
+} from './server/anomaly-detection.js';
+
+// Access control for the auditEndpoint option
+export type { AuditEndpointOptions } from './api/audit.js';
+
+// OpenTelemetry tracer types for the tracing option
+export type {
+  TracingOptions,
+  TracingTracer,
+  TracingSpan,
+  TracingSpanContext,
+  TracingSpanOptions
+} from './server/tracing.js';
+
+// Endpoint policy for the proxyRoutes option
+export {
+  DEFAULT_PROXY_ROUTES,
+  type ProxyRoute,
+  type ProxyKey
+} from './server/proxy-policy.js';
+
+// Cross-origin access for the cors option
+export type { CorsOptions, CorsOrigin } from './server/cors.js';
+
+// Auth cookie names and attributes for the cookies option
+export type { AuthCookieOptions } from './server/cookies.js';
+
+// Content-Security-Policy for the csp option
+export type { CSPOptions } from './server/csp.js';
+
+// Local access token verification for the jwtVerification option
+export {
+  JwtVerificationError,
+  type JwtVerificationOptions,
+  type AccessTokenClaims
+} from './server/jwt.js';
@@ -19,70 +19,166 @@ import {
 import type { StackAuthConfig } from './types.js';
 import type { User, Session } from './rest-api/types.js';
 import { recordProviderApiTime } from './server/performance.js';
-import { StackAuthRestClient } from './rest-api/client.js';
-
-// Simple in-memory session cache for performance optimization
-interface CachedSession {
-  user: User | null;
-  session: Session | null;
-  timestamp: number;
-}
+import { authMetrics } from './server/metrics.js';
+import { withSpan } from './server/tracing.js';
+import { StackAuthRestClient, extractAccessToken, extractRefreshToken } from './rest-api/client.js';
+import { 
+  getSessionCacheStore,
+  createSessionCacheKey,
+  invalidateCachedSession,
+  isCachedSessionRevoked,
+  isSessionInvalidated
+} from './server/session-cache.js';
+import { getRuntimeOptions, loadRuntimeOptions } from './runtime-options.js';
+import {
+  getRemoteJwks,
+  getDefaultJwksUrl,
+  verifyAccessToken,
+  userFromClaims,
+  sessionFromClaims,
+  isTokenExpired,
+  JwtVerificationError
+} from './server/jwt.js';
+import { refreshAccessToken, setRefreshedAccessToken } from './server/token-refresh.js';
+import { createTokenCookies, appendSetCookies } from './server/cookies.js';
+import { enforceRouteProtection } from './server/route-protection.js';
+import { getSelectedTeam } from './server/teams.js';
+import { issueCSRFToken } from './server/csrf.js';
+import { setClientAddress } from './server/trusted-proxies.js';
+import { getCSPOptions, generateCSPNonce, applyContentSecurityPolicy } from './server/csp.js';
 
-const sessionCache = new Map<string, CachedSession>();
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+/**
+ * Stack Auth endpoints (relative to the prefix) that end or rotate a session.
+ * Requests to these invalidate the cached session for the current token.
+ */
+const SESSION_ENDING_ENDPOINTS = [
+  'signout',
+  'auth/signout',
+  'auth/oauth/token',
+  'auth/sessions/current',
+  'auth/sessions/current/refresh'
+];
 
 /**
- * Generate cache key from request for session caching
+ * Check whether the request signs out or refreshes the current session
  */
-function generateCacheKey(request: Request): string {
-  // Use cookies as primary cache key source
-  const cookies = request.headers.get('cookie') || '';
-  const authCookies = cookies.split(';')
-    .filter(cookie => cookie.trim().startsWith('stack-'))
-    .sort()
-    .join(';');
-  
-  // Fallback to Authorization header if no auth cookies
-  if (!authCookies) {
-    const authHeader = request.headers.get('authorization') || request.headers.get('x-stack-auth') || '';
-    return `auth:${authHeader.slice(0, 32)}`; // Use first 32 chars for cache key
+function isSessionEndingRequest(url: URL, prefix: string): boolean {
+  const normalizedPrefix = prefix.replace(/\/+$/, '');
+  if (!url.pathname.startsWith(`${normalizedPrefix}/`)) {
+    return false;
   }
-  
-  return `cookies:${authCookies.slice(0, 64)}`; // Use first 64 chars for cache key
+
+  const endpoint = url.pathname.slice(normalizedPrefix.length + 1).replace(/\/+$/, '');
+  return SESSION_ENDING_ENDPOINTS.includes(endpoint);
 }
 
 /**
- * Get cached session if valid and within TTL
+ * Get cached session if present in the store
+ * 
+ * Store failures (e.g. Redis unavailable) and entries cached before the
+ * user's sessions were invalidated, by this or another instance, are
+ * treated as cache misses.
  */
-function getCachedSession(cacheKey: string): { user: User | null; session: Session | null } | null {
-  const cached = sessionCache.get(cacheKey);
-  if (cached && (Date.now() - cached.timestamp) < CACHE_TTL) {
+async function getCachedSession(cacheKey: string): Promise<{ user: User | null; session: Session | null } | null> {
+  try {
+    const cached = await getSessionCacheStore().get(cacheKey);
+    if (!cached || await isCachedSessionRevoked(cached)) {
+      authMetrics.sessionCacheRequests.inc({ result: 'miss' });
+      return null;
+    }
+    authMetrics.sessionCacheRequests.inc({ result: 'hit' });
     return { user: cached.user, session: cached.session };
+  } catch (error) {
+    authMetrics.sessionCacheRequests.inc({ result: 'error' });
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('⚠️  Stack Auth session cache read failed:', error instanceof Error ? error.message : error);
+    }
+    return null;
   }
-  
-  // Clean up expired cache entry
-  if (cached) {
-    sessionCache.delete(cacheKey);
-  }
-  
-  return null;
 }
 
 /**
  * Cache session data with timestamp
  */
-function setCachedSession(cacheKey: string, user: User | null, session: Session | null): void {
-  sessionCache.set(cacheKey, {
-    user,
-    session,
-    timestamp: Date.now()
-  });
+async function setCachedSession(cacheKey: string, user: User | null, session: Session | null): Promise<void> {
+  try {
+    await getSessionCacheStore().set(cacheKey, {
+      user,
+      session,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('⚠️  Stack Auth session cache write failed:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Remove the cached session for a token, ignoring store failures
+ */
+async function invalidateSessionCacheEntry(accessToken: string, secret: string): Promise<void> {
+  try {
+    await invalidateCachedSession(accessToken, secret);
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('⚠️  Stack Auth session cache invalidation failed:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Verify the access token locally when `jwtVerification` is enabled
+ * 
+ * Returns null when local verification is disabled or the JWKS cannot be
+ * fetched, in which case the caller falls back to the REST API. Tokens that
+ * fail verification resolve to an anonymous request.
+ */
+async function verifySessionLocally(
+  config: StackAuthConfig,
+  accessToken: string
+): Promise<{ user: User | null; session: Session | null } | null> {
+  const { jwtVerification } = getRuntimeOptions();
+  if (!jwtVerification) {
+    return null;
+  }
+
+  const options = jwtVerification === true ? {} : jwtVerification;
+  const jwks = getRemoteJwks(
+    options.jwksUrl || getDefaultJwksUrl(config.projectId, config.baseUrl),
+    options.cacheTtl
+  );
+
+  try {
+    const claims = await verifyAccessToken(accessToken, jwks, {
+      issuer: options.issuer,
+      audience: options.audience ?? config.projectId,
+      clockTolerance: options.clockTolerance
+    });
+    const session = sessionFromClaims(claims);
+    if (isSessionInvalidated(session.id)) {
+      // Revoked through this server - don't wait for the token to expire
+      return { user: null, session: null };
+    }
+    return { user: userFromClaims(claims), session };
+  } catch (error) {
+    const isUnavailable = !(error instanceof JwtVerificationError) || error.code === 'JWKS_UNAVAILABLE';
+    if (process.env.NODE_ENV === 'development') {
+      console.warn(
+        isUnavailable
+          ? '⚠️  Stack Auth JWKS unavailable, falling back to API validation:'
+          : '⚠️  Stack Auth access token rejected:',
+        error instanceof Error ? error.message : error
+      );
+    }
+    return isUnavailable ? null : { user: null, session: null };
+  }
 }
 
 /**
  * Validate session and resolve user using Stack Auth REST API
  */
-async function validateSession(config: StackAuthConfig, request: Request): Promise<{ user: User | null; session: Session | null }> {
+async function validateSession(config: StackAuthConfig, accessToken: string): Promise<{ user: User | null; session: Session | null }> {
   try {
     // Initialize Stack Auth REST client
     const client = new StackAuthRestClient({
@@ -95,8 +191,8 @@ async function validateSession(config: StackAuthConfig, request: Request): Promi
     // Track Stack Auth API response time
     const apiStartTime = performance.now();
     
-    // Get user and session - REST client handles token extraction from request
-    const { user, session } = await client.getUserAndSession(request);
+    // Get user and session for the access token
+    const { user, session } = await client.getUserAndSessionForToken(accessToken);
     
     // Record API response time
     const apiResponseTime = performance.now() - apiStartTime;
@@ -114,6 +210,68 @@ async function validateSession(config: StackAuthConfig, request: Request): Promi
   }
 }
 
+/**
+ * Resolve the user and session for an access token
+ * 
+ * Uses local JWT verification when enabled, otherwise the session cache
+ * backed by the Stack Auth REST API.
+ */
+async function resolveSession(
+  config: StackAuthConfig,
+  url: URL,
+  accessToken: string
+): Promise<{ user: User | null; session: Session | null }> {
+  const verified = await verifySessionLocally(config, accessToken);
+  if (verified) {
+    // Verified locally - no network round trip and nothing to cache
+    return verified;
+  }
+
+  // Keyed hash of the full access token
+  const cacheKey = createSessionCacheKey(accessToken, config.secretServerKey);
+
+  // Try to get cached session first
+  const cached = await getCachedSession(cacheKey);
+  if (cached) {
+    if (process.env.NODE_ENV === 'development' && url.searchParams.has('debug-auth')) {
+      console.log('🔍 Stack Auth: Using cached session data');
+    }
+    return cached;
+  }
+
+  // No valid cache - perform session validation
+  const { user, session } = await validateSession(config, accessToken);
+
+  // Cache the session data
+  await setCachedSession(cacheKey, user, session);
+
+  if (process.env.NODE_ENV === 'development' && url.searchParams.has('debug-auth')) {
+    console.log('🔍 Stack Auth: Session validated and cached', {
+      hasUser: !!user,
+      hasSession: !!session
+    });
+  }
+
+  return { user, session };
+}
+
+/**
+ * Render the page or endpoint
+ * 
+ * `requireAuth()` and the other server helpers throw their 401/403 or
+ * redirect Response; it becomes the response for the request.
+ */
+async function renderRoute(next: () => Promise<Response>): Promise<Response> {
+  try {
+    return await next();
+  } catch (error) {
+    if (error instanceof Response) {
+      return error;
+    }
+    throw error;
+  }
+}
+
 /**
  * Stack Auth middleware with full session management
  * 
@@ -121,6 +279,25 @@ async function validateSession(config: StackAuthConfig, request: Request): Promi
  * resolves user data, and populates Astro.locals with caching optimization.
  */
 export const onRequest = defineMiddleware(async (context, next) => {
+  // Set-Cookie headers for tokens refreshed during this request
+  let refreshedCookies: string[] = [];
+  
+  // Set-Cookie header for a newly issued CSRF token
+  let csrfCookies: string[] = [];
+  
+  // A production server reads the integration options from the server build
+  await loadRuntimeOptions();
+  
+  // Record the connection address for client IP resolution
+  try {
+    setClientAddress(context.request, context.clientAddress);
+  } catch {
+    // clientAddress throws for prerendered pages and adapters without it
+  }
+  
+  // Nonce for inline scripts allowed by the Content-Security-Policy
+  context.locals.cspNonce = getCSPOptions() ? generateCSPNonce() : null;
+  
   try {
     // Validate Stack Auth configuration
     const { config, validation } = tryGetConfig();
@@ -184,6 +361,8 @@ export const onRequest = defineMiddleware(async (context, next) => {
       // Set locals to null when configuration is invalid
       context.locals.user = null;
       context.locals.session = null;
+      context.locals.team = null;
+      context.locals.csrfToken = null;
     } else {
       // Configuration is valid - proceed with session management
       
@@ -195,49 +374,79 @@ export const onRequest = defineMiddleware(async (context, next) => {
         );
       }
       
-      // Generate cache key for this request
-      const cacheKey = generateCacheKey(context.request);
+      // Resolve the session in a span of its own when tracing is enabled
+      await withSpan('stack-auth.middleware.session', { attributes: { 'url.path': context.url.pathname } }, async span => {
+        const accessToken = extractAccessToken(context.request);
+        const refreshToken = extractRefreshToken(context.request);
       
-      // Try to get cached session first
-      const cached = getCachedSession(cacheKey);
-      if (cached) {
-        // Use cached session data
-        context.locals.user = cached.user;
-        context.locals.session = cached.session;
-        
-        if (process.env.NODE_ENV === 'development' && context.url.searchParams.has('debug-auth')) {
-          console.log('🔍 Stack Auth: Using cached session data');
-        }
-      } else {
-        // No valid cache - perform session validation
-        if (!config) {
-          // Handle null config case - set empty locals and continue
+        if (!config || (!accessToken && !refreshToken)) {
+          // No configuration or no credentials - nothing to validate or cache
           context.locals.user = null;
           context.locals.session = null;
-          setCachedSession(cacheKey, null, null);
-        } else {
-          const { user, session } = await validateSession(config, context.request);
+          context.locals.team = null;
+        } else if (isSessionEndingRequest(context.url, config.prefix || '/handler')) {
+          // Sign-out or token refresh - drop the cached session so the old
+          // token is never served from cache again
+          if (accessToken) {
+            await invalidateSessionCacheEntry(accessToken, config.secretServerKey);
+          }
         
-          // Populate Astro.locals
+          const { user, session } = accessToken
+            ? await validateSession(config, accessToken)
+            : { user: null, session: null };
           context.locals.user = user;
           context.locals.session = session;
-          
-          // Cache the session data
-          setCachedSession(cacheKey, user, session);
-          
-          if (process.env.NODE_ENV === 'development' && context.url.searchParams.has('debug-auth')) {
-            console.log('🔍 Stack Auth: Session validated and cached', {
-              hasUser: !!user,
-              hasSession: !!session,
-              cacheKey: cacheKey.slice(0, 20) + '...'
-            });
+          context.locals.team = await getSelectedTeam(user);
+        } else {
+          let resolved = accessToken && !isTokenExpired(accessToken)
+            ? await resolveSession(config, context.url, accessToken)
+            : { user: null, session: null };
+        
+          if (!resolved.user && refreshToken) {
+            // Access token missing, expired or rejected - exchange the refresh token
+            const tokens = await refreshAccessToken(config, refreshToken);
+            if (tokens) {
+              setRefreshedAccessToken(context.request, tokens.access_token);
+              refreshedCookies = createTokenCookies(tokens, {
+                secure: context.url.protocol === 'https:' || process.env.NODE_ENV === 'production'
+              });
+              resolved = await resolveSession(config, context.url, tokens.access_token);
+            } else if (process.env.NODE_ENV === 'development') {
+              console.warn('⚠️  Stack Auth token refresh failed - treating request as signed out');
+            }
           }
+        
+          context.locals.user = resolved.user;
+          context.locals.session = resolved.session;
+          context.locals.team = await getSelectedTeam(resolved.user);
         }
+        
+        span?.setAttribute('stack_auth.authenticated', !!context.locals.user);
+        span?.setAttribute('stack_auth.token_refreshed', refreshedCookies.length > 0);
+      });
+      
+      // Issue the CSRF token for the resolved session, rotating it when the session changed
+      if (config) {
+        csrfCookies = issueCSRFToken(context, config.secretServerKey, {
+          secure: context.url.protocol === 'https:' || process.env.NODE_ENV === 'production'
+        });
+      } else {
+        context.locals.csrfToken = null;
       }
     }
     
-    // Continue with request processing
-    return await next();
+    // Apply the protect rules before any page or endpoint runs
+    const denied = await enforceRouteProtection(context, config?.prefix);
+    if (denied) {
+      return appendSetCookies(denied, [...refreshedCookies, ...csrfCookies]);
+    }
+    
+    // Continue with request processing, writing rotated tokens to the response
+    const response = applyContentSecurityPolicy(await renderRoute(next), context.locals.cspNonce, {
+      prefix: config?.prefix,
+      baseUrl: config?.baseUrl
+    });
+    return appendSetCookies(response, [...refreshedCookies, ...csrfCookies]);
     
   } catch (error) {
     // Handle unexpected errors gracefully
@@ -257,8 +466,16 @@ export const onRequest = defineMiddleware(async (context, next) => {
     // Ensure locals are set even on error
     context.locals.user = null;
     context.locals.session = null;
+    context.locals.team = null;
+    context.locals.csrfToken = null;
+    
+    // Protected routes stay closed while authentication is unavailable
+    const denied = await enforceRouteProtection(context);
+    if (denied) {
+      return denied;
+    }
     
     // Continue processing - don't let middleware errors break the application
-    return await next();
+    return applyContentSecurityPolicy(await renderRoute(next), context.locals.cspNonce);
   }
 });
\ No newline at end of file
@@ -6,6 +6,9 @@
  */
 
 import type { StackAuthConfig } from '../types.js';
+import { withSpan, traceContextHeaders, SpanKind } from '../server/tracing.js';
+import { resolveStackAuthUrl, getStackAuthApiUrl } from '../stack-auth-url.js';
+import { readAccessTokenCookie, readRefreshTokenCookie } from '../server/cookies.js';
 import type { 
   User, 
   Session, 
@@ -18,6 +21,20 @@ import type {
   OTPSignInRequest,
   EmailVerificationRequest,
   UserUpdateRequest,
+  ProjectPermission,
+  ListResponse,
+  Team,
+  TeamMember,
+  TeamInvitation,
+  TeamCreateRequest,
+  TeamUpdateRequest,
+  TeamInvitationRequest,
+  CursorPage,
+  ListUsersOptions,
+  AdminUserUpdateRequest,
+  ImpersonationSession,
+  OAuthAuthorizationOptions,
+  OAuthCodeExchangeRequest,
   StackAuthError
 } from './types.js';
 
@@ -39,7 +56,51 @@ export class StackAuthRestError extends Error {
   }
 }
 
+/**
+ * Extract access token from cookies or headers
+ */
+export function extractAccessToken(request: Request): string | null {
+  // Check the configured cookie first
+  const cookieToken = readAccessTokenCookie(request);
+  if (cookieToken) {
+    return cookieToken;
+  }
+
+  // Check Authorization header
+  const authHeader = request.headers.get('authorization');
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  // Check X-Stack-Access-Token header
+  const stackTokenHeader = request.headers.get('x-stack-access-token');
+  if (stackTokenHeader) {
+    return stackTokenHeader;
+  }
+
+  return null;
+}
+
+/**
+ * Extract refresh token from cookies
+ */
+export function extractRefreshToken(request: Request): string | null {
+  const cookieToken = readRefreshTokenCookie(request);
+  if (cookieToken) {
+    return cookieToken;
+  }
+
+  // Check X-Stack-Refresh-Token header
+  const refreshTokenHeader = request.headers.get('x-stack-refresh-token');
+  if (refreshTokenHeader) {
+    return refreshTokenHeader;
+  }
+
+  return null;
+}
+
 export class StackAuthRestClient {
+  private origin: string;
   private baseUrl: string;
   private projectId: string;
   private publishableClientKey: string;
@@ -49,7 +110,9 @@ export class StackAuthRestClient {
   private retryDelay: number;
 
   constructor(options: ClientOptions) {
-    this.baseUrl = options.baseUrl || 'https://api.stack-auth.com/api/v1';
+    // Accepts the backend root with or without /api/v1
+    this.origin = resolveStackAuthUrl(options.baseUrl);
+    this.baseUrl = getStackAuthApiUrl(this.origin);
     this.projectId = options.projectId;
     this.publishableClientKey = options.publishableClientKey;
     this.secretServerKey = options.secretServerKey;
@@ -62,82 +125,43 @@ export class StackAuthRestClient {
    * Extract access token from cookies or headers
    */
   private extractAccessToken(request: Request): string | null {
-    // Check cookies first
-    const cookies = request.headers.get('cookie');
-    if (cookies) {
-      const stackAuthCookie = cookies
-        .split(';')
-        .find(c => c.trim().startsWith('stack-auth-token='));
-      
-      if (stackAuthCookie) {
-        const token = stackAuthCookie.split('=')[1];
-        return token;
-      }
-
-      // Also check for stack-auth-access-token cookie
-      const accessTokenCookie = cookies
-        .split(';')
-        .find(c => c.trim().startsWith('stack-auth-access-token='));
-      
-      if (accessTokenCookie) {
-        const token = accessTokenCookie.split('=')[1];
-        return token;
-      }
-    }
-
-    // Check Authorization header
-    const authHeader = request.headers.get('authorization');
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      return authHeader.substring(7);
-    }
-
-    // Check X-Stack-Access-Token header
-    const stackTokenHeader = request.headers.get('x-stack-access-token');
-    if (stackTokenHeader) {
-      return stackTokenHeader;
-    }
-
-    return null;
+    return extractAccessToken(request);
   }
 
   /**
    * Extract refresh token from cookies
    */
   private extractRefreshToken(request: Request): string | null {
-    const cookies = request.headers.get('cookie');
-    if (cookies) {
-      const refreshTokenCookie = cookies
-        .split(';')
-        .find(c => c.trim().startsWith('stack-auth-refresh-token='));
-      
-      if (refreshTokenCookie) {
-        const token = refreshTokenCookie.split('=')[1];
-        return token;
-      }
-    }
-
-    // Check X-Stack-Refresh-Token header
-    const refreshTokenHeader = request.headers.get('x-stack-refresh-token');
-    if (refreshTokenHeader) {
-      return refreshTokenHeader;
-    }
-
-    return null;
+    return extractRefreshToken(request);
   }
 
   /**
    * Make an authenticated API request
+   * 
+   * Traced as a client span with the path, response status and, for
+   * retries, the attempt number. Not `async` itself: without a tracer
+   * `withSpan` runs the request directly, so untraced calls settle in
+   * the same number of ticks as before tracing was added.
    */
-  private async makeRequest<T>(
+  private makeRequest<T>(
     path: string,
     options: RequestInit & {
       accessToken?: string;
       refreshToken?: string;
       useClientKey?: boolean;
+      attempt?: number;
     } = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
-    const { accessToken, refreshToken, useClientKey, ...fetchOptions } = options;
+    const { accessToken, refreshToken, useClientKey, attempt = 0, ...fetchOptions } = options;
+    const method = (fetchOptions.method || 'GET').toUpperCase();
+    const attributes: Record<string, string | number> = {
+      'http.request.method': method,
+      'url.path': path.split('?')[0]
+    };
+    if (attempt > 0) {
+      attributes['http.request.resend_count'] = attempt;
+    }
 
     const headers = new Headers(fetchOptions.headers || {});
     headers.set('X-Stack-Project-Id', this.projectId);
@@ -164,46 +188,51 @@ export class StackAuthRestClient {
       headers.set('Content-Type', 'application/json');
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-    try {
-      const response = await fetch(url, {
-        ...fetchOptions,
-        headers,
-        signal: controller.signal
-      });
+    return withSpan('stack-auth.rest-api.request', { kind: SpanKind.CLIENT, attributes }, async span => {
+      Object.entries(traceContextHeaders(span)).forEach(([name, value]) => headers.set(name, value));
 
-      clearTimeout(timeoutId);
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
-      if (!response.ok) {
-        let errorData: any;
-        try {
-          errorData = await response.json();
-        } catch {
-          errorData = { message: response.statusText };
+      try {
+        const response = await fetch(url, {
+          ...fetchOptions,
+          headers,
+          signal: controller.signal
+        });
+
+        clearTimeout(timeoutId);
+        span?.setAttribute('http.response.status_code', response.status);
+
+        if (!response.ok) {
+          let errorData: any;
+          try {
+            errorData = await response.json();
+          } catch {
+            errorData = { message: response.statusText };
+          }
+
+          // Extract error details from Stack Auth error format
+          const errorCode = errorData.error?.code || this.mapStatusToErrorCode(response.status);
+          const errorMessage = errorData.error?.message || errorData.message || `Request failed: ${response.status}`;
+          const errorDetails = errorData.error?.details || {};
+
+          throw new StackAuthRestError(
+            errorMessage,
+            errorCode,
+            response.status,
+            errorDetails
+          );
         }
 
-        // Extract error details from Stack Auth error format
-        const errorCode = errorData.error?.code || this.mapStatusToErrorCode(response.status);
-        const errorMessage = errorData.error?.message || errorData.message || `Request failed: ${response.status}`;
-        const errorDetails = errorData.error?.details || {};
-
-        throw new StackAuthRestError(
-          errorMessage,
-          errorCode,
-          response.status,
-          errorDetails
-        );
-      }
-
-      return response.json();
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Request timeout');
+        return response.json();
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw new Error('Request timeout');
+        }
+        throw error;
       }
-      throw error;
-    }
+    });
   }
 
   /**
@@ -215,6 +244,13 @@ export class StackAuthRestClient {
       return null;
     }
 
+    return this.getUserForToken(accessToken);
+  }
+
+  /**
+   * Get the user for an access token
+   */
+  async getUserForToken(accessToken: string): Promise<User | null> {
     try {
       const user = await this.makeRequest<User>('/users/me', {
         method: 'GET',
@@ -236,6 +272,13 @@ export class StackAuthRestClient {
       return null;
     }
 
+    return this.getSessionForToken(accessToken);
+  }
+
+  /**
+   * Get the session for an access token
+   */
+  async getSessionForToken(accessToken: string): Promise<Session | null> {
     try {
       const session = await this.makeRequest<Session>('/auth/session', {
         method: 'GET',
@@ -257,11 +300,18 @@ export class StackAuthRestClient {
       return { user: null, session: null };
     }
 
+    return this.getUserAndSessionForToken(accessToken);
+  }
+
+  /**
+   * Get user and session for an access token in a single operation
+   */
+  async getUserAndSessionForToken(accessToken: string): Promise<{ user: User | null; session: Session | null }> {
     try {
       // Fetch user and session in parallel for performance
       const [user, session] = await Promise.all([
-        this.getUser(request),
-        this.getSession(request)
+        this.getUserForToken(accessToken),
+        this.getSessionForToken(accessToken)
       ]);
 
       return { user, session };
@@ -270,6 +320,51 @@ export class StackAuthRestClient {
     }
   }
 
+  /**
+   * List the current user's active sessions
+   */
+  async listSessions(request: Request): Promise<Session[]> {
+    const accessToken = this.extractAccessToken(request);
+    if (!accessToken) {
+      throw new StackAuthRestError('No access token found', 'UNAUTHORIZED', 401);
+    }
+
+    return this.listSessionsForToken(accessToken);
+  }
+
+  /**
+   * List the active sessions of the user owning an access token
+   */
+  async listSessionsForToken(accessToken: string): Promise<Session[]> {
+    const response = await this.makeRequestWithRetry<ListResponse<Session>>('/auth/sessions?user_id=me', {
+      method: 'GET',
+      accessToken
+    });
+    return response.items;
+  }
+
+  /**
+   * Revoke one of the current user's sessions, e.g. a lost device
+   */
+  async revokeSession(request: Request, sessionId: string): Promise<void> {
+    const accessToken = this.extractAccessToken(request);
+    if (!accessToken) {
+      throw new StackAuthRestError('No access token found', 'UNAUTHORIZED', 401);
+    }
+
+    await this.revokeSessionForToken(accessToken, sessionId);
+  }
+
+  /**
+   * Revoke a session of the user owning an access token
+   */
+  async revokeSessionForToken(accessToken: string, sessionId: string): Promise<void> {
+    await this.makeRequestWithRetry(`/auth/sessions/${encodeURIComponent(sessionId)}?user_id=me`, {
+      method: 'DELETE',
+      accessToken
+    });
+  }
+
   /**
    * Refresh access token using refresh token
    */
@@ -279,6 +374,13 @@ export class StackAuthRestClient {
       return null;
     }
 
+    return this.exchangeRefreshToken(refreshToken);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token
+   */
+  async exchangeRefreshToken(refreshToken: string): Promise<TokenResponse | null> {
     try {
       const response = await this.makeRequest<TokenResponse>('/auth/oauth/token', {
         method: 'POST',
@@ -371,7 +473,7 @@ export class StackAuthRestClient {
 
     for (let attempt = 0; attempt < this.retryAttempts; attempt++) {
       try {
-        return await this.makeRequest<T>(path, options);
+        return await this.makeRequest<T>(path, { ...options, attempt });
       } catch (error) {
         lastError = error as Error;
         
@@ -426,6 +528,246 @@ export class StackAuthRestClient {
     });
   }
 
+  /**
+   * Get a user by ID, including server metadata
+   */
+  async getServerUser(userId: string): Promise<User> {
+    return this.makeRequestWithRetry<User>(`/users/${encodeURIComponent(userId)}`, {
+      method: 'GET'
+    });
+  }
+
+  /**
+   * List project users, one page at a time
+   */
+  async listUsers(options: ListUsersOptions = {}): Promise<CursorPage<User>> {
+    const params = new URLSearchParams();
+    if (options.cursor) params.set('cursor', options.cursor);
+    if (options.limit !== undefined) params.set('limit', String(options.limit));
+    if (options.query) params.set('query', options.query);
+    if (options.orderBy === 'signedUpAt') params.set('order_by', 'signed_up_at');
+    if (options.desc !== undefined) params.set('desc', String(options.desc));
+
+    const query = params.toString();
+    const response = await this.makeRequestWithRetry<ListResponse<User>>(
+      query ? `/users?${query}` : '/users',
+      { method: 'GET' }
+    );
+    return {
+      items: response.items,
+      nextCursor: response.pagination?.nextCursor ?? null
+    };
+  }
+
+  /**
+   * Update a user by ID
+   */
+  async updateServerUser(userId: string, data: AdminUserUpdateRequest): Promise<User> {
+    return this.makeRequestWithRetry<User>(`/users/${encodeURIComponent(userId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data)
+    });
+  }
+
+  /**
+   * Delete a user by ID
+   */
+  async deleteServerUser(userId: string): Promise<void> {
+    await this.makeRequestWithRetry(`/users/${encodeURIComponent(userId)}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * List the active sessions of a user
+   */
+  async listUserSessions(userId: string): Promise<Session[]> {
+    const params = new URLSearchParams({ user_id: userId });
+
+    const response = await this.makeRequestWithRetry<ListResponse<Session>>(
+      `/auth/sessions?${params.toString()}`,
+      { method: 'GET' }
+    );
+    return response.items;
+  }
+
+  /**
+   * Revoke one session of a user
+   */
+  async revokeUserSession(userId: string, sessionId: string): Promise<void> {
+    const params = new URLSearchParams({ user_id: userId });
+
+    await this.makeRequestWithRetry(`/auth/sessions/${encodeURIComponent(sessionId)}?${params.toString()}`, {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * Create a session that signs in as a user
+   */
+  async createImpersonationSession(userId: string, expiresInMillis: number): Promise<ImpersonationSession> {
+    const response = await this.makeRequestWithRetry<{ access_token: string; refresh_token: string }>('/auth/sessions', {
+      method: 'POST',
+      body: JSON.stringify({
+        user_id: userId,
+        expires_in_millis: expiresInMillis,
+        is_impersonation: true
+      })
+    });
+    return {
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token
+    };
+  }
+
+  /**
+   * List the project permissions granted to a user
+   * 
+   * With `recursive`, permissions contained in granted permissions are included.
+   */
+  async listUserPermissions(userId: string, options: { recursive?: boolean } = {}): Promise<ProjectPermission[]> {
+    const params = new URLSearchParams({
+      user_id: userId,
+      recursive: String(options.recursive ?? true)
+    });
+
+    const response = await this.makeRequestWithRetry<ListResponse<ProjectPermission>>(
+      `/project-permissions?${params.toString()}`,
+      { method: 'GET' }
+    );
+    return response.items;
+  }
+
+  /**
+   * List the teams the current user belongs to
+   */
+  async listTeams(request: Request): Promise<Team[]> {
+    const accessToken = this.extractAccessToken(request);
+    if (!accessToken) {
+      throw new StackAuthRestError('No access token found', 'UNAUTHORIZED', 401);
+    }
+
+    const response = await this.makeRequestWithRetry<ListResponse<Team>>('/teams?user_id=me', {
+      method: 'GET',
+      accessToken
+    });
+    return response.items;
+  }
+
+  /**
+   * List the teams a user belongs to
+   */
+  async listUserTeams(userId: string): Promise<Team[]> {
+    const params = new URLSearchParams({ user_id: userId });
+
+    const response = await this.makeRequestWithRetry<ListResponse<Team>>(
+      `/teams?${params.toString()}`,
+      { method: 'GET' }
+    );
+    return response.items;
+  }
+
+  /**
+   * Get a team by ID, including server metadata
+   */
+  async getTeam(teamId: string): Promise<Team> {
+    return this.makeRequestWithRetry<Team>(`/teams/${encodeURIComponent(teamId)}`, {
+      method: 'GET'
+    });
+  }
+
+  /**
+   * Create a team with the current user as its creator
+   */
+  async createTeam(request: Request, data: TeamCreateRequest): Promise<Team> {
+    const accessToken = this.extractAccessToken(request);
+    if (!accessToken) {
+      throw new StackAuthRestError('No access token found', 'UNAUTHORIZED', 401);
+    }
+
+    return this.makeRequestWithRetry<Team>('/teams', {
+      method: 'POST',
+      body: JSON.stringify({ ...data, creator_user_id: 'me' }),
+      accessToken
+    });
+  }
+
+  /**
+   * Update a team
+   */
+  async updateTeam(teamId: string, data: TeamUpdateRequest): Promise<Team> {
+    return this.makeRequestWithRetry<Team>(`/teams/${encodeURIComponent(teamId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data)
+    });
+  }
+
+  /**
+   * Switch the current user's selected team
+   * 
+   * Pass null to clear the selection.
+   */
+  async setSelectedTeam(request: Request, teamId: string | null): Promise<User> {
+    const accessToken = this.extractAccessToken(request);
+    if (!accessToken) {
+      throw new StackAuthRestError('No access token found', 'UNAUTHORIZED', 401);
+    }
+
+    return this.makeRequestWithRetry<User>('/users/me', {
+      method: 'PATCH',
+      body: JSON.stringify({ selected_team_id: teamId }),
+      accessToken
+    });
+  }
+
+  /**
+   * List the member profiles of a team
+   */
+  async listTeamMembers(teamId: string): Promise<TeamMember[]> {
+    const params = new URLSearchParams({ team_id: teamId });
+
+    const response = await this.makeRequestWithRetry<ListResponse<TeamMember>>(
+      `/team-member-profiles?${params.toString()}`,
+      { method: 'GET' }
+    );
+    return response.items;
+  }
+
+  /**
+   * Invite a user to a team by email
+   * 
+   * Stack Auth emails a link to `callbackUrl` carrying the invitation code.
+   */
+  async inviteTeamMember(request: Request, data: TeamInvitationRequest): Promise<void> {
+    const accessToken = this.extractAccessToken(request);
+    if (!accessToken) {
+      throw new StackAuthRestError('No access token found', 'UNAUTHORIZED', 401);
+    }
+
+    await this.makeRequestWithRetry('/team-invitations/send-code', {
+      method: 'POST',
+      body: JSON.stringify({
+        team_id: data.teamId,
+        email: data.email,
+        callback_url: data.callbackUrl
+      }),
+      accessToken
+    });
+  }
+
+  /**
+   * List the pending invitations of a team
+   */
+  async listTeamInvitations(teamId: string): Promise<TeamInvitation[]> {
+    const params = new URLSearchParams({ team_id: teamId });
+
+    const response = await this.makeRequestWithRetry<ListResponse<TeamInvitation>>(
+      `/team-invitations?${params.toString()}`,
+      { method: 'GET' }
+    );
+    return response.items;
+  }
+
   /**
    * Send password reset code
    */
@@ -497,8 +839,57 @@ export class StackAuthRestClient {
     });
   }
 
+  /**
+   * Build the URL that starts an OAuth sign-in with PKCE
+   * 
+   * The caller is responsible for remembering `state` and the code verifier
+   * and checking them on callback; the injected `{prefix}/oauth/:provider`
+   * route does this for you.
+   */
+  createOAuthAuthorizationUrl(provider: string, options: OAuthAuthorizationOptions): string {
+    const params = new URLSearchParams({
+      client_id: this.projectId,
+      client_secret: this.publishableClientKey,
+      redirect_uri: options.redirectUri,
+      scope: options.scope ?? 'legacy',
+      state: options.state,
+      grant_type: 'authorization_code',
+      code_challenge: options.codeChallenge,
+      code_challenge_method: 'S256',
+      response_type: 'code',
+      type: 'authenticate'
+    });
+
+    if (options.errorRedirectUrl) {
+      params.set('error_redirect_url', options.errorRedirectUrl);
+    }
+
+    return `${this.baseUrl}/auth/oauth/authorize/${encodeURIComponent(provider)}?${params.toString()}`;
+  }
+
+  /**
+   * Exchange an OAuth authorization code for a token pair
+   */
+  async exchangeOAuthCode(data: OAuthCodeExchangeRequest): Promise<TokenResponse> {
+    return this.makeRequest<TokenResponse>('/auth/oauth/token', {
+      method: 'POST',
+      body: JSON.stringify({
+        grant_type: 'authorization_code',
+        code: data.code,
+        redirect_uri: data.redirectUri,
+        code_verifier: data.codeVerifier,
+        client_id: this.projectId,
+        client_secret: this.publishableClientKey
+      }),
+      useClientKey: true
+    });
+  }
+
   /**
    * Get OAuth authorization URL
+   * 
+   * @deprecated Carries no state or PKCE. Use `createOAuthAuthorizationUrl()`
+   * or the injected `{prefix}/oauth/:provider` route.
    */
   getOAuthAuthorizationUrl(provider: string, callbackUrl?: string): string {
     const params = new URLSearchParams({
@@ -511,11 +902,14 @@ export class StackAuthRestClient {
       params.append('redirect_uri', callbackUrl);
     }
 
-    return `${this.baseUrl.replace('/api/v1', '')}/handler/authorize?${params.toString()}`;
+    return `${this.origin}/handler/authorize?${params.toString()}`;
   }
 
   /**
    * Validate OAuth callback and exchange code for tokens
+   * 
+   * @deprecated Does not verify `state`. Use the injected
+   * `{prefix}/oauth/callback` route or `exchangeOAuthCode()`.
    */
   async handleOAuthCallback(code: string, state?: string): Promise<AuthResponse> {
     return this.makeRequestWithRetry<AuthResponse>('/auth/oauth/callback', {
@@ -5,7 +5,12 @@
  * that replaces the @stackframe/stack SDK dependency.
  */
 
-export { StackAuthRestClient, StackAuthRestError } from './client.js';
+export { 
+  StackAuthRestClient, 
+  StackAuthRestError,
+  extractAccessToken,
+  extractRefreshToken
+} from './client.js';
 export type {
   User,
   Session,
@@ -21,5 +26,19 @@ export type {
   StackAuthError,
   SuccessResponse,
   OAuthProvider,
-  SessionStatus
+  SessionStatus,
+  ProjectPermission,
+  ListResponse,
+  Team,
+  TeamMember,
+  TeamInvitation,
+  TeamCreateRequest,
+  TeamUpdateRequest,
+  TeamInvitationRequest,
+  CursorPage,
+  ListUsersOptions,
+  AdminUserUpdateRequest,
+  ImpersonationSession,
+  OAuthAuthorizationOptions,
+  OAuthCodeExchangeRequest
 } from './types.js';
\ No newline at end of file
@@ -17,6 +17,13 @@ export interface User {
   createdAt: string;
   metadata?: Record<string, any>;
   
+  // Only returned for server-side requests
+  serverMetadata?: Record<string, unknown>;
+  
+  // Team the user is currently working in
+  selectedTeamId?: string | null;
+  selectedTeam?: Team | null;
+  
   // Additional properties that may be included
   updatedAt?: string;
   lastActiveAt?: string;
@@ -40,6 +47,128 @@ export interface Session {
   lastActiveAt?: string;
   userAgent?: string;
   ipAddress?: string;
+  
+  // Set by the sessions endpoint for the session making the request
+  isCurrent?: boolean;
+}
+
+/**
+ * Team (organization) object returned by Stack Auth API
+ */
+export interface Team {
+  id: string;
+  displayName: string;
+  profileImageUrl?: string | null;
+  createdAt?: string;
+  clientMetadata?: Record<string, unknown>;
+  
+  // Only returned for server-side requests
+  serverMetadata?: Record<string, unknown>;
+}
+
+/**
+ * Member profile of a user within a team
+ */
+export interface TeamMember {
+  userId: string;
+  teamId: string;
+  displayName?: string | null;
+  profileImageUrl?: string | null;
+  user?: User;
+}
+
+/**
+ * Pending invitation to join a team
+ */
+export interface TeamInvitation {
+  id: string;
+  teamId: string;
+  recipientEmail: string;
+  expiresAt?: string;
+}
+
+/**
+ * Team creation request
+ */
+export interface TeamCreateRequest {
+  displayName: string;
+  profileImageUrl?: string;
+  clientMetadata?: Record<string, unknown>;
+}
+
+/**
+ * Team update request
+ */
+export interface TeamUpdateRequest {
+  displayName?: string;
+  profileImageUrl?: string | null;
+  clientMetadata?: Record<string, unknown>;
+}
+
+/**
+ * Team invitation request
+ */
+export interface TeamInvitationRequest {
+  teamId: string;
+  email: string;
+  callbackUrl: string;
+}
+
+/**
+ * Project permission granted to a user
+ */
+export interface ProjectPermission {
+  id: string;
+  userId: string;
+}
+
+/**
+ * Paginated list response used by list endpoints
+ */
+export interface ListResponse<T> {
+  items: T[];
+  pagination?: {
+    nextCursor?: string | null;
+  };
+}
+
+/**
+ * One page of a cursor-paginated list
+ * 
+ * Pass `nextCursor` back as `cursor` to fetch the following page; it is
+ * null on the last page.
+ */
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * Options for listing project users
+ */
+export interface ListUsersOptions {
+  cursor?: string;
+  limit?: number;
+  query?: string;
+  orderBy?: 'signedUpAt';
+  desc?: boolean;
+}
+
+/**
+ * Server-side user update request
+ */
+export interface AdminUserUpdateRequest extends UserUpdateRequest {
+  email?: string;
+  emailVerified?: boolean;
+  serverMetadata?: Record<string, unknown>;
+}
+
+/**
+ * Tokens for a session created to impersonate a user
+ */
+export interface ImpersonationSession {
+  accessToken: string;
+  refreshToken: string;
 }
 
 /**
@@ -116,6 +245,31 @@ export interface OAuthProvider {
   enabled: boolean;
 }
 
+/**
+ * Parameters for starting an OAuth authorization code flow
+ */
+export interface OAuthAuthorizationOptions {
+  /** Callback URL the provider redirects back to */
+  redirectUri: string;
+  /** Opaque value echoed back to the callback */
+  state: string;
+  /** S256 PKCE code challenge */
+  codeChallenge: string;
+  scope?: string;
+  errorRedirectUrl?: string;
+}
+
+/**
+ * Authorization code exchange request
+ */
+export interface OAuthCodeExchangeRequest {
+  code: string;
+  /** Must match the redirect URI used to start the flow */
+  redirectUri: string;
+  /** PKCE code verifier the challenge was derived from */
+  codeVerifier: string;
+}
+
 /**
  * Password reset request
  */
@@ -0,0 +1,90 @@
+/**
+ * Vite plugin carrying the runtime options into the server build
+ *
+ * `astroStackAuth()` runs while Astro loads its config, so the options it
+ * registers exist in the dev server and during the build, but not in a
+ * production server started from the build output. The plugin serves
+ * `virtual:astro-stack-auth/options`, which holds the serializable options
+ * as source code and re-exports the default export of the `runtimeModule`
+ * for options that cannot be serialized (stores, sinks, tracers, callbacks).
+ */
+
+import type { Plugin } from 'vite';
+import type { StackAuthRuntimeOptions } from './types.js';
+import { RUNTIME_OPTIONS_MODULE_ID } from './runtime-options.js';
+
+const RESOLVED_MODULE_ID = `\0${RUNTIME_OPTIONS_MODULE_ID}`;
+
+function isPlainObject(value: object): boolean {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Write a value as a JavaScript expression
+ *
+ * Values that cannot be written (functions, class instances) are added to
+ * `unserializable` by option path and left out.
+ */
+function toSource(value: unknown, path: string, unserializable: string[]): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || typeof value === 'string' || typeof value === 'boolean' ||
+      (typeof value === 'number' && Number.isFinite(value))) {
+    return JSON.stringify(value);
+  }
+  if (value instanceof RegExp) {
+    return `new RegExp(${JSON.stringify(value.source)}, ${JSON.stringify(value.flags)})`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item, index) => toSource(item, `${path}[${index}]`, unserializable) ?? 'undefined').join(', ')}]`;
+  }
+  if (typeof value === 'object' && isPlainObject(value)) {
+    const entries = Object.entries(value).flatMap(([key, item]) => {
+      const source = toSource(item, `${path}.${key}`, unserializable);
+      return source === undefined ? [] : [`${JSON.stringify(key)}: ${source}`];
+    });
+    return `{ ${entries.join(', ')} }`;
+  }
+
+  unserializable.push(path);
+  return undefined;
+}
+
+/**
+ * Write the runtime options as a JavaScript object literal
+ *
+ * @returns The source and the paths of options that had to be left out
+ */
+export function serializeRuntimeOptions(options: StackAuthRuntimeOptions): { source: string; unserializable: string[] } {
+  const unserializable: string[] = [];
+  const entries = Object.entries(options).flatMap(([key, value]) => {
+    const source = toSource(value, key, unserializable);
+    return source === undefined ? [] : [`${JSON.stringify(key)}: ${source}`];
+  });
+  return { source: `{ ${entries.join(', ')} }`, unserializable };
+}
+
+/**
+ * Create the plugin serving the options module
+ *
+ * @param runtimeModule - Absolute path of the module whose default export
+ * holds the options that cannot be serialized
+ */
+export function createRuntimeOptionsPlugin(source: string, runtimeModule?: string): Plugin {
+  return {
+    name: 'astro-stack-auth:runtime-options',
+    resolveId(id) {
+      return id === RUNTIME_OPTIONS_MODULE_ID ? RESOLVED_MODULE_ID : undefined;
+    },
+    load(id) {
+      if (id !== RESOLVED_MODULE_ID) {
+        return undefined;
+      }
+      return runtimeModule
+        ? `import runtimeOptions from ${JSON.stringify(runtimeModule)};\nexport const options = { ...${source}, ...runtimeOptions };\n`
+        : `export const options = ${source};\n`;
+    }
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Runtime options registry for Stack Auth
+ *
+ * Integration options that the middleware and injected routes need at
+ * request time (cache stores, policies, callbacks) cannot travel through
+ * environment variables. `astroStackAuth()` registers them here and the
+ * runtime modules read them back.
+ *
+ * The registry lives on globalThis so that the integration and the
+ * middleware see the same options even when they are loaded through
+ * different module graphs (e.g. the Vite SSR loader in development).
+ *
+ * A production server never runs `astroStackAuth()`; there the middleware
+ * and injected routes load the options built into the server bundle with
+ * `loadRuntimeOptions()`.
+ */
+
+import type { StackAuthRuntimeOptions } from './types.js';
+
+/**
+ * Virtual module holding the options built into the server bundle
+ */
+export const RUNTIME_OPTIONS_MODULE_ID = 'virtual:astro-stack-auth/options';
+
+const RUNTIME_OPTIONS_KEY = Symbol.for('astro-stack-auth.runtime-options');
+const RUNTIME_OPTIONS_LOAD_KEY = Symbol.for('astro-stack-auth.runtime-options-load');
+const RUNTIME_OPTIONS_ERROR_KEY = Symbol.for('astro-stack-auth.runtime-options-error');
+
+type RuntimeOptionsHolder = typeof globalThis & {
+  [RUNTIME_OPTIONS_KEY]?: StackAuthRuntimeOptions;
+  [RUNTIME_OPTIONS_LOAD_KEY]?: Promise<void>;
+  [RUNTIME_OPTIONS_ERROR_KEY]?: Error;
+};
+
+/**
+ * Register runtime options for the middleware and injected routes
+ */
+export function setRuntimeOptions(options: StackAuthRuntimeOptions): void {
+  (globalThis as RuntimeOptionsHolder)[RUNTIME_OPTIONS_KEY] = { ...options };
+}
+
+/**
+ * Get the currently registered runtime options
+ */
+export function getRuntimeOptions(): StackAuthRuntimeOptions {
+  return (globalThis as RuntimeOptionsHolder)[RUNTIME_OPTIONS_KEY] || {};
+}
+
+/**
+ * Load the options built into the server bundle unless options are
+ * already registered
+ *
+ * The module is imported once per process. When it cannot be loaded the
+ * defaults apply and the error is kept for `getRuntimeOptionsError()`.
+ */
+export async function loadRuntimeOptions(): Promise<StackAuthRuntimeOptions> {
+  const holder = globalThis as RuntimeOptionsHolder;
+  if (holder[RUNTIME_OPTIONS_KEY]) {
+    return holder[RUNTIME_OPTIONS_KEY];
+  }
+
+  holder[RUNTIME_OPTIONS_LOAD_KEY] ??= import('virtual:astro-stack-auth/options').then(
+    ({ options }) => {
+      // Options registered while the module loaded take precedence
+      if (!holder[RUNTIME_OPTIONS_KEY]) {
+        setRuntimeOptions(options);
+      }
+    },
+    (error: unknown) => {
+      holder[RUNTIME_OPTIONS_ERROR_KEY] = error instanceof Error ? error : new Error(String(error));
+      console.error('❌ Stack Auth options could not be loaded from the server build:', holder[RUNTIME_OPTIONS_ERROR_KEY].message);
+    }
+  );
+  await holder[RUNTIME_OPTIONS_LOAD_KEY];
+  return getRuntimeOptions();
+}
+
+/**
+ * Get the error that kept `loadRuntimeOptions()` from loading the options
+ * built into the server bundle, if any
+ */
+export function getRuntimeOptionsError(): Error | null {
+  return (globalThis as RuntimeOptionsHolder)[RUNTIME_OPTIONS_ERROR_KEY] ?? null;
+}
+
+/**
+ * Clear registered runtime options - useful for testing
+ */
+export function resetRuntimeOptions(): void {
+  const holder = globalThis as RuntimeOptionsHolder;
+  delete holder[RUNTIME_OPTIONS_KEY];
+  delete holder[RUNTIME_OPTIONS_LOAD_KEY];
+  delete holder[RUNTIME_OPTIONS_ERROR_KEY];
+}
@@ -8,7 +8,7 @@
 
 import type { APIContext } from 'astro';
 import type { User, Session } from './rest-api/types.js';
-import type { RequireAuthOptions } from './types.js';
+import type { RequireAuthOptions, AuthorizationOptions } from './types.js';
 import { tryGetConfig } from './config.js';
 import { 
   validateAPIContext, 
@@ -21,6 +21,7 @@ import {
   generateCSRFToken,
   validateCSRFToken,
   generateSecureHash,
+  secretsEqual,
   validateOrigin,
   getClientIP,
   validateAuthMethod,
@@ -32,6 +33,8 @@ import {
   logAuthSuccess, 
   logAuthFailure, 
   logSecurityViolation,
+  logPermissionDenied,
+  logSystemError,
   AuditEventType 
 } from './server/audit.js';
 import { 
@@ -47,6 +50,11 @@ import {
   clearAuthPerformanceData,
   recordProviderHealthCheck
 } from './server/performance.js';
+import { StackAuthRestClient } from './rest-api/client.js';
+import { isClaimsUser } from './server/jwt.js';
+import { getEffectiveAccessToken } from './server/token-refresh.js';
+import { hasPermission, hasRole } from './server/authorization.js';
+import { getRuntimeOptions } from './runtime-options.js';
 
 /**
  * Get the authenticated user from the request context
@@ -65,7 +73,7 @@ export async function getUser(
   try {
     // Apply security validation if requested
     if (options.requireSecureTransport || options.validateOrigin || options.requireCSRF) {
-      validateAPIContext(context, options);
+      await validateAPIContext(context, options);
     }
     
     const user = context.locals?.user || null;
@@ -108,6 +116,51 @@ export async function getUser(
   }
 }
 
+/**
+ * Get the full user record for the request
+ * 
+ * With `jwtVerification` enabled, `Astro.locals.user` only holds the fields
+ * carried by the access token. This fetches the complete user from Stack Auth
+ * on first use and stores it back on `Astro.locals`. Without local verification
+ * it returns the same user as `getUser()`.
+ * 
+ * @param context - Astro API context
+ * @returns Promise resolving to the full User or null if not authenticated
+ */
+export async function getFullUser(context: APIContext): Promise<User | null> {
+  const user = context.locals?.user || null;
+  if (!user || !isClaimsUser(user)) {
+    return user;
+  }
+
+  const { config } = tryGetConfig();
+  if (!config) {
+    return user;
+  }
+
+  // Use the token refreshed by the middleware if the browser's one expired
+  const accessToken = getEffectiveAccessToken(context.request);
+  if (!accessToken) {
+    return user;
+  }
+
+  const client = new StackAuthRestClient(config);
+  const apiStartTime = performance.now();
+  const fullUser = await client.getUserForToken(accessToken);
+  recordProviderApiTime(performance.now() - apiStartTime);
+
+  // Stack Auth no longer recognises the token (e.g. the session was revoked)
+  if (!fullUser) {
+    context.locals.user = null;
+    context.locals.session = null;
+    context.locals.team = null;
+    return null;
+  }
+
+  context.locals.user = fullUser;
+  return fullUser;
+}
+
 /**
  * Get the current session from the request context
  * 
@@ -125,7 +178,7 @@ export async function getSession(
   try {
     // Apply security validation if requested
     if (options.requireSecureTransport || options.validateOrigin || options.requireCSRF) {
-      validateAPIContext(context, options);
+      await validateAPIContext(context, options);
     }
     
     const session = context.locals?.session || null;
@@ -219,13 +272,60 @@ function getSignInUrl(customSignInUrl?: string): string {
   return `${prefix}/signin`;
 }
 
+/**
+ * Answer an unauthenticated request: 401 JSON for API routes, a redirect
+ * to sign-in that returns to the current URL for pages
+ */
+function rejectUnauthenticated(context: APIContext, options: RequireAuthOptions): Response {
+  if (isApiRoute(context)) {
+    // Create secure 401 response for API routes
+    const response = new Response(JSON.stringify({
+      error: 'Authentication required',
+      message: 'You must be signed in to access this resource',
+      statusCode: 401
+    }), {
+      status: 401,
+      headers: { 
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+    
+    // Add security headers
+    addSecurityHeaders(response.headers);
+    
+    return response;
+  }
+  
+  // Redirect for pages with URL preservation and validation
+  const signInUrl = getSignInUrl(options.signInUrl);
+  let returnUrl = options.redirectTo || context.url.pathname + context.url.search;
+  
+  try {
+    // Validate and sanitize the return URL
+    returnUrl = validateRedirectURL(returnUrl);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      console.warn('⚠️ Invalid redirect URL detected, using safe default:', error.message);
+      returnUrl = '/'; // Safe default
+    } else {
+      throw error;
+    }
+  }
+  
+  const redirectUrl = `${signInUrl}?redirect=${encodeURIComponent(returnUrl)}`;
+  
+  return context.redirect(redirectUrl);
+}
+
 /**
  * Require authentication, throwing or redirecting if not authenticated
  * 
  * @param context - Astro API context
  * @param options - Authentication requirements and redirect options
  * @returns Promise resolving to User if authenticated
- * @throws Response with 401 for API routes, never returns for page redirects
+ * @throws Response with 401 for API routes, or the redirect to sign-in for
+ * pages, which the middleware sends as the page's response
  */
 export async function requireAuth(
   context: APIContext, 
@@ -236,7 +336,7 @@ export async function requireAuth(
   
   try {
     // Apply rate limiting for authentication attempts
-    enforceRateLimit(context.request, RATE_LIMIT_CONFIGS.AUTH_ENDPOINTS);
+    await enforceRateLimit(context.request, RATE_LIMIT_CONFIGS.AUTH_ENDPOINTS);
     
     // Apply security validation
     const securityOptions: SecurityValidationOptions = {
@@ -247,14 +347,14 @@ export async function requireAuth(
     };
     
     if (securityOptions.requireSecureTransport || securityOptions.validateOrigin || securityOptions.requireCSRF) {
-      validateAPIContext(context, securityOptions);
+      await validateAPIContext(context, securityOptions);
     }
     
     const user = await getUser(context, securityOptions);
     
     if (user) {
       // Clear rate limit for successful authentication
-      clearRateLimit(context.request, RATE_LIMIT_CONFIGS.AUTH_ENDPOINTS);
+      await clearRateLimit(context.request, RATE_LIMIT_CONFIGS.AUTH_ENDPOINTS);
       
       // Log successful authentication access
       logAuthSuccess(context, user, { 
@@ -276,53 +376,14 @@ export async function requireAuth(
     });
     
     // User is not authenticated - handle based on request type
-    const isApi = isApiRoute(context);
-    
-    if (isApi) {
+    if (isApiRoute(context)) {
       // Record API error in performance tracking
       performanceTracker.error('API_UNAUTHENTICATED', 'User not authenticated for API route');
-      
-      // Create secure 401 response for API routes
-      const response = new Response(JSON.stringify({
-        error: 'Authentication required',
-        message: 'You must be signed in to access this resource',
-        statusCode: 401
-      }), {
-        status: 401,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Cache-Control': 'no-store'
-        }
-      });
-      
-      // Add security headers
-      addSecurityHeaders(response.headers);
-      
-      throw response;
     } else {
       // Record redirect in performance tracking (this is not an error, but a redirect)
       performanceTracker.error('REDIRECT', 'User redirected to sign-in');
-      
-      // Redirect for pages with URL preservation and validation
-      const signInUrl = getSignInUrl(options.signInUrl);
-      let returnUrl = options.redirectTo || context.url.pathname + context.url.search;
-      
-      try {
-        // Validate and sanitize the return URL
-        returnUrl = validateRedirectURL(returnUrl);
-      } catch (error) {
-        if (error instanceof ValidationError) {
-          console.warn('⚠️ Invalid redirect URL detected, using safe default:', error.message);
-          returnUrl = '/'; // Safe default
-        } else {
-          throw error;
-        }
-      }
-      
-      const redirectUrl = `${signInUrl}?redirect=${encodeURIComponent(returnUrl)}`;
-      
-      return context.redirect(redirectUrl);
     }
+    throw rejectUnauthenticated(context, options);
     
   } catch (error) {
     // Record error in performance tracking if not already recorded
@@ -392,6 +453,196 @@ export async function requireAuth(
   }
 }
 
+/**
+ * Get the configured forbidden page URL with validation
+ * 
+ * @param customForbiddenUrl - Custom forbidden URL from options
+ * @returns The URL to redirect pages to when access is denied
+ */
+function getForbiddenUrl(customForbiddenUrl?: string): string {
+  const forbiddenUrl = customForbiddenUrl || getRuntimeOptions().forbiddenUrl;
+  if (forbiddenUrl) {
+    try {
+      return validateRedirectURL(forbiddenUrl);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        console.warn('⚠️ Invalid forbidden URL provided, using default:', error.message);
+      }
+    }
+  }
+  
+  return '/forbidden';
+}
+
+/**
+ * Deny access to an authenticated user
+ * 
+ * Records a PERMISSION_DENIED audit entry, then throws a 403 response for
+ * API routes or a redirect to the forbidden URL for pages.
+ */
+function denyAccess(
+  context: APIContext,
+  user: User,
+  options: AuthorizationOptions,
+  details: Record<string, unknown>
+): never {
+  logPermissionDenied(context, user, {
+    endpoint: context.url.pathname,
+    ...details
+  });
+  
+  if (isApiRoute(context)) {
+    const response = new Response(JSON.stringify({
+      error: 'Forbidden',
+      message: 'You do not have permission to access this resource',
+      statusCode: 403
+    }), {
+      status: 403,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+    
+    addSecurityHeaders(response.headers);
+    throw response;
+  }
+  
+  throw context.redirect(getForbiddenUrl(options.forbiddenUrl));
+}
+
+/**
+ * Run an authorization check, failing closed if Stack Auth cannot be reached
+ */
+async function checkGrants(context: APIContext, check: () => Promise<boolean>): Promise<{ granted: boolean; lookupFailed: boolean }> {
+  try {
+    return { granted: await check(), lookupFailed: false };
+  } catch (error) {
+    logSystemError(context, error instanceof Error ? error : new Error(String(error)), {
+      operation: 'authorization'
+    });
+    return { granted: false, lookupFailed: true };
+  }
+}
+
+/**
+ * Require the signed-in user to meet authorization requirements
+ * 
+ * Every listed permission and at least one listed role are required.
+ * Unauthenticated requests are handled exactly like `requireAuth()`. Users
+ * failing the requirements get a 403 JSON response on API routes or are
+ * redirected to the forbidden page.
+ * 
+ * @param context - Astro API context
+ * @param requirements - Permissions and roles to require
+ * @param options - Authentication and authorization options
+ * @returns Promise resolving to the authorized User
+ * @throws Response with 401/403 for API routes, or a redirect for pages
+ */
+export async function requireAuthorization(
+  context: APIContext,
+  requirements: { permissions?: string[]; roles?: string[] },
+  options: AuthorizationOptions & SecurityValidationOptions = {}
+): Promise<User> {
+  const user = await requireAuth(context, options);
+  return authorizeUser(context, user, requirements, options);
+}
+
+/**
+ * Check a signed-in user against authorization requirements, denying
+ * access like `requireAuthorization()`
+ */
+async function authorizeUser(
+  context: APIContext,
+  user: User,
+  requirements: { permissions?: string[]; roles?: string[] },
+  options: AuthorizationOptions
+): Promise<User> {
+  const { permissions = [], roles = [] } = requirements;
+  const { granted, lookupFailed } = await checkGrants(context, async () =>
+    await hasPermission(user, ...permissions) && await hasRole(user, ...roles)
+  );
+  if (granted) {
+    return user;
+  }
+  
+  return denyAccess(context, user, options, {
+    ...(permissions.length > 0 && { requiredPermissions: permissions }),
+    ...(roles.length > 0 && { requiredRoles: roles }),
+    lookupFailed
+  });
+}
+
+/**
+ * Require the session the middleware resolved to meet access requirements
+ * 
+ * Used for the `protect` rules. Answers like `requireAuthorization()`,
+ * but only reads `Astro.locals.user`: protected pages are requested far
+ * more often than users sign in, so page views neither count against the
+ * sign-in attempt rate limit nor write an audit entry each.
+ * 
+ * @param context - Astro API context with populated locals
+ * @param requirements - Permissions and roles to require, if any
+ * @param options - Authentication and authorization options
+ * @returns Promise resolving to the authorized User
+ * @throws Response with 401/403 for API routes, or a redirect for pages
+ */
+export async function requireSessionAccess(
+  context: APIContext,
+  requirements: { permissions?: string[]; roles?: string[] },
+  options: AuthorizationOptions = {}
+): Promise<User> {
+  const user = context.locals?.user;
+  if (!user) {
+    throw rejectUnauthenticated(context, options);
+  }
+  
+  const { permissions = [], roles = [] } = requirements;
+  return permissions.length > 0 || roles.length > 0
+    ? authorizeUser(context, user, requirements, options)
+    : user;
+}
+
+/**
+ * Require the signed-in user to hold permissions
+ * 
+ * @param context - Astro API context
+ * @param permissions - Permission ID or IDs that are all required
+ * @param options - Authentication and authorization options
+ * @returns Promise resolving to the authorized User
+ * @throws Response with 401/403 for API routes, or a redirect for pages
+ */
+export async function requirePermission(
+  context: APIContext,
+  permissions: string | string[],
+  options: AuthorizationOptions & SecurityValidationOptions = {}
+): Promise<User> {
+  return requireAuthorization(context, {
+    permissions: Array.isArray(permissions) ? permissions : [permissions]
+  }, options);
+}
+
+/**
+ * Require the signed-in user to hold at least one of the given roles
+ * 
+ * Roles are read from the user's server metadata (`roles` or `role`).
+ * 
+ * @param context - Astro API context
+ * @param roles - Role or roles, any of which grants access
+ * @param options - Authentication and authorization options
+ * @returns Promise resolving to the authorized User
+ * @throws Response with 401/403 for API routes, or a redirect for pages
+ */
+export async function requireRole(
+  context: APIContext,
+  roles: string | string[],
+  options: AuthorizationOptions & SecurityValidationOptions = {}
+): Promise<User> {
+  return requireAuthorization(context, {
+    roles: Array.isArray(roles) ? roles : [roles]
+  }, options);
+}
+
 /**
  * Get current authentication performance statistics
  * 
@@ -429,12 +680,71 @@ export function recordHealthCheck(responseTime: number, success: boolean): void
   recordProviderHealthCheck(responseTime, success);
 }
 
+// Re-export metrics rendering for a custom scrape endpoint
+export { renderMetrics, type MetricsFormat } from './server/metrics.js';
+
+// Re-export authorization helpers for declarative checks
+export { hasPermission, hasRole, getUserGrants, clearUserGrantsCache, type UserGrants } from './server/authorization.js';
+
+// Re-export team helpers for the selected team on Astro.locals
+export { getSelectedTeam, clearTeamCache } from './server/teams.js';
+
+// Re-export server-only user administration
+export {
+  listUsers,
+  getUserById,
+  updateUserById,
+  deleteUser,
+  revokeAllSessions,
+  createImpersonationSession
+} from './server/admin.js';
+export type {
+  CursorPage,
+  ListUsersOptions,
+  AdminUserUpdateRequest,
+  ImpersonationSession
+} from './rest-api/types.js';
+
+// Re-export rate limiting for custom endpoints
+export {
+  checkRateLimit,
+  enforceRateLimit,
+  createRateLimitMiddleware,
+  RateLimiters,
+  RATE_LIMIT_CONFIGS,
+  lockRateLimitKey,
+  type RateLimitConfig,
+  type RateLimitResult
+} from './server/rate-limiting.js';
+
+// Re-export the audit logger for runtime configuration and flushing on shutdown
+export {
+  auditLogger,
+  AuditEventType,
+  RiskLevel,
+  type AuditConfig,
+  type AuditLogEntry,
+  type AuditSink
+} from './server/audit.js';
+export {
+  verifyAuditChain,
+  type AuditChainIssue,
+  type AuditChainReport
+} from './server/audit-chain.js';
+export {
+  queryAuditLogs,
+  AuditQueryError,
+  type AuditLogQuery,
+  type AuditLogPage
+} from './server/audit-query.js';
+
 // Re-export security utility functions for public API
 export {
   generateSecureToken,
   generateCSRFToken,
   validateCSRFToken,
   generateSecureHash,
+  secretsEqual,
   sanitizeInput,
   validateRedirectURL,
   validateOrigin,
@@ -0,0 +1,170 @@
+/**
+ * Server-only user administration for back-office pages
+ *
+ * These calls use the secret server key and act on any user in the
+ * project, so they must only run after the caller has been authorized,
+ * e.g. with `requireRole(context, 'admin')`. Every call, including failed
+ * ones, is recorded in the audit log with the acting user as `actorId`.
+ */
+
+import type { APIContext } from 'astro';
+import type {
+  User,
+  CursorPage,
+  ListUsersOptions,
+  AdminUserUpdateRequest,
+  ImpersonationSession
+} from '../rest-api/types.js';
+import { StackAuthRestClient, StackAuthRestError } from '../rest-api/client.js';
+import { getConfig } from '../config.js';
+import { recordProviderApiTime } from './performance.js';
+import { logAdminAction, AuditEventType } from './audit.js';
+import { invalidateCachedUserSessions } from './session-cache.js';
+import { clearUserGrantsCache } from './authorization.js';
+
+const DEFAULT_IMPERSONATION_TTL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Run a Stack Auth call, recording its response time
+ *
+ * A failed call is audited as `eventType` with `success: false` before
+ * its error is rethrown.
+ *
+ * @param attempt - What the admin tried to do, e.g. `view user 123`
+ */
+async function callStackAuth<T>(
+  context: APIContext,
+  eventType: AuditEventType,
+  targetUserId: string | undefined,
+  attempt: string,
+  operation: (client: StackAuthRestClient) => Promise<T>
+): Promise<T> {
+  const client = new StackAuthRestClient(getConfig());
+  const apiStartTime = performance.now();
+  try {
+    return await operation(client);
+  } catch (error) {
+    const failure = error instanceof Error ? error : new Error(String(error));
+    logAdminAction(context, eventType, targetUserId, `Admin failed to ${attempt}`,
+      failure instanceof StackAuthRestError ? { status: failure.status, code: failure.code } : undefined,
+      failure);
+    throw error;
+  } finally {
+    recordProviderApiTime(performance.now() - apiStartTime);
+  }
+}
+
+/**
+ * List project users with cursor pagination
+ *
+ * @example
+ * const page = await listUsers(Astro, { query: 'jane', limit: 20 });
+ * const next = page.nextCursor && await listUsers(Astro, { cursor: page.nextCursor });
+ */
+export async function listUsers(context: APIContext, options: ListUsersOptions = {}): Promise<CursorPage<User>> {
+  const page = await callStackAuth(context, AuditEventType.ADMIN_USER_ACCESS, undefined, 'list users',
+    client => client.listUsers(options));
+
+  logAdminAction(context, AuditEventType.ADMIN_USER_ACCESS, undefined, 'Admin listed users', {
+    query: options.query,
+    resultCount: page.items.length
+  });
+  return page;
+}
+
+/**
+ * Get any user by ID, including server metadata
+ *
+ * @returns The user, or null when no such user exists; the lookup is
+ * still audited as a failed access
+ */
+export async function getUserById(context: APIContext, userId: string): Promise<User | null> {
+  try {
+    const user = await callStackAuth(context, AuditEventType.ADMIN_USER_ACCESS, userId, `view user ${userId}`,
+      client => client.getServerUser(userId));
+    logAdminAction(context, AuditEventType.ADMIN_USER_ACCESS, userId, `Admin viewed user ${userId}`);
+    return user;
+  } catch (error) {
+    if (error instanceof StackAuthRestError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update any user by ID
+ *
+ * Cached sessions and grants for the user are dropped so the change
+ * applies on their next request.
+ */
+export async function updateUserById(
+  context: APIContext,
+  userId: string,
+  data: AdminUserUpdateRequest
+): Promise<User> {
+  const user = await callStackAuth(context, AuditEventType.ACCOUNT_UPDATED, userId, `update user ${userId}`,
+    client => client.updateServerUser(userId, data));
+
+  await invalidateCachedUserSessions(userId);
+  clearUserGrantsCache(userId);
+  logAdminAction(context, AuditEventType.ACCOUNT_UPDATED, userId, `Admin updated user ${userId}`, {
+    fields: Object.keys(data)
+  });
+  return user;
+}
+
+/**
+ * Delete any user by ID
+ */
+export async function deleteUser(context: APIContext, userId: string): Promise<void> {
+  await callStackAuth(context, AuditEventType.ACCOUNT_DELETED, userId, `delete user ${userId}`,
+    client => client.deleteServerUser(userId));
+
+  await invalidateCachedUserSessions(userId);
+  clearUserGrantsCache(userId);
+  logAdminAction(context, AuditEventType.ACCOUNT_DELETED, userId, `Admin deleted user ${userId}`);
+}
+
+/**
+ * Sign a user out everywhere by revoking all of their sessions
+ *
+ * Access tokens verified locally with `jwtVerification` remain valid
+ * until they expire; only their refresh is prevented.
+ *
+ * @returns The number of sessions revoked
+ */
+export async function revokeAllSessions(context: APIContext, userId: string): Promise<number> {
+  const sessionIds = await callStackAuth(context, AuditEventType.SESSION_REVOKED, userId, `revoke all sessions of user ${userId}`, async client => {
+    const sessions = await client.listUserSessions(userId);
+    await Promise.all(sessions.map(session => client.revokeUserSession(userId, session.id)));
+    return sessions.map(session => session.id);
+  });
+
+  await invalidateCachedUserSessions(userId);
+  logAdminAction(context, AuditEventType.SESSION_REVOKED, userId, `Admin revoked all sessions of user ${userId}`, {
+    sessionIds
+  });
+  return sessionIds.length;
+}
+
+/**
+ * Create a session that signs in as another user
+ *
+ * Hand the returned tokens to the support agent's browser only; they grant
+ * full access to the user's account until `expiresIn` elapses.
+ */
+export async function createImpersonationSession(
+  context: APIContext,
+  userId: string,
+  options: { expiresIn?: number } = {}
+): Promise<ImpersonationSession> {
+  const expiresIn = options.expiresIn ?? DEFAULT_IMPERSONATION_TTL;
+  const session = await callStackAuth(context, AuditEventType.IMPERSONATION_STARTED, userId, `impersonate user ${userId}`,
+    client => client.createImpersonationSession(userId, expiresIn));
+
+  logAdminAction(context, AuditEventType.IMPERSONATION_STARTED, userId, `Admin started impersonating user ${userId}`, {
+    expiresIn
+  });
+  return session;
+}
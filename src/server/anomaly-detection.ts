@@ -0,0 +1,266 @@
+/**
+ * Anomaly detection over audit events
+ *
+ * Correlates audit entries that look harmless one at a time: failed
+ * sign-ins spread over many addresses, one address trying many accounts,
+ * or a user suddenly starting sessions from several browsers. The audit
+ * logger feeds every entry to the detector and logs each finding as a
+ * CRITICAL `SUSPICIOUS_ACTIVITY` entry.
+ *
+ * Failed sign-ins are `AUTH_FAILURE` entries naming the attempted account,
+ * and new sessions are `SESSION_CREATED` entries. `AUTH_SUCCESS` is logged
+ * on every authenticated request, so it is not counted.
+ *
+ * State is kept in memory per process, bounded by `maxTrackedKeys`.
+ */
+
+import { AuditEventType, type AuditLogEntry } from './audit.js';
+
+/**
+ * Threshold and time window of a counting rule
+ */
+export interface AnomalyRuleOptions {
+  threshold: number;
+  windowMs: number;
+}
+
+/**
+ * Approximate location of an address, e.g. from a GeoIP database
+ */
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export type AnomalyRule = 'bruteForce' | 'credentialStuffing' | 'sessionBurst' | 'impossibleTravel';
+
+/**
+ * A rule that fired
+ */
+export interface Anomaly {
+  rule: AnomalyRule;
+  message: string;
+
+  /**
+   * Account the activity targets: a user ID, or the account named in a
+   * failed sign-in's details
+   */
+  account?: string;
+
+  /**
+   * Unhashed client address of the entry that fired the rule, e.g. to
+   * lock `ip:${clientIP}` in the rate limiter
+   */
+  clientIP?: string;
+
+  details: Record<string, unknown>;
+}
+
+/**
+ * Anomaly detection settings, for the audit `anomalyDetection` option
+ *
+ * Set a rule to false to turn it off.
+ */
+export interface AnomalyDetectionOptions {
+  /**
+   * Failed sign-ins for one account, from any number of addresses
+   * @default { threshold: 10, windowMs: 15 minutes }
+   */
+  bruteForce?: Partial<AnomalyRuleOptions> | false;
+
+  /**
+   * Distinct accounts failing to sign in from one address
+   * @default { threshold: 5, windowMs: 15 minutes }
+   */
+  credentialStuffing?: Partial<AnomalyRuleOptions> | false;
+
+  /**
+   * Distinct user agents starting new sessions for one user
+   * @default { threshold: 3, windowMs: 10 minutes }
+   */
+  sessionBurst?: Partial<AnomalyRuleOptions> | false;
+
+  /**
+   * Consecutive sign-ins for one user from places too far apart to travel
+   * between in the time elapsed. Off unless a `locate` function is given.
+   */
+  impossibleTravel?: {
+    locate: (ip: string) => GeoLocation | null | undefined;
+    /**
+     * @default 1000
+     */
+    maxSpeedKmh?: number;
+  } | false;
+
+  /**
+   * Called for each finding after it has been logged, e.g. to lock the
+   * offending address with `lockRateLimitKey()`. Errors are reported and
+   * otherwise ignored.
+   */
+  onAnomaly?: (anomaly: Anomaly) => void | Promise<void>;
+
+  /**
+   * Accounts, addresses and users tracked at once; the least recently
+   * seen are forgotten first
+   * @default 10000
+   */
+  maxTrackedKeys?: number;
+}
+
+const DEFAULT_RULES: Record<Exclude<AnomalyRule, 'impossibleTravel'>, AnomalyRuleOptions> = {
+  bruteForce: { threshold: 10, windowMs: 15 * 60 * 1000 },
+  credentialStuffing: { threshold: 5, windowMs: 15 * 60 * 1000 },
+  sessionBurst: { threshold: 3, windowMs: 10 * 60 * 1000 }
+};
+
+// GeoIP locations are approximate; shorter jumps are not reported
+const MIN_TRAVEL_DISTANCE_KM = 100;
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance between two locations
+ */
+function distanceKm(a: GeoLocation, b: GeoLocation): number {
+  const radians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = radians(b.latitude - a.latitude);
+  const dLon = radians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(radians(a.latitude)) * Math.cos(radians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Account an entry concerns: its user, or the account named in its details
+ */
+function accountOf(entry: AuditLogEntry): string | undefined {
+  const candidate = entry.userId ?? entry.details?.account ?? entry.details?.email ?? entry.details?.username;
+  return typeof candidate === 'string' && candidate ? candidate : undefined;
+}
+
+/**
+ * Rules engine correlating audit entries
+ */
+export class AnomalyDetector {
+  // Per rule and subject: values seen in the window, with when they were last seen
+  private windows = new Map<string, Map<string, number>>();
+  private lastSignIns = new Map<string, { time: number; location: GeoLocation }>();
+  private eventCounter = 0;
+  private readonly maxTrackedKeys: number;
+
+  constructor(private readonly options: AnomalyDetectionOptions = {}) {
+    this.maxTrackedKeys = options.maxTrackedKeys ?? 10000;
+  }
+
+  /**
+   * Feed an entry to the rules
+   *
+   * @param clientIP - Unhashed client address of the entry
+   * @returns The rules that fired
+   */
+  observe(entry: AuditLogEntry, clientIP?: string): Anomaly[] {
+    const time = new Date(entry.timestamp).getTime();
+    const account = accountOf(entry);
+    const anomalies: Anomaly[] = [];
+    const fire = (rule: AnomalyRule, message: string, details: Record<string, unknown>) =>
+      anomalies.push({ rule, message, account, clientIP, details });
+
+    if (entry.eventType === AuditEventType.AUTH_FAILURE) {
+      const bruteForce = this.rule('bruteForce');
+      if (bruteForce && account) {
+        // Every failure counts, so each gets a value of its own
+        const failures = this.track(`bruteForce:${account}`, String(this.eventCounter++), time, bruteForce);
+        if (failures >= bruteForce.threshold) {
+          fire('bruteForce', `${failures} failed sign-ins for one account`, { failures, windowMs: bruteForce.windowMs });
+        }
+      }
+
+      const credentialStuffing = this.rule('credentialStuffing');
+      if (credentialStuffing && account && clientIP) {
+        const accounts = this.track(`credentialStuffing:${clientIP}`, account, time, credentialStuffing);
+        if (accounts >= credentialStuffing.threshold) {
+          fire('credentialStuffing', `Failed sign-ins for ${accounts} accounts from one address`, {
+            accounts,
+            windowMs: credentialStuffing.windowMs
+          });
+        }
+      }
+    }
+
+    if (entry.eventType === AuditEventType.SESSION_CREATED && entry.userId) {
+      const sessionBurst = this.rule('sessionBurst');
+      if (sessionBurst) {
+        const userAgents = this.track(`sessionBurst:${entry.userId}`, entry.userAgent, time, sessionBurst);
+        if (userAgents >= sessionBurst.threshold) {
+          fire('sessionBurst', `Sessions started from ${userAgents} different user agents`, {
+            userAgents,
+            windowMs: sessionBurst.windowMs
+          });
+        }
+      }
+
+      const travel = this.options.impossibleTravel;
+      const location = travel && clientIP ? travel.locate(clientIP) : null;
+      if (travel && location) {
+        const previous = this.lastSignIns.get(entry.userId);
+        this.remember(this.lastSignIns, entry.userId, { time, location });
+
+        if (previous) {
+          const distance = distanceKm(previous.location, location);
+          const hours = Math.max(time - previous.time, 1) / (60 * 60 * 1000);
+          const speed = distance / hours;
+          if (distance >= MIN_TRAVEL_DISTANCE_KM && speed > (travel.maxSpeedKmh ?? 1000)) {
+            fire('impossibleTravel', `Sign-ins ${Math.round(distance)} km apart within ${Math.round(hours * 60)} minutes`, {
+              distanceKm: Math.round(distance),
+              speedKmh: Math.round(speed),
+              previousSignInAt: new Date(previous.time).toISOString()
+            });
+          }
+        }
+      }
+    }
+
+    return anomalies;
+  }
+
+  /**
+   * Threshold and window of a counting rule, or null when it is off
+   */
+  private rule(name: Exclude<AnomalyRule, 'impossibleTravel'>): AnomalyRuleOptions | null {
+    const configured = this.options[name];
+    return configured === false ? null : { ...DEFAULT_RULES[name], ...configured };
+  }
+
+  /**
+   * Record a value for a subject and count the distinct values in the
+   * window. Once the threshold is reached the subject starts over, so a
+   * rule fires once per threshold's worth of activity.
+   */
+  private track(key: string, value: string, time: number, rule: AnomalyRuleOptions): number {
+    const values = this.windows.get(key) ?? new Map<string, number>();
+    values.set(value, time);
+    for (const [seen, seenAt] of values) {
+      if (seenAt <= time - rule.windowMs) {
+        values.delete(seen);
+      }
+    }
+
+    if (values.size >= rule.threshold) {
+      this.windows.delete(key);
+    } else {
+      this.remember(this.windows, key, values);
+    }
+    return values.size;
+  }
+
+  /**
+   * Store state for a key, forgetting the least recently seen keys
+   */
+  private remember<T>(map: Map<string, T>, key: string, value: T): void {
+    map.delete(key);
+    map.set(key, value);
+    if (map.size > this.maxTrackedKeys) {
+      map.delete(map.keys().next().value as string);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Tamper-evident hash chain for audit entries
+ *
+ * With a chain secret configured, every audit entry carries an HMAC over
+ * its contents and the previous entry's HMAC. Altering an entry breaks
+ * its own HMAC; removing, reordering or inserting entries breaks the
+ * sequence or the link to the previous entry. Each logger instance (i.e.
+ * each server process) writes its own chain, identified by `chainId`.
+ *
+ * Removing the newest entries of a chain cannot be detected from the log
+ * alone - ship entries to a sink you do not control from the app server
+ * (see `WebhookAuditSink`) when that matters.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { AuditLogEntry } from './audit.js';
+
+/**
+ * Position of the latest entry in a chain
+ */
+export interface AuditChainState {
+  chainId: string;
+  sequence: number;
+  lastHash: string;
+}
+
+/**
+ * Problem found while verifying a chain
+ *
+ * - `unsigned`: the entry has no chain fields
+ * - `tampered`: the entry's HMAC does not match its contents
+ * - `gap`: entries are missing before this one
+ * - `reordered`: the entry repeats or precedes an earlier sequence number
+ * - `broken-link`: the entry does not follow the previous entry's HMAC
+ */
+export interface AuditChainIssue {
+  index: number;
+  type: 'unsigned' | 'tampered' | 'gap' | 'reordered' | 'broken-link';
+  chainId?: string;
+  sequence?: number;
+  message: string;
+}
+
+/**
+ * Result of verifying audit entries
+ */
+export interface AuditChainReport {
+  valid: boolean;
+  entries: number;
+  chains: { chainId: string; firstSequence: number; lastSequence: number; count: number }[];
+  issues: AuditChainIssue[];
+}
+
+/**
+ * Derive the HMAC key from the configured secret, so the secret itself
+ * is never used as a key elsewhere
+ */
+function deriveChainKey(secret: string): Buffer {
+  return createHmac('sha256', secret).update('astro-stack-auth:audit-chain').digest();
+}
+
+/**
+ * Serialize a value with object keys sorted, so the HMAC does not depend
+ * on key order after the entry has been exported and parsed again
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Compute the HMAC of an entry, covering every field except `hash`
+ */
+function computeEntryHash(entry: AuditLogEntry, key: Buffer): string {
+  // Round-trip first so values such as Dates hash the way they are exported
+  const { hash: _hash, ...content } = JSON.parse(JSON.stringify(entry)) as AuditLogEntry;
+  return createHmac('sha256', key).update(canonicalize(content)).digest('hex');
+}
+
+function hashesEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Append an entry to a chain, setting its sequence, previous hash and HMAC
+ */
+export function appendToAuditChain(entry: AuditLogEntry, state: AuditChainState, secret: string): void {
+  state.sequence++;
+  entry.chainId = state.chainId;
+  entry.sequence = state.sequence;
+  entry.previousHash = state.lastHash;
+  entry.hash = computeEntryHash(entry, deriveChainKey(secret));
+  state.lastHash = entry.hash;
+}
+
+/**
+ * Verify the integrity of audit entries, in the order they were logged
+ *
+ * Entries from several chains (e.g. server processes writing to one file)
+ * may be interleaved. Set `partial` when the entries are a later slice of
+ * a longer log, such as one rotated file, so that chains need not start
+ * at sequence 1.
+ */
+export function verifyAuditChain(
+  entries: AuditLogEntry[],
+  secret: string,
+  options: { partial?: boolean } = {}
+): AuditChainReport {
+  const key = deriveChainKey(secret);
+  const chains = new Map<string, { firstSequence: number; lastSequence: number; lastHash: string; count: number }>();
+  const issues: AuditChainIssue[] = [];
+
+  entries.forEach((entry, index) => {
+    const { chainId, sequence, previousHash, hash } = entry;
+    if (!chainId || typeof sequence !== 'number' || typeof previousHash !== 'string' || !hash) {
+      issues.push({ index, type: 'unsigned', message: 'Entry has no hash chain fields' });
+      return;
+    }
+
+    const issue = (type: AuditChainIssue['type'], message: string) =>
+      issues.push({ index, type, chainId, sequence, message });
+
+    if (!hashesEqual(computeEntryHash(entry, key), hash)) {
+      issue('tampered', `Entry ${chainId}#${sequence} does not match its HMAC`);
+    }
+
+    const chain = chains.get(chainId);
+    if (!chain) {
+      if (!options.partial && (sequence !== 1 || previousHash !== '')) {
+        issue('gap', `Chain ${chainId} starts at #${sequence}; entries #1 to #${sequence - 1} are missing`);
+      }
+      chains.set(chainId, { firstSequence: sequence, lastSequence: sequence, lastHash: hash, count: 1 });
+      return;
+    }
+
+    chain.count++;
+    if (sequence <= chain.lastSequence) {
+      // Keep linking from the latest entry so the next one is not reported too
+      issue('reordered', `Entry ${chainId}#${sequence} follows #${chain.lastSequence}`);
+      return;
+    }
+
+    if (sequence > chain.lastSequence + 1) {
+      issue('gap', `Entries ${chainId}#${chain.lastSequence + 1} to #${sequence - 1} are missing`);
+    } else if (!hashesEqual(previousHash, chain.lastHash)) {
+      issue('broken-link', `Entry ${chainId}#${sequence} does not follow the HMAC of #${chain.lastSequence}`);
+    }
+    chain.lastSequence = sequence;
+    chain.lastHash = hash;
+  });
+
+  return {
+    valid: issues.length === 0,
+    entries: entries.length,
+    chains: [...chains].map(([chainId, { firstSequence, lastSequence, count }]) => ({
+      chainId,
+      firstSequence,
+      lastSequence,
+      count
+    })),
+    issues
+  };
+}
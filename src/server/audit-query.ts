@@ -0,0 +1,175 @@
+/**
+ * Audit log queries for Stack Auth
+ *
+ * Filters and pages through the entries the audit logger keeps in memory
+ * (the most recent 500 to 1000 of this process). Use a sink to retain
+ * entries beyond that, and query them where they are stored.
+ */
+
+import { auditLogger, AuditEventType, RiskLevel, type AuditLogEntry } from './audit.js';
+
+// Entries returned per page unless a limit is given
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+
+// Largest page size accepted
+export const MAX_AUDIT_PAGE_SIZE = 1000;
+
+/**
+ * Audit log filters and page position
+ */
+export interface AuditLogQuery {
+  eventType?: AuditEventType | AuditEventType[];
+  riskLevel?: RiskLevel | RiskLevel[];
+  userId?: string;
+
+  /**
+   * Request path the entry was logged for, exact or ending in `*` for a prefix
+   */
+  endpoint?: string;
+
+  /**
+   * Entries logged at or after this time
+   */
+  from?: Date | string;
+
+  /**
+   * Entries logged before this time
+   */
+  to?: Date | string;
+
+  /**
+   * `nextCursor` of the previous page
+   */
+  cursor?: string;
+
+  /**
+   * @default 50
+   */
+  limit?: number;
+}
+
+/**
+ * One page of matching entries, newest first
+ */
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+
+  /**
+   * Cursor for the next (older) page, or null on the last page
+   */
+  nextCursor: string | null;
+}
+
+/**
+ * Error for a malformed query, e.g. an unknown event type or bad cursor
+ */
+export class AuditQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditQueryError';
+  }
+}
+
+function toList<T>(value: T | T[] | undefined): T[] | undefined {
+  return value === undefined ? undefined : Array.isArray(value) ? value : [value];
+}
+
+function toTime(value: Date | string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    throw new AuditQueryError(`${name} must be a valid date`);
+  }
+  return time;
+}
+
+function encodeCursor(position: number): string {
+  return Buffer.from(String(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  const position = Number(Buffer.from(cursor, 'base64url').toString());
+  if (!Number.isInteger(position) || position < 0) {
+    throw new AuditQueryError('cursor is not valid');
+  }
+  return position;
+}
+
+/**
+ * Build a predicate matching entries against the query filters
+ */
+function createFilter(query: AuditLogQuery): (entry: AuditLogEntry) => boolean {
+  const eventTypes = toList(query.eventType);
+  const riskLevels = toList(query.riskLevel);
+  const from = toTime(query.from, 'from');
+  const to = toTime(query.to, 'to');
+
+  eventTypes?.forEach(eventType => {
+    if (!Object.values(AuditEventType).includes(eventType)) {
+      throw new AuditQueryError(`Unknown event type: ${eventType}`);
+    }
+  });
+  riskLevels?.forEach(riskLevel => {
+    if (!Object.values(RiskLevel).includes(riskLevel)) {
+      throw new AuditQueryError(`Unknown risk level: ${riskLevel}`);
+    }
+  });
+
+  const endpoint = query.endpoint;
+  const matchesEndpoint = !endpoint ? () => true
+    : endpoint.endsWith('*') ? (path: string) => path.startsWith(endpoint.slice(0, -1))
+    : (path: string) => path === endpoint;
+
+  return entry => {
+    const time = new Date(entry.timestamp).getTime();
+    return (!eventTypes || eventTypes.includes(entry.eventType)) &&
+      (!riskLevels || riskLevels.includes(entry.riskLevel)) &&
+      (query.userId === undefined || entry.userId === query.userId) &&
+      matchesEndpoint(entry.endpoint) &&
+      (from === undefined || time >= from) &&
+      (to === undefined || time < to);
+  };
+}
+
+/**
+ * Query the buffered audit log
+ *
+ * Pages stay stable while new entries are logged: a cursor continues from
+ * the last entry of the previous page rather than from an offset.
+ *
+ * @example
+ * ```typescript
+ * const { entries, nextCursor } = queryAuditLogs({
+ *   riskLevel: [RiskLevel.HIGH, RiskLevel.CRITICAL],
+ *   from: new Date(Date.now() - 24 * 60 * 60 * 1000)
+ * });
+ * ```
+ *
+ * @throws AuditQueryError when a filter, the limit or the cursor is invalid
+ */
+export function queryAuditLogs(query: AuditLogQuery = {}): AuditLogPage {
+  const limit = query.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+    throw new AuditQueryError(`limit must be between 1 and ${MAX_AUDIT_PAGE_SIZE}`);
+  }
+
+  const matches = createFilter(query);
+  const { entries, offset } = auditLogger.getBufferedLogs();
+  const before = query.cursor !== undefined ? decodeCursor(query.cursor) : offset + entries.length;
+
+  const page: AuditLogEntry[] = [];
+  for (let index = Math.min(before - offset, entries.length) - 1; index >= 0; index--) {
+    if (!matches(entries[index])) {
+      continue;
+    }
+    if (page.length === limit) {
+      // Another match exists, so continue after the last entry returned
+      return { entries: page, nextCursor: encodeCursor(offset + index + 1) };
+    }
+    page.push(entries[index]);
+  }
+
+  return { entries: page, nextCursor: null };
+}
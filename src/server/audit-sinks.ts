@@ -0,0 +1,366 @@
+/**
+ * Audit log sinks for Stack Auth
+ *
+ * Deliver audit entries somewhere durable: a rotating NDJSON file, an
+ * HTTP webhook, or a function of your own. Entries are queued in memory
+ * and written in batches in the background, so logging never blocks a
+ * request. While a batch is in flight new entries wait in the queue; when
+ * the queue is full further entries are dropped and counted rather than
+ * growing memory without bound.
+ *
+ * Queued entries are flushed when the process is about to exit on its
+ * own. Call `auditLogger.flush()` from your SIGTERM handler to deliver
+ * them on signals too.
+ */
+
+import { appendFile, mkdir, rename, stat, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AuditLogEntry, AuditSink } from './audit.js';
+
+/**
+ * Batching and queue limits shared by the built-in sinks
+ */
+export interface BatchingAuditSinkOptions {
+  /**
+   * Entries delivered per batch
+   * @default 100
+   */
+  batchSize?: number;
+
+  /**
+   * Longest time an entry waits before its batch is delivered
+   * @default 1000
+   */
+  flushIntervalMs?: number;
+
+  /**
+   * Entries held while delivery is slow; further entries are dropped
+   * @default 10000
+   */
+  maxQueueSize?: number;
+}
+
+// Sinks with queued entries to deliver before the process exits
+const activeSinks = new Set<BatchingAuditSink>();
+let exitHookInstalled = false;
+
+function installExitHook(): void {
+  if (exitHookInstalled || typeof process === 'undefined' || typeof process.on !== 'function') {
+    return;
+  }
+  exitHookInstalled = true;
+
+  // beforeExit fires again after the flush; only pending sinks schedule work, so this ends
+  process.on('beforeExit', () => {
+    activeSinks.forEach(sink => {
+      if (sink.pending > 0) {
+        void sink.flush();
+      }
+    });
+  });
+}
+
+/**
+ * Base class for sinks that deliver entries in batches
+ */
+export abstract class BatchingAuditSink implements AuditSink {
+  private queue: AuditLogEntry[] = [];
+  private sending: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private droppedCount = 0;
+  private overflowing = false;
+  private closed = false;
+
+  protected readonly batchSize: number;
+  protected readonly flushIntervalMs: number;
+  protected readonly maxQueueSize: number;
+
+  constructor(options: BatchingAuditSinkOptions = {}) {
+    this.batchSize = options.batchSize ?? 100;
+    this.flushIntervalMs = options.flushIntervalMs ?? 1000;
+    this.maxQueueSize = options.maxQueueSize ?? 10000;
+
+    activeSinks.add(this);
+    installExitHook();
+  }
+
+  /**
+   * Deliver one batch, throwing if it could not be delivered
+   */
+  protected abstract send(batch: AuditLogEntry[]): Promise<void>;
+
+  /**
+   * Entries waiting to be delivered
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Entries lost to a full queue or a failed delivery
+   */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  write(entry: AuditLogEntry): void {
+    if (this.closed) {
+      return;
+    }
+
+    if (this.queue.length >= this.maxQueueSize) {
+      this.droppedCount++;
+      if (!this.overflowing) {
+        this.overflowing = true;
+        console.error(`Stack Auth audit sink queue is full (${this.maxQueueSize} entries) - dropping entries`);
+      }
+      return;
+    }
+    this.overflowing = false;
+    this.queue.push(entry);
+
+    if (this.queue.length >= this.batchSize) {
+      void this.drain();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        void this.drain();
+      }, this.flushIntervalMs);
+      // Never keep the process alive just for the timer; beforeExit flushes instead
+      this.timer.unref?.();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    while (this.queue.length > 0 || this.sending) {
+      await this.drain();
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.flush();
+    activeSinks.delete(this);
+  }
+
+  /**
+   * Deliver queued batches one at a time
+   */
+  private drain(): Promise<void> {
+    if (!this.sending) {
+      this.sending = (async () => {
+        while (this.queue.length > 0) {
+          const batch = this.queue.splice(0, this.batchSize);
+          try {
+            await this.send(batch);
+          } catch (error) {
+            this.droppedCount += batch.length;
+            console.error(
+              `Stack Auth audit sink failed - ${batch.length} entries dropped:`,
+              error instanceof Error ? error.message : error
+            );
+          }
+        }
+      })().finally(() => {
+        this.sending = null;
+      });
+    }
+    return this.sending;
+  }
+}
+
+/**
+ * File sink options
+ */
+export interface FileAuditSinkOptions extends BatchingAuditSinkOptions {
+  /**
+   * File to append to, one JSON entry per line
+   */
+  path: string;
+
+  /**
+   * Size at which the file is rotated to `{path}.1`
+   * @default 10 MB
+   */
+  maxBytes?: number;
+
+  /**
+   * Rotated files kept (`{path}.1` is the newest)
+   * @default 5
+   */
+  maxFiles?: number;
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Sink appending NDJSON to a size-rotated file
+ */
+export class FileAuditSink extends BatchingAuditSink {
+  private readonly path: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private size: number | null = null;
+
+  constructor(options: FileAuditSinkOptions) {
+    super(options);
+    this.path = options.path;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  protected async send(batch: AuditLogEntry[]): Promise<void> {
+    const lines = batch.map(entry => `${JSON.stringify(entry)}\n`).join('');
+    const bytes = Buffer.byteLength(lines);
+
+    if (this.size === null) {
+      await mkdir(dirname(this.path), { recursive: true });
+      this.size = await stat(this.path).then(stats => stats.size, error => {
+        if (isMissingFile(error)) return 0;
+        throw error;
+      });
+    }
+
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      await this.rotate();
+    }
+
+    await appendFile(this.path, lines, 'utf8');
+    this.size += bytes;
+  }
+
+  /**
+   * Shift `{path}.N` to `{path}.N+1`, dropping the oldest, and start a new file
+   */
+  private async rotate(): Promise<void> {
+    const ignoreMissing = (error: unknown) => {
+      if (!isMissingFile(error)) throw error;
+    };
+
+    if (this.maxFiles < 1) {
+      await unlink(this.path).catch(ignoreMissing);
+    } else {
+      await unlink(`${this.path}.${this.maxFiles}`).catch(ignoreMissing);
+      for (let index = this.maxFiles - 1; index >= 1; index--) {
+        await rename(`${this.path}.${index}`, `${this.path}.${index + 1}`).catch(ignoreMissing);
+      }
+      await rename(this.path, `${this.path}.1`);
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * Webhook sink options
+ */
+export interface WebhookAuditSinkOptions extends BatchingAuditSinkOptions {
+  /**
+   * Endpoint receiving `POST { entries: AuditLogEntry[] }`
+   */
+  url: string;
+
+  /**
+   * Extra request headers, e.g. an Authorization header
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Retries after a network error, 429 or 5xx response
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay before the first retry, doubled for each further one
+   * @default 500
+   */
+  retryDelayMs?: number;
+
+  /**
+   * Request timeout
+   * @default 5000
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Sink posting batches of entries to an HTTP endpoint
+ */
+export class WebhookAuditSink extends BatchingAuditSink {
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private readonly timeoutMs: number;
+
+  constructor(options: WebhookAuditSinkOptions) {
+    super(options);
+    this.url = options.url;
+    this.headers = options.headers ?? {};
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  protected async send(batch: AuditLogEntry[]): Promise<void> {
+    const body = JSON.stringify({ entries: batch });
+
+    for (let attempt = 0; ; attempt++) {
+      const failure = await this.post(body);
+      if (!failure) {
+        return;
+      }
+      if (!failure.retryable || attempt >= this.maxRetries) {
+        throw new Error(`${failure.message} after ${attempt + 1} attempt(s)`);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.retryDelayMs * 2 ** attempt));
+    }
+  }
+
+  /**
+   * Post one batch
+   *
+   * @returns null on success, otherwise why it failed and whether a retry may help
+   */
+  private async post(body: string): Promise<{ message: string; retryable: boolean } | null> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { ...this.headers, 'Content-Type': 'application/json' },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      if (response.ok) {
+        return null;
+      }
+      return {
+        message: `webhook responded with ${response.status}`,
+        retryable: response.status === 429 || response.status >= 500
+      };
+    } catch (error) {
+      return { message: error instanceof Error ? error.message : String(error), retryable: true };
+    }
+  }
+}
+
+/**
+ * Sink handing batches to a function, e.g. to forward them to a logging SDK
+ */
+export class FunctionAuditSink extends BatchingAuditSink {
+  constructor(
+    private readonly handler: (entries: AuditLogEntry[]) => void | Promise<void>,
+    options: BatchingAuditSinkOptions = {}
+  ) {
+    super(options);
+  }
+
+  protected async send(batch: AuditLogEntry[]): Promise<void> {
+    await this.handler(batch);
+  }
+}
@@ -6,6 +6,11 @@
  */
 
 import { getClientIP, generateSecureHash } from './security.js';
+import { getRuntimeOptions } from '../runtime-options.js';
+import { appendToAuditChain, type AuditChainState } from './audit-chain.js';
+import { AnomalyDetector, type AnomalyDetectionOptions } from './anomaly-detection.js';
+import { authMetrics } from './metrics.js';
+import { randomBytes } from 'crypto';
 import type { APIContext } from 'astro';
 import type { User, Session } from '../rest-api/types.js';
 
@@ -26,6 +31,8 @@ export enum AuditEventType {
   RATE_LIMIT_EXCEEDED = 'rate_limit_exceeded',
   INVALID_ORIGIN = 'invalid_origin',
   SUSPICIOUS_ACTIVITY = 'suspicious_activity',
+  CSP_VIOLATION = 'csp_violation',
+  PROXY_BLOCKED = 'proxy_blocked',
   
   // Account events
   ACCOUNT_CREATED = 'account_created',
@@ -36,6 +43,8 @@ export enum AuditEventType {
   
   // Administrative events
   PERMISSION_DENIED = 'permission_denied',
+  ADMIN_USER_ACCESS = 'admin_user_access',
+  IMPERSONATION_STARTED = 'impersonation_started',
   CONFIGURATION_ERROR = 'configuration_error',
   SYSTEM_ERROR = 'system_error'
 }
@@ -64,6 +73,32 @@ export interface AuditLogEntry {
   message: string;
   details?: Record<string, any>;
   stackTrace?: string;
+  
+  // Hash chain fields, present when a chain secret is configured
+  chainId?: string;
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
+}
+
+/**
+ * Destination for audit entries
+ * 
+ * `write()` is called synchronously for every entry and must not throw;
+ * sinks that do I/O queue the entry and deliver it in the background.
+ */
+export interface AuditSink {
+  write(entry: AuditLogEntry): void;
+  
+  /**
+   * Deliver everything queued so far
+   */
+  flush(): Promise<void>;
+  
+  /**
+   * Flush and release resources (timers, handles)
+   */
+  close?(): Promise<void>;
 }
 
 // Audit configuration
@@ -73,6 +108,9 @@ export interface AuditConfig {
   includeStackTraces: boolean;
   hashSensitiveData: boolean;
   maxLogSize: number; // Maximum log entry size in characters
+  sinks?: AuditSink[]; // Defaults to colorized console output
+  chainSecret?: string; // Chains entries with HMACs; defaults to STACK_AUDIT_CHAIN_SECRET
+  anomalyDetection?: boolean | AnomalyDetectionOptions; // Off by default
 }
 
 // Default audit configuration
@@ -84,16 +122,66 @@ const DEFAULT_AUDIT_CONFIG: AuditConfig = {
   maxLogSize: 5000
 };
 
+/**
+ * Write an entry to the console, colored by risk level
+ */
+function writeToConsole(entry: AuditLogEntry, maxLogSize: number): void {
+  // Truncate if too large
+  const logData = JSON.stringify(entry);
+  const truncatedLog = logData.length > maxLogSize ? 
+    logData.substring(0, maxLogSize) + '...[truncated]' : 
+    logData;
+  
+  // Color code by risk level
+  const colors = {
+    [RiskLevel.LOW]: '\x1b[36m',      // Cyan
+    [RiskLevel.MEDIUM]: '\x1b[33m',   // Yellow
+    [RiskLevel.HIGH]: '\x1b[31m',     // Red
+    [RiskLevel.CRITICAL]: '\x1b[35m'  // Magenta
+  };
+  
+  const reset = '\x1b[0m';
+  const color = colors[entry.riskLevel] || '';
+  
+  console.log(`${color}[AUDIT:${entry.riskLevel.toUpperCase()}]${reset} ${truncatedLog}`);
+}
+
+/**
+ * Sink writing colorized entries to the console - the default output
+ */
+export class ConsoleAuditSink implements AuditSink {
+  constructor(private readonly options: { maxLogSize?: number } = {}) {}
+  
+  write(entry: AuditLogEntry): void {
+    writeToConsole(entry, this.options.maxLogSize ?? DEFAULT_AUDIT_CONFIG.maxLogSize);
+  }
+  
+  async flush(): Promise<void> {}
+}
+
 /**
  * Audit logger class
+ * 
+ * Settings passed to the constructor or `updateConfig()` take precedence
+ * over the `audit` integration option, which overrides the defaults.
  */
 class AuditLogger {
-  private config: AuditConfig;
+  private config: Partial<AuditConfig>;
   private logBuffer: AuditLogEntry[] = [];
   private readonly MAX_BUFFER_SIZE = 1000;
+  private bufferOffset = 0; // Entries trimmed or cleared from the buffer so far
+  private chain: AuditChainState = { chainId: randomBytes(8).toString('hex'), sequence: 0, lastHash: '' };
+  private anomalyDetector: { options: AuditConfig['anomalyDetection']; detector: AnomalyDetector } | null = null;
+  
+  constructor(config: Partial<AuditConfig> = {}) {
+    this.config = { ...config };
+  }
   
-  constructor(config: AuditConfig = DEFAULT_AUDIT_CONFIG) {
-    this.config = { ...DEFAULT_AUDIT_CONFIG, ...config };
+  /**
+   * Effective configuration
+   */
+  private get settings(): AuditConfig {
+    return { ...DEFAULT_AUDIT_CONFIG, ...getRuntimeOptions().audit, ...this.config };
   }
   
   /**
@@ -108,7 +196,7 @@ class AuditLogger {
     session?: Session | null;
     error?: Error;
   }): void {
-    if (!this.config.enabled) return;
+    if (!this.settings.enabled) return;
     
     // Check if this event should be logged based on level
     const riskLevel = entry.riskLevel || this.inferRiskLevel(entry.eventType);
@@ -117,11 +205,21 @@ class AuditLogger {
     // Build complete audit entry
     const auditEntry = this.buildAuditEntry(entry, riskLevel);
     
+    // Link into the hash chain before any sink sees the entry
+    const chainSecret = this.settings.chainSecret || process.env.STACK_AUDIT_CHAIN_SECRET;
+    if (chainSecret) {
+      appendToAuditChain(auditEntry, this.chain, chainSecret);
+    }
+    
     // Add to buffer
     this.addToBuffer(auditEntry);
     
     // Output to console (in production, this would go to a proper logging system)
     this.outputLog(auditEntry);
+    
+    authMetrics.auditEvents.inc({ event_type: auditEntry.eventType, risk_level: auditEntry.riskLevel });
+    
+    this.detectAnomalies(entry, auditEntry);
   }
   
   /**
@@ -168,6 +266,43 @@ class AuditLogger {
     });
   }
   
+  /**
+   * Log an authorization failure for an authenticated user
+   */
+  logPermissionDenied(context: APIContext, user: User, details?: Record<string, unknown>): void {
+    this.log({
+      eventType: AuditEventType.PERMISSION_DENIED,
+      message: `User ${user.id} denied access to ${context.url.pathname}`,
+      context,
+      user,
+      details
+    });
+  }
+  
+  /**
+   * Log an administrative action on another user's account
+   * 
+   * The entry's user is the target; the acting user is recorded as `actorId`.
+   * Pass the error of a failed attempt to log it with `success: false`.
+   */
+  logAdminAction(
+    context: APIContext,
+    eventType: AuditEventType,
+    targetUserId: string | undefined,
+    message: string,
+    details?: Record<string, unknown>,
+    error?: Error
+  ): void {
+    this.log({
+      eventType,
+      message,
+      context,
+      userId: targetUserId,
+      error,
+      details: { actorId: context.locals?.user?.id ?? null, ...details }
+    });
+  }
+  
   /**
    * Log rate limit exceeded
    */
@@ -205,12 +340,15 @@ class AuditLogger {
       AuditEventType.INVALID_ORIGIN,
       AuditEventType.SUSPICIOUS_ACTIVITY,
       AuditEventType.PERMISSION_DENIED,
+      AuditEventType.IMPERSONATION_STARTED,
       AuditEventType.SYSTEM_ERROR
     ];
     
     const mediumRiskEvents = [
       AuditEventType.AUTH_FAILURE,
       AuditEventType.RATE_LIMIT_EXCEEDED,
+      AuditEventType.CSP_VIOLATION,
+      AuditEventType.PROXY_BLOCKED,
       AuditEventType.SESSION_EXPIRED,
       AuditEventType.PASSWORD_RESET_REQUESTED
     ];
@@ -225,10 +363,11 @@ class AuditLogger {
    */
   private shouldLog(riskLevel: RiskLevel): boolean {
     const levelOrder = [RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH, RiskLevel.CRITICAL];
+    const { logLevel } = this.settings;
     const configIndex = levelOrder.indexOf(
-      this.config.logLevel === 'all' ? RiskLevel.LOW :
-      this.config.logLevel === 'medium_and_up' ? RiskLevel.MEDIUM :
-      this.config.logLevel === 'high_and_up' ? RiskLevel.HIGH :
+      logLevel === 'all' ? RiskLevel.LOW :
+      logLevel === 'medium_and_up' ? RiskLevel.MEDIUM :
+      logLevel === 'high_and_up' ? RiskLevel.HIGH :
       RiskLevel.CRITICAL
     );
     
@@ -268,7 +407,7 @@ class AuditLogger {
     }
     
     // Sanitize user agent if needed
-    if (this.config.hashSensitiveData) {
+    if (this.settings.hashSensitiveData) {
       userAgent = generateSecureHash(userAgent).substring(0, 16);
     }
     
@@ -278,7 +417,7 @@ class AuditLogger {
       riskLevel,
       userId: entry.user?.id || entry.userId,
       sessionId: entry.sessionId,
-      clientIP: this.config.hashSensitiveData ? generateSecureHash(clientIP).substring(0, 16) : clientIP,
+      clientIP: this.settings.hashSensitiveData ? generateSecureHash(clientIP).substring(0, 16) : clientIP,
       userAgent,
       endpoint,
       method,
@@ -288,13 +427,59 @@ class AuditLogger {
     };
     
     // Add stack trace if configured and error present
-    if (entry.error && this.config.includeStackTraces) {
+    if (entry.error && this.settings.includeStackTraces) {
       auditEntry.stackTrace = entry.error.stack;
     }
     
     return auditEntry;
   }
   
+  /**
+   * Correlate an entry with earlier ones, logging findings as critical
+   * suspicious activity
+   */
+  private detectAnomalies(
+    entry: { context?: APIContext; request?: Request },
+    auditEntry: AuditLogEntry
+  ): void {
+    const { anomalyDetection, hashSensitiveData } = this.settings;
+    // Findings are not fed back, so they cannot trigger each other
+    if (!anomalyDetection || auditEntry.eventType === AuditEventType.SUSPICIOUS_ACTIVITY) {
+      return;
+    }
+    
+    const options = anomalyDetection === true ? {} : anomalyDetection;
+    if (this.anomalyDetector?.options !== anomalyDetection) {
+      this.anomalyDetector = { options: anomalyDetection, detector: new AnomalyDetector(options) };
+    }
+    
+    const request = entry.context?.request || entry.request;
+    const anomalies = this.anomalyDetector.detector.observe(auditEntry, request ? getClientIP(request) : undefined);
+    
+    anomalies.forEach(anomaly => {
+      const account = anomaly.account && hashSensitiveData ?
+        generateSecureHash(anomaly.account).substring(0, 16) :
+        anomaly.account;
+      this.log({
+        eventType: AuditEventType.SUSPICIOUS_ACTIVITY,
+        riskLevel: RiskLevel.CRITICAL,
+        message: `Suspicious activity: ${anomaly.message}`,
+        context: entry.context,
+        request: entry.request,
+        userId: auditEntry.userId,
+        details: { rule: anomaly.rule, account, ...anomaly.details }
+      });
+      
+      if (options.onAnomaly) {
+        Promise.resolve()
+          .then(() => options.onAnomaly?.(anomaly))
+          .catch(error => {
+            console.error('Stack Auth anomaly handler failed:', error instanceof Error ? error.message : error);
+          });
+      }
+    });
+  }
+  
   /**
    * Add entry to buffer
    */
@@ -303,32 +488,29 @@ class AuditLogger {
     
     // Trim buffer if it gets too large
     if (this.logBuffer.length > this.MAX_BUFFER_SIZE) {
+      this.bufferOffset += this.logBuffer.length - this.MAX_BUFFER_SIZE / 2;
       this.logBuffer = this.logBuffer.slice(-this.MAX_BUFFER_SIZE / 2);
     }
   }
   
   /**
-   * Output log entry to console (or external logging system)
+   * Output log entry to the configured sinks, or the console by default
    */
   private outputLog(entry: AuditLogEntry): void {
-    // Truncate if too large
-    const logData = JSON.stringify(entry);
-    const truncatedLog = logData.length > this.config.maxLogSize ? 
-      logData.substring(0, this.config.maxLogSize) + '...[truncated]' : 
-      logData;
-    
-    // Color code by risk level
-    const colors = {
-      [RiskLevel.LOW]: '\x1b[36m',      // Cyan
-      [RiskLevel.MEDIUM]: '\x1b[33m',   // Yellow
-      [RiskLevel.HIGH]: '\x1b[31m',     // Red
-      [RiskLevel.CRITICAL]: '\x1b[35m'  // Magenta
-    };
-    
-    const reset = '\x1b[0m';
-    const color = colors[entry.riskLevel] || '';
+    const { sinks, maxLogSize } = this.settings;
+    if (!sinks) {
+      writeToConsole(entry, maxLogSize);
+      return;
+    }
     
-    console.log(`${color}[AUDIT:${entry.riskLevel.toUpperCase()}]${reset} ${truncatedLog}`);
+    sinks.forEach(sink => {
+      try {
+        sink.write(entry);
+      } catch (error) {
+        // A broken sink must not break the request that is being audited
+        console.error('Stack Auth audit sink failed:', error instanceof Error ? error.message : error);
+      }
+    });
   }
   
   /**
@@ -342,14 +524,41 @@ class AuditLogger {
    * Clear log buffer
    */
   clearBuffer(): void {
+    this.bufferOffset += this.logBuffer.length;
     this.logBuffer = [];
   }
   
+  /**
+   * Get all buffered logs, oldest first, with the position of the first
+   * one among every entry this process has buffered
+   */
+  getBufferedLogs(): { entries: AuditLogEntry[]; offset: number } {
+    return { entries: [...this.logBuffer], offset: this.bufferOffset };
+  }
+  
   /**
    * Update configuration
+   * 
+   * Settings passed as undefined fall back to the integration option.
    */
   updateConfig(newConfig: Partial<AuditConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+    const previousSinks = this.settings.sinks || [];
+    this.config = Object.fromEntries(
+      Object.entries({ ...this.config, ...newConfig }).filter(([, value]) => value !== undefined)
+    );
+    
+    // Deliver what replaced sinks still hold
+    const currentSinks = this.settings.sinks || [];
+    previousSinks
+      .filter(sink => !currentSinks.includes(sink))
+      .forEach(sink => void sink.flush().catch(() => {}));
+  }
+  
+  /**
+   * Deliver queued entries in all sinks, e.g. before the process exits
+   */
+  async flush(): Promise<void> {
+    await Promise.allSettled((this.settings.sinks || []).map(sink => sink.flush()));
   }
 }
 
@@ -385,6 +594,27 @@ export function logSecurityViolation(
   auditLogger.logSecurityViolation(eventType, context, message, details);
 }
 
+/**
+ * Log permission denied
+ */
+export function logPermissionDenied(context: APIContext, user: User, details?: Record<string, unknown>): void {
+  auditLogger.logPermissionDenied(context, user, details);
+}
+
+/**
+ * Log administrative action
+ */
+export function logAdminAction(
+  context: APIContext,
+  eventType: AuditEventType,
+  targetUserId: string | undefined,
+  message: string,
+  details?: Record<string, unknown>,
+  error?: Error
+): void {
+  auditLogger.logAdminAction(context, eventType, targetUserId, message, details, error);
+}
+
 /**
  * Log rate limit exceeded
  */
@@ -468,6 +698,43 @@ export const SecurityEvents = {
    */
   suspiciousActivity: (context: APIContext, reason: string, details?: Record<string, any>) => {
     logSecurityViolation(AuditEventType.SUSPICIOUS_ACTIVITY, context, `Suspicious activity: ${reason}`, details);
+  },
+  
+  /**
+   * Track a Content-Security-Policy violation reported by a browser
+   */
+  cspViolation: (context: APIContext, directive: string, details?: Record<string, unknown>) => {
+    auditLogger.log({
+      eventType: AuditEventType.CSP_VIOLATION,
+      message: `Content-Security-Policy violation: ${directive}`,
+      context,
+      details
+    });
+  },
+  
+  /**
+   * Track a new session, e.g. from a sign-in or OAuth callback
+   */
+  sessionCreated: (context: APIContext, userId: string, details?: Record<string, unknown>) => {
+    auditLogger.log({
+      eventType: AuditEventType.SESSION_CREATED,
+      message: `Session created for user ${userId}`,
+      context,
+      userId,
+      details
+    });
+  },
+  
+  /**
+   * Track a request the API proxy refused to forward
+   */
+  proxyBlocked: (context: APIContext, path: string, details?: Record<string, unknown>) => {
+    auditLogger.log({
+      eventType: AuditEventType.PROXY_BLOCKED,
+      message: `Blocked proxy request: ${context.request.method} ${path}`,
+      context,
+      details
+    });
   }
 };
 
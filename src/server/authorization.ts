@@ -0,0 +1,140 @@
+/**
+ * Role and permission lookups for Stack Auth users
+ *
+ * Permissions are the user's Stack Auth project permissions combined with
+ * any listed in `serverMetadata.permissions`. Roles are read from
+ * `serverMetadata.roles` (or a single `serverMetadata.role`). Server
+ * metadata is never exposed to the client, so users cannot grant
+ * themselves roles.
+ *
+ * Lookups are cached per user for a short time so that several checks
+ * during one page render only hit Stack Auth once.
+ */
+
+import type { User } from '../rest-api/types.js';
+import { StackAuthRestClient } from '../rest-api/client.js';
+import { tryGetConfig } from '../config.js';
+import { recordProviderApiTime } from './performance.js';
+
+/**
+ * Permissions and roles resolved for a user
+ */
+export interface UserGrants {
+  permissions: string[];
+  roles: string[];
+}
+
+const GRANTS_CACHE_TTL = 60 * 1000; // 1 minute
+const GRANTS_CACHE_MAX_ENTRIES = 1000;
+
+// Recently resolved grants, keyed by user ID
+const grantsCache = new Map<string, { grants: UserGrants; fetchedAt: number }>();
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  return [];
+}
+
+/**
+ * Extract roles and permissions declared in server metadata
+ */
+function grantsFromServerMetadata(serverMetadata: Record<string, unknown> | undefined): UserGrants {
+  return {
+    permissions: toStringList(serverMetadata?.permissions),
+    roles: [...toStringList(serverMetadata?.roles), ...toStringList(serverMetadata?.role)]
+  };
+}
+
+/**
+ * Fetch a user's grants from Stack Auth
+ */
+async function fetchUserGrants(user: User): Promise<UserGrants> {
+  const { config } = tryGetConfig();
+  if (!config) {
+    // Without credentials only metadata already on the user can be used
+    return grantsFromServerMetadata(user.serverMetadata);
+  }
+
+  const client = new StackAuthRestClient(config);
+  const apiStartTime = performance.now();
+
+  const [projectPermissions, serverMetadata] = await Promise.all([
+    client.listUserPermissions(user.id),
+    // Users built from token claims or client requests lack server metadata
+    user.serverMetadata !== undefined
+      ? Promise.resolve(user.serverMetadata)
+      : client.getServerUser(user.id).then(serverUser => serverUser.serverMetadata)
+  ]);
+
+  recordProviderApiTime(performance.now() - apiStartTime);
+
+  const metadataGrants = grantsFromServerMetadata(serverMetadata);
+  return {
+    permissions: Array.from(new Set([
+      ...projectPermissions.map(permission => permission.id),
+      ...metadataGrants.permissions
+    ])),
+    roles: Array.from(new Set(metadataGrants.roles))
+  };
+}
+
+/**
+ * Get the permissions and roles granted to a user
+ */
+export async function getUserGrants(user: User): Promise<UserGrants> {
+  const cached = grantsCache.get(user.id);
+  if (cached && Date.now() - cached.fetchedAt < GRANTS_CACHE_TTL) {
+    return cached.grants;
+  }
+
+  const grants = await fetchUserGrants(user);
+
+  grantsCache.delete(user.id);
+  grantsCache.set(user.id, { grants, fetchedAt: Date.now() });
+  if (grantsCache.size > GRANTS_CACHE_MAX_ENTRIES) {
+    const oldestKey = grantsCache.keys().next().value;
+    if (oldestKey !== undefined) grantsCache.delete(oldestKey);
+  }
+
+  return grants;
+}
+
+/**
+ * Check whether a user holds every one of the given permissions
+ *
+ * @example
+ * if (await hasPermission(Astro.locals.user, 'project:write')) { ... }
+ */
+export async function hasPermission(user: User | null | undefined, ...permissions: string[]): Promise<boolean> {
+  if (!user) return false;
+  if (permissions.length === 0) return true;
+
+  const grants = await getUserGrants(user);
+  return permissions.every(permission => grants.permissions.includes(permission));
+}
+
+/**
+ * Check whether a user holds at least one of the given roles
+ */
+export async function hasRole(user: User | null | undefined, ...roles: string[]): Promise<boolean> {
+  if (!user) return false;
+  if (roles.length === 0) return true;
+
+  const grants = await getUserGrants(user);
+  return roles.some(role => grants.roles.includes(role));
+}
+
+/**
+ * Forget cached grants for one user, or for everyone
+ *
+ * Call after changing a user's permissions or roles so the change
+ * applies immediately.
+ */
+export function clearUserGrantsCache(userId?: string): void {
+  if (userId) {
+    grantsCache.delete(userId);
+  } else {
+    grantsCache.clear();
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * Auth cookie serialization for Stack Auth
+ *
+ * Builds the Set-Cookie headers the middleware and injected routes write
+ * when they set or rotate the access and refresh tokens on behalf of the
+ * browser, and rewrites the cookies Stack Auth sets through the proxy.
+ * Names and attributes come from the `cookies` integration option, so
+ * every place that reads or writes auth cookies agrees on them.
+ */
+
+import type { TokenResponse } from '../rest-api/types.js';
+import { getRuntimeOptions } from '../runtime-options.js';
+
+export const ACCESS_TOKEN_COOKIE = 'stack-auth-access-token';
+export const REFRESH_TOKEN_COOKIE = 'stack-auth-refresh-token';
+
+// Older releases stored the access token under this name; still read when the default name is in use
+export const LEGACY_ACCESS_TOKEN_COOKIE = 'stack-auth-token';
+
+const HOST_PREFIX = '__Host-';
+
+// Stack Auth refresh tokens are long-lived; the provider enforces real expiry
+const DEFAULT_REFRESH_TOKEN_MAX_AGE = 365 * 24 * 60 * 60; // 1 year in seconds
+
+export interface CookieSerializeOptions {
+  path?: string;
+  domain?: string;
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'strict' | 'lax' | 'none';
+}
+
+/**
+ * Options for the `cookies` integration option
+ */
+export interface AuthCookieOptions {
+  /**
+   * Name of the access token cookie
+   * @default 'stack-auth-access-token'
+   */
+  accessTokenName?: string;
+
+  /**
+   * Name of the refresh token cookie
+   * @default 'stack-auth-refresh-token'
+   */
+  refreshTokenName?: string;
+
+  /**
+   * Cookie domain, e.g. `'.example.com'` to share the session across
+   * subdomains. Cannot be combined with `hostPrefix`.
+   * @default the current host only
+   */
+  domain?: string;
+
+  /**
+   * Cookie path
+   * @default '/'
+   */
+  path?: string;
+
+  /**
+   * SameSite attribute; `'none'` requires Secure
+   * @default 'lax'
+   */
+  sameSite?: 'strict' | 'lax' | 'none';
+
+  /**
+   * Secure attribute
+   * @default true on HTTPS and in production
+   */
+  secure?: boolean;
+
+  /**
+   * Prefix cookie names with `__Host-`, which makes browsers refuse them
+   * unless they are Secure, host-only and on path `/`
+   * @default false
+   */
+  hostPrefix?: boolean;
+
+  /**
+   * Keep cookies across browser restarts. When false, cookies are session
+   * cookies without Max-Age or Expires.
+   * @default true
+   */
+  persistent?: boolean;
+}
+
+/**
+ * Cookie names and attributes with defaults and the `__Host-` rules applied
+ */
+export interface AuthCookieConfig {
+  accessTokenName: string;
+  refreshTokenName: string;
+  domain?: string;
+  path: string;
+  sameSite: 'strict' | 'lax' | 'none';
+  /** Undefined when Secure follows the request protocol */
+  secure?: boolean;
+  persistent: boolean;
+}
+
+function withHostPrefix(name: string): string {
+  return name.startsWith(HOST_PREFIX) ? name : `${HOST_PREFIX}${name}`;
+}
+
+/**
+ * Resolve the auth cookie configuration from the `cookies` option
+ */
+export function getAuthCookieConfig(options: AuthCookieOptions = getRuntimeOptions().cookies ?? {}): AuthCookieConfig {
+  const sameSite = options.sameSite ?? 'lax';
+  const config: AuthCookieConfig = {
+    accessTokenName: options.accessTokenName ?? ACCESS_TOKEN_COOKIE,
+    refreshTokenName: options.refreshTokenName ?? REFRESH_TOKEN_COOKIE,
+    domain: options.domain,
+    path: options.path ?? '/',
+    sameSite,
+    // Browsers drop SameSite=None cookies that are not Secure
+    secure: sameSite === 'none' ? true : options.secure,
+    persistent: options.persistent ?? true
+  };
+
+  if (options.hostPrefix) {
+    config.accessTokenName = withHostPrefix(config.accessTokenName);
+    config.refreshTokenName = withHostPrefix(config.refreshTokenName);
+    config.domain = undefined;
+    config.path = '/';
+    config.secure = true;
+  }
+
+  return config;
+}
+
+function baseCookieOptions(config: AuthCookieConfig, secure: boolean): CookieSerializeOptions {
+  return {
+    path: config.path,
+    domain: config.domain,
+    httpOnly: true,
+    secure: config.secure ?? secure,
+    sameSite: config.sameSite
+  };
+}
+
+/**
+ * Serialize a cookie for a Set-Cookie header
+ */
+export function serializeCookie(name: string, value: string, options: CookieSerializeOptions = {}): string {
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+
+  parts.push(`Path=${options.path ?? '/'}`);
+  if (options.domain) parts.push(`Domain=${options.domain}`);
+  if (options.maxAge !== undefined) parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  if (options.httpOnly) parts.push('HttpOnly');
+  if (options.secure) parts.push('Secure');
+  if (options.sameSite) parts.push(`SameSite=${options.sameSite.charAt(0).toUpperCase()}${options.sameSite.slice(1)}`);
+
+  return parts.join('; ');
+}
+
+/**
+ * Read a cookie from a request
+ */
+export function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) {
+    return null;
+  }
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the access token cookie from a request
+ */
+export function readAccessTokenCookie(request: Request, config: AuthCookieConfig = getAuthCookieConfig()): string | null {
+  const token = readCookie(request, config.accessTokenName);
+  if (token || config.accessTokenName !== ACCESS_TOKEN_COOKIE) {
+    return token;
+  }
+  return readCookie(request, LEGACY_ACCESS_TOKEN_COOKIE);
+}
+
+/**
+ * Read the refresh token cookie from a request
+ */
+export function readRefreshTokenCookie(request: Request, config: AuthCookieConfig = getAuthCookieConfig()): string | null {
+  return readCookie(request, config.refreshTokenName);
+}
+
+/**
+ * Create the Set-Cookie headers for a refreshed token pair
+ *
+ * The refresh cookie is only rewritten when Stack Auth rotated it.
+ */
+export function createTokenCookies(tokens: TokenResponse, options: { secure: boolean }): string[] {
+  const config = getAuthCookieConfig();
+  const baseOptions = baseCookieOptions(config, options.secure);
+
+  const cookies = [
+    serializeCookie(config.accessTokenName, tokens.access_token, {
+      ...baseOptions,
+      maxAge: config.persistent ? tokens.expires_in : undefined
+    })
+  ];
+
+  if (tokens.refresh_token) {
+    cookies.push(serializeCookie(config.refreshTokenName, tokens.refresh_token, {
+      ...baseOptions,
+      maxAge: config.persistent ? DEFAULT_REFRESH_TOKEN_MAX_AGE : undefined
+    }));
+  }
+
+  return cookies;
+}
+
+/**
+ * Create the Set-Cookie headers that remove both token cookies
+ */
+export function clearTokenCookies(options: { secure: boolean }): string[] {
+  const config = getAuthCookieConfig();
+  const baseOptions = baseCookieOptions(config, options.secure);
+
+  return [config.accessTokenName, config.refreshTokenName]
+    .map(name => serializeCookie(name, '', { ...baseOptions, maxAge: 0 }));
+}
+
+// Attributes replaced from the configuration when rewriting upstream cookies
+const REWRITTEN_ATTRIBUTES = new Set(['domain', 'path', 'samesite', 'secure']);
+
+function isExpiring(attributes: string[]): boolean {
+  return attributes.some(attribute => {
+    const [name, value = ''] = attribute.split('=', 2).map(part => part.trim());
+    if (name.toLowerCase() === 'max-age') {
+      return Number(value) <= 0;
+    }
+    if (name.toLowerCase() === 'expires') {
+      return Date.parse(value) <= Date.now();
+    }
+    return false;
+  });
+}
+
+/**
+ * Rewrite a Set-Cookie header from Stack Auth for the browser
+ *
+ * Upstream Domain and Path refer to the Stack Auth API host, so they are
+ * replaced along with SameSite and Secure by the configured values. Stack
+ * Auth's token cookies are renamed to the configured names and made
+ * HttpOnly. Session cookies lose Max-Age and Expires unless the header
+ * deletes the cookie.
+ */
+export function rewriteSetCookie(
+  header: string,
+  options: { secure: boolean },
+  config: AuthCookieConfig = getAuthCookieConfig()
+): string {
+  const [pair, ...rest] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator === -1) {
+    return header;
+  }
+
+  const upstreamName = pair.slice(0, separator).trim();
+  const value = pair.slice(separator + 1).trim();
+  const attributes = rest.map(attribute => attribute.trim()).filter(Boolean);
+
+  let name = upstreamName;
+  let httpOnly = attributes.some(attribute => attribute.toLowerCase() === 'httponly');
+  if (upstreamName === ACCESS_TOKEN_COOKIE || upstreamName === LEGACY_ACCESS_TOKEN_COOKIE) {
+    name = config.accessTokenName;
+    httpOnly = true;
+  } else if (upstreamName === REFRESH_TOKEN_COOKIE) {
+    name = config.refreshTokenName;
+    httpOnly = true;
+  }
+
+  const keepLifetime = config.persistent || isExpiring(attributes);
+  const kept = attributes.filter(attribute => {
+    const attributeName = attribute.split('=', 1)[0].trim().toLowerCase();
+    if (REWRITTEN_ATTRIBUTES.has(attributeName) || attributeName === 'httponly') {
+      return false;
+    }
+    return keepLifetime || (attributeName !== 'max-age' && attributeName !== 'expires');
+  });
+
+  const { path, domain, secure, sameSite } = baseCookieOptions(config, options.secure);
+  const parts = [`${name}=${value}`, `Path=${path}`];
+  if (domain) parts.push(`Domain=${domain}`);
+  parts.push(...kept);
+  if (httpOnly) parts.push('HttpOnly');
+  if (secure) parts.push('Secure');
+  if (sameSite) parts.push(`SameSite=${sameSite.charAt(0).toUpperCase()}${sameSite.slice(1)}`);
+
+  return parts.join('; ');
+}
+
+/**
+ * Append Set-Cookie headers to a response
+ *
+ * Responses with immutable headers (e.g. `Response.redirect()`) are copied first.
+ */
+export function appendSetCookies(response: Response, cookies: string[]): Response {
+  if (cookies.length === 0) {
+    return response;
+  }
+
+  let target = response;
+  try {
+    cookies.forEach(cookie => target.headers.append('Set-Cookie', cookie));
+  } catch {
+    target = new Response(response.body, response);
+    cookies.forEach(cookie => target.headers.append('Set-Cookie', cookie));
+  }
+  return target;
+}
@@ -0,0 +1,167 @@
+/**
+ * CORS policy for the injected auth routes
+ *
+ * Requests to `{prefix}/*` from another origin are only served when the
+ * `cors` integration option allows that origin. Allowed origins get CORS
+ * headers on both preflight and actual responses; other cross-origin
+ * requests are rejected with a 403 before any handler runs. Same-origin
+ * requests are never affected.
+ */
+
+import { getRuntimeOptions } from '../runtime-options.js';
+
+/**
+ * Origin matcher: an exact origin such as `'https://app.example.com'`,
+ * `'*'` for any origin, a regular expression, or a function
+ */
+export type CorsOrigin = string | RegExp | ((origin: string) => boolean);
+
+/**
+ * Options for the `cors` integration option
+ */
+export interface CorsOptions {
+  /**
+   * Origin or origins allowed to call the auth routes
+   */
+  origin: CorsOrigin | CorsOrigin[];
+
+  /**
+   * Methods allowed in cross-origin requests
+   * @default ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+   */
+  methods?: string[];
+
+  /**
+   * Request headers allowed in cross-origin requests
+   * @default ['Content-Type', 'Authorization', 'X-Requested-With', 'X-CSRF-Token']
+   */
+  allowedHeaders?: string[];
+
+  /**
+   * Response headers exposed to cross-origin scripts
+   */
+  exposedHeaders?: string[];
+
+  /**
+   * Allow cookies and credentials on cross-origin requests. Cannot be
+   * combined with the `'*'` origin.
+   * @default false
+   */
+  credentials?: boolean;
+
+  /**
+   * How long browsers may cache a preflight response, in seconds
+   * @default 600
+   */
+  maxAge?: number;
+}
+
+const DEFAULT_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const DEFAULT_ALLOWED_HEADERS = ['Content-Type', 'Authorization', 'X-Requested-With', 'X-CSRF-Token'];
+
+const DEFAULT_MAX_AGE = 600;
+
+/**
+ * Get the configured CORS options, or null when cross-origin requests are not allowed
+ */
+export function getCorsOptions(): CorsOptions | null {
+  return getRuntimeOptions().cors ?? null;
+}
+
+function matchesOrigin(origin: string, matcher: CorsOrigin): boolean {
+  if (typeof matcher === 'function') {
+    return matcher(origin);
+  }
+  if (matcher instanceof RegExp) {
+    return matcher.test(origin);
+  }
+  return matcher === '*' || matcher.replace(/\/+$/, '').toLowerCase() === origin.toLowerCase();
+}
+
+/**
+ * Check whether a cross-origin request from `origin` is allowed
+ */
+export function isCorsOriginAllowed(origin: string, options: CorsOptions | null = getCorsOptions()): boolean {
+  if (!options) {
+    return false;
+  }
+  const matchers = Array.isArray(options.origin) ? options.origin : [options.origin];
+  return matchers.some(matcher => matchesOrigin(origin, matcher));
+}
+
+/**
+ * Get the origin of a cross-origin request, or null for same-origin and
+ * non-browser requests
+ */
+export function getCrossOrigin(request: Request, url: URL): string | null {
+  const origin = request.headers.get('origin');
+  if (!origin || origin === url.origin) {
+    return null;
+  }
+  return origin;
+}
+
+function allowOriginHeaders(origin: string, options: CorsOptions): Record<string, string> {
+  const anyOrigin = !options.credentials && (Array.isArray(options.origin) ? options.origin : [options.origin]).includes('*');
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Origin': anyOrigin ? '*' : origin
+  };
+  if (options.credentials) {
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  }
+  return headers;
+}
+
+/**
+ * CORS headers for an actual (non-preflight) response to an allowed origin
+ */
+export function getCorsResponseHeaders(origin: string, options: CorsOptions): Record<string, string> {
+  const headers = allowOriginHeaders(origin, options);
+  if (options.exposedHeaders && options.exposedHeaders.length > 0) {
+    headers['Access-Control-Expose-Headers'] = options.exposedHeaders.join(', ');
+  }
+  return headers;
+}
+
+/**
+ * CORS headers for a preflight response, or null when the requested
+ * method is not allowed
+ */
+export function getCorsPreflightHeaders(
+  origin: string,
+  requestedMethod: string | null,
+  options: CorsOptions
+): Record<string, string> | null {
+  const methods = (options.methods ?? DEFAULT_METHODS).map(method => method.toUpperCase());
+  if (requestedMethod && !methods.includes(requestedMethod.toUpperCase())) {
+    return null;
+  }
+
+  return {
+    ...allowOriginHeaders(origin, options),
+    'Access-Control-Allow-Methods': methods.join(', '),
+    'Access-Control-Allow-Headers': (options.allowedHeaders ?? DEFAULT_ALLOWED_HEADERS).join(', '),
+    'Access-Control-Max-Age': String(options.maxAge ?? DEFAULT_MAX_AGE)
+  };
+}
+
+/**
+ * Copy a response with CORS headers added
+ *
+ * Responses from `fetch()` and `Response.redirect()` have immutable
+ * headers, so the response is rebuilt around the same body.
+ */
+export function withCorsHeaders(response: Response, corsHeaders: Record<string, string>): Response {
+  const headers = new Headers(response.headers);
+  Object.entries(corsHeaders).forEach(([name, value]) => headers.set(name, value));
+  if (!/\borigin\b/i.test(headers.get('vary') || '')) {
+    headers.append('Vary', 'Origin');
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
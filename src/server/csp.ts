@@ -0,0 +1,163 @@
+/**
+ * Content-Security-Policy with per-request nonces
+ *
+ * With the `csp` integration option the middleware generates a nonce for
+ * every request, exposes it as `Astro.locals.cspNonce` and sends a policy
+ * that only runs scripts from the app's origin or carrying that nonce.
+ * Astro's own inline island scripts are allowed by hash, since Astro
+ * renders them without the nonce. Stack Auth's API origin is allowed for fetches and form posts, and
+ * violations are reported to `{prefix}/csp-report`.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import astroIslandScript from 'astro/runtime/server/astro-island.prebuilt.js';
+import astroIslandDevScript from 'astro/runtime/server/astro-island.prebuilt-dev.js';
+import idleDirectiveScript from 'astro/runtime/client/idle.prebuilt.js';
+import loadDirectiveScript from 'astro/runtime/client/load.prebuilt.js';
+import mediaDirectiveScript from 'astro/runtime/client/media.prebuilt.js';
+import onlyDirectiveScript from 'astro/runtime/client/only.prebuilt.js';
+import visibleDirectiveScript from 'astro/runtime/client/visible.prebuilt.js';
+import { getRuntimeOptions } from '../runtime-options.js';
+import { resolveStackAuthUrl } from '../stack-auth-url.js';
+
+/**
+ * Options for the `csp` integration option
+ */
+export interface CSPOptions {
+  /**
+   * Send `Content-Security-Policy-Report-Only` so violations are reported
+   * but nothing is blocked
+   * @default false
+   */
+  reportOnly?: boolean;
+
+  /**
+   * Extra sources per directive, added to the defaults, e.g.
+   * `{ 'img-src': ['https://cdn.example.com'] }`
+   */
+  directives?: Record<string, string[]>;
+
+  /**
+   * Where browsers send violation reports, or false for none
+   * @default '{prefix}/csp-report'
+   */
+  reportUri?: string | false;
+}
+
+/**
+ * Inline scripts Astro adds to pages with `client:*` islands: the
+ * `<astro-island>` element and the built-in hydration directives
+ */
+const ASTRO_ISLAND_SCRIPTS = [
+  astroIslandScript,
+  astroIslandDevScript,
+  idleDirectiveScript,
+  loadDirectiveScript,
+  mediaDirectiveScript,
+  onlyDirectiveScript,
+  visibleDirectiveScript
+];
+
+let astroIslandScriptHashes: string[] | null = null;
+
+/**
+ * CSP hash sources for Astro's island scripts
+ */
+export function getAstroIslandScriptHashes(): string[] {
+  astroIslandScriptHashes ??= ASTRO_ISLAND_SCRIPTS.map(script =>
+    `'sha256-${createHash('sha256').update(script).digest('base64')}'`
+  );
+  return astroIslandScriptHashes;
+}
+
+/**
+ * Generate a nonce for one response
+ */
+export function generateCSPNonce(): string {
+  return randomBytes(16).toString('base64');
+}
+
+/**
+ * Get the configured CSP options, or null when CSP is disabled
+ */
+export function getCSPOptions(): CSPOptions | null {
+  const { csp } = getRuntimeOptions();
+  if (!csp) {
+    return null;
+  }
+  return csp === true ? {} : csp;
+}
+
+/**
+ * Build the policy for a nonce
+ *
+ * `context` carries the Stack Auth route prefix (for the report endpoint)
+ * and the Stack Auth API URL.
+ */
+export function buildContentSecurityPolicy(
+  nonce: string,
+  options: CSPOptions = {},
+  context: { prefix?: string; baseUrl?: string } = {}
+): string {
+  const stackAuthOrigin = new URL(resolveStackAuthUrl(context.baseUrl)).origin;
+
+  const directives: Record<string, string[]> = {
+    'default-src': ["'self'"],
+    'script-src': ["'self'", `'nonce-${nonce}'`, ...getAstroIslandScriptHashes()],
+    'style-src': ["'self'", "'unsafe-inline'"],
+    'img-src': ["'self'", 'data:', 'https:'],
+    'font-src': ["'self'", 'data:'],
+    'connect-src': ["'self'", stackAuthOrigin],
+    'form-action': ["'self'", stackAuthOrigin],
+    'frame-ancestors': ["'none'"],
+    'base-uri': ["'self'"],
+    'object-src': ["'none'"]
+  };
+
+  Object.entries(options.directives || {}).forEach(([name, sources]) => {
+    // Added sources replace a default of 'none'
+    const defaults = (directives[name] || []).filter(source => source !== "'none'" || sources.length === 0);
+    directives[name] = [...new Set([...defaults, ...sources])];
+  });
+
+  const reportUri = options.reportUri ?? `${(context.prefix || process.env.STACK_AUTH_PREFIX || '/handler').replace(/\/+$/, '')}/csp-report`;
+  if (reportUri) {
+    directives['report-uri'] = [reportUri];
+  }
+
+  return Object.entries(directives)
+    .map(([name, sources]) => [name, ...sources].join(' '))
+    .join('; ');
+}
+
+/**
+ * Add the configured policy to an HTML response
+ *
+ * Other responses and responses that already carry a policy are returned
+ * unchanged. Responses with immutable headers are copied first.
+ */
+export function applyContentSecurityPolicy(
+  response: Response,
+  nonce: string | null,
+  context: { prefix?: string; baseUrl?: string } = {}
+): Response {
+  const options = getCSPOptions();
+  if (!options || !nonce || !response.headers.get('content-type')?.includes('text/html')) {
+    return response;
+  }
+  if (response.headers.has('Content-Security-Policy') || response.headers.has('Content-Security-Policy-Report-Only')) {
+    return response;
+  }
+
+  const header = options.reportOnly ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy';
+  const policy = buildContentSecurityPolicy(nonce, options, context);
+
+  try {
+    response.headers.set(header, policy);
+    return response;
+  } catch {
+    const copy = new Response(response.body, response);
+    copy.headers.set(header, policy);
+    return copy;
+  }
+}
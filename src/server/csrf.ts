@@ -0,0 +1,50 @@
+/**
+ * CSRF token issuance for the Stack Auth middleware
+ *
+ * Implements the double-submit cookie pattern. The middleware keeps a
+ * token per session in the `stack-auth-csrf-token` cookie and exposes it
+ * as `Astro.locals.csrfToken`. Forms send it back in a `csrf_token` field
+ * (see `CsrfInput.astro`) and the client helpers send it in the
+ * `x-csrf-token` header, so `requireCSRF: true` can compare the two.
+ *
+ * The cookie is readable by page scripts on purpose: the token is only
+ * useful together with the same-origin cookie, which other sites cannot
+ * read.
+ */
+
+import type { APIContext } from 'astro';
+import {
+  SECURITY_CONFIG,
+  generateSessionCSRFToken,
+  isCSRFTokenForSession,
+  getCSRFSessionBinding
+} from './security.js';
+import { readCookie, serializeCookie } from './cookies.js';
+
+/**
+ * Issue or rotate the CSRF token for the request's session
+ *
+ * Keeps the current cookie while it belongs to the session in
+ * `Astro.locals` and replaces it otherwise, e.g. after sign-in or sign-out.
+ * Must run after `Astro.locals` has been populated.
+ *
+ * @returns Set-Cookie headers to add to the response
+ */
+export function issueCSRFToken(context: APIContext, secret: string, options: { secure: boolean }): string[] {
+  const sessionBinding = getCSRFSessionBinding(context.locals);
+  const existing = readCookie(context.request, SECURITY_CONFIG.CSRF_COOKIE_NAME);
+
+  if (existing && isCSRFTokenForSession(existing, sessionBinding, secret)) {
+    context.locals.csrfToken = existing;
+    return [];
+  }
+
+  const token = generateSessionCSRFToken(sessionBinding, secret);
+  context.locals.csrfToken = token;
+
+  return [serializeCookie(SECURITY_CONFIG.CSRF_COOKIE_NAME, token, {
+    path: '/',
+    secure: options.secure,
+    sameSite: 'lax'
+  })];
+}
@@ -0,0 +1,371 @@
+/**
+ * Local verification of Stack Auth access tokens
+ *
+ * Stack Auth access tokens are JWTs signed with keys published at the
+ * project's JWKS endpoint. Verifying them locally lets the middleware
+ * populate Astro.locals without a round trip to Stack Auth on every
+ * request. Keys are fetched once, cached, and refetched when a token is
+ * signed with a key id that is not in the cache (key rotation).
+ */
+
+import { createPublicKey, verify as verifySignature, type KeyObject, type JsonWebKey } from 'node:crypto';
+import type { User, Session } from '../rest-api/types.js';
+import { getStackAuthApiUrl } from '../stack-auth-url.js';
+
+/**
+ * Options for the `jwtVerification` integration option
+ */
+export interface JwtVerificationOptions {
+  /**
+   * JWKS endpoint publishing the token signing keys
+   * @default `${baseUrl}/projects/${projectId}/.well-known/jwks.json`
+   */
+  jwksUrl?: string;
+
+  /**
+   * Expected `iss` claim; not checked when omitted
+   */
+  issuer?: string;
+
+  /**
+   * Expected `aud` claim
+   * @default the project ID
+   */
+  audience?: string | string[];
+
+  /**
+   * How long fetched keys are trusted before the JWKS is refetched, in milliseconds
+   * @default 600000 (10 minutes)
+   */
+  cacheTtl?: number;
+
+  /**
+   * Allowed clock skew when checking `exp` and `nbf`, in seconds
+   * @default 30
+   */
+  clockTolerance?: number;
+}
+
+/**
+ * Claims carried by a Stack Auth access token
+ */
+export interface AccessTokenClaims {
+  sub: string;
+  exp: number;
+  iat?: number;
+  nbf?: number;
+  iss?: string;
+  aud?: string | string[];
+  email?: string | null;
+  email_verified?: boolean;
+  name?: string | null;
+  refresh_token_id?: string;
+  selected_team_id?: string | null;
+  [claim: string]: unknown;
+}
+
+/**
+ * Error thrown when an access token cannot be verified
+ */
+export class JwtVerificationError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'JwtVerificationError';
+  }
+}
+
+/**
+ * Signature algorithms accepted for access tokens
+ */
+const SUPPORTED_ALGORITHMS: Record<string, { hash: string; kty: string }> = {
+  RS256: { hash: 'sha256', kty: 'RSA' },
+  RS384: { hash: 'sha384', kty: 'RSA' },
+  RS512: { hash: 'sha512', kty: 'RSA' },
+  ES256: { hash: 'sha256', kty: 'EC' },
+  ES384: { hash: 'sha384', kty: 'EC' },
+  ES512: { hash: 'sha512', kty: 'EC' }
+};
+
+export const DEFAULT_JWKS_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+const JWKS_REFETCH_COOLDOWN = 30 * 1000; // 30 seconds
+const DEFAULT_CLOCK_TOLERANCE = 30; // seconds
+
+/**
+ * Build the default JWKS URL for a Stack Auth project
+ */
+export function getDefaultJwksUrl(projectId: string, baseUrl?: string): string {
+  return `${getStackAuthApiUrl(baseUrl)}/projects/${encodeURIComponent(projectId)}/.well-known/jwks.json`;
+}
+
+/**
+ * Remote JWKS with an in-memory key cache
+ *
+ * Unknown key ids trigger a refetch so rotated keys are picked up without
+ * a restart, but at most once per cooldown period so that tokens with
+ * made-up key ids cannot be used to hammer the JWKS endpoint.
+ */
+export class RemoteJwks {
+  private keys = new Map<string, { key: KeyObject; kty: string }>();
+  private fetchedAt = 0;
+  private lastFetchAttempt = 0;
+  private pendingFetch: Promise<void> | null = null;
+
+  constructor(private jwksUrl: string, private cacheTtl: number = DEFAULT_JWKS_CACHE_TTL) {}
+
+  /**
+   * Change how long fetched keys are used before the JWKS is refetched
+   */
+  setCacheTtl(cacheTtl: number): void {
+    this.cacheTtl = cacheTtl;
+  }
+
+  /**
+   * Resolve the public key for a key id, refetching the JWKS when needed
+   */
+  async getKey(kid: string | undefined): Promise<{ key: KeyObject; kty: string }> {
+    if (Date.now() - this.fetchedAt >= this.cacheTtl) {
+      try {
+        await this.refresh();
+      } catch (error) {
+        // Keep verifying with the previous keys while the endpoint is down
+        if (this.keys.size === 0) throw error;
+      }
+    }
+
+    let entry = this.findKey(kid);
+    if (!entry && Date.now() - this.lastFetchAttempt >= JWKS_REFETCH_COOLDOWN) {
+      // Possibly a rotated key - refetch once
+      await this.refresh();
+      entry = this.findKey(kid);
+    }
+
+    if (!entry) {
+      throw new JwtVerificationError(`No signing key found for kid "${kid ?? ''}"`, 'KEY_NOT_FOUND');
+    }
+    return entry;
+  }
+
+  private findKey(kid: string | undefined): { key: KeyObject; kty: string } | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+    // Tokens without a kid can only be matched when the set has a single key
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+
+  private async refresh(): Promise<void> {
+    if (!this.pendingFetch) {
+      this.pendingFetch = this.fetchKeys().finally(() => {
+        this.pendingFetch = null;
+      });
+    }
+    await this.pendingFetch;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    this.lastFetchAttempt = Date.now();
+
+    const response = await fetch(this.jwksUrl, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new JwtVerificationError(`JWKS request failed: ${response.status}`, 'JWKS_UNAVAILABLE');
+    }
+
+    const body = await response.json() as { keys?: Array<JsonWebKey & { kid?: string; use?: string }> };
+    if (!Array.isArray(body.keys)) {
+      throw new JwtVerificationError('JWKS response does not contain a keys array', 'JWKS_UNAVAILABLE');
+    }
+
+    const keys = new Map<string, { key: KeyObject; kty: string }>();
+    body.keys.forEach((jwk, index) => {
+      if (jwk.use && jwk.use !== 'sig') return;
+      try {
+        const key = createPublicKey({ key: jwk, format: 'jwk' });
+        keys.set(jwk.kid ?? `__key_${index}`, { key, kty: String(jwk.kty) });
+      } catch {
+        // Skip keys Node cannot import rather than rejecting the whole set
+      }
+    });
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+  }
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new JwtVerificationError('Malformed token', 'MALFORMED_TOKEN');
+  }
+}
+
+/**
+ * Check whether a token's `exp` claim has passed, without verifying it
+ *
+ * Only used to skip validating a token that is certainly expired; tokens
+ * that are not JWTs are reported as not expired.
+ */
+export function isTokenExpired(token: string, clockTolerance: number = 0): boolean {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return false;
+  }
+
+  try {
+    const { exp } = decodeSegment<{ exp?: unknown }>(segments[1]);
+    return typeof exp === 'number' && exp + clockTolerance <= Math.floor(Date.now() / 1000);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a token's `sub` claim without verifying it
+ *
+ * Only for tokens received directly from Stack Auth, e.g. in a sign-in
+ * response, where the signature adds nothing.
+ */
+export function getTokenSubject(token: string): string | null {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return null;
+  }
+
+  try {
+    const { sub } = decodeSegment<{ sub?: unknown }>(segments[1]);
+    return typeof sub === 'string' && sub ? sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify an access token's signature, expiry and audience
+ *
+ * @returns The verified claims
+ * @throws JwtVerificationError if the token is malformed, expired or not validly signed
+ */
+export async function verifyAccessToken(
+  token: string,
+  jwks: RemoteJwks,
+  options: Pick<JwtVerificationOptions, 'issuer' | 'audience' | 'clockTolerance'> = {}
+): Promise<AccessTokenClaims> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new JwtVerificationError('Malformed token', 'MALFORMED_TOKEN');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader);
+  const algorithm = header.alg ? SUPPORTED_ALGORITHMS[header.alg] : undefined;
+  if (!algorithm) {
+    throw new JwtVerificationError(`Unsupported token algorithm "${header.alg}"`, 'UNSUPPORTED_ALGORITHM');
+  }
+
+  const { key, kty } = await jwks.getKey(header.kid);
+  if (kty !== algorithm.kty) {
+    throw new JwtVerificationError('Token algorithm does not match signing key', 'INVALID_SIGNATURE');
+  }
+
+  const isValid = verifySignature(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    kty === 'EC' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!isValid) {
+    throw new JwtVerificationError('Invalid token signature', 'INVALID_SIGNATURE');
+  }
+
+  const claims = decodeSegment<AccessTokenClaims>(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE;
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new JwtVerificationError('Token has no subject', 'INVALID_CLAIMS');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + tolerance <= now) {
+    throw new JwtVerificationError('Token has expired', 'TOKEN_EXPIRED');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+    throw new JwtVerificationError('Token is not yet valid', 'TOKEN_NOT_YET_VALID');
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new JwtVerificationError('Token issuer mismatch', 'INVALID_CLAIMS');
+  }
+  if (options.audience) {
+    const expected = Array.isArray(options.audience) ? options.audience : [options.audience];
+    const actual = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!actual.some(aud => typeof aud === 'string' && expected.includes(aud))) {
+      throw new JwtVerificationError('Token audience mismatch', 'INVALID_CLAIMS');
+    }
+  }
+
+  return claims;
+}
+
+// Users built from token claims, so the full record can be fetched lazily
+const claimsUsers = new WeakSet<User>();
+
+/**
+ * Build a partial user from verified access token claims
+ */
+export function userFromClaims(claims: AccessTokenClaims): User {
+  const user: User = {
+    id: claims.sub,
+    email: claims.email ?? '',
+    displayName: claims.name ?? undefined,
+    emailVerified: claims.email_verified === true,
+    createdAt: '',
+    selectedTeamId: claims.selected_team_id ?? null
+  };
+  claimsUsers.add(user);
+  return user;
+}
+
+/**
+ * Build the session from verified access token claims
+ */
+export function sessionFromClaims(claims: AccessTokenClaims): Session {
+  return {
+    id: claims.refresh_token_id ?? claims.sub,
+    userId: claims.sub,
+    expiresAt: new Date(claims.exp * 1000).toISOString(),
+    isActive: true,
+    createdAt: claims.iat ? new Date(claims.iat * 1000).toISOString() : undefined
+  };
+}
+
+/**
+ * Check whether a user was built from token claims rather than fetched
+ */
+export function isClaimsUser(user: User): boolean {
+  return claimsUsers.has(user);
+}
+
+// JWKS instances shared across requests, keyed by URL
+const jwksCache = new Map<string, RemoteJwks>();
+
+/**
+ * Get the shared JWKS for a URL
+ *
+ * Keys and the refetch cooldown stay shared per URL; the instance always
+ * uses the latest `cacheTtl` it was asked for.
+ */
+export function getRemoteJwks(jwksUrl: string, cacheTtl: number = DEFAULT_JWKS_CACHE_TTL): RemoteJwks {
+  let jwks = jwksCache.get(jwksUrl);
+  if (!jwks) {
+    jwks = new RemoteJwks(jwksUrl, cacheTtl);
+    jwksCache.set(jwksUrl, jwks);
+  } else {
+    jwks.setCacheTtl(cacheTtl);
+  }
+  return jwks;
+}
+
+/**
+ * Clear shared JWKS instances - useful for testing
+ */
+export function clearJwksCache(): void {
+  jwksCache.clear();
+}
@@ -0,0 +1,154 @@
+/**
+ * Prometheus / OpenMetrics metrics for Stack Auth
+ *
+ * Cumulative counters and histograms for auth operations, Stack Auth API
+ * latency, session cache lookups, rate limit rejections and audit events,
+ * rendered in the Prometheus text format or OpenMetrics. Unlike the
+ * performance statistics, these are never cleared, so scrapers can
+ * compute rates over any range.
+ *
+ * Durations are recorded only while performance monitoring is enabled;
+ * the counters are always kept.
+ */
+
+type Labels = Record<string, string>;
+
+// Prometheus' default buckets, in seconds
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Exposition format
+ *
+ * - `prometheus`: the Prometheus text format 0.0.4
+ * - `openmetrics`: OpenMetrics 1.0, which Prometheus negotiates when it can
+ */
+export type MetricsFormat = 'prometheus' | 'openmetrics';
+
+export const METRICS_CONTENT_TYPES: Record<MetricsFormat, string> = {
+  prometheus: 'text/plain; version=0.0.4; charset=utf-8',
+  openmetrics: 'application/openmetrics-text; version=1.0.0; charset=utf-8'
+};
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+// Stable key for a label set, independent of property order
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+/**
+ * Monotonic counter, one series per label set
+ */
+export class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value += amount;
+    this.series.set(key, series);
+  }
+
+  render(format: MetricsFormat): string[] {
+    // OpenMetrics names the counter family without the _total suffix
+    const family = format === 'openmetrics' ? this.name.replace(/_total$/, '') : this.name;
+    return [
+      `# HELP ${family} ${this.help}`,
+      `# TYPE ${family} counter`,
+      ...Array.from(this.series.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatNumber(value)}`)
+    ];
+  }
+}
+
+/**
+ * Histogram with cumulative buckets, one series per label set
+ */
+export class Histogram {
+  private series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[] = DEFAULT_BUCKETS) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.series.forEach(({ labels, buckets, sum, count }) => {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatNumber(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    });
+    return lines;
+  }
+}
+
+/**
+ * Metrics recorded by the integration
+ */
+export const authMetrics = {
+  operationDuration: new Histogram(
+    'stack_auth_operation_duration_seconds',
+    'Duration of getUser, getSession and requireAuth calls'
+  ),
+  providerRequestDuration: new Histogram(
+    'stack_auth_provider_request_duration_seconds',
+    'Latency of requests to the Stack Auth API'
+  ),
+  sessionCacheRequests: new Counter(
+    'stack_auth_session_cache_requests_total',
+    'Session cache lookups by the middleware, by result'
+  ),
+  rateLimitRejections: new Counter(
+    'stack_auth_rate_limit_rejections_total',
+    'Requests rejected by rate limits, by key type'
+  ),
+  auditEvents: new Counter(
+    'stack_auth_audit_events_total',
+    'Audit log entries written, by event type and risk level'
+  )
+};
+
+/**
+ * Render all metrics in the given exposition format
+ */
+export function renderMetrics(format: MetricsFormat = 'prometheus'): string {
+  const lines = [
+    ...authMetrics.operationDuration.render(),
+    ...authMetrics.providerRequestDuration.render(),
+    ...authMetrics.sessionCacheRequests.render(format),
+    ...authMetrics.rateLimitRejections.render(format),
+    ...authMetrics.auditEvents.render(format)
+  ];
+  if (format === 'openmetrics') {
+    lines.push('# EOF');
+  }
+  return `${lines.join('\n')}\n`;
+}
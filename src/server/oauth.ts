@@ -0,0 +1,109 @@
+/**
+ * PKCE and signed state for the Stack Auth OAuth flow
+ *
+ * The flow state (the `state` value, PKCE verifier, provider and
+ * post-sign-in redirect) lives in a short-lived cookie signed with the
+ * secret server key, so the callback can verify it without server-side
+ * storage and the verifier never reaches client-side script.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { generateKeyedHash, generateSecureToken, secretsEqual } from './security.js';
+
+export const OAUTH_STATE_COOKIE = 'stack-auth-oauth-state';
+
+// How long a user has to complete the provider's sign-in
+export const OAUTH_STATE_MAX_AGE = 10 * 60; // 10 minutes in seconds
+
+/**
+ * PKCE code verifier and its S256 challenge
+ */
+export interface PkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+/**
+ * OAuth flow state carried in the signed cookie
+ */
+export interface OAuthFlowState {
+  state: string;
+  codeVerifier: string;
+  provider: string;
+  redirectTo: string;
+  expiresAt: number;
+}
+
+/**
+ * Create a PKCE verifier/challenge pair (RFC 7636, S256)
+ */
+export function createPkcePair(): PkcePair {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+/**
+ * Start a new flow for a provider
+ */
+export function createOAuthFlowState(provider: string, redirectTo: string): { flow: OAuthFlowState; codeChallenge: string } {
+  const { verifier, challenge } = createPkcePair();
+  return {
+    flow: {
+      state: generateSecureToken(),
+      codeVerifier: verifier,
+      provider,
+      redirectTo,
+      expiresAt: Date.now() + OAUTH_STATE_MAX_AGE * 1000
+    },
+    codeChallenge: challenge
+  };
+}
+
+/**
+ * Serialize flow state into a signed cookie value
+ */
+export function signOAuthFlowState(flow: OAuthFlowState, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(flow)).toString('base64url');
+  return `${payload}.${generateKeyedHash(payload, secret)}`;
+}
+
+/**
+ * Verify a signed cookie value and the `state` returned by the provider
+ *
+ * @returns The flow state, or null if the cookie is missing, tampered
+ * with, expired or was issued for a different `state`
+ */
+export function verifyOAuthFlowState(
+  cookieValue: string | null | undefined,
+  returnedState: string | null | undefined,
+  secret: string
+): OAuthFlowState | null {
+  if (!cookieValue || !returnedState) {
+    return null;
+  }
+
+  const separator = cookieValue.lastIndexOf('.');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const payload = cookieValue.slice(0, separator);
+  const signature = cookieValue.slice(separator + 1);
+  if (!secretsEqual(signature, generateKeyedHash(payload, secret))) {
+    return null;
+  }
+
+  let flow: OAuthFlowState;
+  try {
+    flow = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof flow.expiresAt !== 'number' || flow.expiresAt < Date.now()) {
+    return null;
+  }
+
+  return typeof flow.state === 'string' && secretsEqual(flow.state, returnedState) ? flow : null;
+}
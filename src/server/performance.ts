@@ -7,6 +7,7 @@
 
 import type { APIContext } from 'astro';
 import type { User, Session } from '../rest-api/types.js';
+import { authMetrics } from './metrics.js';
 
 export interface AuthPerformanceMetrics {
   operation: string;
@@ -122,6 +123,11 @@ class AuthPerformanceCollector {
 
     this.metrics.push(metric);
 
+    authMetrics.operationDuration.observe(metric.duration / 1000, {
+      operation: metric.operation,
+      outcome: metric.success ? 'success' : 'error'
+    });
+
     // Update stats based on operation type
     switch (metric.operation) {
       case 'getUser':
@@ -210,6 +216,7 @@ class AuthPerformanceCollector {
     if (!this.enabled) return;
 
     this.stats.provider.apiResponseTimes.push(responseTime);
+    authMetrics.providerRequestDuration.observe(responseTime / 1000);
     
     // Keep only recent response times
     if (this.stats.provider.apiResponseTimes.length > 100) {
@@ -0,0 +1,112 @@
+/**
+ * Endpoint policy for the Stack Auth API proxy
+ *
+ * The catch-all route under the prefix forwards requests to Stack Auth's
+ * `/api/v1`. Only the method and path pairs listed in the policy are
+ * forwarded, each with the key it needs: the publishable client key for
+ * browser-facing auth flows, the secret server key only where a route
+ * says so. Anything else is answered locally with 404, or 405 when the
+ * path is listed for other methods.
+ */
+
+import { matchesPattern } from './route-protection.js';
+
+/**
+ * Key a proxied request is sent with. `client` sends the publishable
+ * client key, `server` the secret server key.
+ */
+export type ProxyKey = 'client' | 'server';
+
+/**
+ * Endpoint the proxy forwards, for the `proxyRoutes` option
+ */
+export interface ProxyRoute {
+  /**
+   * Glob or globs matched against the path below `/api/v1`, e.g.
+   * `'auth/oauth/authorize/*'` (a leading slash is ignored). `*` matches within a path segment, `**`
+   * across segments.
+   */
+  path: string | string[];
+
+  /**
+   * HTTP methods forwarded for the path
+   */
+  methods: string[];
+
+  /**
+   * Key sent with the request
+   * @default 'client'
+   */
+  key?: ProxyKey;
+}
+
+/**
+ * Outcome of checking a proxied request against the policy
+ */
+export type ProxyPolicyDecision =
+  | { allowed: true; route: ProxyRoute }
+  | { allowed: false; status: 404 }
+  | { allowed: false; status: 405; allow: string[] };
+
+/**
+ * Client-facing auth flows, all sent with the publishable client key.
+ * Stack Auth authorizes user-scoped calls with the caller's own token.
+ */
+export const DEFAULT_PROXY_ROUTES: ProxyRoute[] = [
+  { path: 'health', methods: ['GET'] },
+  { path: ['auth/signin', 'auth/signup', 'auth/signout'], methods: ['POST'] },
+  { path: 'auth/session', methods: ['GET'] },
+  { path: ['auth/sessions/current', 'auth/sessions/current/refresh'], methods: ['POST', 'DELETE'] },
+  { path: ['auth/password/send-reset-code', 'auth/password/reset', 'auth/password/update'], methods: ['POST'] },
+  { path: ['auth/otp/send-sign-in-code', 'auth/otp/signin'], methods: ['POST'] },
+  { path: 'auth/oauth/authorize/*', methods: ['GET'] },
+  { path: ['auth/oauth/callback', 'auth/oauth/callback/*'], methods: ['GET', 'POST'] },
+  { path: 'auth/oauth/token', methods: ['POST'] },
+  { path: ['contact-channels/send-verification-code', 'contact-channels/verify'], methods: ['POST'] },
+  { path: 'users/me', methods: ['GET', 'PATCH'] },
+  { path: 'projects/current', methods: ['GET'] },
+  { path: 'teams', methods: ['GET', 'POST'] },
+  { path: 'teams/*', methods: ['GET', 'PATCH'] },
+  { path: 'team-invitations/send-code', methods: ['POST'] }
+];
+
+// Encoded slashes and backslashes could let a `*` segment reach another endpoint
+const AMBIGUOUS_PATH = /%2f|%5c|\\/i;
+
+/**
+ * Check a proxied request against the policy
+ *
+ * @param method - Request method
+ * @param path - Path below `/api/v1`, without a leading slash or query
+ * @param routes - Policy, first match wins
+ */
+export function resolveProxyRoute(
+  method: string,
+  path: string,
+  routes: ProxyRoute[] = DEFAULT_PROXY_ROUTES
+): ProxyPolicyDecision {
+  if (AMBIGUOUS_PATH.test(path)) {
+    return { allowed: false, status: 404 };
+  }
+
+  const requestMethod = method.toUpperCase();
+  const allow = new Set<string>();
+
+  for (const route of routes) {
+    const patterns = (Array.isArray(route.path) ? route.path : [route.path]).map(pattern => pattern.replace(/^\/+/, ''));
+    if (!matchesPattern(path, patterns)) {
+      continue;
+    }
+
+    const methods = route.methods.map(candidate => candidate.toUpperCase());
+    if (methods.includes(requestMethod) || (requestMethod === 'HEAD' && methods.includes('GET'))) {
+      return { allowed: true, route };
+    }
+    methods.forEach(candidate => allow.add(candidate));
+  }
+
+  if (allow.size === 0) {
+    return { allowed: false, status: 404 };
+  }
+  return { allowed: false, status: 405, allow: [...allow] };
+}
@@ -1,29 +1,40 @@
 /**
  * Rate limiting implementation for Stack Auth endpoints
  * 
- * Provides in-memory rate limiting with configurable windows and limits
- * to protect against brute force attacks and API abuse.
+ * Provides rate limiting with configurable windows, limits and algorithms
+ * to protect against brute force attacks and API abuse. Counters live in
+ * a pluggable store: in memory by default, or shared between instances
+ * through the `rateLimitStore` integration option.
  */
 
+import { randomUUID } from 'node:crypto';
 import { getClientIP, generateRateLimitKey, SecurityError } from './security.js';
+import { getRuntimeOptions } from '../runtime-options.js';
+import { authMetrics } from './metrics.js';
 import type { APIContext } from 'astro';
 
+/**
+ * Rate limiting algorithm
+ *
+ * - `fixed-window`: counts requests per window; the count resets at the
+ *   window boundary
+ * - `sliding-window`: counts requests in the last `windowMs`, so there is
+ *   no burst at the boundary
+ * - `token-bucket`: allows bursts up to `maxRequests`, refilling at
+ *   `maxRequests` per `windowMs`
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
 // Rate limiting configuration
 export interface RateLimitConfig {
   windowMs: number;      // Time window in milliseconds
   maxRequests: number;   // Maximum requests per window
+  algorithm?: RateLimitAlgorithm; // Defaults to 'fixed-window'
   skipSuccessfulRequests?: boolean; // Don't count successful requests
   keyGenerator?: (request: Request) => string; // Custom key generation
   onLimitReached?: (key: string, limit: RateLimitConfig) => void; // Callback when limit reached
 }
 
-// Rate limit store entry
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-  firstRequest: number;
-}
-
 // Default rate limiting configurations
 export const RATE_LIMIT_CONFIGS = {
   // Authentication endpoints (signin, signup, etc.)
@@ -55,12 +66,140 @@ export const RATE_LIMIT_CONFIGS = {
   } as RateLimitConfig
 } as const;
 
+/**
+ * Outcome of counting one request against a limit
+ */
+export interface RateLimitHit {
+  allowed: boolean;
+  remaining: number;
+  resetTime: number; // When the limit next admits a request (or fully resets)
+}
+
+/**
+ * Pluggable rate limit store
+ *
+ * `increment` counts one request for a key and decides whether it is
+ * allowed using the algorithm selected in the config. Implementations
+ * must do this atomically so that limits hold across server instances.
+ */
+export interface RateLimitStore {
+  increment(key: string, config: RateLimitConfig): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+
+  /**
+   * Deny every request counted against a key until the lock expires,
+   * whatever the limit. Stores implementing this must check the lock in
+   * `increment`; `reset` leaves it in place.
+   */
+  lock?(key: string, durationMs: number): Promise<void>;
+}
+
+// Per-key state kept by the in-memory store
+type RateLimitEntry =
+  | { algorithm: 'fixed-window'; count: number; resetTime: number; expiresAt: number }
+  | { algorithm: 'sliding-window'; hits: number[]; expiresAt: number }
+  | { algorithm: 'token-bucket'; tokens: number; updatedAt: number; expiresAt: number };
+
+function fixedWindow(
+  entry: RateLimitEntry | undefined,
+  config: RateLimitConfig,
+  now: number
+): { entry: RateLimitEntry; hit: RateLimitHit } {
+  const current = entry?.algorithm === 'fixed-window' && now < entry.resetTime
+    ? entry
+    : { algorithm: 'fixed-window' as const, count: 0, resetTime: now + config.windowMs, expiresAt: now + config.windowMs };
+
+  const count = current.count + 1;
+  return {
+    entry: { ...current, count },
+    hit: {
+      allowed: count <= config.maxRequests,
+      remaining: Math.max(0, config.maxRequests - count),
+      resetTime: current.resetTime
+    }
+  };
+}
+
+/**
+ * Sliding log - remembers the time of each admitted request in the last
+ * window. Denied requests are not recorded, so a client that keeps
+ * retrying is admitted again as soon as its oldest request ages out.
+ */
+function slidingWindow(
+  entry: RateLimitEntry | undefined,
+  config: RateLimitConfig,
+  now: number
+): { entry: RateLimitEntry; hit: RateLimitHit } {
+  const windowStart = now - config.windowMs;
+  const hits = entry?.algorithm === 'sliding-window'
+    ? entry.hits.filter(time => time > windowStart)
+    : [];
+
+  const allowed = hits.length < config.maxRequests;
+  if (allowed) {
+    hits.push(now);
+  }
+
+  return {
+    entry: { algorithm: 'sliding-window', hits, expiresAt: now + config.windowMs },
+    hit: {
+      allowed,
+      remaining: Math.max(0, config.maxRequests - hits.length),
+      resetTime: hits.length > 0 ? hits[0] + config.windowMs : now + config.windowMs
+    }
+  };
+}
+
+/**
+ * Token bucket - holds up to `maxRequests` tokens and refills at
+ * `maxRequests` per `windowMs`, so bursts are allowed up to the bucket
+ * size while the sustained rate matches the other algorithms.
+ */
+function tokenBucket(
+  entry: RateLimitEntry | undefined,
+  config: RateLimitConfig,
+  now: number
+): { entry: RateLimitEntry; hit: RateLimitHit } {
+  const capacity = config.maxRequests;
+  const refillRate = capacity / config.windowMs; // tokens per millisecond
+
+  let tokens = entry?.algorithm === 'token-bucket'
+    ? Math.min(capacity, entry.tokens + Math.max(0, now - entry.updatedAt) * refillRate)
+    : capacity;
+
+  const allowed = tokens >= 1;
+  if (allowed) {
+    tokens -= 1;
+  }
+
+  const timeUntilFull = refillRate > 0 ? Math.ceil((capacity - tokens) / refillRate) : config.windowMs;
+  const timeUntilNextToken = refillRate > 0 ? Math.ceil((1 - tokens) / refillRate) : config.windowMs;
+
+  return {
+    entry: { algorithm: 'token-bucket', tokens, updatedAt: now, expiresAt: now + timeUntilFull },
+    hit: {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetTime: now + (tokens >= 1 ? timeUntilFull : timeUntilNextToken)
+    }
+  };
+}
+
+const ALGORITHMS = {
+  'fixed-window': fixedWindow,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket
+};
+
 /**
  * In-memory rate limit store
- * In production, this should be replaced with Redis or another distributed store
+ *
+ * Limits are per process; use `RedisRateLimitStore` when several server
+ * instances must share them.
  */
-class InMemoryRateLimitStore {
+export class InMemoryRateLimitStore implements RateLimitStore {
   private store = new Map<string, RateLimitEntry>();
+  private locks = new Map<string, number>(); // Key to lock expiry
   private cleanupInterval: NodeJS.Timeout | null = null;
   
   constructor() {
@@ -70,54 +209,41 @@ class InMemoryRateLimitStore {
     }, 5 * 60 * 1000);
   }
   
-  get(key: string): RateLimitEntry | undefined {
-    const entry = this.store.get(key);
-    
-    // Remove expired entries
-    if (entry && Date.now() > entry.resetTime) {
-      this.store.delete(key);
-      return undefined;
+  async increment(key: string, config: RateLimitConfig): Promise<RateLimitHit> {
+    const now = Date.now();
+    const lockedUntil = this.locks.get(key);
+    if (lockedUntil !== undefined && now < lockedUntil) {
+      return { allowed: false, remaining: 0, resetTime: lockedUntil };
     }
-    
-    return entry;
-  }
-  
-  set(key: string, entry: RateLimitEntry): void {
+
+    const algorithm = ALGORITHMS[config.algorithm ?? 'fixed-window'];
+    const { entry, hit } = algorithm(this.store.get(key), config, now);
+
     this.store.set(key, entry);
+    return hit;
   }
   
-  increment(key: string, windowMs: number): RateLimitEntry {
-    const now = Date.now();
-    const existing = this.get(key);
-    
-    if (!existing) {
-      // First request in window
-      const entry: RateLimitEntry = {
-        count: 1,
-        resetTime: now + windowMs,
-        firstRequest: now
-      };
-      this.set(key, entry);
-      return entry;
-    }
-    
-    // Increment existing entry
-    existing.count++;
-    this.set(key, existing);
-    return existing;
+  async reset(key: string): Promise<void> {
+    this.store.delete(key);
   }
   
-  reset(key: string): void {
-    this.store.delete(key);
+  async lock(key: string, durationMs: number): Promise<void> {
+    // Never shorten a longer lock that is already in place
+    this.locks.set(key, Math.max(this.locks.get(key) ?? 0, Date.now() + durationMs));
   }
   
   private cleanup(): void {
     const now = Date.now();
     for (const [key, entry] of Array.from(this.store.entries())) {
-      if (now > entry.resetTime) {
+      if (now > entry.expiresAt) {
         this.store.delete(key);
       }
     }
+    for (const [key, lockedUntil] of Array.from(this.locks.entries())) {
+      if (now >= lockedUntil) {
+        this.locks.delete(key);
+      }
+    }
   }
   
   destroy(): void {
@@ -126,6 +252,7 @@ class InMemoryRateLimitStore {
       this.cleanupInterval = null;
     }
     this.store.clear();
+    this.locks.clear();
   }
   
   // Debug methods for testing
@@ -135,12 +262,190 @@ class InMemoryRateLimitStore {
   
   clear(): void {
     this.store.clear();
+    this.locks.clear();
   }
 }
 
-// Global rate limit store instance
+/**
+ * Minimal subset of a Redis client used by the rate limit adapter
+ *
+ * Matches the `eval` and `del` signatures of ioredis; node-redis users can
+ * pass a thin wrapper around their client.
+ */
+export interface RedisScriptClient {
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+  del(...keys: string[]): Promise<unknown>;
+}
+
+export interface RedisRateLimitStoreOptions {
+  /**
+   * Prefix applied to every key written to Redis
+   * @default 'stack-auth:ratelimit:'
+   */
+  keyPrefix?: string;
+}
+
+// Each script returns { allowed (0/1), remaining, resetTime } and uses the
+// Redis clock so that instances with skewed clocks agree on the window.
+// KEYS[2] is the key's lock, which denies requests while it exists.
+const REDIS_NOW = `
+-- Needed before writing after TIME on Redis versions older than 5
+redis.replicate_commands()
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local windowMs = tonumber(ARGV[1])
+local maxRequests = tonumber(ARGV[2])
+local lockedFor = redis.call('PTTL', KEYS[2])
+if lockedFor > 0 then return { 0, 0, now + lockedFor } end
+`;
+
+// Sets a lock unless a longer one is already in place
+const REDIS_LOCK_SCRIPT = `
+if redis.call('PTTL', KEYS[1]) < tonumber(ARGV[1]) then
+  redis.call('SET', KEYS[1], '1', 'PX', ARGV[1])
+end
+return 1
+`;
+
+const REDIS_SCRIPTS: Record<RateLimitAlgorithm, string> = {
+  'fixed-window': `${REDIS_NOW}
+local count = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], windowMs)
+  ttl = windowMs
+end
+local allowed = 0
+if count <= maxRequests then allowed = 1 end
+return { allowed, math.max(0, maxRequests - count), now + ttl }
+`,
+
+  'sliding-window': `${REDIS_NOW}
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - windowMs)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < maxRequests then
+  redis.call('ZADD', KEYS[1], now, ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], windowMs)
+local resetTime = now + windowMs
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+if oldest[2] then resetTime = tonumber(oldest[2]) + windowMs end
+return { allowed, math.max(0, maxRequests - count), resetTime }
+`,
+
+  'token-bucket': `${REDIS_NOW}
+local refillRate = maxRequests / windowMs
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1])
+if tokens == nil then
+  tokens = maxRequests
+else
+  tokens = math.min(maxRequests, tokens + math.max(0, now - tonumber(state[2])) * refillRate)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+local untilFull = windowMs
+local untilNextToken = windowMs
+if refillRate > 0 then
+  untilFull = math.ceil((maxRequests - tokens) / refillRate)
+  untilNextToken = math.ceil((1 - tokens) / refillRate)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.max(1, untilFull))
+local resetTime = now + untilNextToken
+if tokens >= 1 then resetTime = now + untilFull end
+return { allowed, math.floor(tokens), resetTime }
+`
+};
+
+/**
+ * Rate limit store backed by Redis or any Redis-protocol server
+ *
+ * Each algorithm runs as a single Lua script, so concurrent requests on
+ * different instances cannot both take the last slot.
+ *
+ * @example
+ * import Redis from 'ioredis';
+ * stackAuth({ rateLimitStore: new RedisRateLimitStore(new Redis(process.env.REDIS_URL)) });
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisScriptClient;
+  private keyPrefix: string;
+
+  constructor(client: RedisScriptClient, options: RedisRateLimitStoreOptions = {}) {
+    this.client = client;
+    this.keyPrefix = options.keyPrefix ?? 'stack-auth:ratelimit:';
+  }
+
+  async increment(key: string, config: RateLimitConfig): Promise<RateLimitHit> {
+    const algorithm = config.algorithm ?? 'fixed-window';
+    const result = await this.client.eval(
+      REDIS_SCRIPTS[algorithm],
+      2,
+      this.redisKey(algorithm, key),
+      this.lockKey(key),
+      config.windowMs,
+      config.maxRequests,
+      // Sorted set member for the sliding log; unique per request
+      randomUUID()
+    ) as [number, number, number];
+
+    return {
+      allowed: Number(result[0]) === 1,
+      remaining: Number(result[1]),
+      resetTime: Number(result[2])
+    };
+  }
+
+  async reset(key: string): Promise<void> {
+    const algorithms = Object.keys(REDIS_SCRIPTS) as RateLimitAlgorithm[];
+    await this.client.del(...algorithms.map(algorithm => this.redisKey(algorithm, key)));
+  }
+
+  async lock(key: string, durationMs: number): Promise<void> {
+    await this.client.eval(REDIS_LOCK_SCRIPT, 1, this.lockKey(key), Math.max(1, Math.ceil(durationMs)));
+  }
+
+  // Each algorithm keeps a different Redis data type, so keys are kept apart
+  private redisKey(algorithm: RateLimitAlgorithm, key: string): string {
+    return `${this.keyPrefix}${algorithm}:${key}`;
+  }
+
+  private lockKey(key: string): string {
+    return `${this.keyPrefix}lock:${key}`;
+  }
+}
+
+// Default rate limit store used when no store is configured
 const rateLimitStore = new InMemoryRateLimitStore();
 
+/**
+ * Get the configured rate limit store, falling back to the in-memory store
+ */
+export function getRateLimitStore(): RateLimitStore {
+  return getRuntimeOptions().rateLimitStore || rateLimitStore;
+}
+/**
+ * Deny every request counted against a rate limit key for a while, e.g.
+ * `ip:203.0.113.7` after anomaly detection flags the address
+ *
+ * @returns false when the configured store does not support locks
+ */
+export async function lockRateLimitKey(key: string, durationMs: number): Promise<boolean> {
+  const store = getRateLimitStore();
+  if (!store.lock) {
+    return false;
+  }
+  await store.lock(key, durationMs);
+  return true;
+}
+
 /**
  * Rate limit result information
  */
@@ -152,33 +457,42 @@ export interface RateLimitResult {
   retryAfter?: number; // Seconds until retry allowed
 }
 
+/**
+ * Kind of a rate limit key, as a metric label that stays low-cardinality
+ */
+function rateLimitKeyType(key: string): string {
+  const type = key.split(':', 1)[0];
+  return ['ip', 'user', 'endpoint', 'general'].includes(type) ? type : 'custom';
+}
+
 /**
  * Apply rate limiting to a request
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   request: Request, 
   config: RateLimitConfig,
   customKey?: string
-): RateLimitResult {
+): Promise<RateLimitResult> {
   // Generate rate limit key
   const key = customKey || (config.keyGenerator ? 
     config.keyGenerator(request) : 
     generateRateLimitKey(request, 'ip')
   );
   
-  // Get current entry and increment
-  const entry = rateLimitStore.increment(key, config.windowMs);
+  // Count the request with the configured algorithm
+  const hit = await getRateLimitStore().increment(key, config);
   
   const result: RateLimitResult = {
-    success: entry.count <= config.maxRequests,
+    success: hit.allowed,
     limit: config.maxRequests,
-    remaining: Math.max(0, config.maxRequests - entry.count),
-    resetTime: entry.resetTime
+    remaining: hit.remaining,
+    resetTime: hit.resetTime
   };
   
   // Calculate retry after if limit exceeded
   if (!result.success) {
-    result.retryAfter = Math.ceil((entry.resetTime - Date.now()) / 1000);
+    result.retryAfter = Math.max(1, Math.ceil((hit.resetTime - Date.now()) / 1000));
+    authMetrics.rateLimitRejections.inc({ key_type: rateLimitKeyType(key) });
     
     // Call limit reached callback if configured
     if (config.onLimitReached) {
@@ -192,12 +506,12 @@ export function checkRateLimit(
 /**
  * Apply rate limiting and throw error if limit exceeded
  */
-export function enforceRateLimit(
+export async function enforceRateLimit(
   request: Request,
   config: RateLimitConfig,
   customKey?: string
-): RateLimitResult {
-  const result = checkRateLimit(request, config, customKey);
+): Promise<RateLimitResult> {
+  const result = await checkRateLimit(request, config, customKey);
   
   if (!result.success) {
     const error = new SecurityError(
@@ -216,13 +530,13 @@ export function enforceRateLimit(
 /**
  * Remove rate limiting for successful authentication (if configured)
  */
-export function clearRateLimit(request: Request, config: RateLimitConfig, customKey?: string): void {
+export async function clearRateLimit(request: Request, config: RateLimitConfig, customKey?: string): Promise<void> {
   if (config.skipSuccessfulRequests) {
     const key = customKey || (config.keyGenerator ? 
       config.keyGenerator(request) : 
       generateRateLimitKey(request, 'ip')
     );
-    rateLimitStore.reset(key);
+    await getRateLimitStore().reset(key);
   }
 }
 
@@ -230,25 +544,24 @@ export function clearRateLimit(request: Request, config: RateLimitConfig, custom
  * Rate limiting middleware for authentication endpoints
  */
 export function createRateLimitMiddleware(config: RateLimitConfig, customKeyGenerator?: (context: APIContext) => string) {
-  return (context: APIContext, next: () => Promise<Response>): Promise<Response> => {
+  return async (context: APIContext, next: () => Promise<Response>): Promise<Response> => {
     const key = customKeyGenerator ? customKeyGenerator(context) : undefined;
     
     try {
-      const result = enforceRateLimit(context.request, config, key);
+      const result = await enforceRateLimit(context.request, config, key);
       
       // Add rate limit headers to response
-      return next().then(response => {
-        response.headers.set('X-RateLimit-Limit', result.limit.toString());
-        response.headers.set('X-RateLimit-Remaining', result.remaining.toString());
-        response.headers.set('X-RateLimit-Reset', new Date(result.resetTime).toISOString());
-        return response;
-      });
+      const response = await next();
+      response.headers.set('X-RateLimit-Limit', result.limit.toString());
+      response.headers.set('X-RateLimit-Remaining', result.remaining.toString());
+      response.headers.set('X-RateLimit-Reset', new Date(result.resetTime).toISOString());
+      return response;
       
     } catch (error) {
       if (error instanceof SecurityError && error.code === 'RATE_LIMIT_EXCEEDED') {
         const rateLimitInfo = (error as any).rateLimit as RateLimitResult;
         
-        return Promise.resolve(new Response(JSON.stringify({
+        return new Response(JSON.stringify({
           error: 'Rate limit exceeded',
           message: error.message,
           retryAfter: rateLimitInfo.retryAfter
@@ -262,7 +575,7 @@ export function createRateLimitMiddleware(config: RateLimitConfig, customKeyGene
             'X-RateLimit-Remaining': '0',
             'X-RateLimit-Reset': new Date(rateLimitInfo.resetTime).toISOString()
           }
-        }));
+        });
       }
       
       throw error;
@@ -331,23 +644,23 @@ export const RateLimiters = {
 /**
  * Get current rate limit status for a request
  */
-export function getRateLimitStatus(request: Request, config: RateLimitConfig, customKey?: string): RateLimitResult {
+export function getRateLimitStatus(request: Request, config: RateLimitConfig, customKey?: string): Promise<RateLimitResult> {
   return checkRateLimit(request, config, customKey);
 }
 
 /**
  * Reset rate limit for testing purposes
  */
-export function resetRateLimit(request: Request, config: RateLimitConfig, customKey?: string): void {
+export async function resetRateLimit(request: Request, config: RateLimitConfig, customKey?: string): Promise<void> {
   const key = customKey || (config.keyGenerator ? 
     config.keyGenerator(request) : 
     generateRateLimitKey(request, 'ip')
   );
-  rateLimitStore.reset(key);
+  await getRateLimitStore().reset(key);
 }
 
 /**
- * Get rate limit store statistics (for monitoring/debugging)
+ * Get statistics for the default in-memory store (for monitoring/debugging)
  */
 export function getRateLimitStats(): { totalKeys: number } {
   return {
@@ -0,0 +1,153 @@
+/**
+ * Declarative route protection for the Stack Auth middleware
+ *
+ * Applies the `protect` integration option centrally so that pages and
+ * endpoints under a protected pattern cannot be left unguarded by
+ * forgetting a `requireAuth()` call. Enforcement answers like `requireAuth()`
+ * and `requireAuthorization()`, so API routes get 401/403 JSON responses
+ * and pages are redirected, but checks the session the middleware already
+ * resolved instead of consuming the sign-in attempt rate limit.
+ */
+
+import type { APIContext } from 'astro';
+import type { ProtectRule } from '../types.js';
+import { loadRuntimeOptions, getRuntimeOptionsError } from '../runtime-options.js';
+import { requireSessionAccess } from '../server.js';
+import { logSystemError } from './audit.js';
+
+// Compiled glob patterns, keyed by pattern
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Convert a path glob to a regular expression
+ *
+ * `**` matches any number of path segments, `*` any characters within a
+ * segment and `?` a single character. A trailing `/**` also matches the
+ * base path itself.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = patternCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === undefined && source.endsWith('/')) {
+        // Trailing "/**" - make the slash optional so the base path matches
+        source = `${source.slice(0, -1)}(?:/.*)?`;
+      } else {
+        source += '.*';
+      }
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}/?$`);
+  patternCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Check whether a path matches a glob or any of several globs
+ */
+export function matchesPattern(pathname: string, pattern: string | string[]): boolean {
+  const patterns = Array.isArray(pattern) ? pattern : [pattern];
+  return patterns.some(candidate => globToRegExp(candidate).test(pathname));
+}
+
+/**
+ * Find the first protection rule matching a path
+ */
+export function findProtectRule(pathname: string, rules: ProtectRule[]): ProtectRule | null {
+  return rules.find(rule => matchesPattern(pathname, rule.pattern)) || null;
+}
+
+/**
+ * Refuse a request whose protection rules could not be loaded
+ */
+function serviceUnavailable(): Response {
+  return new Response(JSON.stringify({
+    error: 'Service Unavailable',
+    statusCode: 503
+  }), {
+    status: 503,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Enforce the configured protection rules for a request
+ *
+ * Must run after `Astro.locals` has been populated. Stack Auth's own
+ * routes under the prefix are always left open so users can sign in.
+ * When the options built into the server cannot be loaded, the rules are
+ * unknown and every request is refused with a 503.
+ *
+ * @returns A 401/403, 503 or redirect response when access is denied, otherwise null
+ */
+export async function enforceRouteProtection(
+  context: APIContext,
+  prefix: string = process.env.STACK_AUTH_PREFIX || '/handler'
+): Promise<Response | null> {
+  const { protect } = await loadRuntimeOptions();
+  if (!protect || protect.length === 0) {
+    return getRuntimeOptionsError() ? serviceUnavailable() : null;
+  }
+
+  const pathname = context.url.pathname;
+  const normalizedPrefix = prefix.replace(/\/+$/, '');
+  if (pathname === normalizedPrefix || pathname.startsWith(`${normalizedPrefix}/`)) {
+    return null;
+  }
+
+  const rule = findProtectRule(pathname, protect);
+  if (!rule || rule.public) {
+    return null;
+  }
+
+  const options = { signInUrl: rule.redirectTo, forbiddenUrl: rule.forbiddenUrl };
+  const permissions = toList(rule.permission);
+  const roles = toList(rule.role);
+
+  try {
+    await requireSessionAccess(context, { permissions, roles }, options);
+    return null;
+  } catch (error) {
+    // Denied requests throw the 401/403 or the redirect to answer with
+    if (error instanceof Response) {
+      return error;
+    }
+
+    // Never let an unexpected failure open a protected route
+    logSystemError(context, error instanceof Error ? error : new Error(String(error)), {
+      operation: 'routeProtection'
+    });
+    return new Response(JSON.stringify({
+      error: 'Internal Server Error',
+      statusCode: 500
+    }), {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+  }
+}
@@ -5,8 +5,12 @@
  * utilities to protect against common web application vulnerabilities.
  */
 
-import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+import { randomBytes, createHash, createHmac, timingSafeEqual } from 'crypto';
 import type { APIContext } from 'astro';
+import { readCookie } from './cookies.js';
+import { tryGetConfig } from '../config.js';
+import { getRuntimeOptions } from '../runtime-options.js';
+import { resolveClientIP, getClientAddress } from './trusted-proxies.js';
 
 // Security configuration constants
 export const SECURITY_CONFIG = {
@@ -14,6 +18,7 @@ export const SECURITY_CONFIG = {
   CSRF_TOKEN_LENGTH: 32,
   CSRF_COOKIE_NAME: 'stack-auth-csrf-token',
   CSRF_HEADER_NAME: 'x-csrf-token',
+  CSRF_FIELD_NAME: 'csrf_token',
   
   // Rate limiting settings
   DEFAULT_RATE_LIMIT: 100, // requests per window
@@ -90,6 +95,67 @@ export function validateCSRFToken(providedToken: string, expectedToken: string):
   }
 }
 
+/**
+ * Generate a CSRF token bound to a session
+ *
+ * The token is a random nonce followed by an HMAC of the nonce and the
+ * session, so a token issued for one session is rejected in another.
+ */
+export function generateSessionCSRFToken(sessionBinding: string, secret: string): string {
+  const nonce = generateSecureToken(SECURITY_CONFIG.CSRF_TOKEN_LENGTH);
+  return `${nonce}${generateKeyedHash(`${nonce}:${sessionBinding}`, secret)}`;
+}
+
+/**
+ * Check that a CSRF token was issued for the given session
+ */
+export function isCSRFTokenForSession(token: string, sessionBinding: string, secret: string): boolean {
+  const nonceLength = SECURITY_CONFIG.CSRF_TOKEN_LENGTH * 2;
+  if (token.length !== nonceLength + 64 || !/^[0-9a-f]+$/.test(token)) {
+    return false;
+  }
+
+  const nonce = token.slice(0, nonceLength);
+  return validateCSRFToken(token.slice(nonceLength), generateKeyedHash(`${nonce}:${sessionBinding}`, secret));
+}
+
+/**
+ * Identify the session a CSRF token belongs to from `Astro.locals`
+ */
+export function getCSRFSessionBinding(
+  locals?: { user?: { id: string } | null; session?: { id: string } | null }
+): string {
+  return locals?.session?.id || locals?.user?.id || 'anonymous';
+}
+
+/**
+ * Read the CSRF token submitted with a request
+ *
+ * Checks the `x-csrf-token` header, then a `csrf_token` query parameter,
+ * then a `csrf_token` form field. The form body is read from a copy so
+ * the endpoint can still consume it.
+ */
+export async function readSubmittedCSRFToken(request: Request): Promise<string | null> {
+  const token = request.headers.get(SECURITY_CONFIG.CSRF_HEADER_NAME) ||
+                new URL(request.url).searchParams.get(SECURITY_CONFIG.CSRF_FIELD_NAME);
+  if (token) {
+    return token;
+  }
+
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType.includes('application/x-www-form-urlencoded') && !contentType.includes('multipart/form-data')) {
+    return null;
+  }
+
+  try {
+    const field = (await request.clone().formData()).get(SECURITY_CONFIG.CSRF_FIELD_NAME);
+    return typeof field === 'string' ? field : null;
+  } catch {
+    // Body already consumed or malformed
+    return null;
+  }
+}
+
 /**
  * Sanitize string input to prevent XSS and injection attacks
  */
@@ -187,8 +253,17 @@ export function validateOrigin(request: Request, allowedOrigins: string[]): bool
 
 /**
  * Extract client IP address from request, considering proxies
+ *
+ * With the `trustedProxies` option only forwarding headers written by
+ * trusted proxies are believed; see `resolveClientIP()`.
  */
 export function getClientIP(request: Request): string {
+  const { trustedProxies } = getRuntimeOptions();
+  if (trustedProxies !== undefined) {
+    return resolveClientIP(request, trustedProxies) || '127.0.0.1';
+  }
+
+  // Without trustedProxies every header is believed - only safe when a proxy overwrites them
   // Check various headers for real IP (in order of preference)
   const headers = [
     'cf-connecting-ip', // Cloudflare
@@ -212,8 +287,8 @@ export function getClientIP(request: Request): string {
     }
   }
   
-  // Fallback to a default value - in production this should be extracted from connection
-  return '127.0.0.1';
+  // Fall back to the connection address recorded by the middleware
+  return getClientAddress(request) || '127.0.0.1';
 }
 
 /**
@@ -236,6 +311,22 @@ export function generateSecureHash(data: string): string {
   return createHash('sha256').update(data).digest('hex');
 }
 
+/**
+ * Generate keyed hash (HMAC-SHA256) of data so that the digest cannot be
+ * recomputed or matched without the secret
+ */
+export function generateKeyedHash(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('hex');
+}
+
+/**
+ * Compare secrets without leaking their contents or length through timing
+ */
+export function secretsEqual(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
 /**
  * Add security headers to response
  */
@@ -297,10 +388,10 @@ export interface SecurityValidationOptions {
 /**
  * Validate API context for security requirements
  */
-export function validateAPIContext(
+export async function validateAPIContext(
   context: APIContext, 
   options: SecurityValidationOptions = {}
-): void {
+): Promise<void> {
   const { request } = context;
   const cookies = (context as any).cookies;
   
@@ -320,13 +411,19 @@ export function validateAPIContext(
   
   // Validate CSRF token for state-changing operations
   if (options.requireCSRF && ['POST', 'PUT', 'DELETE', 'PATCH'].includes(request.method)) {
-    const csrfToken = request.headers.get(SECURITY_CONFIG.CSRF_HEADER_NAME) || 
-                      new URL(request.url).searchParams.get('csrf_token');
-    const expectedToken = cookies.get(SECURITY_CONFIG.CSRF_COOKIE_NAME)?.value;
+    const csrfToken = await readSubmittedCSRFToken(request);
+    const expectedToken = cookies?.get(SECURITY_CONFIG.CSRF_COOKIE_NAME)?.value ??
+                          readCookie(request, SECURITY_CONFIG.CSRF_COOKIE_NAME);
     
     if (!csrfToken || !expectedToken || !validateCSRFToken(csrfToken, expectedToken)) {
       throw new SecurityError('Invalid or missing CSRF token', 'CSRF_TOKEN_INVALID');
     }
+    
+    // Reject tokens issued for another session (e.g. planted before sign-in)
+    const { config } = tryGetConfig();
+    if (config && !isCSRFTokenForSession(expectedToken, getCSRFSessionBinding(context.locals), config.secretServerKey)) {
+      throw new SecurityError('Invalid or missing CSRF token', 'CSRF_TOKEN_INVALID');
+    }
   }
 }
 
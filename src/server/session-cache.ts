@@ -0,0 +1,361 @@
+/**
+ * Session cache stores for the Stack Auth middleware
+ *
+ * The middleware caches validated sessions to avoid a round trip to
+ * Stack Auth on every request. The store is pluggable so that multiple
+ * server instances can share one cache (e.g. Redis) while single-instance
+ * deployments use a bounded in-memory LRU.
+ */
+
+import type { User, Session } from '../rest-api/types.js';
+import { getRuntimeOptions } from '../runtime-options.js';
+import { generateKeyedHash } from './security.js';
+
+/**
+ * Session data stored in the cache
+ */
+export interface CachedSession {
+  user: User | null;
+  session: Session | null;
+  timestamp: number;
+}
+
+/**
+ * Pluggable session cache store
+ *
+ * Implementations are responsible for expiring entries after their TTL.
+ */
+export interface SessionCacheStore {
+  get(key: string): Promise<CachedSession | null>;
+  set(key: string, value: CachedSession): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Options shared by the built-in session cache stores
+ */
+export interface SessionCacheStoreOptions {
+  /**
+   * Time to live for cached sessions in milliseconds
+   * @default 300000 (5 minutes)
+   */
+  ttl?: number;
+}
+
+export interface LRUSessionCacheStoreOptions extends SessionCacheStoreOptions {
+  /**
+   * Maximum number of cached sessions before the least recently
+   * used entry is evicted
+   * @default 1000
+   */
+  maxEntries?: number;
+}
+
+export interface RedisSessionCacheStoreOptions extends SessionCacheStoreOptions {
+  /**
+   * Prefix applied to every key written to Redis
+   * @default 'stack-auth:session:'
+   */
+  keyPrefix?: string;
+}
+
+/**
+ * Minimal subset of a Redis client used by the session cache adapter
+ *
+ * Matches the command signatures of ioredis; node-redis users can pass
+ * a thin wrapper around their client.
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  del(...keys: string[]): Promise<unknown>;
+  scan?(cursor: string, match: 'MATCH', pattern: string, count: 'COUNT', batchSize: number): Promise<[string, string[]]>;
+}
+
+export const DEFAULT_SESSION_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+export const DEFAULT_SESSION_CACHE_MAX_ENTRIES = 1000;
+
+// Keys requested per SCAN call when clearing the Redis store
+const REDIS_SCAN_BATCH_SIZE = 100;
+
+/**
+ * Bounded in-memory session cache with least-recently-used eviction
+ *
+ * Relies on Map insertion order: reads re-insert the entry so the first
+ * key in the map is always the least recently used one.
+ */
+export class LRUSessionCacheStore implements SessionCacheStore {
+  private entries = new Map<string, CachedSession>();
+  private ttl: number;
+  private maxEntries: number;
+
+  constructor(options: LRUSessionCacheStoreOptions = {}) {
+    this.ttl = options.ttl ?? DEFAULT_SESSION_CACHE_TTL;
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_SESSION_CACHE_MAX_ENTRIES);
+  }
+
+  async get(key: string): Promise<CachedSession | null> {
+    const cached = this.entries.get(key);
+    if (!cached) {
+      return null;
+    }
+
+    // Clean up expired cache entry
+    if (Date.now() - cached.timestamp >= this.ttl) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, cached);
+    return cached;
+  }
+
+  async set(key: string, value: CachedSession): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    // Evict least recently used entries once over capacity
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Session cache adapter for a Redis-compatible key/value client
+ *
+ * Lets every instance behind a load balancer share one session cache.
+ * Entries expire server-side through the PX argument of SET.
+ */
+export class RedisSessionCacheStore implements SessionCacheStore {
+  private client: RedisLikeClient;
+  private ttl: number;
+  private keyPrefix: string;
+
+  constructor(client: RedisLikeClient, options: RedisSessionCacheStoreOptions = {}) {
+    this.client = client;
+    this.ttl = options.ttl ?? DEFAULT_SESSION_CACHE_TTL;
+    this.keyPrefix = options.keyPrefix ?? 'stack-auth:session:';
+  }
+
+  async get(key: string): Promise<CachedSession | null> {
+    const raw = await this.client.get(this.keyPrefix + key);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const cached = JSON.parse(raw) as CachedSession;
+      // Guard against clients that ignore PX
+      if (Date.now() - cached.timestamp >= this.ttl) {
+        await this.delete(key);
+        return null;
+      }
+      return cached;
+    } catch {
+      // Corrupt entry - drop it rather than failing the request
+      await this.delete(key);
+      return null;
+    }
+  }
+
+  async set(key: string, value: CachedSession): Promise<void> {
+    await this.client.set(this.keyPrefix + key, JSON.stringify(value), 'PX', this.ttl);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+
+  /**
+   * Delete every key under the prefix
+   *
+   * Walks the keyspace with SCAN and deletes each batch as it arrives;
+   * KEYS would block the Redis server for the whole walk.
+   */
+  async clear(): Promise<void> {
+    if (!this.client.scan) {
+      return;
+    }
+
+    const pattern = `${this.keyPrefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', REDIS_SCAN_BATCH_SIZE);
+      if (keys.length > 0) {
+        await this.client.del(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+}
+
+/**
+ * Create the default session cache store
+ */
+export function createDefaultSessionCacheStore(): SessionCacheStore {
+  return new LRUSessionCacheStore();
+}
+
+// Default session cache used when no store is configured
+let defaultSessionCache: SessionCacheStore | null = null;
+
+/**
+ * Get the configured session cache store, falling back to a bounded LRU
+ */
+export function getSessionCacheStore(): SessionCacheStore {
+  const { sessionCache } = getRuntimeOptions();
+  if (sessionCache) {
+    return sessionCache;
+  }
+
+  if (!defaultSessionCache) {
+    defaultSessionCache = createDefaultSessionCacheStore();
+  }
+  return defaultSessionCache;
+}
+
+/**
+ * Derive the cache key for an access token
+ * 
+ * The key is an HMAC of the full token keyed with the secret server key,
+ * so tokens sharing a prefix (JWTs share their header) never collide and
+ * keys leaked from a shared store cannot be linked back to tokens.
+ */
+export function createSessionCacheKey(accessToken: string, secret: string): string {
+  return `session:${generateKeyedHash(accessToken, secret)}`;
+}
+
+/**
+ * Remove the cached session for an access token
+ */
+export async function invalidateCachedSession(accessToken: string, secret: string): Promise<void> {
+  await getSessionCacheStore().delete(createSessionCacheKey(accessToken, secret));
+}
+
+// Keep invalidations long enough to outlive any reasonably configured cache TTL
+const INVALIDATION_RETENTION = 24 * 60 * 60 * 1000; // 24 hours
+const INVALIDATION_MAX_ENTRIES = 10000;
+
+// When cached sessions were invalidated, keyed by user ID and by session ID
+const invalidatedUsers = new Map<string, number>();
+const invalidatedSessions = new Map<string, number>();
+
+/**
+ * Record an invalidation, dropping entries past retention or over the bound
+ */
+function recordInvalidation(invalidations: Map<string, number>, id: string): void {
+  const now = Date.now();
+  invalidations.delete(id);
+  invalidations.set(id, now);
+
+  for (const [key, invalidatedAt] of invalidations) {
+    if (invalidations.size <= INVALIDATION_MAX_ENTRIES && now - invalidatedAt < INVALIDATION_RETENTION) {
+      break;
+    }
+    invalidations.delete(key);
+  }
+}
+
+// Store keys of the markers that share invalidations with other instances
+const userInvalidationKey = (userId: string) => `invalidated:user:${userId}`;
+const sessionInvalidationKey = (sessionId: string) => `invalidated:session:${sessionId}`;
+
+/**
+ * Write an invalidation marker to the session cache store
+ *
+ * The marker is written with the store's TTL after the entries it
+ * invalidates, so it outlives them. A store failure is logged rather than
+ * thrown: the revocation at Stack Auth has already happened.
+ */
+async function storeInvalidation(key: string): Promise<void> {
+  try {
+    await getSessionCacheStore().set(key, { user: null, session: null, timestamp: Date.now() });
+  } catch (error) {
+    console.error('❌ Stack Auth could not share a session invalidation through the cache store:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Invalidate every cached session of a user
+ * 
+ * Cache keys are derived from access tokens, so entries cannot be looked up
+ * by user. Instead, entries for the user cached before this call are
+ * ignored from now on: in this process straight away, and in other
+ * instances sharing the store through a marker written to it.
+ */
+export async function invalidateCachedUserSessions(userId: string): Promise<void> {
+  recordInvalidation(invalidatedUsers, userId);
+  await storeInvalidation(userInvalidationKey(userId));
+}
+
+/**
+ * Invalidate the cached entries of one revoked session
+ * 
+ * Same semantics as `invalidateCachedUserSessions()`.
+ */
+export async function invalidateCachedSessionById(sessionId: string): Promise<void> {
+  recordInvalidation(invalidatedSessions, sessionId);
+  await storeInvalidation(sessionInvalidationKey(sessionId));
+}
+
+/**
+ * Check whether a session was revoked in this process
+ */
+export function isSessionInvalidated(sessionId: string): boolean {
+  return invalidatedSessions.has(sessionId);
+}
+
+/**
+ * Check whether a cached session was cached before an invalidation made
+ * in this process
+ */
+export function isCachedSessionInvalidated(cached: CachedSession): boolean {
+  const userInvalidatedAt = cached.user ? invalidatedUsers.get(cached.user.id) : undefined;
+  const sessionInvalidatedAt = cached.session ? invalidatedSessions.get(cached.session.id) : undefined;
+
+  return (userInvalidatedAt !== undefined && cached.timestamp <= userInvalidatedAt) ||
+    (sessionInvalidatedAt !== undefined && cached.timestamp <= sessionInvalidatedAt);
+}
+
+/**
+ * Check whether a cached session was cached before an invalidation made
+ * in this process or in any instance sharing the store
+ */
+export async function isCachedSessionRevoked(cached: CachedSession): Promise<boolean> {
+  if (isCachedSessionInvalidated(cached)) {
+    return true;
+  }
+
+  const store = getSessionCacheStore();
+  const markers = await Promise.all([
+    cached.user ? store.get(userInvalidationKey(cached.user.id)) : null,
+    cached.session ? store.get(sessionInvalidationKey(cached.session.id)) : null
+  ]);
+  return markers.some(marker => marker !== null && cached.timestamp <= marker.timestamp);
+}
+
+/**
+ * Forget all recorded invalidations
+ */
+export function clearCachedSessionInvalidations(): void {
+  invalidatedUsers.clear();
+  invalidatedSessions.clear();
+}
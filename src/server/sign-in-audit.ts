@@ -0,0 +1,106 @@
+/**
+ * Audit entries for sign-ins made through the API proxy
+ *
+ * Stack Auth checks the credentials, so the proxy only sees the result.
+ * Rejected attempts are logged as `AUTH_FAILURE` with the attempted
+ * account and successful ones as `SESSION_CREATED` with the user, which
+ * are the entries the anomaly detection rules count.
+ */
+
+import type { APIContext } from 'astro';
+import { SecurityEvents } from './audit.js';
+import { getTokenSubject } from './jwt.js';
+
+// Stack Auth endpoints that exchange credentials for a session
+const SIGN_IN_PATHS = new Set(['auth/signin', 'auth/otp/signin']);
+
+// Sign-in requests and responses are small JSON documents; larger bodies are not inspected
+const MAX_INSPECTED_BYTES = 16 * 1024;
+
+/**
+ * Check whether a proxied request is a sign-in attempt
+ */
+export function isSignInRequest(method: string, stackPath: string): boolean {
+  return method.toUpperCase() === 'POST' && SIGN_IN_PATHS.has(stackPath.replace(/\/+$/, ''));
+}
+
+/**
+ * Release a copied body that is not needed
+ *
+ * Not awaited: cancelling one branch of a cloned body only settles once
+ * the other branch, the one being forwarded, is done as well.
+ */
+function discard(body: ReadableStream<Uint8Array> | null): void {
+  body?.cancel().catch(() => {});
+}
+
+/**
+ * Read a small JSON object body, or null when it is missing, too large
+ * or not a JSON object
+ */
+async function readJsonObject(body: ReadableStream<Uint8Array> | null): Promise<Record<string, unknown> | null> {
+  if (!body) {
+    return null;
+  }
+
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.byteLength;
+      if (size > MAX_INSPECTED_BYTES) {
+        reader.cancel().catch(() => {});
+        return null;
+      }
+      chunks.push(value);
+    }
+    const parsed: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Log the result of a proxied sign-in
+ *
+ * @param attempt - Copy of the sign-in request, taken before its body was forwarded
+ * @param result - Copy of Stack Auth's response; the original is streamed to the client
+ */
+export async function auditSignInResult(
+  context: APIContext,
+  stackPath: string,
+  attempt: Request,
+  result: Response
+): Promise<void> {
+  if (result.ok) {
+    discard(attempt.body);
+    const body = await readJsonObject(result.body);
+    const userId = typeof body?.user_id === 'string' && body.user_id
+      ? body.user_id
+      : typeof body?.access_token === 'string' ? getTokenSubject(body.access_token) : null;
+    if (userId) {
+      SecurityEvents.sessionCreated(context, userId, { endpoint: stackPath });
+    }
+    return;
+  }
+
+  discard(result.body);
+  if (result.status < 400 || result.status >= 500) {
+    discard(attempt.body);
+    return;
+  }
+
+  const body = await readJsonObject(attempt.body);
+  const account = typeof body?.email === 'string' && body.email ? body.email : undefined;
+  SecurityEvents.authAttemptFailed(context, `Sign-in rejected by Stack Auth (${result.status})`, {
+    endpoint: stackPath,
+    status: result.status,
+    ...(account && { account })
+  });
+}
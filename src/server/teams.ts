@@ -0,0 +1,83 @@
+/**
+ * Selected team resolution for Stack Auth users
+ *
+ * Populates `Astro.locals.team` from the user's selected team. Stack Auth
+ * includes the team on `/users/me`, while users built from token claims
+ * only carry its ID, so those teams are fetched and cached for a short
+ * time to keep JWT verification free of per-request API calls.
+ */
+
+import type { User, Team } from '../rest-api/types.js';
+import { StackAuthRestClient } from '../rest-api/client.js';
+import { tryGetConfig } from '../config.js';
+import { recordProviderApiTime } from './performance.js';
+
+const TEAM_CACHE_TTL = 60 * 1000; // 1 minute
+const TEAM_CACHE_MAX_ENTRIES = 1000;
+
+// Recently fetched teams, keyed by team ID
+const teamCache = new Map<string, { team: Team; fetchedAt: number }>();
+
+/**
+ * Fetch a team by ID, using the short-lived cache
+ */
+async function fetchTeam(teamId: string): Promise<Team | null> {
+  const cached = teamCache.get(teamId);
+  if (cached && Date.now() - cached.fetchedAt < TEAM_CACHE_TTL) {
+    return cached.team;
+  }
+
+  const { config } = tryGetConfig();
+  if (!config) {
+    return null;
+  }
+
+  const client = new StackAuthRestClient(config);
+  const apiStartTime = performance.now();
+  const team = await client.getTeam(teamId);
+  recordProviderApiTime(performance.now() - apiStartTime);
+
+  teamCache.delete(teamId);
+  teamCache.set(teamId, { team, fetchedAt: Date.now() });
+  if (teamCache.size > TEAM_CACHE_MAX_ENTRIES) {
+    const oldestKey = teamCache.keys().next().value;
+    if (oldestKey !== undefined) teamCache.delete(oldestKey);
+  }
+
+  return team;
+}
+
+/**
+ * Get the team a user has selected, if any
+ *
+ * Lookup failures resolve to null so a Stack Auth outage never blocks
+ * the request; the team is informational, not an authorization check.
+ */
+export async function getSelectedTeam(user: User | null | undefined): Promise<Team | null> {
+  if (!user) return null;
+  if (user.selectedTeam) return user.selectedTeam;
+  if (!user.selectedTeamId) return null;
+
+  try {
+    return await fetchTeam(user.selectedTeamId);
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.warn('⚠️  Stack Auth selected team lookup failed:', error instanceof Error ? error.message : error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Forget a cached team, or all cached teams
+ *
+ * Call after updating a team so `Astro.locals.team` reflects the change
+ * immediately.
+ */
+export function clearTeamCache(teamId?: string): void {
+  if (teamId) {
+    teamCache.delete(teamId);
+  } else {
+    teamCache.clear();
+  }
+}
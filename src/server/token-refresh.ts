@@ -0,0 +1,98 @@
+/**
+ * Server-side access token refresh
+ *
+ * When the access token has expired or is rejected, the middleware
+ * exchanges the refresh token for a new access token. Concurrent requests
+ * carrying the same refresh token (e.g. a page and its assets loaded in
+ * parallel) share a single exchange, and the result is kept briefly so
+ * requests sent before the browser received the rotated cookies reuse it.
+ */
+
+import type { StackAuthConfig } from '../types.js';
+import type { TokenResponse } from '../rest-api/types.js';
+import { StackAuthRestClient, extractAccessToken } from '../rest-api/client.js';
+import { generateKeyedHash } from './security.js';
+import { recordProviderApiTime } from './performance.js';
+
+// How long a completed exchange is reused for the same refresh token
+const REFRESH_RESULT_TTL = 10 * 1000; // 10 seconds
+
+interface RefreshEntry {
+  promise: Promise<TokenResponse | null>;
+  settledAt: number | null;
+}
+
+// In-flight and recently completed refreshes, keyed by refresh token hash
+const refreshes = new Map<string, RefreshEntry>();
+
+// Access tokens obtained by refreshing during the current request
+const refreshedAccessTokens = new WeakMap<Request, string>();
+
+/**
+ * Exchange a refresh token for a new token pair, de-duplicating concurrent calls
+ *
+ * @returns The new tokens, or null if Stack Auth rejected the refresh token
+ */
+export function refreshAccessToken(config: StackAuthConfig, refreshToken: string): Promise<TokenResponse | null> {
+  const key = generateKeyedHash(refreshToken, config.secretServerKey);
+  const now = Date.now();
+
+  // Drop completed results that are too old to reuse
+  refreshes.forEach((entry, entryKey) => {
+    if (entry.settledAt !== null && now - entry.settledAt >= REFRESH_RESULT_TTL) {
+      refreshes.delete(entryKey);
+    }
+  });
+
+  const existing = refreshes.get(key);
+  if (existing) {
+    return existing.promise;
+  }
+
+  const client = new StackAuthRestClient({
+    projectId: config.projectId,
+    publishableClientKey: config.publishableClientKey,
+    secretServerKey: config.secretServerKey,
+    baseUrl: config.baseUrl
+  });
+
+  const apiStartTime = performance.now();
+  const entry: RefreshEntry = {
+    promise: client.exchangeRefreshToken(refreshToken).then(tokens => {
+      recordProviderApiTime(performance.now() - apiStartTime);
+      entry.settledAt = Date.now();
+      // Only successful exchanges are worth reusing
+      if (!tokens) {
+        refreshes.delete(key);
+      }
+      return tokens;
+    }),
+    settledAt: null
+  };
+
+  refreshes.set(key, entry);
+  return entry.promise;
+}
+
+/**
+ * Record the access token obtained by refreshing during a request
+ */
+export function setRefreshedAccessToken(request: Request, accessToken: string): void {
+  refreshedAccessTokens.set(request, accessToken);
+}
+
+/**
+ * Get the access token in effect for a request
+ *
+ * Prefers a token refreshed by the middleware over the one sent by the browser.
+ */
+export function getEffectiveAccessToken(request: Request): string | null {
+  return refreshedAccessTokens.get(request) ?? extractAccessToken(request);
+}
+
+/**
+ * Clear in-flight and recent refreshes - useful for testing
+ */
+export function clearTokenRefreshes(): void {
+  refreshes.clear();
+}
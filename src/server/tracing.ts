@@ -0,0 +1,120 @@
+/**
+ * OpenTelemetry tracing for Stack Auth
+ *
+ * Spans for session resolution in the middleware, Stack Auth REST API
+ * calls and the API proxy, created with a tracer passed in the `tracing`
+ * option. The types below are the subset of `@opentelemetry/api` the
+ * integration uses, so a tracer from `trace.getTracer()` fits without
+ * the package depending on OpenTelemetry.
+ *
+ * Outbound requests carry the W3C `traceparent` (and `tracestate`) of
+ * their span, so Stack Auth calls join the caller's trace.
+ */
+
+import { getRuntimeOptions } from '../runtime-options.js';
+
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Span kinds, as in OpenTelemetry's `SpanKind`
+ */
+export const SpanKind = {
+  INTERNAL: 0,
+  SERVER: 1,
+  CLIENT: 2
+} as const;
+
+/**
+ * Span status codes, as in OpenTelemetry's `SpanStatusCode`
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2
+} as const;
+
+export interface TracingSpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  traceState?: { serialize(): string };
+}
+
+export interface TracingSpan {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  spanContext(): TracingSpanContext;
+  end(): void;
+}
+
+export interface TracingSpanOptions {
+  kind?: number;
+  attributes?: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * Tracer creating spans that are active while their callback runs, like
+ * OpenTelemetry's `Tracer.startActiveSpan`
+ */
+export interface TracingTracer {
+  startActiveSpan<F extends (span: TracingSpan) => unknown>(name: string, options: TracingSpanOptions, fn: F): ReturnType<F>;
+}
+
+/**
+ * Tracing settings, for the `tracing` option
+ */
+export interface TracingOptions {
+  tracer: TracingTracer;
+}
+
+const INVALID_TRACE_ID = /^0+$/;
+
+/**
+ * Run `fn` in a span of the configured tracer
+ *
+ * Without a tracer, `fn` runs with a null span. Errors are recorded on
+ * the span, which is marked as failed, and rethrown.
+ */
+export function withSpan<T>(
+  name: string,
+  options: TracingSpanOptions,
+  fn: (span: TracingSpan | null) => Promise<T>
+): Promise<T> {
+  const tracer = getRuntimeOptions().tracing?.tracer;
+  if (!tracer) {
+    return fn(null);
+  }
+
+  return tracer.startActiveSpan(name, options, async (span: TracingSpan) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * W3C trace context headers for an outbound request made in `span`
+ */
+export function traceContextHeaders(span: TracingSpan | null): Record<string, string> {
+  const context = span?.spanContext();
+  if (!context || INVALID_TRACE_ID.test(context.traceId)) {
+    return {};
+  }
+
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+  const headers: Record<string, string> = {
+    traceparent: `00-${context.traceId}-${context.spanId}-${flags}`
+  };
+  const traceState = context.traceState?.serialize();
+  if (traceState) {
+    headers.tracestate = traceState;
+  }
+  return headers;
+}
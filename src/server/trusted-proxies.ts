@@ -0,0 +1,180 @@
+/**
+ * Trusted-proxy aware client IP resolution
+ *
+ * Forwarding headers can be set by anyone, so they only identify the
+ * client when they were written by proxies we trust. With the
+ * `trustedProxies` option the `Forwarded` (RFC 7239) or `X-Forwarded-For`
+ * chain is walked from the right, skipping trusted proxies, and the first
+ * address that is not one of them is the client. Without forwarding
+ * headers the connection address reported by Astro (`clientAddress`) is
+ * used.
+ */
+
+import { BlockList, isIP } from 'node:net';
+
+/**
+ * Proxies in front of the app: CIDR ranges or addresses of the trusted
+ * proxies, or the number of proxy hops
+ */
+export type TrustedProxies = string[] | number;
+
+// Connection addresses recorded by the middleware for the current request
+const clientAddresses = new WeakMap<Request, string>();
+
+// Compiled proxy ranges, keyed by the configured list
+const compiledProxyLists = new WeakMap<string[], BlockList>();
+
+/**
+ * Record the connection address Astro reported for a request
+ */
+export function setClientAddress(request: Request, address: string): void {
+  const normalized = normalizeIP(address);
+  if (normalized) {
+    clientAddresses.set(request, normalized);
+  }
+}
+
+/**
+ * Get the connection address recorded for a request
+ */
+export function getClientAddress(request: Request): string | null {
+  return clientAddresses.get(request) ?? null;
+}
+
+/**
+ * Normalize an address from a forwarding header or socket
+ *
+ * Strips quotes, IPv6 brackets, ports and the IPv4-mapped IPv6 prefix.
+ *
+ * @returns The address, or null for obfuscated or invalid values
+ */
+export function normalizeIP(value: string): string | null {
+  let address = value.trim().replace(/^"(.*)"$/, '$1');
+
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(':'));
+  }
+
+  address = address.replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i, '$1');
+  return isIP(address) ? address.toLowerCase() : null;
+}
+
+/**
+ * Read the client chain from the forwarding headers, nearest hop last
+ *
+ * Prefers RFC 7239 `Forwarded` over `X-Forwarded-For`. Invalid or
+ * obfuscated entries (e.g. `for=unknown`) are kept as null so that the
+ * chain positions stay intact.
+ */
+export function getForwardedChain(request: Request): (string | null)[] {
+  const forwarded = request.headers.get('forwarded');
+  if (forwarded) {
+    return forwarded.split(',').map(element => {
+      const pair = element.split(';')
+        .map(part => part.trim())
+        .find(part => part.toLowerCase().startsWith('for='));
+      return pair ? normalizeIP(pair.slice(4)) : null;
+    });
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return forwardedFor ? forwardedFor.split(',').map(normalizeIP) : [];
+}
+
+function parseProxyEntry(entry: string): { address: string; prefix: number } | null {
+  const [rawAddress, rawPrefix, ...rest] = entry.trim().split('/');
+  const address = rest.length === 0 ? normalizeIP(rawAddress) : null;
+  if (!address) {
+    return null;
+  }
+
+  const maxPrefix = isIP(address) === 4 ? 32 : 128;
+  const prefix = rawPrefix === undefined ? maxPrefix : Number(rawPrefix);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+    return null;
+  }
+  return { address, prefix };
+}
+
+/**
+ * Check whether a `trustedProxies` entry is a valid address or CIDR range
+ */
+export function isTrustedProxyEntry(entry: unknown): boolean {
+  return typeof entry === 'string' && parseProxyEntry(entry) !== null;
+}
+
+function compileProxyList(proxies: string[]): BlockList {
+  const cached = compiledProxyLists.get(proxies);
+  if (cached) {
+    return cached;
+  }
+
+  const list = new BlockList();
+  proxies.forEach(entry => {
+    const parsed = parseProxyEntry(entry);
+    if (parsed) {
+      list.addSubnet(parsed.address, parsed.prefix, isIP(parsed.address) === 4 ? 'ipv4' : 'ipv6');
+    }
+  });
+
+  compiledProxyLists.set(proxies, list);
+  return list;
+}
+
+/**
+ * Resolve the client address of a request behind trusted proxies
+ *
+ * With a hop count, the client is that many entries from the right of the
+ * chain formed by the forwarding headers and the connection address. With
+ * a list of proxies, trusted addresses are skipped from the right. When
+ * the connection address is known and not a trusted proxy, forwarding
+ * headers are ignored entirely.
+ *
+ * @returns The client address, or null if it cannot be determined
+ */
+export function resolveClientIP(request: Request, trustedProxies: TrustedProxies): string | null {
+  const peer = getClientAddress(request);
+
+  if (typeof trustedProxies === 'number') {
+    if (trustedProxies <= 0) {
+      return peer;
+    }
+
+    // With one proxy the client is the last forwarded entry, and so on.
+    // A shorter chain did not pass through every proxy, so none of its
+    // entries can be trusted.
+    const chain = getForwardedChain(request);
+    if (chain.length < trustedProxies) {
+      return peer;
+    }
+    return chain[chain.length - trustedProxies];
+  }
+
+  const proxies = compileProxyList(trustedProxies);
+  const isTrusted = (address: string) => proxies.check(address, isIP(address) === 4 ? 'ipv4' : 'ipv6');
+
+  if (peer && !isTrusted(peer)) {
+    return peer;
+  }
+  if (!peer && trustedProxies.length === 0) {
+    return null;
+  }
+
+  let nearest = peer;
+  for (const address of getForwardedChain(request).reverse()) {
+    if (!address) {
+      // An unreadable hop ends the chain; the nearest trusted hop is all we know
+      return nearest;
+    }
+    if (!isTrusted(address)) {
+      return address;
+    }
+    nearest = address;
+  }
+
+  // Every hop is a trusted proxy, so the leftmost one is the client
+  return nearest;
+}
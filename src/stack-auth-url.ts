@@ -0,0 +1,76 @@
+/**
+ * Stack Auth API location
+ *
+ * Decides where the Stack Auth backend lives for the proxy handler, the
+ * REST client, OAuth URLs, JWKS discovery and the Content-Security-Policy,
+ * so a self-hosted backend only has to be configured once.
+ *
+ * The base URL is the backend's root, e.g. `https://auth.example.com`.
+ * A trailing `/api/v1` is accepted and ignored, so values written for the
+ * REST client keep working. `STACK_BASE_URL` takes precedence over the
+ * `baseUrl` option, which may name a URL per `NODE_ENV`.
+ */
+
+import { getRuntimeOptions } from './runtime-options.js';
+
+/**
+ * Hosted Stack Auth backend
+ */
+export const DEFAULT_STACK_AUTH_URL = 'https://api.stack-auth.com';
+
+const API_PATH = '/api/v1';
+
+/**
+ * Stack Auth backend URL, or URLs by `NODE_ENV` with a `default` fallback
+ *
+ * @example { default: 'https://auth.example.com', development: 'http://localhost:8102' }
+ */
+export type StackAuthBaseUrl = string | Record<string, string>;
+
+/**
+ * Strip trailing slashes and the API path from a base URL
+ */
+export function normalizeStackAuthUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').replace(/\/api\/v1$/, '');
+}
+
+/**
+ * Check that a base URL is an absolute http(s) URL without query or fragment
+ */
+export function isValidStackAuthUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (parsed.protocol === 'https:' || parsed.protocol === 'http:') && !parsed.search && !parsed.hash;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Base URL configured for the current environment, if any
+ */
+export function getConfiguredStackAuthUrl(): string | undefined {
+  if (process.env.STACK_BASE_URL) {
+    return normalizeStackAuthUrl(process.env.STACK_BASE_URL);
+  }
+
+  const { baseUrl } = getRuntimeOptions();
+  const selected = typeof baseUrl === 'object' && baseUrl !== null
+    ? baseUrl[process.env.NODE_ENV || 'development'] ?? baseUrl.default
+    : baseUrl;
+  return selected ? normalizeStackAuthUrl(selected) : undefined;
+}
+
+/**
+ * Resolve the backend root: the given URL, the configured one, or the hosted default
+ */
+export function resolveStackAuthUrl(baseUrl?: string): string {
+  return normalizeStackAuthUrl(baseUrl || getConfiguredStackAuthUrl() || DEFAULT_STACK_AUTH_URL);
+}
+
+/**
+ * Resolve the versioned REST API root, e.g. `https://api.stack-auth.com/api/v1`
+ */
+export function getStackAuthApiUrl(baseUrl?: string): string {
+  return `${resolveStackAuthUrl(baseUrl)}${API_PATH}`;
+}
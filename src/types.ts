@@ -1,7 +1,19 @@
 // Import our custom types instead of SDK types
 import type { User, Session } from './rest-api/types.js';
+import type { SessionCacheStore } from './server/session-cache.js';
+import type { JwtVerificationOptions } from './server/jwt.js';
+import type { RateLimitStore } from './server/rate-limiting.js';
+import type { TrustedProxies } from './server/trusted-proxies.js';
+import type { CSPOptions } from './server/csp.js';
+import type { AuditConfig } from './server/audit.js';
+import type { AuditEndpointOptions } from './api/audit.js';
+import type { TracingOptions } from './server/tracing.js';
+import type { StackAuthBaseUrl } from './stack-auth-url.js';
+import type { ProxyRoute } from './server/proxy-policy.js';
+import type { CorsOptions } from './server/cors.js';
+import type { AuthCookieOptions } from './server/cookies.js';
 
-export interface StackAuthOptions {
+export interface StackAuthOptions extends StackAuthRuntimeOptions {
   projectId?: string;
   publishableClientKey?: string;
   secretServerKey?: string;
@@ -10,6 +22,7 @@ export interface StackAuthOptions {
   addReactRenderer?: boolean;
   addMiddleware?: boolean;
   skipValidation?: boolean;
+  runtimeModule?: string;
 }
 
 export interface StackAuthConfig {
@@ -20,12 +33,182 @@ export interface StackAuthConfig {
   prefix?: string;
 }
 
+/**
+ * Integration options consumed by the middleware and injected routes
+ * at request time
+ */
+export interface StackAuthRuntimeOptions {
+  /**
+   * Store used by the middleware to cache validated sessions
+   * @default bounded in-memory LRU store
+   */
+  sessionCache?: SessionCacheStore;
+
+  /**
+   * Store holding rate limit counters. Use a shared store such as
+   * `RedisRateLimitStore` so limits hold across server instances.
+   * @default in-memory store (per process)
+   */
+  rateLimitStore?: RateLimitStore;
+
+  /**
+   * Verify access tokens locally against the project's JWKS instead of
+   * calling Stack Auth on every uncached request. `Astro.locals.user` is
+   * then built from the token claims; use `getFullUser()` for the full record.
+   * @default false
+   */
+  jwtVerification?: boolean | JwtVerificationOptions;
+
+  /**
+   * Page that `requirePermission()` and `requireRole()` redirect to when
+   * access is denied
+   * @default '/forbidden'
+   */
+  forbiddenUrl?: string;
+
+  /**
+   * Sign-in page of the app. Failed OAuth sign-ins are redirected to it
+   * with an `error` query parameter.
+   * @default the page the sign-in started from
+   */
+  signInUrl?: string;
+
+  /**
+   * Routes the middleware protects before any page or endpoint runs.
+   * Rules are checked in order and the first match applies.
+   */
+  protect?: ProtectRule[];
+
+  /**
+   * Proxies whose forwarding headers are trusted when resolving the client
+   * IP for rate limiting and audit logs: addresses or CIDR ranges, or the
+   * number of proxy hops in front of the app. When unset, forwarding
+   * headers are believed as sent.
+   */
+  trustedProxies?: TrustedProxies;
+
+  /**
+   * Send a Content-Security-Policy with a per-request nonce on HTML
+   * responses. The nonce is available as `Astro.locals.cspNonce`.
+   * @default false
+   */
+  csp?: boolean | CSPOptions;
+
+  /**
+   * Audit logging settings, e.g. `sinks` to deliver entries to a file or
+   * webhook instead of the console, or `chainSecret` to make the log
+   * tamper-evident. `auditLogger.updateConfig()` overrides these at runtime.
+   */
+  audit?: Partial<AuditConfig>;
+
+  /**
+   * Serve buffered audit entries at `{prefix}/audit` to admins, for
+   * dashboards and exports. Requests need the bearer secret or, for
+   * signed-in users, the permission.
+   * @default disabled
+   */
+  auditEndpoint?: AuditEndpointOptions;
+
+  /**
+   * OpenTelemetry tracer for spans around session resolution, Stack Auth
+   * REST API calls and the API proxy, e.g. `{ tracer: trace.getTracer('auth') }`
+   * @default disabled
+   */
+  tracing?: TracingOptions;
+
+  /**
+   * Root URL of a self-hosted Stack Auth backend, or URLs by `NODE_ENV`
+   * with a `default`. `STACK_BASE_URL` overrides it.
+   * @default 'https://api.stack-auth.com'
+   */
+  baseUrl?: StackAuthBaseUrl;
+
+  /**
+   * Stack Auth API endpoints the `{prefix}/*` proxy forwards, with the key
+   * each is sent with. Other requests get a 404 or 405. Replaces the
+   * defaults; spread `DEFAULT_PROXY_ROUTES` to extend them.
+   * @default client-facing auth flows, sent with the publishable client key
+   */
+  proxyRoutes?: ProxyRoute[];
+
+  /**
+   * Largest request body, in bytes, the proxy forwards to Stack Auth.
+   * Larger requests get a 413.
+   * @default 1048576 (1 MiB)
+   */
+  proxyMaxBodySize?: number;
+
+  /**
+   * Origins allowed to call the `{prefix}/*` routes from the browser, with
+   * the methods, headers and credentials they may use. Cross-origin
+   * requests from other origins get a 403.
+   * @default same-origin requests only
+   */
+  cors?: CorsOptions;
+
+  /**
+   * Names and attributes of the auth cookies, used when the middleware and
+   * injected routes set them and when the proxy rewrites cookies from
+   * Stack Auth
+   * @default `stack-auth-access-token` / `stack-auth-refresh-token`, path `/`, SameSite Lax, persistent
+   */
+  cookies?: AuthCookieOptions;
+}
+
+/**
+ * Route protection rule for the `protect` integration option
+ */
+export interface ProtectRule {
+  /**
+   * Glob or globs matched against the request path. `*` matches within a
+   * path segment, `**` across segments; `/dashboard/**` also matches `/dashboard`.
+   */
+  pattern: string | string[];
+
+  /**
+   * Leave matching routes open, e.g. to carve a public page out of a
+   * protected section listed after this rule
+   * @default false
+   */
+  public?: boolean;
+
+  /**
+   * Sign-in page that unauthenticated page requests are redirected to
+   * @default `${prefix}/signin`
+   */
+  redirectTo?: string;
+
+  /**
+   * Permission or permissions that are all required
+   */
+  permission?: string | string[];
+
+  /**
+   * Role or roles, any of which grants access
+   */
+  role?: string | string[];
+
+  /**
+   * Page that denied page requests are redirected to
+   * @default the `forbiddenUrl` integration option
+   */
+  forbiddenUrl?: string;
+}
+
 export interface RequireAuthOptions {
   signInUrl?: string;
   redirectTo?: string;
   throwOnUnauthenticated?: boolean;
 }
 
+export interface AuthorizationOptions extends RequireAuthOptions {
+  /**
+   * Where to redirect pages when the user lacks the required permission or role
+   * @default the `forbiddenUrl` integration option, or '/forbidden'
+   */
+  forbiddenUrl?: string;
+}
+
 export interface SignInOptions {
   redirectTo?: string;
   provider?: string;
@@ -11,6 +11,19 @@ import {
   ERROR_MESSAGES,
   createValidationSummary
 } from './errors.js';
+import { isTrustedProxyEntry } from './server/trusted-proxies.js';
+import { isValidStackAuthUrl } from './stack-auth-url.js';
+
+/**
+ * Check that a value is a bare origin: scheme, host and optional port
+ */
+function isValidOrigin(value: string): boolean {
+  try {
+    return new URL(value).origin === value.replace(/\/+$/, '').toLowerCase();
+  } catch {
+    return false;
+  }
+}
 
 /**
  * Validation result interface
@@ -115,7 +128,7 @@ export function validateConfiguration(config: Partial<StackAuthConfig>): Validat
   }
 
   // Validate base URL if provided
-  if (config.baseUrl && !isValidUrl(config.baseUrl)) {
+  if (config.baseUrl && !isValidStackAuthUrl(config.baseUrl)) {
     errors.push('baseUrl must be a valid URL');
   }
 
@@ -156,9 +169,269 @@ export function validateStackAuthOptions(options: StackAuthOptions): ValidationR
     errors.push('addMiddleware must be a boolean');
   }
 
-  // Validate the options as a config-like object
+  if (options.runtimeModule !== undefined && (typeof options.runtimeModule !== 'string' || !options.runtimeModule.trim())) {
+    errors.push('runtimeModule must be a module path');
+  }
+
+  // Validate runtime options
+  if (options.sessionCache !== undefined && !isSessionCacheStore(options.sessionCache)) {
+    errors.push('sessionCache must implement get, set, delete and clear');
+  }
+
+  if (options.rateLimitStore !== undefined && !isRateLimitStore(options.rateLimitStore)) {
+    errors.push('rateLimitStore must implement increment and reset');
+  }
+
+  if (options.jwtVerification !== undefined && !isJwtVerificationOption(options.jwtVerification)) {
+    errors.push('jwtVerification must be a boolean or an options object');
+  } else if (typeof options.jwtVerification === 'object' && options.jwtVerification.jwksUrl !== undefined) {
+    try {
+      const jwksUrl = new URL(options.jwtVerification.jwksUrl);
+      if (jwksUrl.protocol !== 'https:' && jwksUrl.hostname !== 'localhost') {
+        warnings.push('jwtVerification.jwksUrl should use HTTPS');
+      }
+    } catch {
+      errors.push('jwtVerification.jwksUrl must be a valid URL');
+    }
+  }
+
+  if (options.forbiddenUrl !== undefined && (typeof options.forbiddenUrl !== 'string' || !options.forbiddenUrl.startsWith('/'))) {
+    errors.push('forbiddenUrl must be a path starting with "/"');
+  }
+
+  if (options.signInUrl !== undefined && (typeof options.signInUrl !== 'string' || !options.signInUrl.startsWith('/'))) {
+    errors.push('signInUrl must be a path starting with "/"');
+  }
+
+  if (options.protect !== undefined) {
+    if (!Array.isArray(options.protect)) {
+      errors.push('protect must be an array of route rules');
+    } else {
+      options.protect.forEach((rule, index) => {
+        const patterns = Array.isArray(rule?.pattern) ? rule.pattern : [rule?.pattern];
+        if (patterns.length === 0 || !patterns.every(pattern => typeof pattern === 'string' && pattern.startsWith('/'))) {
+          errors.push(`protect[${index}].pattern must be a path glob starting with "/"`);
+        }
+        if (rule?.public && (rule.permission || rule.role)) {
+          warnings.push(`protect[${index}] is public, so its permission and role are ignored`);
+        }
+      });
+    }
+  }
+
+  if (options.trustedProxies !== undefined) {
+    if (Array.isArray(options.trustedProxies)) {
+      options.trustedProxies.forEach((entry, index) => {
+        if (!isTrustedProxyEntry(entry)) {
+          errors.push(`trustedProxies[${index}] must be an IP address or CIDR range`);
+        }
+      });
+    } else if (!Number.isInteger(options.trustedProxies) || options.trustedProxies < 0) {
+      errors.push('trustedProxies must be a list of addresses or a number of proxy hops');
+    }
+  }
+
+  if (options.csp !== undefined && typeof options.csp !== 'boolean') {
+    if (!options.csp || typeof options.csp !== 'object') {
+      errors.push('csp must be a boolean or an options object');
+    } else {
+      Object.entries(options.csp.directives || {}).forEach(([name, sources]) => {
+        if (!/^[a-z-]+$/.test(name) || !Array.isArray(sources) || !sources.every(source => typeof source === 'string' && !/[;,\s]/.test(source))) {
+          errors.push(`csp.directives['${name}'] must be a list of sources`);
+        }
+      });
+      if (options.csp.reportOnly !== undefined && typeof options.csp.reportOnly !== 'boolean') {
+        errors.push('csp.reportOnly must be a boolean');
+      }
+    }
+  }
+
+  if (options.audit !== undefined) {
+    if (!options.audit || typeof options.audit !== 'object') {
+      errors.push('audit must be an options object');
+    } else {
+      if (options.audit.sinks !== undefined) {
+        if (!Array.isArray(options.audit.sinks)) {
+          errors.push('audit.sinks must be an array of sinks');
+        } else {
+          options.audit.sinks.forEach((sink, index) => {
+            if (!isAuditSink(sink)) {
+              errors.push(`audit.sinks[${index}] must implement write and flush`);
+            }
+          });
+        }
+      }
+      if (options.audit.chainSecret !== undefined) {
+        if (typeof options.audit.chainSecret !== 'string' || !options.audit.chainSecret) {
+          errors.push('audit.chainSecret must be a non-empty string');
+        } else if (options.audit.chainSecret.length < 32) {
+          warnings.push('audit.chainSecret should be at least 32 characters long');
+        }
+      }
+      if (options.audit.anomalyDetection !== undefined && typeof options.audit.anomalyDetection !== 'boolean') {
+        const anomalyDetection = options.audit.anomalyDetection;
+        if (!anomalyDetection || typeof anomalyDetection !== 'object') {
+          errors.push('audit.anomalyDetection must be a boolean or an options object');
+        } else {
+          (['bruteForce', 'credentialStuffing', 'sessionBurst'] as const).forEach(name => {
+            const rule = anomalyDetection[name];
+            if (rule === undefined || rule === false) {
+              return;
+            }
+            const isPositiveInteger = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) > 0);
+            if (!rule || typeof rule !== 'object' || !isPositiveInteger(rule.threshold) || !isPositiveInteger(rule.windowMs)) {
+              errors.push(`audit.anomalyDetection.${name} threshold and windowMs must be positive integers`);
+            }
+          });
+          const { impossibleTravel, onAnomaly } = anomalyDetection;
+          if (impossibleTravel !== undefined && impossibleTravel !== false && typeof impossibleTravel?.locate !== 'function') {
+            errors.push('audit.anomalyDetection.impossibleTravel.locate must be a function');
+          }
+          if (onAnomaly !== undefined && typeof onAnomaly !== 'function') {
+            errors.push('audit.anomalyDetection.onAnomaly must be a function');
+          }
+        }
+      }
+    }
+  }
+
+  if (options.auditEndpoint !== undefined) {
+    const { auditEndpoint } = options;
+    if (!auditEndpoint || typeof auditEndpoint !== 'object') {
+      errors.push('auditEndpoint must be an options object');
+    } else if (!auditEndpoint.permission && !auditEndpoint.secret) {
+      errors.push('auditEndpoint needs a permission or a secret to protect it');
+    } else {
+      if (auditEndpoint.permission !== undefined && typeof auditEndpoint.permission !== 'string') {
+        errors.push('auditEndpoint.permission must be a string');
+      }
+      if (auditEndpoint.secret !== undefined && (typeof auditEndpoint.secret !== 'string' || auditEndpoint.secret.length < 32)) {
+        errors.push('auditEndpoint.secret must be a string of at least 32 characters');
+      }
+    }
+  }
+
+  if (options.tracing !== undefined) {
+    const tracer = options.tracing?.tracer;
+    if (!tracer || typeof tracer.startActiveSpan !== 'function') {
+      errors.push('tracing.tracer must be an OpenTelemetry tracer with startActiveSpan');
+    }
+  }
+
+  if (options.proxyRoutes !== undefined) {
+    if (!Array.isArray(options.proxyRoutes)) {
+      errors.push('proxyRoutes must be an array of routes');
+    } else {
+      options.proxyRoutes.forEach((route, index) => {
+        const paths = Array.isArray(route?.path) ? route.path : [route?.path];
+        if (paths.length === 0 || !paths.every(path => typeof path === 'string' && path.length > 0)) {
+          errors.push(`proxyRoutes[${index}].path must be a path pattern or a list of them`);
+        }
+        if (!Array.isArray(route?.methods) || route.methods.length === 0 || !route.methods.every(method => typeof method === 'string')) {
+          errors.push(`proxyRoutes[${index}].methods must be a non-empty list of HTTP methods`);
+        }
+        if (route?.key !== undefined && route.key !== 'client' && route.key !== 'server') {
+          errors.push(`proxyRoutes[${index}].key must be 'client' or 'server'`);
+        } else if (route?.key === 'server' && paths.some(path => typeof path === 'string' && path.includes('**'))) {
+          warnings.push(`proxyRoutes[${index}] sends the secret server key to a wildcard path`);
+        }
+      });
+    }
+  }
+
+  if (options.proxyMaxBodySize !== undefined
+    && (!Number.isInteger(options.proxyMaxBodySize) || options.proxyMaxBodySize <= 0)) {
+    errors.push('proxyMaxBodySize must be a positive number of bytes');
+  }
+
+  if (options.cors !== undefined) {
+    const { cors } = options;
+    if (!cors || typeof cors !== 'object' || cors.origin === undefined) {
+      errors.push('cors must be an options object with an origin');
+    } else {
+      const origins = Array.isArray(cors.origin) ? cors.origin : [cors.origin];
+      origins.forEach(origin => {
+        if (typeof origin === 'string' && origin !== '*' && !isValidOrigin(origin)) {
+          errors.push(`cors.origin ${origin} must be an origin such as https://app.example.com`);
+        } else if (typeof origin !== 'string' && typeof origin !== 'function' && !(origin instanceof RegExp)) {
+          errors.push('cors.origin entries must be strings, regular expressions or functions');
+        }
+      });
+      if (cors.credentials && origins.includes('*')) {
+        errors.push("cors.credentials cannot be combined with the '*' origin");
+      }
+      (['methods', 'allowedHeaders', 'exposedHeaders'] as const).forEach(name => {
+        const value = cors[name];
+        if (value !== undefined && (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.length > 0))) {
+          errors.push(`cors.${name} must be a list of names`);
+        }
+      });
+      if (cors.maxAge !== undefined && (!Number.isInteger(cors.maxAge) || cors.maxAge < 0)) {
+        errors.push('cors.maxAge must be a non-negative number of seconds');
+      }
+    }
+  }
+
+  if (options.cookies !== undefined) {
+    const { cookies } = options;
+    if (!cookies || typeof cookies !== 'object') {
+      errors.push('cookies must be an options object');
+    } else {
+      (['accessTokenName', 'refreshTokenName'] as const).forEach(name => {
+        const value = cookies[name];
+        if (value !== undefined && (typeof value !== 'string' || !/^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/.test(value))) {
+          errors.push(`cookies.${name} must be a valid cookie name`);
+        }
+      });
+      if (cookies.accessTokenName !== undefined && cookies.accessTokenName === cookies.refreshTokenName) {
+        errors.push('cookies.accessTokenName and cookies.refreshTokenName must differ');
+      }
+      if (cookies.path !== undefined && (typeof cookies.path !== 'string' || !cookies.path.startsWith('/'))) {
+        errors.push("cookies.path must start with '/'");
+      }
+      if (cookies.sameSite !== undefined && !['strict', 'lax', 'none'].includes(cookies.sameSite)) {
+        errors.push("cookies.sameSite must be 'strict', 'lax' or 'none'");
+      }
+      if (cookies.sameSite === 'none' && cookies.secure === false) {
+        errors.push("cookies.sameSite 'none' requires secure cookies");
+      }
+      if (cookies.hostPrefix) {
+        if (cookies.domain !== undefined) {
+          errors.push('cookies.hostPrefix cannot be combined with cookies.domain');
+        }
+        if (cookies.secure === false) {
+          errors.push('cookies.hostPrefix requires secure cookies');
+        }
+        if (cookies.path !== undefined && cookies.path !== '/') {
+          warnings.push("cookies.path is ignored with cookies.hostPrefix, which always uses '/'");
+        }
+      }
+      if (cookies.secure === false && process.env.NODE_ENV === 'production') {
+        warnings.push('cookies.secure is disabled in production');
+      }
+    }
+  }
+
+  if (options.baseUrl !== undefined) {
+    const { baseUrl } = options;
+    if (typeof baseUrl === 'string') {
+      if (!isValidStackAuthUrl(baseUrl)) {
+        errors.push('baseUrl must be a valid URL');
+      }
+    } else if (!baseUrl || typeof baseUrl !== 'object' || Object.keys(baseUrl).length === 0) {
+      errors.push('baseUrl must be a URL or an object of URLs by environment');
+    } else {
+      Object.entries(baseUrl).forEach(([environment, url]) => {
+        if (typeof url !== 'string' || !isValidStackAuthUrl(url)) {
+          errors.push(`baseUrl.${environment} must be a valid URL`);
+        }
+      });
+    }
+  }
+
+  // Validate the options as a config-like object; baseUrl was checked above
   if (options.projectId || options.publishableClientKey || options.secretServerKey) {
-    const configValidation = validateConfiguration(options);
+    const configValidation = validateConfiguration({ ...options, baseUrl: undefined });
     errors.push(...configValidation.errors);
     warnings.push(...configValidation.warnings);
   }
@@ -293,20 +566,33 @@ function isValidSecretKey(key: string): boolean {
   return key.length > 20 && (key.startsWith('sk_') || key.includes('_'));
 }
 
-function isValidUrl(url: string): boolean {
-  try {
-    new URL(url);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 function isValidPrefix(prefix: string): boolean {
   // Must start with "/" and contain only valid URL path characters
   return /^\/[a-zA-Z0-9_/-]*$/.test(prefix);
 }
 
+function isJwtVerificationOption(option: unknown): boolean {
+  return typeof option === 'boolean' || (!!option && typeof option === 'object' && !Array.isArray(option));
+}
+
+function isSessionCacheStore(store: unknown): boolean {
+  if (!store || typeof store !== 'object') return false;
+  const candidate = store as Record<string, unknown>;
+  return ['get', 'set', 'delete', 'clear'].every(method => typeof candidate[method] === 'function');
+}
+
+function isAuditSink(sink: unknown): boolean {
+  if (!sink || typeof sink !== 'object') return false;
+  const candidate = sink as Record<string, unknown>;
+  return ['write', 'flush'].every(method => typeof candidate[method] === 'function');
+}
+
+function isRateLimitStore(store: unknown): boolean {
+  if (!store || typeof store !== 'object') return false;
+  const candidate = store as Record<string, unknown>;
+  return ['increment', 'reset'].every(method => typeof candidate[method] === 'function');
+}
+
 /**
  * Dependency validation options
  */
@@ -7,6 +7,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { APIContext } from 'astro';
+import { setRuntimeOptions, resetRuntimeOptions } from '../src/runtime-options.js';
 
 // Mock the config module
 vi.mock('../src/config.js', () => ({
@@ -25,10 +26,15 @@ global.fetch = mockFetch;
 describe('Stack Auth API Handler', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Forward every path so these tests exercise forwarding, not the endpoint policy
+    setRuntimeOptions({
+      proxyRoutes: [{ path: '**', methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'], key: 'server' }]
+    });
   });
 
   afterEach(() => {
     vi.restoreAllMocks();
+    resetRuntimeOptions();
   });
 
   const createMockContext = (
@@ -40,12 +46,13 @@ describe('Stack Auth API Handler', () => {
     request: {
       method,
       headers: new Headers(headers),
+      body: body ? new Response(body).body : null,
       text: vi.fn().mockResolvedValue(body)
     } as any,
     url: new URL(`https://example.com${pathname}?test=param`),
     // Add other APIContext properties as needed for testing
     locals: {},
-    params: {},
+    params: { stack: pathname.replace(/^\/handler\/?/, '') || undefined },
     site: undefined,
     generator: 'astro',
     redirect: vi.fn(),
@@ -145,7 +152,7 @@ describe('Stack Auth API Handler', () => {
       const response = await GET(context);
 
       expect(response.headers.get('content-type')).toBe('application/json');
-      expect(response.headers.get('set-cookie')).toBe('session=abc123; HttpOnly');
+      expect(response.headers.get('set-cookie')).toBe('session=abc123; Path=/; HttpOnly; Secure; SameSite=Lax');
       expect(response.headers.get('cache-control')).toBe('no-cache');
       expect(response.headers.get('x-ratelimit-remaining')).toBe('99');
     });
@@ -168,11 +175,12 @@ describe('Stack Auth API Handler', () => {
 
         expect(mockFetch).toHaveBeenCalledWith(
           expect.stringContaining('https://api.stack-auth.com/api/v1/test'),
-          expect.objectContaining({
-            method,
-            body: method === 'GET' ? undefined : '{"data": "test"}'
-          })
+          expect.objectContaining({ method })
         );
+        // Bodies are streamed through rather than buffered
+        const { body } = mockFetch.mock.calls[0][1];
+        expect(body === undefined ? undefined : await new Response(body).text())
+          .toBe(method === 'GET' ? undefined : '{"data": "test"}');
         expect(response.status).toBe(200);
       });
     });
@@ -181,6 +189,14 @@ describe('Stack Auth API Handler', () => {
   describe('CORS handling', () => {
     it('should handle OPTIONS preflight requests', async () => {
       const { OPTIONS } = await import('../src/api/handler.js');
+      setRuntimeOptions({
+        cors: {
+          origin: 'https://myapp.com',
+          methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+          allowedHeaders: ['Content-Type', 'Authorization'],
+          credentials: true
+        }
+      });
       const context = createMockContext('OPTIONS', '/handler/signin', {
         'origin': 'https://myapp.com',
         'access-control-request-method': 'POST',
@@ -255,7 +271,7 @@ describe('Stack Auth API Handler', () => {
 
     it('should handle redirect responses correctly', async () => {
       const { GET } = await import('../src/api/handler.js');
-      const context = createMockContext('GET', '/handler/oauth/callback');
+      const context = createMockContext('GET', '/handler/auth/oauth/callback');
       
       mockFetch.mockResolvedValue(
         new Response('', {
@@ -0,0 +1,72 @@
+/**
+ * Tests for the client sign-in and sign-out helpers against the injected route
+ *
+ * Every request the helpers make must reach an endpoint the route serves
+ * with the default proxy policy.
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { signIn, signOut, clearPrefixCache } from '../../src/client.js';
+import { resolveProxyRoute, DEFAULT_PROXY_ROUTES } from '../../src/server/proxy-policy.js';
+import { matchOAuthEndpoint } from '../../src/api/oauth.js';
+
+/**
+ * Path of a same-origin URL below the default `/handler` prefix
+ */
+const handlerPath = (url: string) => {
+  const { pathname } = new URL(url, 'http://localhost:3000');
+  expect(pathname.startsWith('/handler/')).toBe(true);
+  return pathname.slice('/handler/'.length);
+};
+
+describe.sequential('client auth actions', () => {
+  const originalLocation = Object.getOwnPropertyDescriptor(window, 'location')!;
+  let originalFetch: typeof global.fetch;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    clearPrefixCache();
+    originalFetch = global.fetch;
+    mockFetch = vi.fn(async () => ({ ok: true, status: 200, json: () => Promise.resolve({}) }));
+    global.fetch = mockFetch as any;
+    Object.defineProperty(window, 'location', {
+      value: { href: 'http://localhost:3000/', origin: 'http://localhost:3000' },
+      writable: true,
+      configurable: true
+    });
+  });
+
+  afterEach(() => {
+    Object.defineProperty(window, 'location', originalLocation);
+    global.fetch = originalFetch;
+  });
+
+  it('should post sign-ins to an endpoint the default policy allows', async () => {
+    await signIn(undefined, { redirectTo: '/dashboard' });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('/handler/auth/signin');
+    expect(resolveProxyRoute(init.method, handlerPath(url), DEFAULT_PROXY_ROUTES).allowed).toBe(true);
+    expect(window.location.href).toBe('/dashboard');
+  });
+
+  it('should send OAuth sign-ins to the OAuth route', async () => {
+    await signIn('github', { redirectTo: '/dashboard' });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(window.location.href).toBe('/handler/oauth/github?redirectTo=%2Fdashboard');
+    expect(matchOAuthEndpoint(handlerPath(window.location.href))).toEqual({ type: 'authorize', provider: 'github' });
+  });
+
+  it('should end the session through an endpoint the default policy allows', async () => {
+    await signOut({ redirectTo: '/goodbye' });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('/handler/auth/sessions/current');
+    expect(init.method).toBe('DELETE');
+    expect(resolveProxyRoute(init.method, handlerPath(url), DEFAULT_PROXY_ROUTES).allowed).toBe(true);
+    expect(window.location.href).toBe('/goodbye');
+  });
+});
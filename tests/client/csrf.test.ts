@@ -0,0 +1,72 @@
+/**
+ * Tests for the client CSRF helpers
+ * 
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import type { User, Session } from '../../src/rest-api/types.js';
+import { getCSRFToken, withCSRFHeader } from '../../src/client/csrf.js';
+
+const mockUser: User = {
+  id: 'user-123',
+  email: 'test@example.com',
+  emailVerified: true,
+  createdAt: '2024-01-01T00:00:00Z'
+};
+
+const mockSession: Session = {
+  id: 'session-123',
+  userId: 'user-123',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  isActive: true
+};
+
+describe.sequential('client CSRF helpers', () => {
+  let originalFetch: typeof global.fetch;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    originalFetch = global.fetch;
+    mockFetch = vi.fn(async () => ({ ok: true, status: 200, json: () => Promise.resolve({ user: mockUser, session: mockSession }) }));
+    global.fetch = mockFetch as any;
+
+    const { getAuthStateManager } = await import('../../src/client/state.js');
+    getAuthStateManager().setAuthData(mockUser, mockSession);
+  });
+
+  afterEach(async () => {
+    const { getAuthStateManager } = await import('../../src/client/state.js');
+    getAuthStateManager().setAuthData(null, null);
+    document.cookie = 'stack-auth-csrf-token=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/';
+    global.fetch = originalFetch;
+  });
+
+  it('should read the token from the cookie', () => {
+    expect(getCSRFToken()).toBeNull();
+    expect(withCSRFHeader({ Accept: 'application/json' })).toEqual({ Accept: 'application/json' });
+
+    document.cookie = 'other=1; path=/';
+    document.cookie = 'stack-auth-csrf-token=abc123; path=/';
+
+    expect(getCSRFToken()).toBe('abc123');
+    expect(withCSRFHeader({ Accept: 'application/json' })).toEqual({
+      Accept: 'application/json',
+      'x-csrf-token': 'abc123'
+    });
+  });
+
+  it('should send the token with profile updates', async () => {
+    document.cookie = 'stack-auth-csrf-token=abc123; path=/';
+    const { useUserProfile } = await import('../../src/client/hooks.js');
+    const { result } = renderHook(() => useUserProfile());
+
+    await act(async () => {
+      await result.current.updateProfile({ displayName: 'Test' });
+    });
+
+    const [, init] = mockFetch.mock.calls.find(([url]) => url === '/handler/user/profile')!;
+    expect(init.headers).toMatchObject({ 'x-csrf-token': 'abc123' });
+  });
+});
@@ -84,10 +84,10 @@ describe('React Hooks State Management Logic', () => {
       });
 
       // Test sign in (this would normally be called from hooks)
-      await expect(signIn('google', { redirectTo: '/dashboard' })).resolves.not.toThrow();
+      await expect(signIn(undefined, { redirectTo: '/dashboard' })).resolves.not.toThrow();
       
       expect(global.fetch).toHaveBeenCalledWith(
-        '/handler/signin/google',
+        '/handler/auth/signin',
         expect.objectContaining({
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -0,0 +1,110 @@
+/**
+ * Tests for the team hooks
+ * 
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import type { User, Session, Team } from '../../src/rest-api/types.js';
+
+const acme: Team = { id: 'team-acme', displayName: 'Acme' };
+const globex: Team = { id: 'team-globex', displayName: 'Globex' };
+
+const mockUser: User = {
+  id: 'user-123',
+  email: 'test@example.com',
+  emailVerified: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  selectedTeamId: acme.id,
+  selectedTeam: acme
+};
+
+const mockSession: Session = {
+  id: 'session-123',
+  userId: 'user-123',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  isActive: true
+};
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  json: () => Promise.resolve(body)
+});
+
+describe.sequential('team hooks', () => {
+  let originalFetch: typeof global.fetch;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    originalFetch = global.fetch;
+    mockFetch = vi.fn(async (url: string, init: RequestInit = {}) => {
+      if (url.startsWith('/handler/teams') && (init.method ?? 'GET') === 'GET') {
+        return jsonResponse({ items: [acme, globex] });
+      }
+      if (url === '/handler/session') {
+        return jsonResponse({ user: { ...mockUser, selectedTeamId: globex.id, selectedTeam: globex }, session: mockSession });
+      }
+      const body = init.body ? JSON.parse(init.body as string) : {};
+      return jsonResponse(url.startsWith('/handler/teams') ? { id: 'team-new', ...body } : { success: true });
+    });
+    global.fetch = mockFetch as any;
+
+    const { getAuthStateManager } = await import('../../src/client/state.js');
+    getAuthStateManager().setAuthData(mockUser, mockSession);
+  });
+
+  afterEach(async () => {
+    const { getAuthStateManager } = await import('../../src/client/state.js');
+    getAuthStateManager().setAuthData(null, null);
+    global.fetch = originalFetch;
+  });
+
+  it('should load the current user\'s teams', async () => {
+    const { useTeams } = await import('../../src/client/hooks.js');
+
+    const { result } = renderHook(() => useTeams());
+
+    await waitFor(() => expect(result.current.teams).toEqual([acme, globex]));
+    expect(mockFetch).toHaveBeenCalledWith('/handler/teams?user_id=me', expect.objectContaining({
+      method: 'GET',
+      credentials: 'same-origin'
+    }));
+  });
+
+  it('should add created teams and send invitations', async () => {
+    const { useTeams } = await import('../../src/client/hooks.js');
+    const { result } = renderHook(() => useTeams());
+    await waitFor(() => expect(result.current.teams).toHaveLength(2));
+
+    await act(async () => {
+      await result.current.createTeam({ displayName: 'Initech' });
+      await result.current.inviteMember(acme.id, 'new@example.com', 'https://app.example.com/join');
+    });
+
+    expect(result.current.teams.map(team => team.id)).toEqual([acme.id, globex.id, 'team-new']);
+    const [, init] = mockFetch.mock.calls.find(([url]) => url === '/handler/team-invitations/send-code')!;
+    expect(JSON.parse(init.body)).toEqual({
+      team_id: acme.id,
+      email: 'new@example.com',
+      callback_url: 'https://app.example.com/join'
+    });
+  });
+
+  it('should expose and switch the selected team', async () => {
+    const { useSelectedTeam } = await import('../../src/client/hooks.js');
+    const { result } = renderHook(() => useSelectedTeam());
+
+    expect(result.current.team).toEqual(acme);
+
+    await act(async () => {
+      await result.current.selectTeam(globex.id);
+    });
+
+    const [, init] = mockFetch.mock.calls.find(([url]) => url === '/handler/users/me')!;
+    expect(init.method).toBe('PATCH');
+    expect(JSON.parse(init.body)).toEqual({ selected_team_id: globex.id });
+    await waitFor(() => expect(result.current.team).toEqual(globex));
+  });
+});
@@ -79,6 +79,7 @@ export const astroIntegrationContextCloudflare = {
   addClientDirective: vi.fn(),
   addMiddleware: vi.fn(),
   addDevToolbarApp: vi.fn(),
+  updateConfig: vi.fn(),
   injectRoute: vi.fn(),
   injectScript: vi.fn(),
   logger: {
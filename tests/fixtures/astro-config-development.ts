@@ -80,6 +80,7 @@ export const astroIntegrationContextDevelopment = {
   addClientDirective: vi.fn(),
   addMiddleware: vi.fn(),
   addDevToolbarApp: vi.fn(),
+  updateConfig: vi.fn(),
   injectRoute: vi.fn(),
   injectScript: vi.fn(),
   logger: {
@@ -63,6 +63,7 @@ export const astroIntegrationContextNode = {
   addClientDirective: vi.fn(),
   addMiddleware: vi.fn(),
   addDevToolbarApp: vi.fn(),
+  updateConfig: vi.fn(),
   injectRoute: vi.fn(),
   injectScript: vi.fn(),
   logger: {
@@ -54,6 +54,7 @@ export const astroIntegrationContextStatic = {
   addClientDirective: vi.fn(),
   addMiddleware: vi.fn(),
   addDevToolbarApp: vi.fn(),
+  updateConfig: vi.fn(),
   injectRoute: vi.fn(),
   injectScript: vi.fn(),
   logger: {
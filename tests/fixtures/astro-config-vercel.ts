@@ -77,6 +77,7 @@ export const astroIntegrationContextVercel = {
   addClientDirective: vi.fn(),
   addMiddleware: vi.fn(),
   addDevToolbarApp: vi.fn(),
+  updateConfig: vi.fn(),
   injectRoute: vi.fn(),
   injectScript: vi.fn(),
   logger: {
@@ -384,8 +384,8 @@ describe('Error Handling Integration Tests', () => {
 
       await signIn('github', { redirectTo: '/dashboard' });
 
-      // Should fallback to redirect-based sign in
-      expect(window.location.href).toBe('/handler/signin/github?redirectTo=%2Fdashboard');
+      // OAuth sign-ins redirect to the OAuth route without calling the API
+      expect(window.location.href).toBe('/handler/oauth/github?redirectTo=%2Fdashboard');
     });
   });
 
@@ -16,6 +16,7 @@
 import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
 import { testUtils, stackAuthMocks } from '../setup.js';
 import type { APIContext } from 'astro';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
 
 // Mock Astro middleware imports
 vi.mock('astro:middleware', () => ({
@@ -57,6 +58,11 @@ describe('Stack Auth Error Recovery Testing', () => {
     // Set up valid environment by default
     testUtils.mockStackAuthEnv();
     
+    // Forward every path so proxy failures reach Stack Auth error handling
+    setRuntimeOptions({
+      proxyRoutes: [{ path: '**', methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'], key: 'server' }]
+    });
+    
     // Mock console methods to avoid noise in tests
     vi.spyOn(console, 'error').mockImplementation(() => {});
     vi.spyOn(console, 'warn').mockImplementation(() => {});
@@ -65,6 +71,7 @@ describe('Stack Auth Error Recovery Testing', () => {
   afterEach(() => {
     // Restore original fetch
     global.fetch = originalFetch;
+    resetRuntimeOptions();
     vi.clearAllMocks();
   });
 
@@ -371,7 +378,8 @@ describe('Stack Auth Error Recovery Testing', () => {
       
       const context = testUtils.createMockAstroContext({
         url: new URL('http://localhost:3000/handler/signin'),
-        request: new Request('http://localhost:3000/handler/signin')
+        request: new Request('http://localhost:3000/handler/signin'),
+        params: { stack: 'signin' }
       });
       
       const response = await handler.GET(context as APIContext);
@@ -395,7 +403,8 @@ describe('Stack Auth Error Recovery Testing', () => {
       
       const context = testUtils.createMockAstroContext({
         url: new URL('http://localhost:3000/handler/user'),
-        request: new Request('http://localhost:3000/handler/user')
+        request: new Request('http://localhost:3000/handler/user'),
+        params: { stack: 'user' }
       });
       
       const response = await handler.GET(context as APIContext);
@@ -414,7 +423,8 @@ describe('Stack Auth Error Recovery Testing', () => {
       
       const context = testUtils.createMockAstroContext({
         url: new URL('http://localhost:3000/handler/user'),
-        request: new Request('http://localhost:3000/handler/user')
+        request: new Request('http://localhost:3000/handler/user'),
+        params: { stack: 'user' }
       });
       
       const response = await handler.GET(context as APIContext);
@@ -495,7 +505,8 @@ describe('Stack Auth Error Recovery Testing', () => {
       
       const context = testUtils.createMockAstroContext({
         url: new URL('http://localhost:3000/handler/signin'),
-        request: new Request('http://localhost:3000/handler/signin')
+        request: new Request('http://localhost:3000/handler/signin'),
+        params: { stack: 'signin' }
       });
       
       const response = await handler.GET(context as APIContext);
@@ -8,11 +8,17 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { testUtils, stackAuthMocks, astroTestUtils } from '../setup';
 import astroStackAuth from '../../src/index';
+import { setRuntimeOptions } from '../../src/runtime-options';
 
-describe('Stack Auth Route Injection - End-to-End Integration', () => {
+// Sequential: astroStackAuth() replaces the runtime options set below
+describe.sequential('Stack Auth Route Injection - End-to-End Integration', () => {
   beforeEach(() => {
     testUtils.mockStackAuthEnv();
     vi.clearAllMocks();
+    // Forward every path so these tests exercise forwarding, not the endpoint policy
+    setRuntimeOptions({
+      proxyRoutes: [{ path: '**', methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'], key: 'server' }]
+    });
   });
 
   describe('Basic Route Injection', () => {
@@ -88,7 +94,7 @@ describe('Stack Auth Route Injection - End-to-End Integration', () => {
           body: body && ['POST', 'PUT', 'PATCH'].includes(method) ? body : undefined,
           headers: body ? { 'content-type': 'application/json' } : undefined
         }),
-        params: { stack: path.split('/').filter(p => p) }
+        params: { stack: path.split('/').filter(p => p).join('/') }
       });
 
       // Test each method individually with fresh mocks
@@ -166,12 +172,12 @@ describe('Stack Auth Route Injection - End-to-End Integration', () => {
       expect(deleteResponse).toBeInstanceOf(Response);
       mockFetch.mockRestore();
 
-      // Test OPTIONS method (CORS preflight)
+      // Test OPTIONS method (same-origin, so not a CORS preflight)
       const optionsContext = createMockContext('OPTIONS', '/signin');
       const optionsResponse = await OPTIONS(optionsContext as any);
       expect(optionsResponse.status).toBe(204);
-      expect(optionsResponse.headers.get('Access-Control-Allow-Methods')).toContain('GET');
-      expect(optionsResponse.headers.get('Access-Control-Allow-Methods')).toContain('POST');
+      expect(optionsResponse.headers.get('Allow')).toContain('GET');
+      expect(optionsResponse.headers.get('Allow')).toContain('POST');
     });
 
     it('should properly forward request headers to Stack Auth API', async () => {
@@ -191,7 +197,7 @@ describe('Stack Auth Route Injection - End-to-End Integration', () => {
             'user-agent': 'Test Agent'
           }
         }),
-        params: { stack: ['signin'] }
+        params: { stack: 'signin' }
       };
 
       await POST(context as any);
@@ -416,7 +422,7 @@ describe('Stack Auth Route Injection - End-to-End Integration', () => {
       const context = {
         url: new URL('http://localhost:3000/handler/signin'),
         request: new Request('http://localhost:3000/handler/signin'),
-        params: { stack: ['signin'] }
+        params: { stack: 'signin' }
       };
 
       const response = await GET(context as any);
@@ -442,7 +448,7 @@ describe('Stack Auth Route Injection - End-to-End Integration', () => {
       const context = {
         url: new URL('http://localhost:3000/handler/signin'),
         request: new Request('http://localhost:3000/handler/signin'),
-        params: { stack: ['signin'] }
+        params: { stack: 'signin' }
       };
 
       const response = await GET(context as any);
@@ -491,7 +497,7 @@ describe('Stack Auth Route Injection - End-to-End Integration', () => {
         const context = {
           url: new URL(`http://localhost:3000${testCase.requestPath}`),
           request: new Request(`http://localhost:3000${testCase.requestPath}`),
-          params: { stack: testCase.requestPath.split('/').slice(2) }
+          params: { stack: testCase.requestPath.split('/').slice(2).join('/') }
         };
 
         await GET(context as any);
@@ -515,7 +521,7 @@ describe('Stack Auth Route Injection - End-to-End Integration', () => {
       const context = {
         url: new URL('http://localhost:3000/handler/signin?redirect=/dashboard&provider=google'),
         request: new Request('http://localhost:3000/handler/signin?redirect=/dashboard&provider=google'),
-        params: { stack: ['signin'] }
+        params: { stack: 'signin' }
       };
 
       await GET(context as any);
@@ -570,7 +576,7 @@ describe('Stack Auth Route Injection - End-to-End Integration', () => {
       const contexts = Array.from({ length: 5 }, (_, i) => ({
         url: new URL(`http://localhost:3000/handler/user?id=${i}`),
         request: new Request(`http://localhost:3000/handler/user?id=${i}`),
-        params: { stack: ['user'] }
+        params: { stack: 'user' }
       }));
 
       // Execute all requests concurrently
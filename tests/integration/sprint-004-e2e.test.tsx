@@ -211,10 +211,9 @@ describe('Sprint 004 End-to-End Integration Tests', () => {
 
       await signOut({ onSuccess });
 
-      expect(fetch).toHaveBeenCalledWith('/handler/signout', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ redirectTo: window.location.origin }),
+      expect(fetch).toHaveBeenCalledWith('/handler/auth/sessions/current', {
+        method: 'DELETE',
+        headers: {},
         credentials: 'same-origin'
       });
 
@@ -246,8 +245,8 @@ describe('Sprint 004 End-to-End Integration Tests', () => {
 
       await signOut();
 
-      // Should fallback to redirect-based signout
-      expect(window.location.href).toBe(`/handler/signout?redirectTo=${encodeURIComponent(window.location.origin)}`);
+      // Should fall back to redirecting to the target
+      expect(window.location.href).toBe(window.location.origin);
     });
   });
 
@@ -0,0 +1,14 @@
+/**
+ * Stand-in for Astro's virtual `astro:middleware` module
+ * 
+ * Vite cannot resolve Astro virtual modules outside an Astro project,
+ * so tests alias the import to this identity implementation.
+ */
+
+export function defineMiddleware<T>(fn: T): T {
+  return fn;
+}
+
+export function sequence<T>(...handlers: T[]): T[] {
+  return handlers;
+}
@@ -0,0 +1,10 @@
+/**
+ * Stand-in for the `virtual:astro-stack-auth/options` module
+ * 
+ * The integration's Vite plugin generates that module in an Astro build,
+ * so tests alias the import to this module with no options built in.
+ */
+
+import type { StackAuthRuntimeOptions } from '../../src/types.js';
+
+export const options: StackAuthRuntimeOptions = {};
@@ -18,7 +18,7 @@ import {
 } from '../../src/server/rate-limiting.js';
 import { SecurityError } from '../../src/server/security.js';
 
-describe('Rate Limiting', () => {
+describe.sequential('Rate Limiting', () => {
   let mockRequest: Request;
   
   beforeEach(() => {
@@ -37,13 +37,13 @@ describe('Rate Limiting', () => {
   });
   
   describe('Basic Rate Limiting', () => {
-    it('should allow requests within limit', () => {
+    it('should allow requests within limit', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000, // 1 minute
         maxRequests: 5
       };
       
-      const result = checkRateLimit(mockRequest, config);
+      const result = await checkRateLimit(mockRequest, config);
       
       expect(result.success).toBe(true);
       expect(result.limit).toBe(5);
@@ -51,66 +51,66 @@ describe('Rate Limiting', () => {
       expect(result.resetTime).toBeGreaterThan(Date.now());
     });
     
-    it('should track multiple requests', () => {
+    it('should track multiple requests', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 3
       };
       
       // First request
-      let result = checkRateLimit(mockRequest, config);
+      let result = await checkRateLimit(mockRequest, config);
       expect(result.remaining).toBe(2);
       
       // Second request
-      result = checkRateLimit(mockRequest, config);
+      result = await checkRateLimit(mockRequest, config);
       expect(result.remaining).toBe(1);
       
       // Third request
-      result = checkRateLimit(mockRequest, config);
+      result = await checkRateLimit(mockRequest, config);
       expect(result.remaining).toBe(0);
     });
     
-    it('should reject requests over limit', () => {
+    it('should reject requests over limit', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 2
       };
       
       // Use up the limit
-      checkRateLimit(mockRequest, config);
-      checkRateLimit(mockRequest, config);
+      await checkRateLimit(mockRequest, config);
+      await checkRateLimit(mockRequest, config);
       
       // This should fail
-      const result = checkRateLimit(mockRequest, config);
+      const result = await checkRateLimit(mockRequest, config);
       expect(result.success).toBe(false);
       expect(result.remaining).toBe(0);
       expect(result.retryAfter).toBeGreaterThan(0);
     });
     
-    it('should throw SecurityError when enforcing rate limit', () => {
+    it('should throw SecurityError when enforcing rate limit', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 1
       };
       
       // First request should succeed
-      expect(() => enforceRateLimit(mockRequest, config)).not.toThrow();
+      await expect(enforceRateLimit(mockRequest, config)).resolves.toMatchObject({ success: true });
       
       // Second request should throw
-      expect(() => enforceRateLimit(mockRequest, config)).toThrow(SecurityError);
+      await expect(enforceRateLimit(mockRequest, config)).rejects.toThrow(SecurityError);
     });
     
-    it('should include rate limit info in error', () => {
+    it('should include rate limit info in error', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 1
       };
       
       // Use up the limit
-      enforceRateLimit(mockRequest, config);
+      await enforceRateLimit(mockRequest, config);
       
       try {
-        enforceRateLimit(mockRequest, config);
+        await enforceRateLimit(mockRequest, config);
       } catch (error) {
         expect(error).toBeInstanceOf(SecurityError);
         expect((error as SecurityError).code).toBe('RATE_LIMIT_EXCEEDED');
@@ -128,21 +128,21 @@ describe('Rate Limiting', () => {
       };
       
       // Use up the limit
-      const result1 = checkRateLimit(mockRequest, config);
+      const result1 = await checkRateLimit(mockRequest, config);
       expect(result1.success).toBe(true);
       
-      const result2 = checkRateLimit(mockRequest, config);
+      const result2 = await checkRateLimit(mockRequest, config);
       expect(result2.success).toBe(false);
       
       // Wait for window to expire
       await new Promise(resolve => setTimeout(resolve, 150));
       
       // Should work again
-      const result3 = checkRateLimit(mockRequest, config);
+      const result3 = await checkRateLimit(mockRequest, config);
       expect(result3.success).toBe(true);
     });
     
-    it('should maintain count within window', () => {
+    it('should maintain count within window', async () => {
       const config: RateLimitConfig = {
         windowMs: 10000, // 10 seconds
         maxRequests: 3
@@ -151,7 +151,7 @@ describe('Rate Limiting', () => {
       // Make requests quickly
       const results = [];
       for (let i = 0; i < 5; i++) {
-        results.push(checkRateLimit(mockRequest, config));
+        results.push(await checkRateLimit(mockRequest, config));
       }
       
       expect(results[0].success).toBe(true);
@@ -163,7 +163,7 @@ describe('Rate Limiting', () => {
   });
   
   describe('Different IP Addresses', () => {
-    it('should track different IPs separately', () => {
+    it('should track different IPs separately', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 1
@@ -178,17 +178,17 @@ describe('Rate Limiting', () => {
       });
       
       // Both should succeed initially
-      expect(checkRateLimit(request1, config).success).toBe(true);
-      expect(checkRateLimit(request2, config).success).toBe(true);
+      expect((await checkRateLimit(request1, config)).success).toBe(true);
+      expect((await checkRateLimit(request2, config)).success).toBe(true);
       
       // Both should fail on second attempt
-      expect(checkRateLimit(request1, config).success).toBe(false);
-      expect(checkRateLimit(request2, config).success).toBe(false);
+      expect((await checkRateLimit(request1, config)).success).toBe(false);
+      expect((await checkRateLimit(request2, config)).success).toBe(false);
     });
   });
   
   describe('Custom Key Generation', () => {
-    it('should use custom key generator', () => {
+    it('should use custom key generator', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 1,
@@ -204,13 +204,13 @@ describe('Rate Limiting', () => {
         headers: { 'x-forwarded-for': '192.168.1.200' }
       });
       
-      expect(checkRateLimit(request1, config).success).toBe(true);
-      expect(checkRateLimit(request2, config).success).toBe(false); // Same custom key
+      expect((await checkRateLimit(request1, config)).success).toBe(true);
+      expect((await checkRateLimit(request2, config)).success).toBe(false); // Same custom key
     });
   });
   
   describe('Skip Successful Requests', () => {
-    it('should clear rate limit on successful requests when configured', () => {
+    it('should clear rate limit on successful requests when configured', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 2,
@@ -218,20 +218,20 @@ describe('Rate Limiting', () => {
       };
       
       // Use up the limit
-      checkRateLimit(mockRequest, config);
-      checkRateLimit(mockRequest, config);
+      await checkRateLimit(mockRequest, config);
+      await checkRateLimit(mockRequest, config);
       
       // Should be at limit now
-      expect(checkRateLimit(mockRequest, config).success).toBe(false);
+      expect((await checkRateLimit(mockRequest, config)).success).toBe(false);
       
       // Clear the rate limit (simulating successful auth)
-      clearRateLimit(mockRequest, config);
+      await clearRateLimit(mockRequest, config);
       
       // Should work again
-      expect(checkRateLimit(mockRequest, config).success).toBe(true);
+      expect((await checkRateLimit(mockRequest, config)).success).toBe(true);
     });
     
-    it('should not clear rate limit when skipSuccessfulRequests is false', () => {
+    it('should not clear rate limit when skipSuccessfulRequests is false', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 1,
@@ -239,18 +239,18 @@ describe('Rate Limiting', () => {
       };
       
       // Use up the limit
-      checkRateLimit(mockRequest, config);
+      await checkRateLimit(mockRequest, config);
       
       // Clear shouldn't do anything
-      clearRateLimit(mockRequest, config);
+      await clearRateLimit(mockRequest, config);
       
       // Should still be limited
-      expect(checkRateLimit(mockRequest, config).success).toBe(false);
+      expect((await checkRateLimit(mockRequest, config)).success).toBe(false);
     });
   });
   
   describe('Limit Reached Callback', () => {
-    it('should call callback when limit is reached', () => {
+    it('should call callback when limit is reached', async () => {
       let callbackCalled = false;
       let callbackKey = '';
       
@@ -264,18 +264,18 @@ describe('Rate Limiting', () => {
       };
       
       // First request should not trigger callback
-      checkRateLimit(mockRequest, config);
+      await checkRateLimit(mockRequest, config);
       expect(callbackCalled).toBe(false);
       
       // Second request should trigger callback
-      checkRateLimit(mockRequest, config);
+      await checkRateLimit(mockRequest, config);
       expect(callbackCalled).toBe(true);
       expect(callbackKey).toBe('ip:192.168.1.100');
     });
   });
   
   describe('Predefined Configurations', () => {
-    it('should have auth endpoints configuration', () => {
+    it('should have auth endpoints configuration', async () => {
       const config = RATE_LIMIT_CONFIGS.AUTH_ENDPOINTS;
       
       expect(config.windowMs).toBe(15 * 60 * 1000); // 15 minutes
@@ -283,7 +283,7 @@ describe('Rate Limiting', () => {
       expect(config.skipSuccessfulRequests).toBe(true);
     });
     
-    it('should have password reset configuration', () => {
+    it('should have password reset configuration', async () => {
       const config = RATE_LIMIT_CONFIGS.PASSWORD_RESET;
       
       expect(config.windowMs).toBe(60 * 60 * 1000); // 1 hour
@@ -291,7 +291,7 @@ describe('Rate Limiting', () => {
       expect(config.skipSuccessfulRequests).toBe(false);
     });
     
-    it('should have sensitive operations configuration', () => {
+    it('should have sensitive operations configuration', async () => {
       const config = RATE_LIMIT_CONFIGS.SENSITIVE_OPERATIONS;
       
       expect(config.windowMs).toBe(60 * 60 * 1000); // 1 hour
@@ -301,24 +301,24 @@ describe('Rate Limiting', () => {
   });
   
   describe('Manual Reset and Stats', () => {
-    it('should reset rate limit manually', () => {
+    it('should reset rate limit manually', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 1
       };
       
       // Use up the limit
-      checkRateLimit(mockRequest, config);
-      expect(checkRateLimit(mockRequest, config).success).toBe(false);
+      await checkRateLimit(mockRequest, config);
+      expect((await checkRateLimit(mockRequest, config)).success).toBe(false);
       
       // Reset manually
-      resetRateLimit(mockRequest, config);
+      await resetRateLimit(mockRequest, config);
       
       // Should work again
-      expect(checkRateLimit(mockRequest, config).success).toBe(true);
+      expect((await checkRateLimit(mockRequest, config)).success).toBe(true);
     });
     
-    it('should provide rate limit statistics', () => {
+    it('should provide rate limit statistics', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 1
@@ -329,7 +329,7 @@ describe('Rate Limiting', () => {
       expect(stats.totalKeys).toBe(0);
       
       // Make a request
-      checkRateLimit(mockRequest, config);
+      await checkRateLimit(mockRequest, config);
       
       // Stats should show one key
       stats = getRateLimitStats();
@@ -338,33 +338,33 @@ describe('Rate Limiting', () => {
   });
   
   describe('Edge Cases', () => {
-    it('should handle zero max requests', () => {
+    it('should handle zero max requests', async () => {
       const config: RateLimitConfig = {
         windowMs: 60000,
         maxRequests: 0
       };
       
-      const result = checkRateLimit(mockRequest, config);
+      const result = await checkRateLimit(mockRequest, config);
       expect(result.success).toBe(false);
       expect(result.remaining).toBe(0);
     });
     
-    it('should handle very short windows', () => {
+    it('should handle very short windows', async () => {
       const config: RateLimitConfig = {
         windowMs: 1, // 1ms
         maxRequests: 1
       };
       
-      const result = checkRateLimit(mockRequest, config);
+      const result = await checkRateLimit(mockRequest, config);
       expect(result.success).toBe(true);
       
       // Window should expire almost immediately, but implementation may still track it briefly
-      const result2 = checkRateLimit(mockRequest, config);
+      const result2 = await checkRateLimit(mockRequest, config);
       // Either success or failure is acceptable for such a short window
       expect(typeof result2.success).toBe('boolean');
     });
     
-    it('should handle requests without IP headers', () => {
+    it('should handle requests without IP headers', async () => {
       const requestWithoutIP = new Request('https://example.com/auth');
       const config: RateLimitConfig = {
         windowMs: 60000,
@@ -372,7 +372,7 @@ describe('Rate Limiting', () => {
       };
       
       // Should still work with fallback IP
-      expect(checkRateLimit(requestWithoutIP, config).success).toBe(true);
+      expect((await checkRateLimit(requestWithoutIP, config)).success).toBe(true);
     });
   });
 });
\ No newline at end of file
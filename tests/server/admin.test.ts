@@ -0,0 +1,196 @@
+/**
+ * Admin user management tests
+ *
+ * Covers the server-only user administration calls against a mocked
+ * Stack Auth API, their audit entries and session cache invalidation.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import type { User } from '../../src/rest-api/types.js';
+import {
+  listUsers,
+  getUserById,
+  updateUserById,
+  deleteUser,
+  revokeAllSessions,
+  createImpersonationSession
+} from '../../src/server.js';
+import { auditLogger, AuditEventType } from '../../src/server/audit.js';
+import {
+  isCachedSessionInvalidated,
+  clearCachedSessionInvalidations
+} from '../../src/server/session-cache.js';
+
+const createUser = (id: string): User => ({
+  id,
+  email: `${id}@example.com`,
+  emailVerified: true,
+  createdAt: '2024-01-01T00:00:00Z'
+});
+
+describe.sequential('admin user management', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let originalFetch: typeof global.fetch;
+
+  const admin = createUser('user-admin');
+
+  const createContext = () => ({
+    request: new Request('http://localhost:3000/api/admin/users', {
+      headers: { 'x-forwarded-for': '203.0.113.30' }
+    }),
+    url: new URL('http://localhost:3000/api/admin/users'),
+    locals: { user: admin, session: null, team: null }
+  }) as unknown as APIContext;
+
+  const calls = () => mockFetch.mock.calls.map(([url, init]) => ({
+    url: new URL(url),
+    method: init.method,
+    headers: new Headers(init.headers),
+    body: init.body ? JSON.parse(init.body) : undefined
+  }));
+
+  const auditEntry = (eventType: AuditEventType) =>
+    auditLogger.getRecentLogs().find(entry => entry.eventType === eventType);
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    mockFetch = vi.fn(async (url: string, init: RequestInit) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname.endsWith('/users') && init.method === 'GET') {
+        return new Response(JSON.stringify({
+          items: [createUser('user-1'), createUser('user-2')],
+          pagination: { nextCursor: searchParams.get('cursor') ? null : 'cursor-2' }
+        }), { status: 200 });
+      }
+      if (pathname.endsWith('/users/user-missing')) {
+        return new Response(JSON.stringify({ error: { code: 'USER_NOT_FOUND', message: 'User not found' } }), { status: 404 });
+      }
+      if (pathname.endsWith('/auth/sessions') && init.method === 'GET') {
+        return new Response(JSON.stringify({
+          items: [{ id: 'session-a', userId: 'user-1' }, { id: 'session-b', userId: 'user-1' }]
+        }), { status: 200 });
+      }
+      if (pathname.endsWith('/auth/sessions') && init.method === 'POST' && String(init.body).includes('user-forbidden')) {
+        return new Response(JSON.stringify({ error: { code: 'INSUFFICIENT_PERMISSIONS', message: 'Forbidden' } }), { status: 403 });
+      }
+      if (pathname.endsWith('/auth/sessions') && init.method === 'POST') {
+        return new Response(JSON.stringify({ access_token: 'impersonation-access', refresh_token: 'impersonation-refresh' }), { status: 200 });
+      }
+      if (init.method === 'DELETE') {
+        return new Response(JSON.stringify({ success: true }), { status: 200 });
+      }
+      const body = init.body ? JSON.parse(init.body as string) : {};
+      return new Response(JSON.stringify({ ...createUser('user-1'), ...body }), { status: 200 });
+    });
+    global.fetch = mockFetch as any;
+
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    auditLogger.clearBuffer();
+    clearCachedSessionInvalidations();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should list users with cursor pagination', async () => {
+    const context = createContext();
+
+    const first = await listUsers(context, { query: 'example', limit: 2, orderBy: 'signedUpAt', desc: true });
+    const second = await listUsers(context, { cursor: first.nextCursor! });
+
+    expect(first.items.map(user => user.id)).toEqual(['user-1', 'user-2']);
+    expect(first.nextCursor).toBe('cursor-2');
+    expect(second.nextCursor).toBeNull();
+
+    const [request] = calls();
+    expect(Object.fromEntries(request.url.searchParams)).toEqual({
+      query: 'example',
+      limit: '2',
+      order_by: 'signed_up_at',
+      desc: 'true'
+    });
+    expect(request.headers.get('X-Stack-Secret-Server-Key')).toBe('sk_test_key');
+    expect(auditEntry(AuditEventType.ADMIN_USER_ACCESS)?.details).toMatchObject({ actorId: 'user-admin' });
+  });
+
+  it('should return null for unknown users and audit the failed lookup', async () => {
+    expect(await getUserById(createContext(), 'user-1')).toMatchObject({ id: 'user-1' });
+    expect(await getUserById(createContext(), 'user-missing')).toBeNull();
+
+    const [found, missing] = auditLogger.getRecentLogs()
+      .filter(entry => entry.eventType === AuditEventType.ADMIN_USER_ACCESS);
+    expect(found).toMatchObject({ userId: 'user-1', success: true });
+    expect(missing).toMatchObject({
+      userId: 'user-missing',
+      success: false,
+      message: 'Admin failed to view user user-missing',
+      details: { actorId: 'user-admin', status: 404 }
+    });
+  });
+
+  it('should update users, audit the change and invalidate their cached sessions', async () => {
+    const cachedBefore = { user: createUser('user-1'), session: null, timestamp: Date.now() - 1000 };
+
+    const user = await updateUserById(createContext(), 'user-1', { displayName: 'Renamed', serverMetadata: { roles: ['editor'] } });
+
+    expect(user.displayName).toBe('Renamed');
+    expect(calls()[0]).toMatchObject({ method: 'PATCH', body: { displayName: 'Renamed' } });
+    expect(auditEntry(AuditEventType.ACCOUNT_UPDATED)).toMatchObject({
+      userId: 'user-1',
+      details: { actorId: 'user-admin', fields: ['displayName', 'serverMetadata'] }
+    });
+    expect(isCachedSessionInvalidated(cachedBefore)).toBe(true);
+    expect(isCachedSessionInvalidated({ ...cachedBefore, timestamp: Date.now() + 1000 })).toBe(false);
+    expect(isCachedSessionInvalidated({ ...cachedBefore, user: createUser('user-2') })).toBe(false);
+  });
+
+  it('should delete users', async () => {
+    await deleteUser(createContext(), 'user-1');
+
+    expect(calls()[0]).toMatchObject({ method: 'DELETE' });
+    expect(calls()[0].url.pathname).toBe('/api/v1/users/user-1');
+    expect(auditEntry(AuditEventType.ACCOUNT_DELETED)?.userId).toBe('user-1');
+  });
+
+  it('should revoke every session of a user', async () => {
+    const revoked = await revokeAllSessions(createContext(), 'user-1');
+
+    expect(revoked).toBe(2);
+    const deletes = calls().filter(call => call.method === 'DELETE');
+    expect(deletes.map(call => call.url.pathname)).toEqual([
+      '/api/v1/auth/sessions/session-a',
+      '/api/v1/auth/sessions/session-b'
+    ]);
+    expect(deletes[0].url.searchParams.get('user_id')).toBe('user-1');
+    expect(auditEntry(AuditEventType.SESSION_REVOKED)?.details).toMatchObject({ sessionIds: ['session-a', 'session-b'] });
+  });
+
+  it('should create impersonation sessions without logging the tokens', async () => {
+    const session = await createImpersonationSession(createContext(), 'user-1', { expiresIn: 15 * 60 * 1000 });
+
+    expect(session).toEqual({ accessToken: 'impersonation-access', refreshToken: 'impersonation-refresh' });
+    expect(calls()[0].body).toEqual({ user_id: 'user-1', expires_in_millis: 900000, is_impersonation: true });
+
+    const entry = auditEntry(AuditEventType.IMPERSONATION_STARTED);
+    expect(entry).toMatchObject({ userId: 'user-1', riskLevel: 'high' });
+    expect(JSON.stringify(entry)).not.toContain('impersonation-access');
+  });
+
+  it('should audit rejected impersonation attempts', async () => {
+    await expect(createImpersonationSession(createContext(), 'user-forbidden')).rejects.toMatchObject({ status: 403 });
+
+    expect(auditEntry(AuditEventType.IMPERSONATION_STARTED)).toMatchObject({
+      userId: 'user-forbidden',
+      success: false,
+      message: 'Admin failed to impersonate user user-forbidden',
+      details: { actorId: 'user-admin', status: 403 }
+    });
+  });
+});
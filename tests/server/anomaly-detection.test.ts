@@ -0,0 +1,270 @@
+/**
+ * Anomaly detection tests
+ *
+ * Covers the brute force, credential stuffing, session burst and
+ * impossible travel rules as fed by the audit logger, the critical
+ * entries and callbacks they produce, the sign-in entries the proxy logs
+ * for them and locking keys in the rate limiter.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { auditLogger, AuditEventType, RiskLevel, type AuditLogEntry } from '../../src/server/audit.js';
+import type { APIContext } from 'astro';
+import { POST } from '../../src/api/handler.js';
+import type { Anomaly, AnomalyDetectionOptions } from '../../src/server/anomaly-detection.js';
+import { checkRateLimit, lockRateLimitKey, InMemoryRateLimitStore } from '../../src/server/rate-limiting.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+const request = (ip: string, userAgent = 'test-agent') => new Request('http://localhost:3000/api/signin', {
+  method: 'POST',
+  headers: { 'x-forwarded-for': ip, 'user-agent': userAgent }
+});
+
+const failSignIn = (email: string, ip: string) => auditLogger.log({
+  eventType: AuditEventType.AUTH_FAILURE,
+  message: 'Authentication failed: wrong password',
+  request: request(ip),
+  details: { email }
+});
+
+const signIn = (userId: string, ip: string, userAgent: string) => auditLogger.log({
+  eventType: AuditEventType.SESSION_CREATED,
+  message: `Session created for user ${userId}`,
+  userId,
+  request: request(ip, userAgent)
+});
+
+const findings = (): AuditLogEntry[] =>
+  auditLogger.getRecentLogs().filter(entry => entry.eventType === AuditEventType.SUSPICIOUS_ACTIVITY);
+
+describe.sequential('anomaly detection', () => {
+  const enable = (anomalyDetection: boolean | AnomalyDetectionOptions, extra: Record<string, unknown> = {}) => {
+    setRuntimeOptions({ audit: { anomalyDetection, ...extra } });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z'), toFake: ['Date'] });
+    auditLogger.clearBuffer();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetRuntimeOptions();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should flag failed sign-ins for one account from many addresses', () => {
+    enable({ bruteForce: { threshold: 3 } });
+
+    failSignIn('alice@example.com', '203.0.113.1');
+    failSignIn('alice@example.com', '203.0.113.2');
+    expect(findings()).toHaveLength(0);
+    failSignIn('alice@example.com', '203.0.113.3');
+    failSignIn('alice@example.com', '203.0.113.4');
+
+    // The rule starts over after firing, so the fourth failure is not reported again
+    const [finding] = findings();
+    expect(findings()).toHaveLength(1);
+    expect(finding.riskLevel).toBe(RiskLevel.CRITICAL);
+    expect(finding.message).toBe('Suspicious activity: 3 failed sign-ins for one account');
+    expect(finding.details).toMatchObject({ rule: 'bruteForce', account: 'alice@example.com', failures: 3 });
+  });
+
+  it('should only count failures within the window', () => {
+    enable({ bruteForce: { threshold: 3, windowMs: 60_000 } });
+
+    failSignIn('alice@example.com', '203.0.113.1');
+    failSignIn('alice@example.com', '203.0.113.1');
+    vi.setSystemTime(new Date('2026-03-01T12:01:00Z'));
+    failSignIn('alice@example.com', '203.0.113.1');
+
+    expect(findings()).toHaveLength(0);
+  });
+
+  it('should flag one address failing for many accounts and hand it to the callback', async () => {
+    const anomalies: Anomaly[] = [];
+    enable({ bruteForce: false, credentialStuffing: { threshold: 3 }, onAnomaly: anomaly => { anomalies.push(anomaly); } }, {
+      hashSensitiveData: true
+    });
+
+    ['a@example.com', 'b@example.com', 'a@example.com', 'c@example.com'].forEach(email => failSignIn(email, '198.51.100.9'));
+    await vi.waitFor(() => expect(anomalies).toHaveLength(1));
+
+    // The logged entry is hashed, the callback gets the address for locking
+    expect(findings()[0].details).toMatchObject({ rule: 'credentialStuffing', accounts: 3 });
+    expect(findings()[0].clientIP).not.toBe('198.51.100.9');
+    expect(anomalies[0]).toMatchObject({ rule: 'credentialStuffing', clientIP: '198.51.100.9', account: 'c@example.com' });
+  });
+
+  it('should flag sessions started from several user agents', () => {
+    enable({ sessionBurst: { threshold: 3 } });
+
+    signIn('user_1', '203.0.113.1', 'Firefox');
+    signIn('user_1', '203.0.113.1', 'Firefox');
+    signIn('user_1', '203.0.113.2', 'Chrome');
+    signIn('user_2', '203.0.113.3', 'curl');
+    signIn('user_1', '203.0.113.4', 'python-requests');
+
+    expect(findings()).toHaveLength(1);
+    expect(findings()[0]).toMatchObject({ userId: 'user_1', details: { rule: 'sessionBurst', userAgents: 3 } });
+  });
+
+  it('should not count authenticated requests as new sessions', () => {
+    enable({ sessionBurst: { threshold: 2 } });
+
+    ['Firefox', 'Chrome', 'Safari'].forEach(userAgent => auditLogger.log({
+      eventType: AuditEventType.AUTH_SUCCESS,
+      message: 'User user_1 successfully authenticated',
+      userId: 'user_1',
+      request: request('203.0.113.1', userAgent)
+    }));
+
+    expect(findings()).toHaveLength(0);
+  });
+
+  it('should flag sign-ins too far apart to travel between', () => {
+    const places: Record<string, { latitude: number; longitude: number }> = {
+      '203.0.113.1': { latitude: 52.52, longitude: 13.4 }, // Berlin
+      '203.0.113.2': { latitude: 52.37, longitude: 4.9 }, // Amsterdam
+      '203.0.113.3': { latitude: 35.68, longitude: 139.69 } // Tokyo
+    };
+    enable({ sessionBurst: false, impossibleTravel: { locate: ip => places[ip] } });
+
+    signIn('user_1', '203.0.113.1', 'Firefox');
+    vi.setSystemTime(new Date('2026-03-01T14:00:00Z'));
+    signIn('user_1', '203.0.113.2', 'Firefox');
+    expect(findings()).toHaveLength(0);
+
+    vi.setSystemTime(new Date('2026-03-01T15:00:00Z'));
+    signIn('user_1', '203.0.113.3', 'Firefox');
+
+    expect(findings()).toHaveLength(1);
+    expect(findings()[0].details).toMatchObject({ rule: 'impossibleTravel', previousSignInAt: '2026-03-01T14:00:00.000Z' });
+    expect(findings()[0].details?.distanceKm).toBeGreaterThan(9000);
+  });
+
+  it('should stay off unless enabled', () => {
+    for (let i = 0; i < 20; i++) {
+      failSignIn('alice@example.com', `203.0.113.${i}`);
+    }
+
+    expect(findings()).toHaveLength(0);
+  });
+
+  it('should report failing callbacks without breaking logging', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    enable({ bruteForce: { threshold: 1 }, onAnomaly: () => { throw new Error('pager down'); } });
+
+    failSignIn('alice@example.com', '203.0.113.1');
+
+    await vi.waitFor(() => expect(consoleError).toHaveBeenCalledWith('Stack Auth anomaly handler failed:', 'pager down'));
+    expect(findings()).toHaveLength(1);
+  });
+
+  it('should validate the anomalyDetection option', () => {
+    expect(validateStackAuthOptions({ audit: { anomalyDetection: true } }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ audit: { anomalyDetection: { bruteForce: { threshold: 0 } } } }).errors)
+      .toContain('audit.anomalyDetection.bruteForce threshold and windowMs must be positive integers');
+    expect(validateStackAuthOptions({ audit: { anomalyDetection: { impossibleTravel: {} as never } } }).errors)
+      .toContain('audit.anomalyDetection.impossibleTravel.locate must be a function');
+  });
+});
+
+describe.sequential('proxied sign-in auditing', () => {
+  let originalFetch: typeof global.fetch;
+
+  const proxySignIn = (ip: string, body: Record<string, unknown>, stack = 'auth/signin') => POST({
+    request: new Request(`http://localhost:3000/handler/${stack}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-forwarded-for': ip, 'user-agent': 'Firefox' },
+      body: JSON.stringify(body)
+    }),
+    url: new URL(`http://localhost:3000/handler/${stack}`),
+    params: { stack }
+  } as unknown as APIContext);
+
+  const upstream = (status: number, body: Record<string, unknown>) => {
+    global.fetch = vi.fn().mockImplementation(async () => new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json' }
+    })) as any;
+  };
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    auditLogger.clearBuffer();
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should log rejected sign-ins with the attempted account', async () => {
+    setRuntimeOptions({ audit: { anomalyDetection: { bruteForce: { threshold: 2 } } } });
+    upstream(400, { code: 'EMAIL_PASSWORD_MISMATCH' });
+
+    const response = await proxySignIn('203.0.113.1', { email: 'alice@example.com', password: 'wrong' });
+    await proxySignIn('203.0.113.2', { email: 'alice@example.com', code: '000000' }, 'auth/otp/signin');
+
+    // The client still gets Stack Auth's answer
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ code: 'EMAIL_PASSWORD_MISMATCH' });
+    const failures = auditLogger.getRecentLogs().filter(entry => entry.eventType === AuditEventType.AUTH_FAILURE);
+    expect(failures.map(entry => [entry.message, entry.details])).toEqual([
+      ['Authentication failed: Sign-in rejected by Stack Auth (400)', { endpoint: 'auth/signin', status: 400, account: 'alice@example.com' }],
+      ['Authentication failed: Sign-in rejected by Stack Auth (400)', { endpoint: 'auth/otp/signin', status: 400, account: 'alice@example.com' }]
+    ]);
+    expect(JSON.stringify(failures)).not.toContain('wrong');
+    expect(findings()[0].details).toMatchObject({ rule: 'bruteForce', account: 'alice@example.com' });
+  });
+
+  it('should log successful sign-ins as new sessions', async () => {
+    upstream(200, { user_id: 'user_1', access_token: 'access', refresh_token: 'refresh' });
+
+    const response = await proxySignIn('203.0.113.1', { email: 'alice@example.com', password: 'secret' });
+
+    expect(await response.json()).toMatchObject({ user_id: 'user_1' });
+    expect(auditLogger.getRecentLogs().filter(entry => entry.eventType === AuditEventType.SESSION_CREATED))
+      .toEqual([expect.objectContaining({ userId: 'user_1', details: { endpoint: 'auth/signin' } })]);
+  });
+});
+
+describe.sequential('rate limit locks', () => {
+  let store: InMemoryRateLimitStore;
+
+  beforeEach(() => {
+    store = new InMemoryRateLimitStore();
+    setRuntimeOptions({ rateLimitStore: store });
+  });
+
+  afterEach(() => {
+    store.destroy();
+    resetRuntimeOptions();
+  });
+
+  it('should deny a locked key until the lock expires', async () => {
+    const config = { windowMs: 60_000, maxRequests: 100 };
+    const locked = request('192.0.2.1');
+
+    expect(await lockRateLimitKey('ip:192.0.2.1', 60_000)).toBe(true);
+
+    const denied = await checkRateLimit(locked, config);
+    expect(denied).toMatchObject({ success: false, remaining: 0, retryAfter: 60 });
+    expect((await checkRateLimit(request('192.0.2.2'), config)).success).toBe(true);
+  });
+
+  it('should not lock with a store that cannot', async () => {
+    setRuntimeOptions({ rateLimitStore: { increment: store.increment.bind(store), reset: store.reset.bind(store) } });
+
+    expect(await lockRateLimitKey('ip:192.0.2.1', 60_000)).toBe(false);
+  });
+});
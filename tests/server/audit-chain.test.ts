@@ -0,0 +1,113 @@
+/**
+ * Audit hash chain tests
+ *
+ * Covers chaining entries in the audit logger and detecting tampered,
+ * missing, reordered and unsigned entries in an exported log.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { verifyAuditChain } from '../../src/server/audit-chain.js';
+import { auditLogger, AuditEventType, type AuditLogEntry } from '../../src/server/audit.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+const SECRET = 'audit-chain-secret-for-tests-0123456789';
+
+describe.sequential('audit hash chain', () => {
+  beforeEach(() => {
+    auditLogger.clearBuffer();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  // Log entries and return them as they would be read back from an NDJSON export
+  const logEntries = (count: number): AuditLogEntry[] => {
+    for (let i = 0; i < count; i++) {
+      auditLogger.log({ eventType: AuditEventType.AUTH_SUCCESS, message: `entry ${i}`, details: { index: i } });
+    }
+    return auditLogger.getRecentLogs(count).map(entry => JSON.parse(JSON.stringify(entry)));
+  };
+
+  it('should link each entry to the previous one', () => {
+    setRuntimeOptions({ audit: { chainSecret: SECRET } });
+
+    const entries = logEntries(3);
+
+    expect(entries[1].sequence).toBe(entries[0].sequence! + 1);
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    expect(new Set(entries.map(entry => entry.chainId)).size).toBe(1);
+    expect(verifyAuditChain(entries, SECRET, { partial: true })).toMatchObject({ valid: true, entries: 3, issues: [] });
+  });
+
+  it('should read the secret from the environment and leave entries unsigned without one', () => {
+    const unsigned = logEntries(1)[0];
+    vi.stubEnv('STACK_AUDIT_CHAIN_SECRET', SECRET);
+    const signed = logEntries(1)[0];
+
+    expect(unsigned.hash).toBeUndefined();
+    expect(signed.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyAuditChain([unsigned], SECRET).issues[0].type).toBe('unsigned');
+  });
+
+  it('should detect edited entries and a wrong secret', () => {
+    setRuntimeOptions({ audit: { chainSecret: SECRET } });
+    const entries = logEntries(3);
+
+    entries[1].details = { index: 99 };
+    const report = verifyAuditChain(entries, SECRET, { partial: true });
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([expect.objectContaining({ index: 1, type: 'tampered' })]);
+    expect(verifyAuditChain(logEntries(1), 'another-secret', { partial: true }).issues[0].type).toBe('tampered');
+  });
+
+  it('should detect removed, reordered and replaced entries', () => {
+    setRuntimeOptions({ audit: { chainSecret: SECRET } });
+    const entries = logEntries(4);
+    const [first, second, third, fourth] = entries;
+
+    expect(verifyAuditChain([first, third, fourth], SECRET, { partial: true }).issues)
+      .toEqual([expect.objectContaining({ index: 1, type: 'gap' })]);
+    expect(verifyAuditChain([first, third, second, fourth], SECRET, { partial: true }).issues.map(issue => issue.type))
+      .toEqual(['gap', 'reordered']);
+
+    // A correctly signed entry from another point in the chain does not fit
+    const replaced = { ...second, sequence: third.sequence, previousHash: second.previousHash };
+    expect(verifyAuditChain([first, second, replaced], SECRET, { partial: true }).issues.map(issue => issue.type))
+      .toEqual(['tampered', 'broken-link']);
+  });
+
+  it('should require chains to start at the first entry unless partial', () => {
+    setRuntimeOptions({ audit: { chainSecret: SECRET } });
+    const entries = logEntries(2);
+
+    // Earlier tests have already advanced the shared logger's chain
+    expect(verifyAuditChain(entries, SECRET).issues).toEqual([expect.objectContaining({ index: 0, type: 'gap' })]);
+    expect(verifyAuditChain(entries, SECRET, { partial: true }).valid).toBe(true);
+  });
+
+  it('should verify interleaved chains from several processes', () => {
+    setRuntimeOptions({ audit: { chainSecret: SECRET } });
+    const ours = logEntries(2);
+    const theirs = ours.map(entry => ({ ...entry, chainId: 'other-process' }));
+
+    const report = verifyAuditChain([ours[0], theirs[0], ours[1], theirs[1]], SECRET, { partial: true });
+
+    // Moving entries to another chain breaks their HMACs
+    expect(report.chains).toHaveLength(2);
+    expect(report.issues.map(issue => issue.type)).toEqual(['tampered', 'tampered']);
+  });
+
+  it('should validate the chain secret option', () => {
+    expect(validateStackAuthOptions({ audit: { chainSecret: SECRET } }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ audit: { chainSecret: '' } }).errors)
+      .toContain('audit.chainSecret must be a non-empty string');
+    expect(validateStackAuthOptions({ audit: { chainSecret: 'short' } }).warnings)
+      .toContain('audit.chainSecret should be at least 32 characters long');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Audit log query tests
+ *
+ * Covers filtering and cursor pagination of the buffered audit log, and
+ * access control and export formats of the audit endpoint.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import type { User } from '../../src/rest-api/types.js';
+import { queryAuditLogs, AuditQueryError } from '../../src/server/audit-query.js';
+import { handleAuditRequest } from '../../src/api/audit.js';
+import { auditLogger, AuditEventType, RiskLevel } from '../../src/server/audit.js';
+import { clearUserGrantsCache } from '../../src/server/authorization.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+const SECRET = 'audit-endpoint-secret-0123456789abcdef';
+
+const logAt = (path: string, eventType: AuditEventType, message: string, userId?: string) => {
+  auditLogger.log({ eventType, message, userId, request: new Request(`http://localhost:3000${path}`) });
+};
+
+describe.sequential('audit log queries', () => {
+  beforeEach(() => {
+    auditLogger.clearBuffer();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should filter by event type, risk level, user and endpoint', () => {
+    logAt('/api/login', AuditEventType.AUTH_SUCCESS, 'alice in', 'alice');
+    logAt('/api/login', AuditEventType.AUTH_FAILURE, 'bob failed', 'bob');
+    logAt('/admin/users', AuditEventType.PERMISSION_DENIED, 'bob denied', 'bob');
+
+    const messages = (query: Parameters<typeof queryAuditLogs>[0]) =>
+      queryAuditLogs(query).entries.map(entry => entry.message);
+
+    expect(messages({})).toEqual(['bob denied', 'bob failed', 'alice in']);
+    expect(messages({ eventType: [AuditEventType.AUTH_SUCCESS, AuditEventType.AUTH_FAILURE] })).toEqual(['bob failed', 'alice in']);
+    expect(messages({ riskLevel: RiskLevel.HIGH })).toEqual(['bob denied']);
+    expect(messages({ userId: 'bob', endpoint: '/api/*' })).toEqual(['bob failed']);
+    expect(messages({ endpoint: '/admin/users' })).toEqual(['bob denied']);
+  });
+
+  it('should filter by time range', () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T10:00:00Z'), toFake: ['Date'] });
+    logAt('/a', AuditEventType.AUTH_SUCCESS, 'ten');
+    vi.setSystemTime(new Date('2026-01-01T11:00:00Z'));
+    logAt('/a', AuditEventType.AUTH_SUCCESS, 'eleven');
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+    logAt('/a', AuditEventType.AUTH_SUCCESS, 'twelve');
+
+    const { entries } = queryAuditLogs({ from: '2026-01-01T10:30:00Z', to: new Date('2026-01-01T12:00:00Z') });
+
+    expect(entries.map(entry => entry.message)).toEqual(['eleven']);
+  });
+
+  it('should page with a cursor that is stable while new entries arrive', () => {
+    ['1', '2', '3', '4', '5'].forEach(message => logAt('/a', AuditEventType.AUTH_SUCCESS, message));
+
+    const first = queryAuditLogs({ limit: 2 });
+    logAt('/a', AuditEventType.AUTH_SUCCESS, 'new');
+    const second = queryAuditLogs({ limit: 2, cursor: first.nextCursor! });
+    const third = queryAuditLogs({ limit: 2, cursor: second.nextCursor! });
+
+    expect(first.entries.map(entry => entry.message)).toEqual(['5', '4']);
+    expect(second.entries.map(entry => entry.message)).toEqual(['3', '2']);
+    expect(third).toMatchObject({ entries: [expect.objectContaining({ message: '1' })], nextCursor: null });
+  });
+
+  it('should reject invalid queries', () => {
+    expect(() => queryAuditLogs({ eventType: 'nope' as AuditEventType })).toThrow(AuditQueryError);
+    expect(() => queryAuditLogs({ from: 'yesterday' })).toThrow('from must be a valid date');
+    expect(() => queryAuditLogs({ limit: 0 })).toThrow('limit must be between 1 and 1000');
+    expect(() => queryAuditLogs({ cursor: 'not-a-cursor' })).toThrow('cursor is not valid');
+  });
+});
+
+describe.sequential('audit endpoint', () => {
+  const createContext = (search: string, init: { user?: User | null; headers?: Record<string, string>; method?: string } = {}) => ({
+    request: new Request(`http://localhost:3000/handler/audit${search}`, { method: init.method ?? 'GET', headers: init.headers }),
+    url: new URL(`http://localhost:3000/handler/audit${search}`),
+    locals: { user: init.user ?? null, session: null }
+  }) as unknown as APIContext;
+
+  const createUser = (id: string, permissions: string[]): User => ({
+    id,
+    email: `${id}@example.com`,
+    emailVerified: true,
+    createdAt: '2024-01-01T00:00:00Z',
+    serverMetadata: { permissions }
+  });
+
+  beforeEach(() => {
+    // Without credentials, permissions come from server metadata alone
+    vi.stubEnv('STACK_PROJECT_ID', '');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    clearUserGrantsCache();
+    auditLogger.clearBuffer();
+    logAt('/api/login', AuditEventType.AUTH_FAILURE, 'Login failed, "bad" password', 'bob');
+    logAt('/api/login', AuditEventType.AUTH_SUCCESS, '=HYPERLINK("http://evil.example")', 'alice');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should serve a page of entries to the bearer secret', async () => {
+    const response = await handleAuditRequest(
+      createContext('?eventType=auth_failure&limit=10', { headers: { Authorization: `Bearer ${SECRET}` } }),
+      { secret: SECRET }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    expect(body.items.map((entry: { userId: string }) => entry.userId)).toEqual(['bob']);
+    expect(body.nextCursor).toBeNull();
+  });
+
+  it('should check the token and the permission', async () => {
+    const options = { secret: SECRET, permission: 'audit:read' };
+
+    const wrongToken = await handleAuditRequest(createContext('', { headers: { Authorization: 'Bearer guess' } }), options);
+    const anonymous = await handleAuditRequest(createContext(''), options);
+    const viewer = await handleAuditRequest(createContext('', { user: createUser('viewer', ['reports:read']) }), options);
+    const admin = await handleAuditRequest(createContext('', { user: createUser('admin', ['audit:read']) }), options);
+
+    expect(wrongToken.status).toBe(401);
+    expect(anonymous.status).toBe(401);
+    expect(viewer.status).toBe(403);
+    expect(admin.status).toBe(200);
+    expect(queryAuditLogs({ eventType: AuditEventType.PERMISSION_DENIED }).entries[0].userId).toBe('viewer');
+  });
+
+  it('should export CSV with escaped and defused cells', async () => {
+    const response = await handleAuditRequest(
+      createContext('?format=csv', { headers: { Authorization: `Bearer ${SECRET}` } }),
+      { secret: SECRET }
+    );
+    const [header, first, second] = (await response.text()).split('\r\n');
+
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="audit-log.csv"');
+    expect(header).toBe('timestamp,eventType,riskLevel,userId,sessionId,clientIP,userAgent,endpoint,method,success,message,details');
+    expect(first).toContain(`,"'=HYPERLINK(""http://evil.example"")",`);
+    expect(second).toContain(',"Login failed, ""bad"" password",');
+  });
+
+  it('should export NDJSON and reject bad requests', async () => {
+    const headers = { Authorization: `Bearer ${SECRET}` };
+    const ndjson = await handleAuditRequest(createContext('?format=ndjson&limit=1', { headers }), { secret: SECRET });
+    const lines = (await ndjson.text()).trim().split('\n');
+
+    expect(lines.map(line => JSON.parse(line).userId)).toEqual(['alice']);
+    expect(ndjson.headers.get('X-Next-Cursor')).toBeTruthy();
+    expect((await handleAuditRequest(createContext('?format=xml', { headers }), { secret: SECRET })).status).toBe(400);
+    expect((await handleAuditRequest(createContext('?riskLevel=severe', { headers }), { secret: SECRET })).status).toBe(400);
+    expect((await handleAuditRequest(createContext('', { headers, method: 'DELETE' }), { secret: SECRET })).status).toBe(405);
+  });
+
+  it('should validate the auditEndpoint option', () => {
+    expect(validateStackAuthOptions({ auditEndpoint: { permission: 'audit:read' } }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ auditEndpoint: {} }).errors)
+      .toContain('auditEndpoint needs a permission or a secret to protect it');
+    expect(validateStackAuthOptions({ auditEndpoint: { secret: 'short' } }).errors)
+      .toContain('auditEndpoint.secret must be a string of at least 32 characters');
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Audit sink tests
+ *
+ * Covers batching and backpressure in the shared sink base, file rotation,
+ * webhook delivery and retries against a local HTTP stand-in, and routing
+ * entries from the audit logger to configured sinks.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileAuditSink, WebhookAuditSink, FunctionAuditSink } from '../../src/server/audit-sinks.js';
+import { auditLogger, AuditEventType, RiskLevel, type AuditLogEntry } from '../../src/server/audit.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+const createEntry = (message: string): AuditLogEntry => ({
+  timestamp: new Date().toISOString(),
+  eventType: AuditEventType.AUTH_SUCCESS,
+  riskLevel: RiskLevel.LOW,
+  clientIP: '127.0.0.1',
+  userAgent: 'test',
+  endpoint: '/api/test',
+  method: 'GET',
+  success: true,
+  message
+});
+
+describe.sequential('batching and backpressure', () => {
+  it('should deliver full batches at once and the rest on flush', async () => {
+    const batches: string[][] = [];
+    const sink = new FunctionAuditSink(entries => {
+      batches.push(entries.map(entry => entry.message));
+    }, { batchSize: 2, flushIntervalMs: 60_000 });
+
+    ['a', 'b', 'c'].forEach(message => sink.write(createEntry(message)));
+    await vi.waitFor(() => expect(batches).toEqual([['a', 'b']]));
+    expect(sink.pending).toBe(1);
+
+    await sink.close();
+    expect(batches).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('should drop and count entries beyond the queue limit while delivery is slow', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    let release: () => void = () => {};
+    const delivered: string[] = [];
+    const sink = new FunctionAuditSink(async entries => {
+      await new Promise<void>(resolve => { release = resolve; });
+      delivered.push(...entries.map(entry => entry.message));
+    }, { batchSize: 1, maxQueueSize: 2 });
+
+    // "1" is in flight, "2" and "3" fill the queue, "4" and "5" are dropped
+    ['1', '2', '3', '4', '5'].forEach(message => sink.write(createEntry(message)));
+    expect(sink.dropped).toBe(2);
+    expect(console.error).toHaveBeenCalledTimes(1);
+
+    const closed = sink.close();
+    for (let i = 0; i < 3; i++) {
+      await vi.waitFor(() => expect(delivered).toHaveLength(i));
+      release();
+    }
+    await closed;
+    expect(delivered).toEqual(['1', '2', '3']);
+    vi.restoreAllMocks();
+  });
+
+  it('should count failed batches as dropped', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const sink = new FunctionAuditSink(() => {
+      throw new Error('collector down');
+    });
+
+    sink.write(createEntry('lost'));
+    await sink.flush();
+
+    expect(sink.dropped).toBe(1);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('1 entries dropped'), 'collector down');
+    vi.restoreAllMocks();
+  });
+});
+
+describe.sequential('FileAuditSink', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'audit-sink-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append one JSON entry per line', async () => {
+    const path = join(directory, 'logs', 'audit.ndjson');
+    const sink = new FileAuditSink({ path });
+
+    sink.write(createEntry('first'));
+    sink.write(createEntry('second'));
+    await sink.close();
+
+    const lines = (await readFile(path, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.message)).toEqual(['first', 'second']);
+  });
+
+  it('should rotate at maxBytes and keep maxFiles old files', async () => {
+    const path = join(directory, 'audit.ndjson');
+    const lineSize = Buffer.byteLength(`${JSON.stringify(createEntry('entry-0'))}\n`);
+    const sink = new FileAuditSink({ path, maxBytes: lineSize * 2, maxFiles: 2, batchSize: 1 });
+
+    for (let i = 0; i < 7; i++) {
+      sink.write(createEntry(`entry-${i}`));
+    }
+    await sink.close();
+
+    const read = async (file: string) => (await readFile(join(directory, file), 'utf8'))
+      .trim().split('\n').map(line => JSON.parse(line).message);
+    expect((await readdir(directory)).sort()).toEqual(['audit.ndjson', 'audit.ndjson.1', 'audit.ndjson.2']);
+    expect(await read('audit.ndjson')).toEqual(['entry-6']);
+    expect(await read('audit.ndjson.1')).toEqual(['entry-4', 'entry-5']);
+    expect(await read('audit.ndjson.2')).toEqual(['entry-2', 'entry-3']);
+  });
+});
+
+describe.sequential('WebhookAuditSink against a local collector', () => {
+  let server: Server;
+  let url: string;
+  let received: { authorization?: string; messages: string[] }[];
+  let statuses: number[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        // Answer with the next scripted status, then 204 once the script runs out
+        const status = statuses.shift() ?? 204;
+        if (status < 300) {
+          received.push({
+            authorization: req.headers.authorization,
+            messages: JSON.parse(body).entries.map((entry: AuditLogEntry) => entry.message)
+          });
+        }
+        res.statusCode = status;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/audit`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should post batches with the configured headers', async () => {
+    const sink = new WebhookAuditSink({ url, headers: { Authorization: 'Bearer collector' }, batchSize: 2 });
+
+    ['a', 'b', 'c'].forEach(message => sink.write(createEntry(message)));
+    await sink.close();
+
+    expect(received).toEqual([
+      { authorization: 'Bearer collector', messages: ['a', 'b'] },
+      { authorization: 'Bearer collector', messages: ['c'] }
+    ]);
+  });
+
+  it('should retry 5xx and 429 responses', async () => {
+    statuses = [503, 429];
+    const sink = new WebhookAuditSink({ url, retryDelayMs: 1 });
+
+    sink.write(createEntry('retried'));
+    await sink.close();
+
+    expect(received).toEqual([{ authorization: undefined, messages: ['retried'] }]);
+    expect(sink.dropped).toBe(0);
+  });
+
+  it('should give up on rejected batches and after the last retry', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    statuses = [400, 500, 500];
+    const sink = new WebhookAuditSink({ url, retryDelayMs: 1, maxRetries: 1, batchSize: 1 });
+
+    sink.write(createEntry('rejected'));
+    sink.write(createEntry('failing'));
+    await sink.close();
+
+    expect(received).toEqual([]);
+    expect(sink.dropped).toBe(2);
+    expect(console.error).toHaveBeenCalledWith(expect.any(String), 'webhook responded with 400 after 1 attempt(s)');
+    expect(console.error).toHaveBeenCalledWith(expect.any(String), 'webhook responded with 500 after 2 attempt(s)');
+  });
+});
+
+describe.sequential('audit logger sinks', () => {
+  afterEach(() => {
+    auditLogger.updateConfig({ sinks: undefined });
+    auditLogger.clearBuffer();
+    resetRuntimeOptions();
+    vi.restoreAllMocks();
+  });
+
+  it('should send entries to configured sinks instead of the console', async () => {
+    const consoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const messages: string[] = [];
+    auditLogger.updateConfig({ sinks: [new FunctionAuditSink(entries => {
+      messages.push(...entries.map(entry => entry.message));
+    })] });
+
+    auditLogger.log({ eventType: AuditEventType.AUTH_LOGOUT, message: 'signed out' });
+    await auditLogger.flush();
+
+    expect(messages).toEqual(['signed out']);
+    expect(consoleLog).not.toHaveBeenCalled();
+  });
+
+  it('should read sinks from the audit integration option', async () => {
+    const messages: string[] = [];
+    setRuntimeOptions({ audit: { sinks: [new FunctionAuditSink(entries => {
+      messages.push(...entries.map(entry => entry.message));
+    })] } });
+
+    auditLogger.log({ eventType: AuditEventType.AUTH_LOGOUT, message: 'from options' });
+    await auditLogger.flush();
+
+    expect(messages).toEqual(['from options']);
+  });
+
+  it('should keep logging when a sink throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const write = vi.fn();
+    auditLogger.updateConfig({ sinks: [
+      { write: () => { throw new Error('broken'); }, flush: async () => {} },
+      { write, flush: async () => {} }
+    ] });
+
+    auditLogger.log({ eventType: AuditEventType.AUTH_LOGOUT, message: 'still logged' });
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(auditLogger.getRecentLogs(1)[0].message).toBe('still logged');
+  });
+
+  it('should validate audit sinks', () => {
+    expect(validateStackAuthOptions({ audit: { sinks: [new FunctionAuditSink(() => {})] } }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ audit: { sinks: [{ write: () => {} } as any] } }).errors)
+      .toContain('audit.sinks[0] must implement write and flush');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Role and permission authorization tests
+ *
+ * Covers the declarative checks against a mocked Stack Auth API and the
+ * 403 / redirect / audit behaviour of requirePermission and requireRole.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import type { User } from '../../src/rest-api/types.js';
+import { hasPermission, hasRole, clearUserGrantsCache } from '../../src/server/authorization.js';
+import { requirePermission, requireRole } from '../../src/server.js';
+import { auditLogger, AuditEventType } from '../../src/server/audit.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+
+const createUser = (id: string, serverMetadata?: Record<string, unknown>): User => ({
+  id,
+  email: `${id}@example.com`,
+  emailVerified: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  serverMetadata
+});
+
+describe.sequential('authorization', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let originalFetch: typeof global.fetch;
+
+  // Project permissions and server metadata held by the mocked Stack Auth project
+  const projectPermissions: Record<string, string[]> = {
+    'user-editor': ['project:read', 'project:write'],
+    'user-viewer': ['project:read']
+  };
+  const serverMetadata: Record<string, Record<string, unknown>> = {
+    'user-editor': { roles: ['editor'] },
+    'user-viewer': { role: 'viewer', permissions: ['reports:read'] }
+  };
+
+  const createContext = (user: User | null, path: string = '/api/projects') => ({
+    request: new Request(`http://localhost:3000${path}`, {
+      headers: { 'x-forwarded-for': '203.0.113.10' }
+    }),
+    url: new URL(`http://localhost:3000${path}`),
+    locals: { user, session: null },
+    redirect: vi.fn((url: string) => new Response(null, { status: 302, headers: { Location: url } }))
+  }) as unknown as APIContext;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    mockFetch = vi.fn(async (url: string) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname.endsWith('/project-permissions')) {
+        const userId = searchParams.get('user_id') || '';
+        const items = (projectPermissions[userId] || []).map(id => ({ id, userId }));
+        return new Response(JSON.stringify({ items }), { status: 200 });
+      }
+
+      const userId = decodeURIComponent(pathname.split('/').pop() || '');
+      return new Response(JSON.stringify(createUser(userId, serverMetadata[userId] || {})), { status: 200 });
+    });
+    global.fetch = mockFetch as any;
+
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    clearUserGrantsCache();
+    auditLogger.clearBuffer();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe.sequential('hasPermission and hasRole', () => {
+    it('should combine project permissions with server metadata permissions', async () => {
+      const viewer = createUser('user-viewer');
+
+      expect(await hasPermission(viewer, 'project:read')).toBe(true);
+      expect(await hasPermission(viewer, 'project:read', 'reports:read')).toBe(true);
+      expect(await hasPermission(viewer, 'project:write')).toBe(false);
+      expect(await hasPermission(null, 'project:read')).toBe(false);
+    });
+
+    it('should read roles from server metadata', async () => {
+      expect(await hasRole(createUser('user-editor'), 'admin', 'editor')).toBe(true);
+      expect(await hasRole(createUser('user-viewer'), 'viewer')).toBe(true);
+      expect(await hasRole(createUser('user-viewer'), 'editor')).toBe(false);
+    });
+
+    it('should not fetch server metadata the user already carries', async () => {
+      const user = createUser('user-editor', { roles: ['owner'] });
+
+      expect(await hasRole(user, 'owner')).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cache grants per user', async () => {
+      const editor = createUser('user-editor');
+
+      await hasPermission(editor, 'project:write');
+      await hasRole(editor, 'editor');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      clearUserGrantsCache('user-editor');
+      await hasPermission(editor, 'project:write');
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe.sequential('requirePermission and requireRole', () => {
+    it('should return the user when the permission is granted', async () => {
+      const editor = createUser('user-editor');
+
+      await expect(requirePermission(createContext(editor), 'project:write')).resolves.toBe(editor);
+      await expect(requireRole(createContext(editor), ['admin', 'editor'])).resolves.toBe(editor);
+    });
+
+    it('should throw a 403 JSON response on API routes and audit the denial', async () => {
+      const context = createContext(createUser('user-viewer'));
+
+      const error = await requirePermission(context, 'project:write').catch(thrown => thrown);
+
+      expect(error).toBeInstanceOf(Response);
+      expect(error.status).toBe(403);
+      expect(await error.json()).toMatchObject({ error: 'Forbidden', statusCode: 403 });
+
+      const denial = auditLogger.getRecentLogs().find(entry => entry.eventType === AuditEventType.PERMISSION_DENIED);
+      expect(denial).toMatchObject({
+        userId: 'user-viewer',
+        details: expect.objectContaining({ requiredPermissions: ['project:write'] })
+      });
+    });
+
+    it('should redirect pages to the configured forbidden URL', async () => {
+      setRuntimeOptions({ forbiddenUrl: '/no-access' });
+      const context = createContext(createUser('user-viewer'), '/admin');
+
+      const error = await requireRole(context, 'admin').catch(thrown => thrown);
+
+      expect(context.redirect).toHaveBeenCalledWith('/no-access');
+      expect(error).toBeInstanceOf(Response);
+      expect(error.status).toBe(302);
+    });
+
+    it('should prefer the per-call forbidden URL', async () => {
+      setRuntimeOptions({ forbiddenUrl: '/no-access' });
+      const context = createContext(createUser('user-viewer'), '/admin');
+
+      await requireRole(context, 'admin', { forbiddenUrl: '/admin/forbidden' }).catch(() => {});
+
+      expect(context.redirect).toHaveBeenCalledWith('/admin/forbidden');
+    });
+
+    it('should fail closed when permissions cannot be loaded', async () => {
+      mockFetch.mockResolvedValue(new Response('{}', { status: 400 }));
+      const context = createContext(createUser('user-editor'));
+
+      const error = await requirePermission(context, 'project:read').catch(thrown => thrown);
+
+      expect(error.status).toBe(403);
+    });
+
+    it('should still answer 401 for unauthenticated API requests', async () => {
+      const error = await requirePermission(createContext(null), 'project:read').catch(thrown => thrown);
+
+      expect(error.status).toBe(401);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+});
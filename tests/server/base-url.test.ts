@@ -0,0 +1,110 @@
+/**
+ * Self-hosted Stack Auth base URL tests
+ *
+ * Covers resolving the backend URL from STACK_BASE_URL and the baseUrl
+ * option, the proxy handler forwarding to a local stand-in backend, and
+ * the REST client and OAuth URLs sharing the same origin.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { APIContext } from 'astro';
+import { GET } from '../../src/api/handler.js';
+import { StackAuthRestClient } from '../../src/rest-api/client.js';
+import { getDefaultJwksUrl } from '../../src/server/jwt.js';
+import { getStackAuthApiUrl, resolveStackAuthUrl } from '../../src/stack-auth-url.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+describe.sequential('Stack Auth base URL', () => {
+  let server: Server;
+  let standInUrl: string;
+  let received: { url: string; headers: IncomingHttpHeaders }[];
+
+  beforeAll(async () => {
+    // Stands in for a self-hosted Stack Auth backend
+    server = createServer((req, res) => {
+      received.push({ url: req.url ?? '', headers: req.headers });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ id: 'user-1', servedBy: 'stand-in' }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    standInUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    vi.stubEnv('STACK_BASE_URL', '');
+  });
+
+  afterEach(() => {
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+  });
+
+  const proxy = (path: string) => GET({
+    request: new Request(`http://localhost:3000/handler/${path}`),
+    url: new URL(`http://localhost:3000/handler/${path}`),
+    params: { stack: path.split('?')[0] }
+  } as unknown as APIContext);
+
+  it('should proxy to the backend configured for the environment', async () => {
+    setRuntimeOptions({ baseUrl: { default: 'https://auth.example.com', test: `${standInUrl}/` } });
+
+    const response = await proxy('users/me?include=teams');
+
+    expect(await response.json()).toEqual({ id: 'user-1', servedBy: 'stand-in' });
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe('/api/v1/users/me?include=teams');
+    expect(received[0].headers['x-stack-project-id']).toBe('test-project-id');
+    expect(received[0].headers['x-stack-base-url']).toBeUndefined();
+  });
+
+  it('should let STACK_BASE_URL override the option, with or without the API path', async () => {
+    setRuntimeOptions({ baseUrl: 'https://auth.example.com' });
+    vi.stubEnv('STACK_BASE_URL', `${standInUrl}/api/v1`);
+
+    await proxy('projects/current');
+
+    expect(received.map(request => request.url)).toEqual(['/api/v1/projects/current']);
+  });
+
+  it('should share one origin between the REST client, OAuth URLs and JWKS discovery', async () => {
+    setRuntimeOptions({ baseUrl: standInUrl });
+    const client = new StackAuthRestClient({
+      projectId: 'test-project-id',
+      publishableClientKey: 'pk_test_key',
+      secretServerKey: 'sk_test_key'
+    });
+
+    await client.getServerUser('user-1');
+
+    expect(received[0].url).toBe('/api/v1/users/user-1');
+    expect(client.getOAuthAuthorizationUrl('github')).toMatch(new RegExp(`^${standInUrl}/handler/authorize\\?`));
+    expect(getDefaultJwksUrl('test-project-id')).toBe(`${standInUrl}/api/v1/projects/test-project-id/.well-known/jwks.json`);
+  });
+
+  it('should default to the hosted service', () => {
+    expect(resolveStackAuthUrl()).toBe('https://api.stack-auth.com');
+    expect(getStackAuthApiUrl('https://stack.example.com/base/api/v1/')).toBe('https://stack.example.com/base/api/v1');
+  });
+
+  it('should validate the baseUrl option', () => {
+    expect(validateStackAuthOptions({ baseUrl: { default: 'https://auth.example.com', development: 'http://localhost:8102' } }).isValid)
+      .toBe(true);
+    expect(validateStackAuthOptions({ baseUrl: 'ftp://auth.example.com' }).errors)
+      .toContain('baseUrl must be a valid URL');
+    expect(validateStackAuthOptions({ baseUrl: { production: 'auth.example.com' } }).errors)
+      .toContain('baseUrl.production must be a valid URL');
+    expect(validateStackAuthOptions({ baseUrl: {} }).errors)
+      .toContain('baseUrl must be a URL or an object of URLs by environment');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Auth cookie configuration tests
+ *
+ * Covers resolving the `cookies` option, the `__Host-` prefix rules,
+ * reading tokens under configured names, rewriting of Set-Cookie headers
+ * from Stack Auth through the proxy and validation of the option.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import { POST } from '../../src/api/handler.js';
+import {
+  getAuthCookieConfig,
+  createTokenCookies,
+  clearTokenCookies,
+  rewriteSetCookie
+} from '../../src/server/cookies.js';
+import { extractAccessToken, extractRefreshToken } from '../../src/rest-api/client.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+const tokens = { access_token: 'access', refresh_token: 'refresh', expires_in: 3600, token_type: 'Bearer' };
+
+describe('getAuthCookieConfig', () => {
+  it('should default to the existing names and attributes', () => {
+    expect(getAuthCookieConfig({})).toEqual({
+      accessTokenName: 'stack-auth-access-token',
+      refreshTokenName: 'stack-auth-refresh-token',
+      domain: undefined,
+      path: '/',
+      sameSite: 'lax',
+      secure: undefined,
+      persistent: true
+    });
+  });
+
+  it('should apply the __Host- prefix rules', () => {
+    expect(getAuthCookieConfig({ hostPrefix: true, path: '/app', secure: false })).toMatchObject({
+      accessTokenName: '__Host-stack-auth-access-token',
+      refreshTokenName: '__Host-stack-auth-refresh-token',
+      domain: undefined,
+      path: '/',
+      secure: true
+    });
+  });
+});
+
+describe.sequential('configured auth cookies', () => {
+  afterEach(() => {
+    resetRuntimeOptions();
+  });
+
+  it('should write and clear token cookies with the configured attributes', () => {
+    setRuntimeOptions({ cookies: { domain: '.example.com', sameSite: 'strict', persistent: false } });
+
+    expect(createTokenCookies(tokens, { secure: true })).toEqual([
+      'stack-auth-access-token=access; Path=/; Domain=.example.com; HttpOnly; Secure; SameSite=Strict',
+      'stack-auth-refresh-token=refresh; Path=/; Domain=.example.com; HttpOnly; Secure; SameSite=Strict'
+    ]);
+    expect(clearTokenCookies({ secure: true })[0])
+      .toBe('stack-auth-access-token=; Path=/; Domain=.example.com; Max-Age=0; HttpOnly; Secure; SameSite=Strict');
+  });
+
+  it('should read tokens under the configured names only', () => {
+    const request = (cookie: string) => new Request('http://localhost:3000/', { headers: { cookie } });
+
+    expect(extractAccessToken(request('stack-auth-token=legacy'))).toBe('legacy');
+
+    setRuntimeOptions({ cookies: { hostPrefix: true } });
+
+    expect(extractAccessToken(request('__Host-stack-auth-access-token=eyJ%3D; stack-auth-access-token=planted'))).toBe('eyJ=');
+    expect(extractAccessToken(request('stack-auth-access-token=planted; stack-auth-token=planted'))).toBeNull();
+    expect(extractRefreshToken(request('__Host-stack-auth-refresh-token=refresh'))).toBe('refresh');
+  });
+
+  it('should rewrite upstream cookies to the configured names and attributes', () => {
+    const config = getAuthCookieConfig({ hostPrefix: true, persistent: false });
+
+    expect(rewriteSetCookie('stack-auth-access-token=abc; Domain=api.stack-auth.com; Path=/api/v1; Max-Age=3600; SameSite=None', { secure: false }, config))
+      .toBe('__Host-stack-auth-access-token=abc; Path=/; HttpOnly; Secure; SameSite=Lax');
+    expect(rewriteSetCookie('stack-auth-refresh-token=; Max-Age=0', { secure: false }, config))
+      .toBe('__Host-stack-auth-refresh-token=; Path=/; Max-Age=0; HttpOnly; Secure; SameSite=Lax');
+    expect(rewriteSetCookie('theme=dark; Path=/api/v1; Partitioned', { secure: true }, getAuthCookieConfig({ domain: '.example.com' })))
+      .toBe('theme=dark; Path=/; Domain=.example.com; Partitioned; Secure; SameSite=Lax');
+  });
+});
+
+describe.sequential('proxy cookie rewriting', () => {
+  let originalFetch: typeof global.fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    global.fetch = vi.fn().mockImplementation(async () => {
+      const headers = new Headers({ 'content-type': 'application/json' });
+      headers.append('set-cookie', 'stack-auth-access-token=abc; Domain=api.stack-auth.com; Path=/api/v1; Max-Age=3600');
+      headers.append('set-cookie', 'stack-auth-refresh-token=def; Domain=api.stack-auth.com; Path=/api/v1; Max-Age=31536000');
+      return new Response('{}', { status: 200, headers });
+    }) as any;
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    setRuntimeOptions({ cookies: { domain: '.example.com' } });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+  });
+
+  it('should share proxied session cookies across subdomains', async () => {
+    const response = await POST({
+      request: new Request('https://app.example.com/handler/auth/signin', { method: 'POST' }),
+      url: new URL('https://app.example.com/handler/auth/signin'),
+      params: { stack: 'auth/signin' }
+    } as unknown as APIContext);
+
+    expect(response.headers.getSetCookie()).toEqual([
+      'stack-auth-access-token=abc; Path=/; Domain=.example.com; Max-Age=3600; HttpOnly; Secure; SameSite=Lax',
+      'stack-auth-refresh-token=def; Path=/; Domain=.example.com; Max-Age=31536000; HttpOnly; Secure; SameSite=Lax'
+    ]);
+  });
+});
+
+describe('cookies option validation', () => {
+  it('should validate the cookies option', () => {
+    expect(validateStackAuthOptions({ cookies: { domain: '.example.com', sameSite: 'strict', persistent: false } }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ cookies: { hostPrefix: true, domain: '.example.com' } }).errors)
+      .toContain('cookies.hostPrefix cannot be combined with cookies.domain');
+    expect(validateStackAuthOptions({ cookies: { accessTokenName: 'bad name;', sameSite: 'none', secure: false, path: 'auth' } }).errors)
+      .toEqual(expect.arrayContaining([
+        'cookies.accessTokenName must be a valid cookie name',
+        "cookies.sameSite 'none' requires secure cookies",
+        "cookies.path must start with '/'"
+      ]));
+  });
+});
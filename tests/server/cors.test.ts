@@ -0,0 +1,139 @@
+/**
+ * CORS policy tests
+ *
+ * Covers origin matching, preflight and actual responses of the injected
+ * route for allowed and disallowed origins, and validation of the `cors`
+ * option.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import { GET, OPTIONS } from '../../src/api/handler.js';
+import { isCorsOriginAllowed } from '../../src/server/cors.js';
+import { auditLogger, AuditEventType } from '../../src/server/audit.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+describe('isCorsOriginAllowed', () => {
+  it('should match strings, regular expressions and functions', () => {
+    const cors = {
+      origin: ['https://app.example.com/', /^https:\/\/[a-z0-9-]+\.preview\.example\.com$/, (origin: string) => origin.endsWith('.internal')]
+    };
+
+    expect(isCorsOriginAllowed('https://app.example.com', cors)).toBe(true);
+    expect(isCorsOriginAllowed('https://pr-12.preview.example.com', cors)).toBe(true);
+    expect(isCorsOriginAllowed('http://tools.internal', cors)).toBe(true);
+    expect(isCorsOriginAllowed('https://app.example.com.evil.example', cors)).toBe(false);
+    expect(isCorsOriginAllowed('https://app.example.com', null)).toBe(false);
+  });
+});
+
+describe.sequential('CORS on the injected route', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let originalFetch: typeof global.fetch;
+
+  const context = (method: string, headers: Record<string, string>) => ({
+    request: new Request('http://localhost:3000/handler/users/me', { method, headers }),
+    url: new URL('http://localhost:3000/handler/users/me'),
+    params: { stack: 'users/me' }
+  }) as unknown as APIContext;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    mockFetch = vi.fn().mockImplementation(async () => new Response('{"id":"user-1"}', {
+      status: 200,
+      headers: { 'content-type': 'application/json', 'x-ratelimit-remaining': '9' }
+    }));
+    global.fetch = mockFetch as any;
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setRuntimeOptions({
+      cors: {
+        origin: 'https://spa.example.com',
+        credentials: true,
+        exposedHeaders: ['X-RateLimit-Remaining'],
+        maxAge: 300
+      }
+    });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should answer preflights from allowed origins with the configured policy', async () => {
+    const response = await OPTIONS(context('OPTIONS', {
+      origin: 'https://spa.example.com',
+      'access-control-request-method': 'PATCH',
+      'access-control-request-headers': 'content-type'
+    }));
+
+    expect(response.status).toBe(204);
+    expect(Object.fromEntries(response.headers)).toMatchObject({
+      'access-control-allow-origin': 'https://spa.example.com',
+      'access-control-allow-methods': 'GET, POST, PUT, PATCH, DELETE',
+      'access-control-allow-headers': 'Content-Type, Authorization, X-Requested-With, X-CSRF-Token',
+      'access-control-allow-credentials': 'true',
+      'access-control-max-age': '300',
+      vary: 'Origin'
+    });
+  });
+
+  it('should add CORS headers to actual responses', async () => {
+    const response = await GET(context('GET', { origin: 'https://spa.example.com' }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://spa.example.com');
+    expect(response.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(response.headers.get('access-control-expose-headers')).toBe('X-RateLimit-Remaining');
+    expect(response.headers.get('vary')).toBe('Origin');
+    expect(await response.json()).toEqual({ id: 'user-1' });
+  });
+
+  it('should reject other origins and disallowed methods', async () => {
+    const log = vi.spyOn(auditLogger, 'log');
+
+    const preflight = await OPTIONS(context('OPTIONS', {
+      origin: 'https://evil.example',
+      'access-control-request-method': 'GET'
+    }));
+    const actual = await GET(context('GET', { origin: 'https://evil.example' }));
+    const method = await OPTIONS(context('OPTIONS', {
+      origin: 'https://spa.example.com',
+      'access-control-request-method': 'CONNECT'
+    }));
+
+    expect([preflight.status, actual.status, method.status]).toEqual([403, 403, 403]);
+    expect(preflight.headers.get('access-control-allow-origin')).toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(log.mock.calls.filter(([entry]) => entry.eventType === AuditEventType.INVALID_ORIGIN)).toHaveLength(3);
+  });
+
+  it('should leave same-origin requests alone and refuse cross-origin ones without the option', async () => {
+    const sameOrigin = await GET(context('GET', { origin: 'http://localhost:3000' }));
+    resetRuntimeOptions();
+    const crossOrigin = await GET(context('GET', { origin: 'https://spa.example.com' }));
+
+    expect(sameOrigin.status).toBe(200);
+    expect(sameOrigin.headers.get('access-control-allow-origin')).toBeNull();
+    expect(crossOrigin.status).toBe(403);
+  });
+
+  it('should validate the cors option', () => {
+    expect(validateStackAuthOptions({ cors: { origin: ['https://spa.example.com', /\.example\.com$/] } }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ cors: {} as never }).errors)
+      .toContain('cors must be an options object with an origin');
+    expect(validateStackAuthOptions({ cors: { origin: 'https://spa.example.com/app' } }).errors)
+      .toContain('cors.origin https://spa.example.com/app must be an origin such as https://app.example.com');
+    expect(validateStackAuthOptions({ cors: { origin: '*', credentials: true, maxAge: -1 } }).errors)
+      .toEqual(expect.arrayContaining([
+        "cors.credentials cannot be combined with the '*' origin",
+        'cors.maxAge must be a non-negative number of seconds'
+      ]));
+  });
+});
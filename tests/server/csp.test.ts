@@ -0,0 +1,221 @@
+// @vitest-environment node
+/**
+ * Content-Security-Policy tests
+ *
+ * Covers the policy builder, the middleware issuing nonces and headers,
+ * nonces on hydration scripts, pages with Astro islands and the violation
+ * report endpoint.
+ */
+
+import { createHash } from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import { experimental_AstroContainer as AstroContainer } from 'astro/container';
+import { createComponent, render, renderComponent } from 'astro/runtime/server/index.js';
+import { buildContentSecurityPolicy } from '../../src/server/csp.js';
+import { handleCSPReportRequest, parseCSPReport } from '../../src/api/csp-report.js';
+import { createAuthHydrationScript } from '../../src/hydration.js';
+import { auditLogger, AuditEventType } from '../../src/server/audit.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+vi.mock('astro:middleware', () => ({
+  defineMiddleware: vi.fn((middleware) => middleware)
+}));
+
+describe('policy builder', () => {
+  it('should allow nonce scripts, Stack Auth and the report endpoint', () => {
+    const policy = buildContentSecurityPolicy('abc123', {}, { prefix: '/auth', baseUrl: 'https://stack.example.com/api/v1' });
+
+    expect(policy).toContain("script-src 'self' 'nonce-abc123'");
+    expect(policy).toContain("connect-src 'self' https://stack.example.com");
+    expect(policy).toContain("form-action 'self' https://stack.example.com");
+    expect(policy).toContain("frame-ancestors 'none'");
+    expect(policy).toContain('report-uri /auth/csp-report');
+  });
+
+  it('should add configured sources to the defaults', () => {
+    const policy = buildContentSecurityPolicy('abc123', {
+      directives: {
+        'img-src': ['https://cdn.example.com', "'self'"],
+        'frame-ancestors': ['https://partner.example.com'],
+        'worker-src': ["'self'"]
+      },
+      reportUri: false
+    });
+
+    expect(policy).toContain("img-src 'self' data: https: https://cdn.example.com;");
+    expect(policy).toContain('frame-ancestors https://partner.example.com;');
+    expect(policy).toContain("worker-src 'self'");
+    expect(policy).toContain('connect-src \'self\' https://api.stack-auth.com');
+    expect(policy).not.toContain('report-uri');
+  });
+
+  it('should put the nonce on hydration scripts', () => {
+    expect(createAuthHydrationScript({ user: null, session: null, cspNonce: 'abc123' }))
+      .toMatch(/^<script id="astro-stack-auth-hydration" nonce="abc123">/);
+    expect(createAuthHydrationScript({ user: null, session: null, cspNonce: null }))
+      .not.toContain('nonce=');
+  });
+
+  it('should validate the csp option', () => {
+    expect(validateStackAuthOptions({ csp: true }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ csp: { reportOnly: true, directives: { 'img-src': ['https:'] } } }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ csp: { directives: { 'img-src': ["https: ; script-src *"] } } }).errors)
+      .toContain("csp.directives['img-src'] must be a list of sources");
+  });
+});
+
+describe.sequential('middleware CSP header', () => {
+  beforeEach(() => {
+    // Missing configuration keeps the middleware away from Stack Auth
+    vi.stubEnv('STACK_PROJECT_ID', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  const runMiddleware = async (page: Response) => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const context = {
+      request: new Request('http://localhost:3000/'),
+      url: new URL('http://localhost:3000/'),
+      locals: {} as Record<string, unknown>
+    };
+    const response: Response = await (onRequest as any)(context, vi.fn().mockResolvedValue(page));
+    return { response, nonce: context.locals.cspNonce as string | null };
+  };
+
+  const html = () => new Response('<html></html>', { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+
+  it('should send a fresh nonce on each HTML response', async () => {
+    setRuntimeOptions({ csp: true });
+
+    const first = await runMiddleware(html());
+    const second = await runMiddleware(html());
+
+    expect(first.nonce).toMatch(/^[A-Za-z0-9+/]{22}==$/);
+    expect(first.nonce).not.toBe(second.nonce);
+    expect(first.response.headers.get('Content-Security-Policy')).toContain(`'nonce-${first.nonce}'`);
+  });
+
+  it('should support report-only mode', async () => {
+    setRuntimeOptions({ csp: { reportOnly: true } });
+
+    const { response } = await runMiddleware(html());
+
+    expect(response.headers.get('Content-Security-Policy')).toBeNull();
+    expect(response.headers.get('Content-Security-Policy-Report-Only')).toContain('report-uri /handler/csp-report');
+  });
+
+  it('should allow the inline scripts of a page with an island', async () => {
+    setRuntimeOptions({ csp: true });
+    const container = await AstroContainer.create();
+    container.addServerRenderer({
+      name: 'test-renderer',
+      renderer: { name: 'test-renderer', check: () => true, renderToStaticMarkup: async () => ({ html: '<button>0</button>' }) }
+    });
+    container.addClientRenderer({ name: 'test-renderer', entrypoint: '/renderer.js' });
+    const Counter = () => null;
+    const Page = createComponent((result: any) => render`<html><body>${['load', 'visible'].map(directive =>
+      renderComponent(result, 'Counter', Counter, {
+        [`client:${directive}`]: true,
+        'client:component-hydration': directive,
+        'client:component-path': '/Counter.js',
+        'client:component-export': 'default'
+      })
+    )}</body></html>`);
+
+    const page = await container.renderToResponse(Page);
+    const { response } = await runMiddleware(page);
+    const body = await response.text();
+    const scripts = [...body.matchAll(/<script>(.*?)<\/script>/gs)].map(([, script]) => script);
+    const scriptSrc = response.headers.get('Content-Security-Policy')!.split('; ').find(directive => directive.startsWith('script-src '))!;
+
+    // The <astro-island> element plus the load and visible directives
+    expect(body).toContain('<astro-island');
+    expect(scripts).toHaveLength(3);
+    scripts.forEach(script => {
+      expect(scriptSrc.split(' ')).toContain(`'sha256-${createHash('sha256').update(script).digest('base64')}'`);
+    });
+  });
+
+  it('should leave other responses and disabled CSP alone', async () => {
+    setRuntimeOptions({ csp: true });
+    const json = await runMiddleware(Response.json({ ok: true }));
+    const own = await runMiddleware(new Response('<html></html>', {
+      headers: { 'Content-Type': 'text/html', 'Content-Security-Policy': "default-src 'none'" }
+    }));
+    resetRuntimeOptions();
+    const disabled = await runMiddleware(html());
+
+    expect(json.response.headers.get('Content-Security-Policy')).toBeNull();
+    expect(own.response.headers.get('Content-Security-Policy')).toBe("default-src 'none'");
+    expect(disabled.nonce).toBeNull();
+    expect(disabled.response.headers.get('Content-Security-Policy')).toBeNull();
+  });
+});
+
+describe.sequential('violation report endpoint', () => {
+  const createContext = (body: string, init: RequestInit = {}) => ({
+    request: new Request('http://localhost:3000/handler/csp-report', {
+      method: 'POST',
+      body,
+      ...init
+    }),
+    url: new URL('http://localhost:3000/handler/csp-report'),
+    locals: {}
+  }) as unknown as APIContext;
+
+  beforeEach(() => {
+    auditLogger.clearBuffer();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should log report-uri violations to the audit log', async () => {
+    const response = await handleCSPReportRequest(createContext(JSON.stringify({
+      'csp-report': {
+        'document-uri': 'http://localhost:3000/dashboard',
+        'violated-directive': 'script-src-elem',
+        'blocked-uri': 'https://evil.example/x.js',
+        'original-policy': "script-src 'self'"
+      }
+    })));
+
+    const [entry] = auditLogger.getRecentLogs(1);
+    expect(response.status).toBe(204);
+    expect(entry.eventType).toBe(AuditEventType.CSP_VIOLATION);
+    expect(entry.message).toBe('Content-Security-Policy violation: script-src-elem');
+    expect(entry.details).toMatchObject({ blockedUri: 'https://evil.example/x.js', documentUri: 'http://localhost:3000/dashboard' });
+  });
+
+  it('should read Reporting API batches', () => {
+    const violations = parseCSPReport([
+      { type: 'csp-violation', body: { effectiveDirective: 'img-src', blockedURL: 'https://img.example/a.png', lineNumber: 4 } },
+      { type: 'deprecation', body: { id: 'x' } }
+    ]);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ directive: 'img-src', blockedUri: 'https://img.example/a.png', lineNumber: 4 });
+    expect(parseCSPReport({ unrelated: true })).toEqual([]);
+  });
+
+  it('should reject oversized, malformed and non-POST requests', async () => {
+    const oversized = await handleCSPReportRequest(createContext(JSON.stringify({ 'csp-report': { sample: 'x'.repeat(20000) } })));
+    const malformed = await handleCSPReportRequest(createContext('{not json'));
+    const get = await handleCSPReportRequest(createContext('', { method: 'GET', body: null }));
+
+    expect(oversized.status).toBe(413);
+    expect(malformed.status).toBe(400);
+    expect(get.status).toBe(405);
+    expect(auditLogger.getRecentLogs()).toHaveLength(0);
+  });
+});
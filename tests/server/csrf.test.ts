@@ -0,0 +1,151 @@
+/**
+ * CSRF protection tests
+ *
+ * Covers the middleware issuing and rotating the double-submit cookie and
+ * `requireCSRF` accepting the token from a header or form field.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import type { User, Session } from '../../src/rest-api/types.js';
+import { getUser } from '../../src/server.js';
+import {
+  generateSessionCSRFToken,
+  isCSRFTokenForSession,
+  SecurityError
+} from '../../src/server/security.js';
+import { LRUSessionCacheStore } from '../../src/server/session-cache.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+
+vi.mock('astro:middleware', () => ({
+  defineMiddleware: vi.fn((middleware) => middleware)
+}));
+
+const SECRET = 'sk_test_key';
+
+const alice: User = { id: 'user-alice', email: 'alice@example.com', emailVerified: true, createdAt: '2024-01-01T00:00:00Z' };
+const aliceSession: Session = { id: 'session-alice', userId: 'user-alice', expiresAt: '2099-01-01T00:00:00Z', isActive: true };
+
+describe('session-bound CSRF tokens', () => {
+  it('should only verify for the session they were issued to', () => {
+    const token = generateSessionCSRFToken('session-alice', SECRET);
+
+    expect(token).toMatch(/^[0-9a-f]{128}$/);
+    expect(isCSRFTokenForSession(token, 'session-alice', SECRET)).toBe(true);
+    expect(isCSRFTokenForSession(token, 'session-bob', SECRET)).toBe(false);
+    expect(isCSRFTokenForSession(token, 'session-alice', 'sk_other_key')).toBe(false);
+    expect(isCSRFTokenForSession('a'.repeat(128), 'session-alice', SECRET)).toBe(false);
+  });
+});
+
+describe.sequential('CSRF protection', () => {
+  let originalFetch: typeof global.fetch;
+
+  const createContext = (
+    path: string,
+    init: RequestInit = {},
+    locals: Record<string, unknown> = {}
+  ) => ({
+    request: new Request(`http://localhost:3000${path}`, init),
+    url: new URL(`http://localhost:3000${path}`),
+    locals,
+    redirect: vi.fn()
+  }) as unknown as APIContext;
+
+  const runMiddleware = async (context: APIContext): Promise<Response> => {
+    const { onRequest } = await import('../../src/middleware.js');
+    return (onRequest as any)(context, () => Promise.resolve(new Response('page')));
+  };
+
+  const csrfCookieFrom = (response: Response): string | undefined =>
+    response.headers.getSetCookie().find(cookie => cookie.startsWith('stack-auth-csrf-token='));
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    global.fetch = vi.fn(async (url: string) => {
+      const body = new URL(url).pathname.endsWith('/auth/session') ? aliceSession : alice;
+      return new Response(JSON.stringify(body), { status: 200 });
+    }) as any;
+
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', SECRET);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    setRuntimeOptions({ sessionCache: new LRUSessionCacheStore() });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should issue a readable cookie and expose the token on locals', async () => {
+    const context = createContext('/');
+
+    const response = await runMiddleware(context);
+
+    const cookie = csrfCookieFrom(response)!;
+    expect(cookie).toBe(`stack-auth-csrf-token=${context.locals.csrfToken}; Path=/; SameSite=Lax`);
+    expect(isCSRFTokenForSession(context.locals.csrfToken!, 'anonymous', SECRET)).toBe(true);
+  });
+
+  it('should keep the token for the same session and rotate it on sign-in', async () => {
+    const anonymousToken = generateSessionCSRFToken('anonymous', SECRET);
+
+    const anonymous = createContext('/', { headers: { cookie: `stack-auth-csrf-token=${anonymousToken}` } });
+    const kept = await runMiddleware(anonymous);
+
+    expect(anonymous.locals.csrfToken).toBe(anonymousToken);
+    expect(csrfCookieFrom(kept)).toBeUndefined();
+
+    const signedIn = createContext('/', {
+      headers: { cookie: `stack-auth-csrf-token=${anonymousToken}; stack-auth-access-token=alice-token` }
+    });
+    const rotated = await runMiddleware(signedIn);
+
+    expect(signedIn.locals.csrfToken).not.toBe(anonymousToken);
+    expect(isCSRFTokenForSession(signedIn.locals.csrfToken!, 'session-alice', SECRET)).toBe(true);
+    expect(csrfCookieFrom(rotated)).toContain(signedIn.locals.csrfToken!);
+  });
+
+  it('should accept the token from the header or a form field', async () => {
+    const token = generateSessionCSRFToken('session-alice', SECRET);
+    const locals = { user: alice, session: aliceSession };
+
+    const fromHeader = createContext('/api/profile', {
+      method: 'POST',
+      headers: { cookie: `stack-auth-csrf-token=${token}`, 'x-csrf-token': token }
+    }, locals);
+    await expect(getUser(fromHeader, { requireCSRF: true })).resolves.toBe(alice);
+
+    const fromForm = createContext('/api/profile', {
+      method: 'POST',
+      headers: { cookie: `stack-auth-csrf-token=${token}`, 'content-type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ csrf_token: token, displayName: 'Alice' })
+    }, locals);
+    await expect(getUser(fromForm, { requireCSRF: true })).resolves.toBe(alice);
+
+    // The endpoint can still read the form
+    expect((await fromForm.request.formData()).get('displayName')).toBe('Alice');
+  });
+
+  it('should reject missing, mismatched and foreign-session tokens', async () => {
+    const token = generateSessionCSRFToken('session-alice', SECRET);
+    const planted = generateSessionCSRFToken('anonymous', SECRET);
+    const locals = { user: alice, session: aliceSession };
+    const post = (cookie: string, header?: string) => createContext('/api/profile', {
+      method: 'POST',
+      headers: { cookie, ...(header ? { 'x-csrf-token': header } : {}) }
+    }, locals);
+
+    const missing = getUser(post(`stack-auth-csrf-token=${token}`), { requireCSRF: true });
+    const mismatched = getUser(post(`stack-auth-csrf-token=${token}`, planted), { requireCSRF: true });
+    const foreign = getUser(post(`stack-auth-csrf-token=${planted}`, planted), { requireCSRF: true });
+
+    await expect(missing).rejects.toThrow(SecurityError);
+    await expect(mismatched).rejects.toThrow(SecurityError);
+    await expect(foreign).rejects.toMatchObject({ code: 'CSRF_TOKEN_INVALID' });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Local access token verification tests
+ *
+ * Signs tokens with locally generated keypairs and serves the public keys
+ * from a fake JWKS server on localhost.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { generateKeyPairSync, sign, type KeyObject } from 'node:crypto';
+import type { APIContext } from 'astro';
+import {
+  RemoteJwks,
+  verifyAccessToken,
+  userFromClaims,
+  isClaimsUser,
+  clearJwksCache,
+  getRemoteJwks,
+  JwtVerificationError
+} from '../../src/server/jwt.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+
+interface TestKey {
+  kid: string;
+  alg: 'ES256' | 'RS256';
+  privateKey: KeyObject;
+  jwk: Record<string, unknown>;
+}
+
+const createKey = (kid: string, alg: 'ES256' | 'RS256' = 'ES256'): TestKey => {
+  const { privateKey, publicKey } = alg === 'ES256'
+    ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    : generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid, alg, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg, use: 'sig' } };
+};
+
+const signToken = (key: TestKey, claims: Record<string, unknown>, header: Record<string, unknown> = {}): string => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ alg: key.alg, typ: 'JWT', kid: key.kid, ...header })}.${encode(claims)}`;
+  const signature = sign(
+    'sha256',
+    Buffer.from(signingInput),
+    key.alg === 'ES256' ? { key: key.privateKey, dsaEncoding: 'ieee-p1363' } : key.privateKey
+  );
+  return `${signingInput}.${signature.toString('base64url')}`;
+};
+
+const validClaims = (overrides: Record<string, unknown> = {}) => ({
+  sub: 'user-123',
+  aud: 'test-project-id',
+  iss: 'https://api.stack-auth.com/api/v1/projects/test-project-id',
+  iat: Math.floor(Date.now() / 1000),
+  exp: Math.floor(Date.now() / 1000) + 600,
+  email: 'user@example.com',
+  email_verified: true,
+  name: 'Test User',
+  refresh_token_id: 'session-abc',
+  ...overrides
+});
+
+describe.sequential('local access token verification', () => {
+  let server: Server;
+  let jwksUrl: string;
+  let publishedKeys: TestKey[] = [];
+  let jwksRequests = 0;
+
+  const ecKey = createKey('key-1');
+  const rsaKey = createKey('key-rsa', 'RS256');
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      jwksRequests++;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ keys: publishedKeys.map(key => key.jwk) }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    jwksUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/.well-known/jwks.json`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    publishedKeys = [ecKey, rsaKey];
+    jwksRequests = 0;
+    clearJwksCache();
+  });
+
+  describe.sequential('verifyAccessToken', () => {
+    it('should verify ES256 and RS256 tokens and return their claims', async () => {
+      const jwks = new RemoteJwks(jwksUrl);
+
+      const ecClaims = await verifyAccessToken(signToken(ecKey, validClaims()), jwks, { audience: 'test-project-id' });
+      const rsaClaims = await verifyAccessToken(signToken(rsaKey, validClaims({ sub: 'user-rsa' })), jwks);
+
+      expect(ecClaims.sub).toBe('user-123');
+      expect(rsaClaims.sub).toBe('user-rsa');
+      expect(jwksRequests).toBe(1);
+    });
+
+    it('should reject tampered, expired and unsigned tokens', async () => {
+      const jwks = new RemoteJwks(jwksUrl);
+      const [header, , signature] = signToken(ecKey, validClaims()).split('.');
+      const forgedPayload = Buffer.from(JSON.stringify(validClaims({ sub: 'admin' }))).toString('base64url');
+
+      await expect(verifyAccessToken(`${header}.${forgedPayload}.${signature}`, jwks))
+        .rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+      await expect(verifyAccessToken(signToken(ecKey, validClaims({ exp: Math.floor(Date.now() / 1000) - 120 })), jwks))
+        .rejects.toMatchObject({ code: 'TOKEN_EXPIRED' });
+      await expect(verifyAccessToken(signToken(ecKey, validClaims(), { alg: 'none' }), jwks))
+        .rejects.toMatchObject({ code: 'UNSUPPORTED_ALGORITHM' });
+      await expect(verifyAccessToken('not-a-jwt', jwks))
+        .rejects.toBeInstanceOf(JwtVerificationError);
+    });
+
+    it('should reject tokens for another audience or issuer', async () => {
+      const jwks = new RemoteJwks(jwksUrl);
+      const token = signToken(ecKey, validClaims());
+
+      await expect(verifyAccessToken(token, jwks, { audience: 'other-project' }))
+        .rejects.toMatchObject({ code: 'INVALID_CLAIMS' });
+      await expect(verifyAccessToken(token, jwks, { issuer: 'https://evil.example.com' }))
+        .rejects.toMatchObject({ code: 'INVALID_CLAIMS' });
+    });
+
+    it('should refetch the JWKS when a token is signed with a rotated key', async () => {
+      const jwks = new RemoteJwks(jwksUrl);
+      await verifyAccessToken(signToken(ecKey, validClaims()), jwks);
+
+      const rotatedKey = createKey('key-2');
+      publishedKeys = [rotatedKey];
+
+      // Past the refetch cooldown but well within the cache TTL
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        vi.setSystemTime(Date.now() + 60 * 1000);
+        const claims = await verifyAccessToken(signToken(rotatedKey, validClaims({ sub: 'user-rotated' })), jwks);
+        expect(claims.sub).toBe('user-rotated');
+        expect(jwksRequests).toBe(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should not refetch for unknown key ids within the cooldown', async () => {
+      const jwks = new RemoteJwks(jwksUrl);
+      const unknownKey = createKey('key-unknown');
+
+      await expect(verifyAccessToken(signToken(unknownKey, validClaims()), jwks))
+        .rejects.toMatchObject({ code: 'KEY_NOT_FOUND' });
+      await expect(verifyAccessToken(signToken(unknownKey, validClaims()), jwks))
+        .rejects.toMatchObject({ code: 'KEY_NOT_FOUND' });
+
+      expect(jwksRequests).toBe(1);
+    });
+
+    it('should keep using cached keys when the JWKS endpoint fails after expiry', async () => {
+      const jwks = new RemoteJwks(jwksUrl, 0);
+      await verifyAccessToken(signToken(ecKey, validClaims()), jwks);
+
+      const failingFetch = vi.spyOn(global, 'fetch').mockResolvedValue(new Response('down', { status: 503 }));
+      try {
+        const claims = await verifyAccessToken(signToken(ecKey, validClaims()), jwks);
+        expect(claims.sub).toBe('user-123');
+      } finally {
+        failingFetch.mockRestore();
+      }
+    });
+  });
+
+  it('should apply a changed cache TTL to the shared JWKS', async () => {
+    const jwks = getRemoteJwks(jwksUrl);
+    await verifyAccessToken(signToken(ecKey, validClaims()), jwks);
+    await verifyAccessToken(signToken(ecKey, validClaims()), getRemoteJwks(jwksUrl));
+    expect(jwksRequests).toBe(1);
+
+    const shortLived = getRemoteJwks(jwksUrl, 0);
+    await verifyAccessToken(signToken(ecKey, validClaims()), shortLived);
+
+    expect(shortLived).toBe(jwks);
+    expect(jwksRequests).toBe(2);
+  });
+
+  describe.sequential('middleware with jwtVerification', () => {
+    let apiFetch: ReturnType<typeof vi.fn>;
+    let originalFetch: typeof global.fetch;
+
+    const createContext = (token: string) => ({
+      request: new Request('http://localhost:3000/dashboard', {
+        headers: { cookie: `stack-auth-access-token=${token}` }
+      }),
+      url: new URL('http://localhost:3000/dashboard'),
+      locals: {} as any
+    }) as unknown as APIContext;
+
+    beforeEach(() => {
+      originalFetch = global.fetch;
+      // Pass JWKS requests through to the fake server and record Stack Auth API calls
+      apiFetch = vi.fn(async () => new Response(JSON.stringify({
+        id: 'user-123',
+        email: 'user@example.com',
+        emailVerified: true,
+        createdAt: '2024-01-01T00:00:00Z',
+        metadata: { plan: 'pro' }
+      }), { status: 200 }));
+      global.fetch = vi.fn((input: any, init?: RequestInit) =>
+        String(input).startsWith(jwksUrl) ? originalFetch(input, init) : apiFetch(input, init)
+      ) as any;
+
+      vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+      vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+      vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+      setRuntimeOptions({ jwtVerification: { jwksUrl } });
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      resetRuntimeOptions();
+      vi.unstubAllEnvs();
+    });
+
+    it('should populate locals from claims without calling Stack Auth', async () => {
+      const { onRequest } = await import('../../src/middleware.js');
+      const context = createContext(signToken(ecKey, validClaims()));
+
+      await (onRequest as any)(context, vi.fn().mockResolvedValue(new Response('OK')));
+
+      expect(context.locals.user).toMatchObject({ id: 'user-123', email: 'user@example.com', displayName: 'Test User' });
+      expect(context.locals.session).toMatchObject({ id: 'session-abc', userId: 'user-123', isActive: true });
+      expect(apiFetch).not.toHaveBeenCalled();
+    });
+
+    it('should treat tokens that fail verification as anonymous', async () => {
+      const { onRequest } = await import('../../src/middleware.js');
+      const context = createContext(signToken(createKey('key-1'), validClaims()));
+
+      await (onRequest as any)(context, vi.fn().mockResolvedValue(new Response('OK')));
+
+      expect(context.locals.user).toBeNull();
+      expect(apiFetch).not.toHaveBeenCalled();
+    });
+
+    it('should fetch the full user lazily', async () => {
+      const { onRequest } = await import('../../src/middleware.js');
+      const { getFullUser } = await import('../../src/server.js');
+      const context = createContext(signToken(ecKey, validClaims()));
+
+      await (onRequest as any)(context, vi.fn().mockResolvedValue(new Response('OK')));
+      expect(isClaimsUser(context.locals.user!)).toBe(true);
+
+      const fullUser = await getFullUser(context);
+      expect(fullUser?.metadata).toEqual({ plan: 'pro' });
+      expect(context.locals.user).toBe(fullUser);
+      expect(apiFetch).toHaveBeenCalledTimes(1);
+
+      // Subsequent calls reuse the fetched user
+      await getFullUser(context);
+      expect(apiFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should mark only claim-derived users', () => {
+    expect(isClaimsUser(userFromClaims(validClaims()))).toBe(true);
+    expect(isClaimsUser({ id: 'u', email: '', emailVerified: false, createdAt: '' })).toBe(false);
+  });
+});
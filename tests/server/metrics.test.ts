@@ -0,0 +1,148 @@
+/**
+ * Prometheus metrics tests
+ *
+ * Covers histogram and counter exposition in both formats, the counters
+ * fed by rate limiting and audit logging, and the scrape formats of the
+ * performance route.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import { Counter, Histogram, renderMetrics } from '../../src/server/metrics.js';
+import { checkRateLimit, InMemoryRateLimitStore } from '../../src/server/rate-limiting.js';
+import { auditLogger, AuditEventType } from '../../src/server/audit.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { GET, DELETE } from '../../src/api/performance.js';
+
+// Current value of a sample in the rendered metrics, 0 if absent
+const sample = (series: string): number => {
+  const line = renderMetrics().split('\n').find(candidate => candidate.startsWith(`${series} `));
+  return line ? Number(line.slice(series.length + 1)) : 0;
+};
+
+describe('metric exposition', () => {
+  it('should render cumulative histogram buckets', () => {
+    const histogram = new Histogram('test_duration_seconds', 'Test durations', [0.1, 1]);
+
+    histogram.observe(0.05, { operation: 'getUser' });
+    histogram.observe(0.5, { operation: 'getUser' });
+    histogram.observe(3, { operation: 'getUser' });
+
+    expect(histogram.render()).toEqual([
+      '# HELP test_duration_seconds Test durations',
+      '# TYPE test_duration_seconds histogram',
+      'test_duration_seconds_bucket{operation="getUser",le="0.1"} 1',
+      'test_duration_seconds_bucket{operation="getUser",le="1"} 2',
+      'test_duration_seconds_bucket{operation="getUser",le="+Inf"} 3',
+      'test_duration_seconds_sum{operation="getUser"} 3.55',
+      'test_duration_seconds_count{operation="getUser"} 3'
+    ]);
+  });
+
+  it('should keep one counter series per label set and escape values', () => {
+    const counter = new Counter('test_events_total', 'Test events');
+
+    counter.inc({ a: '1', b: '2' });
+    counter.inc({ b: '2', a: '1' });
+    counter.inc({ a: 'say "hi"\n' });
+
+    expect(counter.render('prometheus')).toEqual([
+      '# HELP test_events_total Test events',
+      '# TYPE test_events_total counter',
+      'test_events_total{a="1",b="2"} 2',
+      'test_events_total{a="say \\"hi\\"\\n"} 1'
+    ]);
+    // OpenMetrics names the family without the suffix, samples keep it
+    expect(counter.render('openmetrics').slice(0, 2)).toEqual([
+      '# HELP test_events Test events',
+      '# TYPE test_events counter'
+    ]);
+  });
+
+  it('should terminate OpenMetrics output', () => {
+    expect(renderMetrics('openmetrics').endsWith('# EOF\n')).toBe(true);
+    expect(renderMetrics('prometheus')).not.toContain('# EOF');
+  });
+});
+
+describe.sequential('recorded metrics', () => {
+  afterEach(() => {
+    resetRuntimeOptions();
+    vi.restoreAllMocks();
+  });
+
+  it('should count rate limit rejections by key type', async () => {
+    const store = new InMemoryRateLimitStore();
+    setRuntimeOptions({ rateLimitStore: store });
+    const request = new Request('https://example.com/auth', { headers: { 'x-forwarded-for': '203.0.113.7' } });
+    const config = { windowMs: 60000, maxRequests: 1 };
+    const before = sample('stack_auth_rate_limit_rejections_total{key_type="ip"}');
+    const customBefore = sample('stack_auth_rate_limit_rejections_total{key_type="custom"}');
+
+    await checkRateLimit(request, config);
+    await checkRateLimit(request, config);
+    await checkRateLimit(request, config);
+    await checkRateLimit(request, config, 'tenant-42');
+    await checkRateLimit(request, config, 'tenant-42');
+    store.destroy();
+
+    expect(sample('stack_auth_rate_limit_rejections_total{key_type="ip"}')).toBe(before + 2);
+    expect(sample('stack_auth_rate_limit_rejections_total{key_type="custom"}')).toBe(customBefore + 1);
+  });
+
+  it('should count audit events by type and risk level', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const series = 'stack_auth_audit_events_total{event_type="auth_failure",risk_level="medium"}';
+    const before = sample(series);
+
+    auditLogger.log({ eventType: AuditEventType.AUTH_FAILURE, message: 'Authentication failed' });
+
+    expect(sample(series)).toBe(before + 1);
+  });
+});
+
+describe.sequential('performance route scrape formats', () => {
+  const createContext = (search: string, headers: Record<string, string> = {}) => ({
+    request: new Request(`http://localhost:3000/handler/performance${search}`, { headers }),
+    url: new URL(`http://localhost:3000/handler/performance${search}`)
+  }) as unknown as APIContext;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should serve Prometheus and OpenMetrics text behind the route authorization', async () => {
+    vi.stubEnv('STACK_AUTH_METRICS_SECRET', 'scrape-token');
+    const headers = { Authorization: 'Bearer scrape-token' };
+
+    const prometheus = await GET(createContext('?format=prometheus', headers));
+    const openmetrics = await GET(createContext('?format=openmetrics', headers));
+    const anonymous = await GET(createContext('?format=prometheus'));
+
+    expect(prometheus.status).toBe(200);
+    expect(prometheus.headers.get('Content-Type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(await prometheus.text()).toContain('# TYPE stack_auth_operation_duration_seconds histogram');
+    expect(openmetrics.headers.get('Content-Type')).toBe('application/openmetrics-text; version=1.0.0; charset=utf-8');
+    expect(await openmetrics.text()).toContain('# TYPE stack_auth_audit_events counter');
+    expect(anonymous.status).toBe(401);
+  });
+
+  it('should only accept the configured secret', async () => {
+    const guesses = [
+      createContext('?format=prometheus', { Authorization: 'Bearer anything' }),
+      createContext('?format=openmetrics&debug=true'),
+      createContext('?format=summary', { Authorization: 'Bearer scrape-token-2' })
+    ];
+
+    // Without a secret the route is closed
+    expect((await GET(createContext('?format=prometheus', { Authorization: 'Bearer ' }))).status).toBe(401);
+
+    vi.stubEnv('STACK_AUTH_METRICS_SECRET', 'scrape-token');
+    for (const context of guesses) {
+      expect((await GET(context)).status).toBe(401);
+    }
+    expect((await DELETE(createContext('', { Authorization: 'Bearer anything' }))).status).toBe(401);
+    expect((await DELETE(createContext('', { Authorization: 'Bearer scrape-token' }))).status).toBe(200);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * OAuth flow tests
+ *
+ * Runs the injected OAuth routes end to end against a local fake Stack
+ * Auth provider that enforces PKCE, and covers state verification and
+ * redirect validation.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHash } from 'node:crypto';
+import type { APIContext } from 'astro';
+import {
+  createPkcePair,
+  createOAuthFlowState,
+  signOAuthFlowState,
+  verifyOAuthFlowState
+} from '../../src/server/oauth.js';
+import { matchOAuthEndpoint, resolveRedirectTarget } from '../../src/api/oauth.js';
+import { auditLogger, AuditEventType } from '../../src/server/audit.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+
+const SECRET = 'sk_test_key';
+
+describe('PKCE and signed state', () => {
+  it('should derive the S256 challenge from the verifier', () => {
+    const { verifier, challenge } = createPkcePair();
+
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(challenge).toBe(createHash('sha256').update(verifier).digest('base64url'));
+  });
+
+  it('should only accept untampered, unexpired state matching the callback', () => {
+    const { flow } = createOAuthFlowState('github', '/dashboard');
+    const cookie = signOAuthFlowState(flow, SECRET);
+
+    expect(verifyOAuthFlowState(cookie, flow.state, SECRET)).toEqual(flow);
+    expect(verifyOAuthFlowState(cookie, 'other-state', SECRET)).toBeNull();
+    expect(verifyOAuthFlowState(cookie, flow.state, 'sk_other_key')).toBeNull();
+    expect(verifyOAuthFlowState(null, flow.state, SECRET)).toBeNull();
+
+    const forged = signOAuthFlowState({ ...flow, redirectTo: 'https://evil.example' }, 'sk_other_key');
+    expect(verifyOAuthFlowState(forged, flow.state, SECRET)).toBeNull();
+
+    const expired = signOAuthFlowState({ ...flow, expiresAt: Date.now() - 1 }, SECRET);
+    expect(verifyOAuthFlowState(expired, flow.state, SECRET)).toBeNull();
+  });
+
+  it('should match OAuth routes and keep redirects on the same origin', () => {
+    expect(matchOAuthEndpoint('oauth/github')).toEqual({ type: 'authorize', provider: 'github' });
+    expect(matchOAuthEndpoint('oauth/callback')).toEqual({ type: 'callback' });
+    expect(matchOAuthEndpoint('oauth/Git%20Hub')).toBeNull();
+    expect(matchOAuthEndpoint('auth/oauth/token')).toBeNull();
+
+    const origin = 'http://localhost:3000';
+    expect(resolveRedirectTarget('/dashboard?tab=1', origin)).toBe('/dashboard?tab=1');
+    expect(resolveRedirectTarget('http://localhost:3000/settings', origin)).toBe('/settings');
+    expect(resolveRedirectTarget('https://evil.example/phish', origin)).toBe('/');
+    expect(resolveRedirectTarget('//evil.example/phish', origin)).toBe('/');
+    expect(resolveRedirectTarget('javascript:alert(1)', origin)).toBe('/');
+    expect(resolveRedirectTarget(null, origin)).toBe('/');
+  });
+});
+
+describe.sequential('OAuth routes against a fake provider', () => {
+  let server: Server;
+  let providerBaseUrl: string;
+  let tokenRequests: Record<string, string>[];
+
+  // Authorization codes issued by the fake provider
+  const issuedCodes = new Map<string, { challenge: string; redirectUri: string }>();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+      if (req.method === 'GET' && url.pathname === '/api/v1/auth/oauth/authorize/github') {
+        // Sign the user in immediately and send them back with a code
+        const code = `code-${issuedCodes.size + 1}`;
+        issuedCodes.set(code, {
+          challenge: url.searchParams.get('code_challenge') || '',
+          redirectUri: url.searchParams.get('redirect_uri') || ''
+        });
+        const callback = new URL(url.searchParams.get('redirect_uri')!);
+        callback.searchParams.set('code', code);
+        callback.searchParams.set('state', url.searchParams.get('state') || '');
+        res.writeHead(302, { Location: callback.toString() });
+        res.end();
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/api/v1/auth/oauth/token') {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          const params = JSON.parse(body);
+          tokenRequests.push(params);
+          const issued = issuedCodes.get(params.code);
+          issuedCodes.delete(params.code);
+          const challenge = createHash('sha256').update(params.code_verifier || '').digest('base64url');
+
+          res.setHeader('Content-Type', 'application/json');
+          if (!issued || issued.challenge !== challenge || issued.redirectUri !== params.redirect_uri) {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: { code: 'INVALID_GRANT', message: 'Invalid authorization code' } }));
+            return;
+          }
+          res.end(JSON.stringify({
+            access_token: 'oauth-access-token',
+            refresh_token: 'oauth-refresh-token',
+            token_type: 'Bearer',
+            expires_in: 3600
+          }));
+        });
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    providerBaseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    tokenRequests = [];
+    issuedCodes.clear();
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', SECRET);
+    vi.stubEnv('STACK_BASE_URL', providerBaseUrl);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    auditLogger.clearBuffer();
+  });
+
+  afterEach(() => {
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  const callHandler = async (url: string, cookie: string = ''): Promise<Response> => {
+    const { GET } = await import('../../src/api/handler.js');
+    const parsed = new URL(url);
+    const context = {
+      request: new Request(url, { headers: { cookie } }),
+      url: parsed,
+      params: { stack: parsed.pathname.replace(/^\/handler\//, '') },
+      locals: { user: null, session: null, team: null }
+    } as unknown as APIContext;
+    return GET(context);
+  };
+
+  const stateCookieFrom = (response: Response): string => {
+    const header = response.headers.getSetCookie().find(cookie => cookie.startsWith('stack-auth-oauth-state='))!;
+    return header.split(';')[0];
+  };
+
+  // Start the flow and follow the provider back to the callback URL
+  const startFlow = async (redirectTo: string) => {
+    const start = await callHandler(`http://localhost:3000/handler/oauth/github?redirectTo=${encodeURIComponent(redirectTo)}`);
+    const providerResponse = await fetch(start.headers.get('Location')!, { redirect: 'manual' });
+    return { start, callbackUrl: providerResponse.headers.get('Location')!, cookie: stateCookieFrom(start) };
+  };
+
+  it('should redirect to the provider with state and a PKCE challenge', async () => {
+    const { start } = await startFlow('/dashboard');
+
+    expect(start.status).toBe(302);
+    const location = new URL(start.headers.get('Location')!);
+    expect(`${location.origin}${location.pathname}`).toBe(`${providerBaseUrl}/auth/oauth/authorize/github`);
+    expect(location.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(location.searchParams.get('redirect_uri')).toBe('http://localhost:3000/handler/oauth/callback');
+    expect(location.searchParams.get('state')).toMatch(/^[0-9a-f]{64}$/);
+
+    const setCookie = start.headers.getSetCookie()[0];
+    expect(setCookie).toContain('HttpOnly');
+    expect(setCookie).toContain('Path=/handler/oauth');
+    // The verifier never leaves the signed cookie
+    expect(start.headers.get('Location')).not.toContain('code_verifier');
+  });
+
+  it('should mark the state cookie Secure in production behind a TLS-terminating proxy', async () => {
+    expect((await startFlow('/dashboard')).start.headers.getSetCookie()[0]).not.toContain('Secure');
+
+    vi.stubEnv('NODE_ENV', 'production');
+    const { start } = await startFlow('/dashboard');
+
+    expect(start.headers.getSetCookie()[0]).toContain('; Secure');
+  });
+
+  it('should exchange the code, set session cookies and redirect', async () => {
+    const { callbackUrl, cookie } = await startFlow('/dashboard?tab=billing');
+
+    const response = await callHandler(callbackUrl, cookie);
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('/dashboard?tab=billing');
+    const cookies = response.headers.getSetCookie();
+    expect(cookies).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^stack-auth-oauth-state=; Path=\/handler\/oauth; Max-Age=0/),
+      expect.stringMatching(/^stack-auth-access-token=oauth-access-token;/),
+      expect.stringMatching(/^stack-auth-refresh-token=oauth-refresh-token;/)
+    ]));
+    expect(tokenRequests[0]).toMatchObject({ grant_type: 'authorization_code', client_id: 'test-project-id' });
+    expect(auditLogger.getRecentLogs().some(entry => entry.eventType === AuditEventType.AUTH_SUCCESS)).toBe(true);
+  });
+
+  it('should reject callbacks without the matching state cookie', async () => {
+    const { callbackUrl } = await startFlow('/dashboard');
+    const { cookie: otherCookie } = await startFlow('/dashboard');
+
+    const missing = await callHandler(callbackUrl);
+    const mismatched = await callHandler(callbackUrl, otherCookie);
+
+    // Without a verified state there is no starting page to return to
+    expect(missing.headers.get('Location')).toBe('/?error=invalid_state');
+    expect(mismatched.headers.get('Location')).toBe('/?error=invalid_state');
+    expect(tokenRequests).toHaveLength(0);
+    expect(auditLogger.getRecentLogs().some(entry => entry.eventType === AuditEventType.CSRF_VIOLATION)).toBe(true);
+  });
+
+  it('should fail when the provider rejects the code exchange', async () => {
+    const { callbackUrl, cookie } = await startFlow('/dashboard');
+    // A replayed code is rejected by the provider
+    await callHandler(callbackUrl, cookie);
+
+    const replay = await callHandler(callbackUrl, cookie);
+
+    expect(replay.headers.get('Location')).toBe('/dashboard?error=oauth_failed');
+    expect(replay.headers.getSetCookie().some(cookie => cookie.startsWith('stack-auth-access-token='))).toBe(false);
+  });
+
+  it('should send failed sign-ins to a page that exists', async () => {
+    setRuntimeOptions({ signInUrl: '/login?tab=oauth' });
+    const { callbackUrl } = await startFlow('/dashboard');
+
+    const response = await callHandler(callbackUrl);
+    const location = response.headers.get('Location')!;
+
+    expect(location).toBe('/login?tab=oauth&error=invalid_state');
+    // The handler serves no sign-in page of its own, so the target must be an app page
+    expect(location.startsWith('/handler/')).toBe(false);
+    expect((await callHandler('http://localhost:3000/handler/signin')).status).toBe(404);
+  });
+
+  it('should never redirect off-site after sign-in', async () => {
+    const { callbackUrl, cookie } = await startFlow('https://evil.example/phish');
+
+    const response = await callHandler(callbackUrl, cookie);
+
+    expect(response.headers.get('Location')).toBe('/');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Proxy endpoint policy tests
+ *
+ * Covers which Stack Auth endpoints the catch-all proxy forwards and with
+ * which key, the 404/405 answers for everything else, the audit event
+ * for blocked requests and validation of the `proxyRoutes` option.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import { GET, POST, DELETE } from '../../src/api/handler.js';
+import { resolveProxyRoute, DEFAULT_PROXY_ROUTES } from '../../src/server/proxy-policy.js';
+import { auditLogger, AuditEventType } from '../../src/server/audit.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+describe('resolveProxyRoute', () => {
+  it('should allow the default client-facing flows', () => {
+    expect(resolveProxyRoute('POST', 'auth/signin')).toMatchObject({ allowed: true });
+    expect(resolveProxyRoute('GET', 'auth/oauth/authorize/github')).toMatchObject({ allowed: true });
+    expect(resolveProxyRoute('HEAD', 'users/me')).toMatchObject({ allowed: true });
+    expect(DEFAULT_PROXY_ROUTES.every(route => (route.key ?? 'client') === 'client')).toBe(true);
+  });
+
+  it('should reject unknown paths and other methods', () => {
+    expect(resolveProxyRoute('GET', 'users')).toEqual({ allowed: false, status: 404 });
+    expect(resolveProxyRoute('DELETE', 'users/me')).toEqual({ allowed: false, status: 405, allow: ['GET', 'PATCH'] });
+    expect(resolveProxyRoute('GET', 'teams/team-1%2F..%2F..%2Fusers')).toEqual({ allowed: false, status: 404 });
+  });
+});
+
+describe.sequential('proxy endpoint policy', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let originalFetch: typeof global.fetch;
+
+  const context = (method: string, path: string) => ({
+    request: new Request(`http://localhost:3000/handler/${path}`, { method }),
+    url: new URL(`http://localhost:3000/handler/${path}`),
+    params: { stack: path }
+  }) as unknown as APIContext;
+
+  const sentHeaders = () => mockFetch.mock.calls[0][1].headers as Record<string, string>;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    mockFetch = vi.fn().mockImplementation(async () => new Response('{}', { status: 200 }));
+    global.fetch = mockFetch as any;
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should forward allowed endpoints with the client key only', async () => {
+    const response = await POST(context('POST', 'auth/signin'));
+
+    expect(response.status).toBe(200);
+    expect(mockFetch.mock.calls[0][0]).toBe('https://api.stack-auth.com/api/v1/auth/signin');
+    expect(sentHeaders()).toMatchObject({
+      'x-stack-publishable-client-key': 'pk_test_key',
+      'x-stack-access-type': 'client'
+    });
+    expect(sentHeaders()['x-stack-secret-server-key']).toBeUndefined();
+  });
+
+  it('should answer blocked requests locally and audit them', async () => {
+    const log = vi.spyOn(auditLogger, 'log');
+
+    const notFound = await GET(context('GET', 'users?limit=100'));
+    const notAllowed = await DELETE(context('DELETE', 'users/me'));
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(notFound.status).toBe(404);
+    expect(await notFound.json()).toEqual({ error: 'NOT_FOUND', message: 'Endpoint not found' });
+    expect(notAllowed.status).toBe(405);
+    expect(notAllowed.headers.get('Allow')).toBe('GET, PATCH');
+    expect(log.mock.calls.map(([entry]) => [entry.eventType, entry.details])).toEqual([
+      [AuditEventType.PROXY_BLOCKED, { status: 404 }],
+      [AuditEventType.PROXY_BLOCKED, { status: 405 }]
+    ]);
+  });
+
+  it('should take the path from the route parameter under a custom prefix', async () => {
+    const response = await POST({
+      request: new Request('http://localhost:3000/api/auth/auth/signin', { method: 'POST' }),
+      url: new URL('http://localhost:3000/api/auth/auth/signin'),
+      params: { stack: 'auth/signin' }
+    } as unknown as APIContext);
+
+    expect(response.status).toBe(200);
+    expect(mockFetch.mock.calls[0][0]).toBe('https://api.stack-auth.com/api/v1/auth/signin');
+  });
+
+  it('should send the server key only for routes configured with it', async () => {
+    setRuntimeOptions({
+      proxyRoutes: [...DEFAULT_PROXY_ROUTES, { path: '/users/*', methods: ['GET'], key: 'server' }]
+    });
+
+    await GET(context('GET', 'users/user-1'));
+
+    expect(sentHeaders()).toMatchObject({
+      'x-stack-secret-server-key': 'sk_test_key',
+      'x-stack-access-type': 'server'
+    });
+    expect((await POST(context('POST', 'auth/signin'))).status).toBe(200);
+  });
+
+  it('should validate the proxyRoutes option', () => {
+    expect(validateStackAuthOptions({ proxyRoutes: DEFAULT_PROXY_ROUTES }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ proxyRoutes: {} as never }).errors)
+      .toContain('proxyRoutes must be an array of routes');
+    expect(validateStackAuthOptions({ proxyRoutes: [{ path: 'users', methods: [], key: 'admin' as never }] }).errors)
+      .toEqual(expect.arrayContaining([
+        'proxyRoutes[0].methods must be a non-empty list of HTTP methods',
+        "proxyRoutes[0].key must be 'client' or 'server'"
+      ]));
+    expect(validateStackAuthOptions({ proxyRoutes: [{ path: '**', methods: ['GET'], key: 'server' }] }).warnings)
+      .toContain('proxyRoutes[0] sends the secret server key to a wildcard path');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Streaming proxy tests
+ *
+ * Covers streaming request and response bodies through the API proxy to
+ * a local stand-in backend, the request body size limit, hop-by-hop
+ * header handling and forwarding of multiple Set-Cookie headers.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { APIContext } from 'astro';
+import { GET, POST } from '../../src/api/handler.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+describe.sequential('streaming proxy', () => {
+  let server: Server;
+  let standInUrl: string;
+  let received: { headers: IncomingHttpHeaders; body: Buffer }[];
+
+  beforeAll(async () => {
+    // Echoes request bodies back and answers with several cookies
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('error', () => {});
+      req.on('end', () => {
+        const body = Buffer.concat(chunks);
+        received.push({ headers: req.headers, body });
+        res.writeHead(200, {
+          'Content-Type': 'application/octet-stream',
+          'Set-Cookie': ['a=1; Expires=Wed, 21 Oct 2037 07:28:00 GMT; Path=/', 'b=2; Path=/; HttpOnly'],
+          'X-RateLimit-Limit': '100',
+          'Connection': 'x-ratelimit-limit'
+        });
+        res.end(body);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    standInUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    vi.stubEnv('STACK_BASE_URL', standInUrl);
+    setRuntimeOptions({
+      proxyRoutes: [{ path: 'files/*', methods: ['GET', 'POST'] }],
+      proxyMaxBodySize: 1024
+    });
+  });
+
+  afterEach(() => {
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+  });
+
+  const context = (request: Request) => ({
+    request,
+    url: new URL(request.url),
+    params: { stack: new URL(request.url).pathname.replace('/handler/', '') }
+  }) as unknown as APIContext;
+
+  // Request whose body arrives in chunks without a Content-Length
+  const streamed = (chunks: Uint8Array[]) => new Request('http://localhost:3000/handler/files/upload', {
+    method: 'POST',
+    body: new ReadableStream({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(chunk));
+        controller.close();
+      }
+    }),
+    duplex: 'half'
+  } as RequestInit);
+
+  it('should stream binary bodies both ways', async () => {
+    const payload = Uint8Array.from({ length: 256 }, (_, i) => i);
+
+    const response = await POST(context(streamed([payload.slice(0, 100), payload.slice(100)])));
+
+    expect(response.status).toBe(200);
+    expect(received[0].body.equals(Buffer.from(payload))).toBe(true);
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(payload);
+  });
+
+  it('should reject bodies over the size limit with 413', async () => {
+    const declared = new Request('http://localhost:3000/handler/files/upload', {
+      method: 'POST',
+      headers: { 'Content-Length': '2048' },
+      body: 'x'.repeat(2048)
+    });
+
+    const tooLong = await POST(context(declared));
+    const tooLongStreamed = await POST(context(streamed([new Uint8Array(600), new Uint8Array(600)])));
+
+    expect(tooLong.status).toBe(413);
+    expect(await tooLong.json()).toEqual({ error: 'PAYLOAD_TOO_LARGE', message: 'Request body exceeds 1024 bytes' });
+    expect(tooLongStreamed.status).toBe(413);
+    expect(received.every(request => request.body.length <= 1024)).toBe(true);
+  });
+
+  it('should keep Set-Cookie headers apart and drop hop-by-hop headers', async () => {
+    const request = new Request('http://localhost:3000/handler/files/report', {
+      headers: { 'Authorization': 'Bearer token', 'Connection': 'authorization', 'Accept': 'text/plain' }
+    });
+
+    const response = await GET(context(request));
+
+    expect(response.headers.getSetCookie()).toEqual([
+      'a=1; Path=/; Expires=Wed, 21 Oct 2037 07:28:00 GMT; SameSite=Lax',
+      'b=2; Path=/; HttpOnly; SameSite=Lax'
+    ]);
+    expect(response.headers.get('x-ratelimit-limit')).toBeNull();
+    expect(received[0].headers.authorization).toBeUndefined();
+    expect(received[0].headers.accept).toBe('text/plain');
+  });
+
+  it('should validate the proxyMaxBodySize option', () => {
+    expect(validateStackAuthOptions({ proxyMaxBodySize: 65536 }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ proxyMaxBodySize: 0 }).errors)
+      .toContain('proxyMaxBodySize must be a positive number of bytes');
+  });
+});
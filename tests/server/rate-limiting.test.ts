@@ -0,0 +1,196 @@
+/**
+ * Rate limit store and algorithm tests
+ *
+ * Covers the fixed window, sliding window and token bucket algorithms in
+ * the in-memory store, the Redis adapter against a recording fake client,
+ * and checkRateLimit using a configured store.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  InMemoryRateLimitStore,
+  RedisRateLimitStore,
+  checkRateLimit,
+  type RateLimitConfig,
+  type RedisScriptClient
+} from '../../src/server/rate-limiting.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+/**
+ * Records script calls and answers with a canned { allowed, remaining, resetTime }
+ */
+class FakeScriptClient implements RedisScriptClient {
+  calls: { script: string; numKeys: number; args: (string | number)[] }[] = [];
+  deleted: string[] = [];
+  reply: [number, number, number] = [1, 4, 1000];
+
+  async eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown> {
+    this.calls.push({ script, numKeys, args });
+    return this.reply;
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    this.deleted.push(...keys);
+    return keys.length;
+  }
+}
+
+describe.sequential('InMemoryRateLimitStore algorithms', () => {
+  let store: InMemoryRateLimitStore;
+
+  // Send `count` requests and return how many were allowed
+  const send = async (config: RateLimitConfig, count: number): Promise<number> => {
+    let allowed = 0;
+    for (let i = 0; i < count; i++) {
+      if ((await store.increment('client', config)).allowed) allowed++;
+    }
+    return allowed;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    store = new InMemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    store.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should let a fixed window burst across the boundary', async () => {
+    const config: RateLimitConfig = { windowMs: 1000, maxRequests: 5 };
+
+    // The window opens with the first request at 0ms
+    expect(await send(config, 1)).toBe(1);
+    vi.setSystemTime(999);
+    expect(await send(config, 4)).toBe(4);
+    vi.setSystemTime(1000);
+    // The count resets at the boundary, so nine requests pass within 2ms
+    expect(await send(config, 5)).toBe(5);
+  });
+
+  it('should count the last full window with the sliding window', async () => {
+    const config: RateLimitConfig = { windowMs: 1000, maxRequests: 5, algorithm: 'sliding-window' };
+
+    vi.setSystemTime(999);
+    expect(await send(config, 5)).toBe(5);
+    vi.setSystemTime(1000);
+    expect(await send(config, 5)).toBe(0);
+
+    const denied = await store.increment('client', config);
+    expect(denied).toEqual({ allowed: false, remaining: 0, resetTime: 1999 });
+
+    // Requests are admitted again once the earlier ones age out
+    vi.setSystemTime(1999);
+    expect(await send(config, 6)).toBe(5);
+  });
+
+  it('should allow bursts up to the bucket size and refill steadily', async () => {
+    const config: RateLimitConfig = { windowMs: 1000, maxRequests: 5, algorithm: 'token-bucket' };
+
+    expect(await send(config, 6)).toBe(5);
+
+    // One token is added every 200ms
+    vi.setSystemTime(199);
+    expect(await send(config, 1)).toBe(0);
+    vi.setSystemTime(400);
+    expect(await send(config, 3)).toBe(2);
+
+    const denied = await store.increment('client', config);
+    expect(denied.allowed).toBe(false);
+    expect(denied.resetTime).toBe(600);
+  });
+
+  it('should report remaining requests and reset keys', async () => {
+    const config: RateLimitConfig = { windowMs: 1000, maxRequests: 3, algorithm: 'token-bucket' };
+
+    expect((await store.increment('client', config)).remaining).toBe(2);
+    await store.increment('client', config);
+    await store.increment('client', config);
+    expect((await store.increment('client', config)).allowed).toBe(false);
+
+    await store.reset('client');
+
+    expect(await store.increment('client', config)).toMatchObject({ allowed: true, remaining: 2 });
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  it('should run the algorithm script atomically per key', async () => {
+    const client = new FakeScriptClient();
+    const store = new RedisRateLimitStore(client, { keyPrefix: 'test:' });
+
+    const hit = await store.increment('ip:203.0.113.1', { windowMs: 60000, maxRequests: 5, algorithm: 'sliding-window' });
+
+    expect(hit).toEqual({ allowed: true, remaining: 4, resetTime: 1000 });
+    const [call] = client.calls;
+    expect(call.script).toContain('ZREMRANGEBYSCORE');
+    expect(call.numKeys).toBe(2);
+    expect(call.args.slice(0, 4)).toEqual(['test:sliding-window:ip:203.0.113.1', 'test:lock:ip:203.0.113.1', 60000, 5]);
+  });
+
+  it('should default to the fixed window and map denials', async () => {
+    const client = new FakeScriptClient();
+    client.reply = [0, 0, 5000];
+    const store = new RedisRateLimitStore(client);
+
+    const hit = await store.increment('ip:203.0.113.1', { windowMs: 60000, maxRequests: 5 });
+
+    expect(hit.allowed).toBe(false);
+    expect(client.calls[0].script).toContain('INCR');
+    expect(client.calls[0].args[0]).toBe('stack-auth:ratelimit:fixed-window:ip:203.0.113.1');
+  });
+
+  it('should reset the key for every algorithm', async () => {
+    const client = new FakeScriptClient();
+    const store = new RedisRateLimitStore(client);
+
+    await store.reset('user:42');
+
+    expect(client.deleted).toEqual([
+      'stack-auth:ratelimit:fixed-window:user:42',
+      'stack-auth:ratelimit:sliding-window:user:42',
+      'stack-auth:ratelimit:token-bucket:user:42'
+    ]);
+  });
+
+  it('should lock keys with an expiring Redis key', async () => {
+    const client = new FakeScriptClient();
+    const store = new RedisRateLimitStore(client);
+
+    await store.lock('ip:203.0.113.1', 90000);
+
+    const [call] = client.calls;
+    expect(call.script).toContain("'PX'");
+    expect(call.numKeys).toBe(1);
+    expect(call.args).toEqual(['stack-auth:ratelimit:lock:ip:203.0.113.1', 90000]);
+  });
+});
+
+describe.sequential('checkRateLimit with a configured store', () => {
+  afterEach(() => {
+    resetRuntimeOptions();
+  });
+
+  it('should use the rateLimitStore option', async () => {
+    const client = new FakeScriptClient();
+    client.reply = [0, 0, Date.now() + 30000];
+    setRuntimeOptions({ rateLimitStore: new RedisRateLimitStore(client) });
+    const request = new Request('https://example.com/auth', {
+      headers: { 'x-forwarded-for': '203.0.113.5' }
+    });
+
+    const result = await checkRateLimit(request, { windowMs: 60000, maxRequests: 5, algorithm: 'token-bucket' });
+
+    expect(result).toMatchObject({ success: false, limit: 5, remaining: 0, retryAfter: 30 });
+    expect(client.calls[0].args[0]).toBe('stack-auth:ratelimit:token-bucket:ip:203.0.113.5');
+  });
+
+  it('should validate the rateLimitStore option', () => {
+    expect(validateStackAuthOptions({ rateLimitStore: new InMemoryRateLimitStore() }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ rateLimitStore: {} as never }).errors)
+      .toContain('rateLimitStore must implement increment and reset');
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Declarative route protection tests
+ *
+ * Covers glob matching and the middleware applying the `protect` option
+ * with the same 401-or-redirect split as requireAuth.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import { globToRegExp, matchesPattern, findProtectRule } from '../../src/server/route-protection.js';
+import { clearUserGrantsCache } from '../../src/server/authorization.js';
+import { requireAuth } from '../../src/server.js';
+import { LRUSessionCacheStore } from '../../src/server/session-cache.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+import type { ProtectRule } from '../../src/types.js';
+
+vi.mock('astro:middleware', () => ({
+  defineMiddleware: vi.fn((middleware) => middleware)
+}));
+
+describe('glob matching', () => {
+  it('should match single and multiple segments', () => {
+    expect(matchesPattern('/dashboard/settings', '/dashboard/*')).toBe(true);
+    expect(matchesPattern('/dashboard/settings/profile', '/dashboard/*')).toBe(false);
+    expect(matchesPattern('/dashboard/settings/profile', '/dashboard/**')).toBe(true);
+    expect(matchesPattern('/api/admin/users/42', '/api/*/users/*')).toBe(true);
+  });
+
+  it('should match the base path of a trailing /**', () => {
+    expect(matchesPattern('/dashboard', '/dashboard/**')).toBe(true);
+    expect(matchesPattern('/dashboard/', '/dashboard/**')).toBe(true);
+    expect(matchesPattern('/dashboards', '/dashboard/**')).toBe(false);
+  });
+
+  it('should treat other characters literally', () => {
+    expect(globToRegExp('/files/report.pdf').test('/files/reportXpdf')).toBe(false);
+    expect(matchesPattern('/v1/items', ['/v?/items', '/other'])).toBe(true);
+  });
+
+  it('should use the first matching rule', () => {
+    const rules: ProtectRule[] = [
+      { pattern: '/dashboard/help', public: true },
+      { pattern: '/dashboard/**' }
+    ];
+
+    expect(findProtectRule('/dashboard/help', rules)?.public).toBe(true);
+    expect(findProtectRule('/dashboard/billing', rules)).toBe(rules[1]);
+    expect(findProtectRule('/about', rules)).toBeNull();
+  });
+
+  it('should validate protect rules', () => {
+    expect(validateStackAuthOptions({ protect: [{ pattern: '/dashboard/**' }] }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ protect: [{ pattern: 'dashboard' }] }).errors)
+      .toContain('protect[0].pattern must be a path glob starting with "/"');
+  });
+});
+
+describe.sequential('middleware with protect rules', () => {
+  let originalFetch: typeof global.fetch;
+  let next: ReturnType<typeof vi.fn>;
+
+  const protect: ProtectRule[] = [
+    { pattern: '/dashboard/public/**', public: true },
+    { pattern: '/dashboard/**', redirectTo: '/login' },
+    { pattern: '/api/admin/**', permission: 'admin' }
+  ];
+
+  const createContext = (path: string, cookie: string = '') => ({
+    request: new Request(`http://localhost:3000${path}`, {
+      headers: { cookie, 'x-forwarded-for': '203.0.113.20' }
+    }),
+    url: new URL(`http://localhost:3000${path}`),
+    locals: {} as any,
+    redirect: vi.fn((url: string) => new Response(null, { status: 302, headers: { Location: url } }))
+  }) as unknown as APIContext;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    // "admin-token" belongs to a user holding the admin permission, "member-token" to one without
+    global.fetch = vi.fn(async (url: string, init: RequestInit) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname.endsWith('/project-permissions')) {
+        const items = searchParams.get('user_id') === 'user-admin' ? [{ id: 'admin', userId: 'user-admin' }] : [];
+        return new Response(JSON.stringify({ items }), { status: 200 });
+      }
+
+      const token = new Headers(init.headers).get('X-Stack-Access-Token');
+      const userId = token === 'admin-token' ? 'user-admin' : 'user-member';
+      const body = pathname.endsWith('/auth/session')
+        ? { id: `session-${userId}`, userId, expiresAt: '2099-01-01T00:00:00Z', isActive: true }
+        : { id: userId, email: `${userId}@example.com`, emailVerified: true, createdAt: '2024-01-01T00:00:00Z', serverMetadata: {} };
+      return new Response(JSON.stringify(body), { status: 200 });
+    }) as any;
+    next = vi.fn().mockResolvedValue(new Response('page'));
+
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    setRuntimeOptions({ protect, sessionCache: new LRUSessionCacheStore() });
+    clearUserGrantsCache();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should redirect anonymous page requests to the rule sign-in URL', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const context = createContext('/dashboard/billing');
+
+    const response: Response = await (onRequest as any)(context, next);
+
+    expect(response.status).toBe(302);
+    expect(context.redirect).toHaveBeenCalledWith('/login?redirect=%2Fdashboard%2Fbilling');
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should not count page views against the sign-in rate limit', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 25; i++) {
+      statuses.push((await (onRequest as any)(createContext('/dashboard/billing'), next)).status);
+    }
+
+    expect(new Set(statuses)).toEqual(new Set([302]));
+  });
+
+  it('should answer 401 for anonymous API requests', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+
+    const response: Response = await (onRequest as any)(createContext('/api/admin/users'), next);
+
+    expect(response.status).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should let signed-in users through', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+
+    const response: Response = await (onRequest as any)(
+      createContext('/dashboard/billing', 'stack-auth-access-token=member-token'),
+      next
+    );
+
+    expect(await response.text()).toBe('page');
+  });
+
+  it('should enforce permissions with 403 for API routes', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+
+    const denied: Response = await (onRequest as any)(
+      createContext('/api/admin/users', 'stack-auth-access-token=member-token'),
+      next
+    );
+    const allowed: Response = await (onRequest as any)(
+      createContext('/api/admin/users', 'stack-auth-access-token=admin-token'),
+      next
+    );
+
+    expect(denied.status).toBe(403);
+    expect(allowed.status).toBe(200);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave public and unmatched routes open', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+
+    await (onRequest as any)(createContext('/dashboard/public/pricing'), next);
+    await (onRequest as any)(createContext('/about'), next);
+    await (onRequest as any)(createContext('/handler/signin'), next);
+
+    expect(next).toHaveBeenCalledTimes(3);
+  });
+
+  it('should send the redirect a page throws from requireAuth', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const context = createContext('/about');
+    const page = vi.fn(async () => {
+      await requireAuth(context);
+      return new Response('page');
+    });
+
+    const response: Response = await (onRequest as any)(context, page);
+
+    expect(page).toHaveBeenCalledTimes(1);
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('/handler/signin?redirect=%2Fabout');
+  });
+
+  it('should keep protected routes closed when configuration is missing', async () => {
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { onRequest } = await import('../../src/middleware.js');
+
+    const response: Response = await (onRequest as any)(createContext('/api/admin/users'), next);
+
+    expect(response.status).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should refuse every request when the options built into the server cannot be loaded', async () => {
+    resetRuntimeOptions();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.doMock('virtual:astro-stack-auth/options', () => {
+      throw new Error('Cannot find module');
+    });
+    try {
+      const { onRequest } = await import('../../src/middleware.js');
+
+      const response: Response = await (onRequest as any)(createContext('/about'), next);
+
+      expect(response.status).toBe(503);
+      expect(next).not.toHaveBeenCalled();
+    } finally {
+      vi.doUnmock('virtual:astro-stack-auth/options');
+    }
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Runtime options in the server build
+ *
+ * Covers the options module generated by the integration's Vite plugin and
+ * the middleware reading it in a process where `astroStackAuth()` never ran,
+ * as in a production server.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import type { Plugin } from 'vite';
+import astroStackAuth from '../../src/index.js';
+import { LRUSessionCacheStore } from '../../src/server/session-cache.js';
+import { serializeRuntimeOptions, createRuntimeOptionsPlugin } from '../../src/runtime-options-plugin.js';
+import { getRuntimeOptions, resetRuntimeOptions, RUNTIME_OPTIONS_MODULE_ID } from '../../src/runtime-options.js';
+import { astroTestUtils } from '../setup';
+
+const { builtStore } = vi.hoisted(() => ({ builtStore: { get: async () => null, set: async () => {}, delete: async () => {}, clear: async () => {} } }));
+
+vi.mock('astro:middleware', () => ({
+  defineMiddleware: vi.fn((middleware) => middleware)
+}));
+
+// What the plugin generates for a config with protect rules and a runtimeModule exporting a store
+vi.mock('virtual:astro-stack-auth/options', () => ({
+  options: {
+    protect: [{ pattern: '/dashboard/**', redirectTo: '/login' }],
+    sessionCache: builtStore
+  }
+}));
+
+const loadPluginModule = async (plugin: Plugin) => {
+  const resolved = (plugin.resolveId as any)(RUNTIME_OPTIONS_MODULE_ID);
+  const code: string = (plugin.load as any)(resolved);
+  return { resolved, code };
+};
+
+describe('options module', () => {
+  it('should write data options as source and report the others', async () => {
+    const { source, unserializable } = serializeRuntimeOptions({
+      protect: [{ pattern: ['/billing', '/billing/**'], role: 'owner' }],
+      cors: { origin: [/^https:\/\/[a-z]+\.example\.com$/i, 'https://app.example.com'], credentials: true },
+      trustedProxies: 2,
+      forbiddenUrl: undefined,
+      sessionCache: new LRUSessionCacheStore(),
+      audit: { chainSecret: 'secret', anomalyDetection: { onAnomaly: () => {} } }
+    });
+    const { code } = await loadPluginModule(createRuntimeOptionsPlugin(source));
+    const { options } = await import(`data:text/javascript,${encodeURIComponent(code)}`);
+
+    expect(unserializable).toEqual(['sessionCache', 'audit.anomalyDetection.onAnomaly']);
+    expect(options).toEqual({
+      protect: [{ pattern: ['/billing', '/billing/**'], role: 'owner' }],
+      cors: { origin: [/^https:\/\/[a-z]+\.example\.com$/i, 'https://app.example.com'], credentials: true },
+      trustedProxies: 2,
+      audit: { chainSecret: 'secret', anomalyDetection: {} }
+    });
+  });
+
+  it('should spread the runtime module over the data options', async () => {
+    const { resolved, code } = await loadPluginModule(createRuntimeOptionsPlugin('{ "trustedProxies": 1 }', '/app/src/auth-options.ts'));
+
+    expect(resolved).toBe(`\0${RUNTIME_OPTIONS_MODULE_ID}`);
+    expect(code).toContain('import runtimeOptions from "/app/src/auth-options.ts";');
+    expect(code).toContain('export const options = { ...{ "trustedProxies": 1 }, ...runtimeOptions };');
+  });
+});
+
+describe.sequential('integration setup', () => {
+  afterEach(() => {
+    resetRuntimeOptions();
+  });
+
+  it('should add the plugin and bundle the package for the server', () => {
+    const context = astroTestUtils.createIntegrationContext();
+
+    astroStackAuth({ skipValidation: true, addReactRenderer: false, trustedProxies: 1, runtimeModule: './src/auth-options.ts' })
+      .hooks['astro:config:setup']!(context);
+
+    const [[{ vite }]] = (context.updateConfig as ReturnType<typeof vi.fn>).mock.calls;
+    expect(vite.ssr.noExternal).toEqual(['astro-stack-auth']);
+    expect((vite.plugins[0].load as any)(`\0${RUNTIME_OPTIONS_MODULE_ID}`))
+      .toContain('import runtimeOptions from "/test/src/auth-options.ts";');
+  });
+
+  it('should refuse to build options that only exist in the config process', () => {
+    const context = { ...astroTestUtils.createIntegrationContext(), command: 'build' as const };
+
+    expect(() => astroStackAuth({ skipValidation: true, addReactRenderer: false, sessionCache: new LRUSessionCacheStore() })
+      .hooks['astro:config:setup']!(context)).toThrow(/sessionCache cannot be built into the server bundle/);
+  });
+});
+
+describe.sequential('middleware in a production server', () => {
+  const createContext = (path: string) => ({
+    request: new Request(`http://localhost:3000${path}`),
+    url: new URL(`http://localhost:3000${path}`),
+    locals: {} as any,
+    redirect: vi.fn((url: string) => new Response(null, { status: 302, headers: { Location: url } }))
+  }) as unknown as APIContext;
+
+  beforeEach(() => {
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    resetRuntimeOptions();
+  });
+
+  afterEach(() => {
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+  });
+
+  it('should apply the options built into the server bundle', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const next = vi.fn().mockResolvedValue(new Response('page'));
+
+    const response: Response = await (onRequest as any)(createContext('/dashboard'), next);
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('/login?redirect=%2Fdashboard');
+    expect(next).not.toHaveBeenCalled();
+    expect(getRuntimeOptions().sessionCache).toBe(builtStore);
+  });
+});
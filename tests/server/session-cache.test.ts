@@ -0,0 +1,376 @@
+/**
+ * Session cache store tests
+ *
+ * Tests the bounded LRU store, the Redis adapter against an in-process
+ * fake client, and the middleware using a configured store.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import {
+  LRUSessionCacheStore,
+  RedisSessionCacheStore,
+  createSessionCacheKey,
+  invalidateCachedSessionById,
+  clearCachedSessionInvalidations,
+  type CachedSession,
+  type RedisLikeClient
+} from '../../src/server/session-cache.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+vi.mock('astro:middleware', () => ({
+  defineMiddleware: vi.fn((middleware) => middleware)
+}));
+
+/**
+ * In-process stand-in for a Redis server supporting GET/SET PX/DEL/SCAN
+ */
+class FakeRedisClient implements RedisLikeClient {
+  data = new Map<string, { value: string; expiresAt: number }>();
+  // Every key ever set, so SCAN cursors stay valid while keys are deleted
+  private order: string[] = [];
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.data.get(key);
+    if (!entry) return null;
+    if (Date.now() >= entry.expiresAt) {
+      this.data.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<'OK'> {
+    expect(mode).toBe('PX');
+    if (!this.data.has(key)) this.order.push(key);
+    this.data.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    let removed = 0;
+    keys.forEach(key => {
+      if (this.data.delete(key)) removed++;
+    });
+    return removed;
+  }
+
+  // Only supports the `<escaped prefix>*` patterns the store sends
+  async scan(cursor: string, match: 'MATCH', pattern: string, count: 'COUNT', batchSize: number): Promise<[string, string[]]> {
+    const prefix = pattern.replace(/\*$/, '').replace(/\\(.)/g, '$1');
+    const start = Number(cursor);
+    const end = start + batchSize;
+    const keys = this.order.slice(start, end).filter(key => this.data.has(key) && key.startsWith(prefix));
+    return [end >= this.order.length ? '0' : String(end), keys];
+  }
+}
+
+const createEntry = (userId: string, timestamp: number = Date.now()): CachedSession => ({
+  user: {
+    id: userId,
+    email: `${userId}@example.com`,
+    emailVerified: true,
+    createdAt: '2024-01-01T00:00:00Z'
+  },
+  session: null,
+  timestamp
+});
+
+describe('LRUSessionCacheStore', () => {
+  it('should return cached entries within TTL', async () => {
+    const store = new LRUSessionCacheStore({ ttl: 60000 });
+    await store.set('a', createEntry('user-a'));
+
+    const cached = await store.get('a');
+    expect(cached?.user?.id).toBe('user-a');
+  });
+
+  it('should expire entries after TTL', async () => {
+    const store = new LRUSessionCacheStore({ ttl: 1000 });
+    await store.set('a', createEntry('user-a', Date.now() - 2000));
+
+    expect(await store.get('a')).toBeNull();
+    expect(store.size()).toBe(0);
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    const store = new LRUSessionCacheStore({ maxEntries: 2 });
+    await store.set('a', createEntry('user-a'));
+    await store.set('b', createEntry('user-b'));
+
+    // Touch "a" so "b" becomes least recently used
+    await store.get('a');
+    await store.set('c', createEntry('user-c'));
+
+    expect(store.size()).toBe(2);
+    expect(await store.get('a')).not.toBeNull();
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('c')).not.toBeNull();
+  });
+
+  it('should delete and clear entries', async () => {
+    const store = new LRUSessionCacheStore();
+    await store.set('a', createEntry('user-a'));
+    await store.set('b', createEntry('user-b'));
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeNull();
+
+    await store.clear();
+    expect(store.size()).toBe(0);
+  });
+});
+
+describe('RedisSessionCacheStore', () => {
+  it('should round-trip entries through the client with a key prefix', async () => {
+    const client = new FakeRedisClient();
+    const store = new RedisSessionCacheStore(client, { keyPrefix: 'test:', ttl: 60000 });
+
+    await store.set('a', createEntry('user-a'));
+
+    expect(client.data.has('test:a')).toBe(true);
+    expect((await store.get('a'))?.user?.id).toBe('user-a');
+  });
+
+  it('should let two store instances share one cache', async () => {
+    const client = new FakeRedisClient();
+    const instanceA = new RedisSessionCacheStore(client);
+    const instanceB = new RedisSessionCacheStore(client);
+
+    await instanceA.set('shared', createEntry('user-shared'));
+
+    expect((await instanceB.get('shared'))?.user?.id).toBe('user-shared');
+  });
+
+  it('should drop stale and corrupt entries', async () => {
+    const client = new FakeRedisClient();
+    const store = new RedisSessionCacheStore(client, { ttl: 1000 });
+
+    await client.set('stack-auth:session:stale', JSON.stringify(createEntry('user', Date.now() - 5000)), 'PX', 60000);
+    await client.set('stack-auth:session:corrupt', '{not json', 'PX', 60000);
+
+    expect(await store.get('stale')).toBeNull();
+    expect(await store.get('corrupt')).toBeNull();
+    expect(client.data.size).toBe(0);
+  });
+
+  it('should clear only prefixed keys', async () => {
+    const client = new FakeRedisClient();
+    const store = new RedisSessionCacheStore(client);
+
+    await store.set('a', createEntry('user-a'));
+    await client.set('other:key', 'value', 'PX', 60000);
+
+    await store.clear();
+
+    expect(await store.get('a')).toBeNull();
+    expect(client.data.has('other:key')).toBe(true);
+  });
+
+  it('should clear large caches in SCAN batches', async () => {
+    const client = new FakeRedisClient();
+    const store = new RedisSessionCacheStore(client, { keyPrefix: 'app[1]:' });
+    const deletedBatches: string[][] = [];
+    const del = client.del.bind(client);
+    client.del = async (...keys: string[]) => {
+      deletedBatches.push(keys);
+      return del(...keys);
+    };
+
+    for (let i = 0; i < 250; i++) {
+      await store.set(`key-${i}`, createEntry(`user-${i}`));
+    }
+    // Matched by the unescaped glob app[1]:*
+    await client.set('app1:key', 'value', 'PX', 60000);
+
+    await store.clear();
+
+    expect(deletedBatches.map(keys => keys.length)).toEqual([100, 100, 50]);
+    expect(Array.from(client.data.keys())).toEqual(['app1:key']);
+  });
+});
+
+describe('createSessionCacheKey', () => {
+  // Two JWTs with an identical header and a long shared claim prefix
+  const header = 'eyJhbGciOiJFUzI1NiIsImtpZCI6ImtleS0xIiwidHlwIjoiSldUIn0';
+  const sharedClaims = 'eyJpc3MiOiJodHRwczovL2FwaS5zdGFjay1hdXRoLmNvbSIsImF1ZCI6InByb2plY3Qi';
+  const tokenA = `${header}.${sharedClaims}LCJzdWIiOiJ1c2VyLWEifQ.signature-a`;
+  const tokenB = `${header}.${sharedClaims}LCJzdWIiOiJ1c2VyLWIifQ.signature-b`;
+
+  it('should produce different keys for tokens sharing a long prefix', () => {
+    expect(tokenA.slice(0, 64)).toBe(tokenB.slice(0, 64));
+    expect(createSessionCacheKey(tokenA, 'secret')).not.toBe(createSessionCacheKey(tokenB, 'secret'));
+  });
+
+  it('should be deterministic for the same token and secret', () => {
+    expect(createSessionCacheKey(tokenA, 'secret')).toBe(createSessionCacheKey(tokenA, 'secret'));
+  });
+
+  it('should depend on the secret and not expose the token', () => {
+    const key = createSessionCacheKey(tokenA, 'secret');
+    expect(key).not.toBe(createSessionCacheKey(tokenA, 'other-secret'));
+    expect(key).not.toContain(header);
+    expect(key).toMatch(/^session:[0-9a-f]{64}$/);
+  });
+});
+
+describe('sessionCache option validation', () => {
+  it('should accept a store implementation', () => {
+    const result = validateStackAuthOptions({ sessionCache: new LRUSessionCacheStore() });
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should reject objects that are not stores', () => {
+    const result = validateStackAuthOptions({ sessionCache: {} as any });
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('sessionCache must implement get, set, delete and clear');
+  });
+});
+
+describe.sequential('middleware with a configured session cache', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let originalFetch: typeof global.fetch;
+
+  const createContext = (cookie: string, path: string = '/dashboard', method: string = 'GET') => ({
+    request: new Request(`http://localhost:3000${path}`, { method, headers: { cookie } }),
+    url: new URL(`http://localhost:3000${path}`),
+    locals: {} as any
+  }) as unknown as APIContext;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    // Resolve the user from the token so different tokens map to different users
+    mockFetch = vi.fn(async (url: string, init: RequestInit) => {
+      const token = new Headers(init.headers).get('X-Stack-Access-Token');
+      const userId = token?.startsWith('token-') ? 'user-from-api' : `user-for-${token?.slice(-8)}`;
+      const body = url.endsWith('/users/me')
+        ? createEntry(userId).user
+        : { id: 'session-1', userId, expiresAt: '2099-01-01T00:00:00Z', isActive: true };
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+    global.fetch = mockFetch as any;
+
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+  });
+
+  it('should read and write sessions through the configured store', async () => {
+    const client = new FakeRedisClient();
+    setRuntimeOptions({ sessionCache: new RedisSessionCacheStore(client) });
+
+    const { onRequest } = await import('../../src/middleware.js');
+    const next = vi.fn().mockResolvedValue(new Response('OK'));
+
+    const first = createContext('stack-auth-access-token=token-one');
+    await (onRequest as any)(first, next);
+    expect(first.locals.user?.id).toBe('user-from-api');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(client.data.size).toBe(1);
+
+    // Second request with the same token is served from the shared store
+    const second = createContext('stack-auth-access-token=token-one');
+    await (onRequest as any)(second, next);
+    expect(second.locals.user?.id).toBe('user-from-api');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop serving a session revoked by another instance sharing the store', async () => {
+    const client = new FakeRedisClient();
+    setRuntimeOptions({ sessionCache: new RedisSessionCacheStore(client) });
+
+    const { onRequest } = await import('../../src/middleware.js');
+    const next = vi.fn().mockResolvedValue(new Response('OK'));
+    await (onRequest as any)(createContext('stack-auth-access-token=token-four'), next);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    // Revoked elsewhere: only the marker in the shared store remains, not this process's memory
+    await invalidateCachedSessionById('session-1');
+    clearCachedSessionInvalidations();
+    expect(client.data.has('stack-auth:session:invalidated:session:session-1')).toBe(true);
+
+    await (onRequest as any)(createContext('stack-auth-access-token=token-four'), next);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should treat store failures as cache misses', async () => {
+    setRuntimeOptions({
+      sessionCache: {
+        get: vi.fn().mockRejectedValue(new Error('connection refused')),
+        set: vi.fn().mockRejectedValue(new Error('connection refused')),
+        delete: vi.fn(),
+        clear: vi.fn()
+      }
+    });
+
+    const { onRequest } = await import('../../src/middleware.js');
+    const next = vi.fn().mockResolvedValue(new Response('OK'));
+    const context = createContext('stack-auth-access-token=token-two');
+
+    await (onRequest as any)(context, next);
+
+    expect(context.locals.user?.id).toBe('user-from-api');
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should never share an entry between JWTs with an identical prefix', async () => {
+    const store = new LRUSessionCacheStore();
+    setRuntimeOptions({ sessionCache: store });
+
+    const { onRequest } = await import('../../src/middleware.js');
+    const next = vi.fn().mockResolvedValue(new Response('OK'));
+    const prefix = 'eyJhbGciOiJFUzI1NiIsInR5cCI6IkpXVCJ9.eyJpc3MiOiJzdGFjay1hdXRoIiwic3ViIjoi';
+
+    const first = createContext(`stack-auth-access-token=${prefix}aaaaaaaa`);
+    await (onRequest as any)(first, next);
+    const second = createContext(`stack-auth-access-token=${prefix}bbbbbbbb`);
+    await (onRequest as any)(second, next);
+
+    expect(first.locals.user?.id).toBe('user-for-aaaaaaaa');
+    expect(second.locals.user?.id).toBe('user-for-bbbbbbbb');
+    expect(store.size()).toBe(2);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not cache anonymous requests', async () => {
+    const store = new LRUSessionCacheStore();
+    setRuntimeOptions({ sessionCache: store });
+
+    const { onRequest } = await import('../../src/middleware.js');
+    const next = vi.fn().mockResolvedValue(new Response('OK'));
+    const context = createContext('theme=dark');
+
+    await (onRequest as any)(context, next);
+
+    expect(context.locals.user).toBeNull();
+    expect(store.size()).toBe(0);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['/handler/signout', 'POST'],
+    ['/handler/auth/signout', 'POST'],
+    ['/handler/auth/oauth/token', 'POST'],
+    ['/handler/auth/sessions/current', 'DELETE'],
+    ['/handler/auth/sessions/current/refresh', 'POST']
+  ])('should invalidate the cached session on %s', async (path, method) => {
+    const store = new LRUSessionCacheStore();
+    setRuntimeOptions({ sessionCache: store });
+
+    const { onRequest } = await import('../../src/middleware.js');
+    const next = vi.fn().mockResolvedValue(new Response('OK'));
+
+    await (onRequest as any)(createContext('stack-auth-access-token=token-three'), next);
+    expect(store.size()).toBe(1);
+
+    await (onRequest as any)(createContext('stack-auth-access-token=token-three', path, method), next);
+    expect(store.size()).toBe(0);
+  });
+});
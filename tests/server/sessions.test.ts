@@ -0,0 +1,198 @@
+/**
+ * Active sessions tests
+ *
+ * Covers listing and revoking sessions through the REST client and the
+ * injected sessions endpoint, and revoked sessions leaving the middleware
+ * cache immediately.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import { StackAuthRestClient } from '../../src/rest-api/client.js';
+import { matchSessionsEndpoint } from '../../src/api/sessions.js';
+import {
+  LRUSessionCacheStore,
+  clearCachedSessionInvalidations
+} from '../../src/server/session-cache.js';
+import { auditLogger, AuditEventType } from '../../src/server/audit.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+
+vi.mock('astro:middleware', () => ({
+  defineMiddleware: vi.fn((middleware) => middleware)
+}));
+
+describe.sequential('active sessions', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let originalFetch: typeof global.fetch;
+  let revoked: Set<string>;
+
+  const config = {
+    projectId: 'test-project-id',
+    publishableClientKey: 'pk_test_key',
+    secretServerKey: 'sk_test_key'
+  };
+
+  const sessions = [
+    { id: 'session-laptop', userId: 'user-1', expiresAt: '2099-01-01T00:00:00Z', isActive: true, userAgent: 'Firefox' },
+    { id: 'session-phone', userId: 'user-1', expiresAt: '2099-01-01T00:00:00Z', isActive: true, userAgent: 'Safari' }
+  ];
+
+  const createContext = (method: string, stack: string, headers: Record<string, string> = {}) => ({
+    request: new Request(`http://localhost:3000/handler/${stack}`, {
+      method,
+      headers: { cookie: 'stack-auth-access-token=laptop-token', 'x-forwarded-for': '203.0.113.40', ...headers }
+    }),
+    url: new URL(`http://localhost:3000/handler/${stack}`),
+    params: { stack },
+    locals: {} as any
+  }) as unknown as APIContext;
+
+  // Run the middleware, then the injected handler, as Astro would
+  const handle = async (context: APIContext): Promise<Response> => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const handler = await import('../../src/api/handler.js');
+    const method = context.request.method as 'GET' | 'DELETE' | 'POST';
+    return (onRequest as any)(context, () => handler[method](context));
+  };
+
+  const userLookups = () =>
+    mockFetch.mock.calls.filter(([url]) => new URL(url).pathname.endsWith('/users/me')).length;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    revoked = new Set();
+    mockFetch = vi.fn(async (url: string, init: RequestInit) => {
+      const { pathname } = new URL(url);
+      if (revoked.has('session-laptop') && !pathname.includes('/auth/sessions/')) {
+        return new Response(JSON.stringify({ error: { code: 'UNAUTHORIZED', message: 'Session revoked' } }), { status: 401 });
+      }
+      if (pathname.endsWith('/auth/sessions')) {
+        return new Response(JSON.stringify({ items: sessions }), { status: 200 });
+      }
+      if (pathname.includes('/auth/sessions/') && init.method === 'DELETE') {
+        const sessionId = decodeURIComponent(pathname.split('/').pop() || '');
+        if (!sessions.some(session => session.id === sessionId)) {
+          return new Response(JSON.stringify({ error: { code: 'NOT_FOUND', message: 'No such session' } }), { status: 404 });
+        }
+        revoked.add(sessionId);
+        return new Response(JSON.stringify({ success: true }), { status: 200 });
+      }
+      if (pathname.endsWith('/auth/session')) {
+        return new Response(JSON.stringify(sessions[0]), { status: 200 });
+      }
+      return new Response(JSON.stringify({
+        id: 'user-1',
+        email: 'user-1@example.com',
+        emailVerified: true,
+        createdAt: '2024-01-01T00:00:00Z'
+      }), { status: 200 });
+    });
+    global.fetch = mockFetch as any;
+
+    vi.stubEnv('STACK_PROJECT_ID', config.projectId);
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', config.publishableClientKey);
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', config.secretServerKey);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    setRuntimeOptions({ sessionCache: new LRUSessionCacheStore() });
+    clearCachedSessionInvalidations();
+    auditLogger.clearBuffer();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should list and revoke sessions through the REST client', async () => {
+    const client = new StackAuthRestClient(config);
+    const request = new Request('http://localhost:3000/', {
+      headers: { cookie: 'stack-auth-access-token=laptop-token' }
+    });
+
+    expect(await client.listSessions(request)).toHaveLength(2);
+    await client.revokeSession(request, 'session-phone');
+
+    const [url, init] = mockFetch.mock.calls[1];
+    expect(new URL(url).pathname).toBe('/api/v1/auth/sessions/session-phone');
+    expect(init.method).toBe('DELETE');
+    expect(new Headers(init.headers).get('X-Stack-Access-Token')).toBe('laptop-token');
+  });
+
+  it('should only match the sessions endpoint', () => {
+    expect(matchSessionsEndpoint('sessions')).toBeNull();
+    expect(matchSessionsEndpoint('sessions/session%2F1')).toBe('session/1');
+    expect(matchSessionsEndpoint('auth/sessions')).toBeUndefined();
+    expect(matchSessionsEndpoint('sessions/a/b')).toBeUndefined();
+  });
+
+  it('should list sessions and flag the current one', async () => {
+    const response = await handle(createContext('GET', 'sessions'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    const body = await response.json();
+    expect(body.items.map((session: { id: string; isCurrent: boolean }) => [session.id, session.isCurrent])).toEqual([
+      ['session-laptop', true],
+      ['session-phone', false]
+    ]);
+  });
+
+  it('should require authentication', async () => {
+    const context = createContext('GET', 'sessions');
+    context.request.headers.delete('cookie');
+
+    const response = await handle(context);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should revoke another device and audit it', async () => {
+    const response = await handle(createContext('DELETE', 'sessions/session-phone', { origin: 'http://localhost:3000' }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.getSetCookie().filter(cookie => !cookie.startsWith('stack-auth-csrf-token='))).toEqual([]);
+    expect(revoked.has('session-phone')).toBe(true);
+    const entry = auditLogger.getRecentLogs().find(log => log.eventType === AuditEventType.SESSION_REVOKED);
+    expect(entry).toMatchObject({ userId: 'user-1', details: { sessionId: 'session-phone' } });
+  });
+
+  it('should reject cross-origin revocations and unknown sessions', async () => {
+    const crossOrigin = await handle(createContext('DELETE', 'sessions/session-phone', { origin: 'https://evil.example' }));
+    const unknown = await handle(createContext('DELETE', 'sessions/session-missing'));
+
+    expect(crossOrigin.status).toBe(403);
+    expect(unknown.status).toBe(404);
+    expect(revoked.size).toBe(0);
+  });
+
+  it('should drop a revoked session from the middleware cache immediately', async () => {
+    const page = createContext('GET', 'dashboard');
+    await handle(page);
+    expect(page.locals.user?.id).toBe('user-1');
+    const lookupsBefore = userLookups();
+
+    // Served from cache
+    await handle(createContext('GET', 'dashboard'));
+    expect(userLookups()).toBe(lookupsBefore);
+
+    const response = await handle(createContext('DELETE', 'sessions/session-laptop'));
+    expect(response.headers.get('Set-Cookie')).toContain('stack-auth-access-token=; Path=/; Max-Age=0');
+
+    const after = createContext('GET', 'dashboard');
+    await handle(after);
+    expect(userLookups()).toBe(lookupsBefore + 1);
+    expect(after.locals.user).toBeNull();
+  });
+
+  it('should clear cookies as Secure in production behind a TLS-terminating proxy', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    const response = await handle(createContext('DELETE', 'sessions/session-laptop'));
+
+    expect(response.headers.getSetCookie()).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^stack-auth-access-token=; Path=\/; Max-Age=0; .*Secure/)
+    ]));
+  });
+});
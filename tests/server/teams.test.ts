@@ -0,0 +1,220 @@
+/**
+ * Teams support tests
+ *
+ * Covers the team methods of the REST client against a mocked Stack Auth
+ * API and the middleware populating `Astro.locals.team`.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import { StackAuthRestClient } from '../../src/rest-api/client.js';
+import type { Team, User } from '../../src/rest-api/types.js';
+import { getSelectedTeam, clearTeamCache } from '../../src/server/teams.js';
+import { LRUSessionCacheStore } from '../../src/server/session-cache.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+
+vi.mock('astro:middleware', () => ({
+  defineMiddleware: vi.fn((middleware) => middleware)
+}));
+
+const acme: Team = { id: 'team-acme', displayName: 'Acme' };
+const globex: Team = { id: 'team-globex', displayName: 'Globex' };
+
+const createUser = (overrides: Partial<User> = {}): User => ({
+  id: 'user-1',
+  email: 'user-1@example.com',
+  emailVerified: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  ...overrides
+});
+
+describe.sequential('teams', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let originalFetch: typeof global.fetch;
+
+  const config = {
+    projectId: 'test-project-id',
+    publishableClientKey: 'pk_test_key',
+    secretServerKey: 'sk_test_key'
+  };
+
+  const createRequest = (cookie: string = 'stack-auth-access-token=member-token') =>
+    new Request('http://localhost:3000/api/teams', { headers: { cookie } });
+
+  const lastCall = () => {
+    const [url, init] = mockFetch.mock.calls[mockFetch.mock.calls.length - 1];
+    return {
+      url: new URL(url),
+      method: init.method,
+      headers: new Headers(init.headers),
+      body: init.body ? JSON.parse(init.body) : undefined
+    };
+  };
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    mockFetch = vi.fn(async (url: string, init: RequestInit) => {
+      const { pathname } = new URL(url);
+      if (pathname.endsWith('/teams') && init.method === 'GET') {
+        return new Response(JSON.stringify({ items: [acme, globex] }), { status: 200 });
+      }
+      if (pathname.endsWith('/team-member-profiles')) {
+        return new Response(JSON.stringify({
+          items: [{ userId: 'user-1', teamId: acme.id, displayName: 'Member' }]
+        }), { status: 200 });
+      }
+      if (pathname.endsWith('/team-invitations/send-code')) {
+        return new Response(JSON.stringify({ success: true, id: 'invitation-1' }), { status: 200 });
+      }
+      if (pathname.endsWith('/users/me')) {
+        const body = init.body ? JSON.parse(init.body as string) : {};
+        return new Response(JSON.stringify(createUser({ selectedTeamId: body.selected_team_id ?? acme.id })), { status: 200 });
+      }
+      if (pathname.includes('/teams')) {
+        const body = init.body ? JSON.parse(init.body as string) : {};
+        return new Response(JSON.stringify({ ...acme, ...body }), { status: 200 });
+      }
+      return new Response(JSON.stringify({ id: 'session-1', userId: 'user-1', expiresAt: '2099-01-01T00:00:00Z', isActive: true }), { status: 200 });
+    });
+    global.fetch = mockFetch as any;
+
+    vi.stubEnv('STACK_PROJECT_ID', config.projectId);
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', config.publishableClientKey);
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', config.secretServerKey);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    clearTeamCache();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe.sequential('REST client', () => {
+    it('should list the current user\'s teams with their access token', async () => {
+      const client = new StackAuthRestClient(config);
+
+      const teams = await client.listTeams(createRequest());
+
+      expect(teams).toEqual([acme, globex]);
+      const call = lastCall();
+      expect(call.url.searchParams.get('user_id')).toBe('me');
+      expect(call.headers.get('X-Stack-Access-Token')).toBe('member-token');
+    });
+
+    it('should require an access token for user-scoped team calls', async () => {
+      const client = new StackAuthRestClient(config);
+
+      await expect(client.listTeams(createRequest(''))).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      await expect(client.setSelectedTeam(createRequest(''), acme.id)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should create teams with the current user as creator', async () => {
+      const client = new StackAuthRestClient(config);
+
+      const team = await client.createTeam(createRequest(), { displayName: 'Initech' });
+
+      expect(team.displayName).toBe('Initech');
+      expect(lastCall()).toMatchObject({
+        method: 'POST',
+        body: { displayName: 'Initech', creator_user_id: 'me' }
+      });
+    });
+
+    it('should update teams with the server key', async () => {
+      const client = new StackAuthRestClient(config);
+
+      await client.updateTeam('team/acme', { displayName: 'Acme Corp' });
+
+      const call = lastCall();
+      expect(call.method).toBe('PATCH');
+      expect(call.url.pathname).toBe('/api/v1/teams/team%2Facme');
+      expect(call.headers.get('X-Stack-Secret-Server-Key')).toBe('sk_test_key');
+    });
+
+    it('should switch and clear the selected team', async () => {
+      const client = new StackAuthRestClient(config);
+
+      const user = await client.setSelectedTeam(createRequest(), globex.id);
+      expect(user.selectedTeamId).toBe(globex.id);
+      expect(lastCall()).toMatchObject({ method: 'PATCH', body: { selected_team_id: globex.id } });
+
+      await client.setSelectedTeam(createRequest(), null);
+      expect(lastCall().body).toEqual({ selected_team_id: null });
+    });
+
+    it('should invite members and list them', async () => {
+      const client = new StackAuthRestClient(config);
+
+      await client.inviteTeamMember(createRequest(), {
+        teamId: acme.id,
+        email: 'new@example.com',
+        callbackUrl: 'https://app.example.com/join'
+      });
+      expect(lastCall().body).toEqual({
+        team_id: acme.id,
+        email: 'new@example.com',
+        callback_url: 'https://app.example.com/join'
+      });
+
+      const members = await client.listTeamMembers(acme.id);
+      expect(members[0]).toMatchObject({ userId: 'user-1', teamId: acme.id });
+      expect(lastCall().url.searchParams.get('team_id')).toBe(acme.id);
+    });
+  });
+
+  describe.sequential('selected team', () => {
+    it('should use the team embedded in the user', async () => {
+      const team = await getSelectedTeam(createUser({ selectedTeamId: acme.id, selectedTeam: acme }));
+
+      expect(team).toBe(acme);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should fetch and cache teams known only by ID', async () => {
+      const user = createUser({ selectedTeamId: acme.id });
+
+      expect(await getSelectedTeam(user)).toMatchObject({ id: acme.id });
+      expect(await getSelectedTeam(user)).toMatchObject({ id: acme.id });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      clearTeamCache(acme.id);
+      await getSelectedTeam(user);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resolve to null without a selection or when the lookup fails', async () => {
+      expect(await getSelectedTeam(null)).toBeNull();
+      expect(await getSelectedTeam(createUser())).toBeNull();
+
+      mockFetch.mockResolvedValue(new Response('{}', { status: 404 }));
+      expect(await getSelectedTeam(createUser({ selectedTeamId: 'team-missing' }))).toBeNull();
+    });
+
+    it('should populate Astro.locals.team in the middleware', async () => {
+      setRuntimeOptions({ sessionCache: new LRUSessionCacheStore() });
+      const { onRequest } = await import('../../src/middleware.js');
+      const next = vi.fn().mockResolvedValue(new Response('page'));
+
+      const signedIn = {
+        request: createRequest(),
+        url: new URL('http://localhost:3000/dashboard'),
+        locals: {} as any
+      } as unknown as APIContext;
+      const anonymous = {
+        request: createRequest(''),
+        url: new URL('http://localhost:3000/dashboard'),
+        locals: {} as any
+      } as unknown as APIContext;
+
+      await (onRequest as any)(signedIn, next);
+      await (onRequest as any)(anonymous, next);
+
+      expect(signedIn.locals.team).toMatchObject({ id: acme.id });
+      expect(anonymous.locals.team).toBeNull();
+    });
+  });
+});
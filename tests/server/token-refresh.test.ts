@@ -0,0 +1,200 @@
+/**
+ * Automatic access token refresh tests
+ *
+ * Drives the middleware with expired or rejected access tokens and checks
+ * the refresh token exchange and the rotated Set-Cookie headers.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { APIContext } from 'astro';
+import { clearTokenRefreshes } from '../../src/server/token-refresh.js';
+import { serializeCookie, createTokenCookies } from '../../src/server/cookies.js';
+import { LRUSessionCacheStore } from '../../src/server/session-cache.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+
+vi.mock('astro:middleware', () => ({
+  defineMiddleware: vi.fn((middleware) => middleware)
+}));
+
+const createJwt = (claims: Record<string, unknown>) => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'ES256', typ: 'JWT' })}.${encode(claims)}.signature`;
+};
+
+const expiredToken = createJwt({ sub: 'user-123', exp: Math.floor(Date.now() / 1000) - 60 });
+
+describe('auth cookie serialization', () => {
+  it('should serialize cookie attributes', () => {
+    expect(serializeCookie('name', 'a b', { maxAge: 60, httpOnly: true, secure: true, sameSite: 'lax' }))
+      .toBe('name=a%20b; Path=/; Max-Age=60; HttpOnly; Secure; SameSite=Lax');
+  });
+
+  it('should only rewrite the refresh cookie when it was rotated', () => {
+    const rotated = createTokenCookies(
+      { access_token: 'new-access', refresh_token: 'new-refresh', token_type: 'Bearer', expires_in: 600 },
+      { secure: false }
+    );
+    const accessOnly = createTokenCookies(
+      { access_token: 'new-access', refresh_token: '', token_type: 'Bearer', expires_in: 600 },
+      { secure: false }
+    );
+
+    expect(rotated).toHaveLength(2);
+    expect(rotated[0]).toContain('stack-auth-access-token=new-access');
+    expect(rotated[0]).toContain('Max-Age=600');
+    expect(rotated[1]).toContain('stack-auth-refresh-token=new-refresh');
+    expect(accessOnly).toHaveLength(1);
+  });
+});
+
+describe.sequential('middleware token refresh', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let originalFetch: typeof global.fetch;
+  let exchangeCount: number;
+
+  const createContext = (cookie: string, path: string = '/dashboard') => ({
+    request: new Request(`http://localhost:3000${path}`, { method: 'GET', headers: { cookie } }),
+    url: new URL(`http://localhost:3000${path}`),
+    locals: {} as any
+  }) as unknown as APIContext;
+
+  // Set-Cookie headers for the auth tokens, ignoring the CSRF cookie
+  const tokenCookies = (response: Response): string[] =>
+    response.headers.getSetCookie().filter(cookie => !cookie.startsWith('stack-auth-csrf-token='));
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    exchangeCount = 0;
+
+    // Stack Auth accepts only "fresh-access-token"; the refresh token "valid-refresh" can be exchanged
+    mockFetch = vi.fn(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/auth/oauth/token')) {
+        exchangeCount++;
+        const { refresh_token } = JSON.parse(String(init.body));
+        // Yield so concurrent requests overlap with the exchange
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return refresh_token === 'valid-refresh'
+          ? new Response(JSON.stringify({
+            access_token: 'fresh-access-token',
+            refresh_token: 'rotated-refresh',
+            token_type: 'Bearer',
+            expires_in: 600
+          }), { status: 200 })
+          : new Response(JSON.stringify({ error: { code: 'INVALID_GRANT', message: 'Invalid refresh token' } }), { status: 401 });
+      }
+
+      const token = new Headers(init.headers).get('X-Stack-Access-Token');
+      if (token !== 'fresh-access-token') {
+        return new Response(JSON.stringify({ error: { code: 'UNAUTHORIZED', message: 'Invalid token' } }), { status: 401 });
+      }
+
+      const body = url.endsWith('/users/me')
+        ? { id: 'user-123', email: 'user@example.com', emailVerified: true, createdAt: '2024-01-01T00:00:00Z' }
+        : { id: 'session-1', userId: 'user-123', expiresAt: '2099-01-01T00:00:00Z', isActive: true };
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+    global.fetch = mockFetch as any;
+
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+    setRuntimeOptions({ sessionCache: new LRUSessionCacheStore() });
+    clearTokenRefreshes();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+  });
+
+  it('should refresh an expired access token and rotate the cookies', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const context = createContext(`stack-auth-access-token=${expiredToken}; stack-auth-refresh-token=valid-refresh`);
+
+    const response: Response = await (onRequest as any)(context, vi.fn().mockResolvedValue(new Response('OK')));
+
+    expect(context.locals.user?.id).toBe('user-123');
+    expect(exchangeCount).toBe(1);
+
+    // The expired token is never sent to Stack Auth
+    const sentTokens = mockFetch.mock.calls.map(([, init]) => new Headers(init.headers).get('X-Stack-Access-Token'));
+    expect(sentTokens).not.toContain(expiredToken);
+
+    const cookies = tokenCookies(response);
+    expect(cookies).toHaveLength(2);
+    expect(cookies[0]).toMatch(/^stack-auth-access-token=fresh-access-token;.*HttpOnly/);
+    expect(cookies[1]).toMatch(/^stack-auth-refresh-token=rotated-refresh;/);
+  });
+
+  it('should refresh when Stack Auth rejects the access token', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const context = createContext('stack-auth-access-token=revoked-token; stack-auth-refresh-token=valid-refresh');
+
+    const response: Response = await (onRequest as any)(context, vi.fn().mockResolvedValue(new Response('OK')));
+
+    expect(context.locals.user?.id).toBe('user-123');
+    expect(tokenCookies(response)[0]).toContain('fresh-access-token');
+  });
+
+  it('should refresh when only the refresh token is present', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const context = createContext('stack-auth-refresh-token=valid-refresh');
+
+    await (onRequest as any)(context, vi.fn().mockResolvedValue(new Response('OK')));
+
+    expect(context.locals.user?.id).toBe('user-123');
+  });
+
+  it('should share one exchange between concurrent requests', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const contexts = [1, 2, 3].map(() =>
+      createContext(`stack-auth-access-token=${expiredToken}; stack-auth-refresh-token=valid-refresh`)
+    );
+
+    const responses: Response[] = await Promise.all(contexts.map(context =>
+      (onRequest as any)(context, vi.fn().mockResolvedValue(new Response('OK')))
+    ));
+
+    expect(exchangeCount).toBe(1);
+    contexts.forEach(context => expect(context.locals.user?.id).toBe('user-123'));
+    responses.forEach(response => expect(tokenCookies(response)).toHaveLength(2));
+  });
+
+  it('should leave the request signed out when the refresh token is rejected', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const context = createContext(`stack-auth-access-token=${expiredToken}; stack-auth-refresh-token=stale-refresh`);
+
+    const response: Response = await (onRequest as any)(context, vi.fn().mockResolvedValue(new Response('OK')));
+
+    expect(context.locals.user).toBeNull();
+    expect(tokenCookies(response)).toHaveLength(0);
+  });
+
+  it('should write cookies onto redirect responses', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const context = createContext(`stack-auth-access-token=${expiredToken}; stack-auth-refresh-token=valid-refresh`);
+
+    const response: Response = await (onRequest as any)(
+      context,
+      vi.fn().mockResolvedValue(Response.redirect('http://localhost:3000/next', 302))
+    );
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('http://localhost:3000/next');
+    expect(tokenCookies(response)).toHaveLength(2);
+  });
+
+  it('should not refresh on Stack Auth session endpoints', async () => {
+    const { onRequest } = await import('../../src/middleware.js');
+    const context = createContext(
+      'stack-auth-refresh-token=valid-refresh',
+      '/handler/auth/sessions/current/refresh'
+    );
+
+    await (onRequest as any)(context, vi.fn().mockResolvedValue(new Response('OK')));
+
+    expect(exchangeCount).toBe(0);
+    expect(context.locals.user).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * OpenTelemetry tracing tests
+ *
+ * Covers the spans created for Stack Auth REST API calls, the API proxy
+ * and middleware session resolution with an in-memory tracer, and the
+ * trace context sent on outbound requests.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { APIContext } from 'astro';
+import { StackAuthRestClient } from '../../src/rest-api/client.js';
+import { GET } from '../../src/api/handler.js';
+import { LRUSessionCacheStore } from '../../src/server/session-cache.js';
+import { SpanStatusCode, type TracingSpan, type TracingSpanOptions, type TracingTracer } from '../../src/server/tracing.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+vi.mock('astro:middleware', () => ({
+  defineMiddleware: vi.fn((middleware) => middleware)
+}));
+
+interface FinishedSpan {
+  name: string;
+  kind?: number;
+  parentSpanId?: string;
+  spanId: string;
+  traceId: string;
+  attributes: Record<string, unknown>;
+  status?: { code: number; message?: string };
+  exceptions: unknown[];
+}
+
+/**
+ * Tracer keeping finished spans in memory, with the active span tracked
+ * across awaits like OpenTelemetry's async context manager
+ */
+class InMemoryTracer implements TracingTracer {
+  finished: FinishedSpan[] = [];
+  private active = new AsyncLocalStorage<FinishedSpan>();
+  private nextId = 1;
+
+  startActiveSpan<F extends (span: TracingSpan) => unknown>(name: string, options: TracingSpanOptions, fn: F): ReturnType<F> {
+    const parent = this.active.getStore();
+    const record: FinishedSpan = {
+      name,
+      kind: options.kind,
+      parentSpanId: parent?.spanId,
+      spanId: (this.nextId++).toString(16).padStart(16, '0'),
+      traceId: parent?.traceId ?? '4bf92f3577b34da6a3ce929d0e0e4736',
+      attributes: { ...options.attributes },
+      exceptions: []
+    };
+    const span: TracingSpan = {
+      setAttribute: (key, value) => { record.attributes[key] = value; },
+      setStatus: status => { record.status = status; },
+      recordException: exception => { record.exceptions.push(exception); },
+      spanContext: () => ({ traceId: record.traceId, spanId: record.spanId, traceFlags: 1 }),
+      end: () => { this.finished.push(record); }
+    };
+    return this.active.run(record, () => fn(span)) as ReturnType<F>;
+  }
+}
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+describe.sequential('tracing', () => {
+  let tracer: InMemoryTracer;
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let originalFetch: typeof global.fetch;
+
+  // Header sent with the nth fetch call
+  const sentHeader = (call: number, name: string) => new Headers(mockFetch.mock.calls[call][1].headers).get(name);
+
+  beforeEach(() => {
+    tracer = new InMemoryTracer();
+    setRuntimeOptions({ tracing: { tracer }, sessionCache: new LRUSessionCacheStore() });
+    originalFetch = global.fetch;
+    mockFetch = vi.fn();
+    global.fetch = mockFetch as any;
+    vi.stubEnv('STACK_PROJECT_ID', 'test-project-id');
+    vi.stubEnv('STACK_PUBLISHABLE_CLIENT_KEY', 'pk_test_key');
+    vi.stubEnv('STACK_SECRET_SERVER_KEY', 'sk_test_key');
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    resetRuntimeOptions();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should trace each REST API attempt and propagate the trace context', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    mockFetch
+      .mockResolvedValueOnce(json({ error: { code: 'SERVICE_UNAVAILABLE', message: 'Try again' } }, 503))
+      .mockResolvedValueOnce(json({ id: 'user-1', email: 'user@example.com' }));
+    const client = new StackAuthRestClient({
+      projectId: 'test-project-id',
+      publishableClientKey: 'pk_test_key',
+      secretServerKey: 'sk_test_key',
+      retryDelay: 1
+    });
+
+    await client.getServerUser('user-1');
+
+    const [failed, retried] = tracer.finished;
+    expect(tracer.finished.map(span => span.name)).toEqual(['stack-auth.rest-api.request', 'stack-auth.rest-api.request']);
+    expect(failed.attributes).toEqual({ 'http.request.method': 'GET', 'url.path': '/users/user-1', 'http.response.status_code': 503 });
+    expect(failed.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Try again' });
+    expect(failed.exceptions).toHaveLength(1);
+    expect(retried.attributes).toMatchObject({ 'http.request.resend_count': 1, 'http.response.status_code': 200 });
+    expect(retried.status).toBeUndefined();
+    expect(sentHeader(1, 'traceparent')).toBe(`00-${retried.traceId}-${retried.spanId}-01`);
+  });
+
+  it('should trace proxied requests', async () => {
+    mockFetch.mockResolvedValue(json({ ok: true }));
+    const context = {
+      request: new Request('http://localhost:3000/handler/projects/current', { headers: { traceparent: 'from-the-browser' } }),
+      url: new URL('http://localhost:3000/handler/projects/current'),
+      params: { stack: 'projects/current' }
+    } as unknown as APIContext;
+
+    const response = await GET(context);
+
+    const [span] = tracer.finished;
+    expect(response.status).toBe(200);
+    expect(span).toMatchObject({
+      name: 'stack-auth.proxy',
+      attributes: { 'http.request.method': 'GET', 'url.path': '/api/v1/projects/current', 'http.response.status_code': 200 }
+    });
+    expect(sentHeader(0, 'traceparent')).toBe(`00-${span.traceId}-${span.spanId}-01`);
+  });
+
+  it('should nest REST API spans in the middleware session span', async () => {
+    mockFetch.mockImplementation(async (url: string) => url.endsWith('/users/me')
+      ? json({ id: 'user-123', email: 'user@example.com', emailVerified: true, createdAt: '2024-01-01T00:00:00Z' })
+      : json({ id: 'session-1', userId: 'user-123', expiresAt: '2099-01-01T00:00:00Z', isActive: true }));
+    const { onRequest } = await import('../../src/middleware.js');
+    const context = {
+      request: new Request('http://localhost:3000/dashboard', { headers: { cookie: 'stack-auth-access-token=access' } }),
+      url: new URL('http://localhost:3000/dashboard'),
+      locals: {} as any
+    } as unknown as APIContext;
+
+    await (onRequest as any)(context, vi.fn().mockResolvedValue(new Response('OK')));
+
+    const session = tracer.finished.find(span => span.name === 'stack-auth.middleware.session');
+    const calls = tracer.finished.filter(span => span.name === 'stack-auth.rest-api.request');
+    expect(session?.attributes).toMatchObject({ 'url.path': '/dashboard', 'stack_auth.authenticated': true });
+    expect(calls.length).toBeGreaterThan(0);
+    expect(calls.every(span => span.parentSpanId === session?.spanId)).toBe(true);
+  });
+
+  it('should send no trace context without a tracer', async () => {
+    resetRuntimeOptions();
+    mockFetch.mockResolvedValue(json({ id: 'user-1' }));
+    const client = new StackAuthRestClient({ projectId: 'p', publishableClientKey: 'pk', secretServerKey: 'sk' });
+
+    await client.getServerUser('user-1');
+
+    expect(sentHeader(0, 'traceparent')).toBeNull();
+  });
+
+  it('should validate the tracing option', () => {
+    expect(validateStackAuthOptions({ tracing: { tracer } }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ tracing: {} as never }).errors)
+      .toContain('tracing.tracer must be an OpenTelemetry tracer with startActiveSpan');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Trusted proxy client IP resolution tests
+ *
+ * Covers walking X-Forwarded-For and Forwarded chains against proxy lists
+ * and hop counts, the connection address recorded by the middleware, and
+ * the rate limit keys and audit entries built from the resolved address.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  resolveClientIP,
+  setClientAddress,
+  getForwardedChain,
+  normalizeIP
+} from '../../src/server/trusted-proxies.js';
+import { getClientIP, generateRateLimitKey } from '../../src/server/security.js';
+import { auditLogger, logSystemError } from '../../src/server/audit.js';
+import { setRuntimeOptions, resetRuntimeOptions } from '../../src/runtime-options.js';
+import { validateStackAuthOptions } from '../../src/validation.js';
+
+vi.mock('astro:middleware', () => ({
+  defineMiddleware: vi.fn((middleware) => middleware)
+}));
+
+const createRequest = (headers: Record<string, string> = {}, peer?: string) => {
+  const request = new Request('http://localhost:3000/api/data', { headers });
+  if (peer) {
+    setClientAddress(request, peer);
+  }
+  return request;
+};
+
+describe('client IP resolution', () => {
+  it('should normalize forwarded addresses', () => {
+    expect(normalizeIP('203.0.113.7:8443')).toBe('203.0.113.7');
+    expect(normalizeIP('"[2001:DB8::1]:443"')).toBe('2001:db8::1');
+    expect(normalizeIP('::ffff:198.51.100.4')).toBe('198.51.100.4');
+    expect(normalizeIP('unknown')).toBeNull();
+    expect(normalizeIP('_hidden')).toBeNull();
+  });
+
+  it('should ignore spoofed entries left of the first untrusted hop', () => {
+    const request = createRequest(
+      { 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.5' },
+      '10.0.0.1'
+    );
+
+    expect(resolveClientIP(request, ['10.0.0.0/8'])).toBe('203.0.113.7');
+  });
+
+  it('should take the client from the right using a hop count', () => {
+    const request = createRequest({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.5' }, '10.0.0.1');
+
+    expect(resolveClientIP(request, 1)).toBe('10.0.0.5');
+    expect(resolveClientIP(request, 2)).toBe('203.0.113.7');
+    expect(resolveClientIP(request, 0)).toBe('10.0.0.1');
+  });
+
+  it('should not take a client-supplied entry when the chain is shorter than the hop count', () => {
+    const request = createRequest({ 'x-forwarded-for': '1.2.3.4' }, '10.0.0.1');
+
+    expect(resolveClientIP(request, 2)).toBe('10.0.0.1');
+    expect(resolveClientIP(createRequest({ 'x-forwarded-for': '1.2.3.4' }), 2)).toBeNull();
+  });
+
+  it('should prefer the RFC 7239 Forwarded header', () => {
+    const request = createRequest({
+      forwarded: 'for=192.0.2.60;proto=https, for="[2001:db8:cafe::17]:4711";by=10.0.0.5',
+      'x-forwarded-for': '198.51.100.99'
+    }, '10.0.0.5');
+
+    expect(getForwardedChain(request)).toEqual(['192.0.2.60', '2001:db8:cafe::17']);
+    expect(resolveClientIP(request, ['10.0.0.0/8'])).toBe('2001:db8:cafe::17');
+    expect(resolveClientIP(request, ['10.0.0.0/8', '2001:db8:cafe::/48'])).toBe('192.0.2.60');
+  });
+
+  it('should ignore forwarding headers from untrusted peers', () => {
+    const request = createRequest({ 'x-forwarded-for': '1.2.3.4' }, '198.51.100.20');
+
+    expect(resolveClientIP(request, ['10.0.0.0/8'])).toBe('198.51.100.20');
+  });
+
+  it('should stop at unreadable hops and fall back to the connection address', () => {
+    const obfuscated = createRequest({ forwarded: 'for=198.51.100.1, for=unknown' }, '10.0.0.1');
+    const direct = createRequest({}, '::ffff:192.0.2.33');
+
+    expect(resolveClientIP(obfuscated, ['10.0.0.0/8'])).toBe('10.0.0.1');
+    expect(resolveClientIP(direct, ['10.0.0.0/8'])).toBe('192.0.2.33');
+  });
+});
+
+describe.sequential('trustedProxies option', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetRuntimeOptions();
+    auditLogger.clearBuffer();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep believing headers when unset', () => {
+    const request = createRequest({ 'x-forwarded-for': '1.2.3.4, 10.0.0.5' }, '10.0.0.1');
+
+    expect(getClientIP(request)).toBe('1.2.3.4');
+    expect(getClientIP(createRequest({}, '192.0.2.33'))).toBe('192.0.2.33');
+  });
+
+  it('should key rate limits and audit entries by the resolved address', () => {
+    setRuntimeOptions({ trustedProxies: ['10.0.0.0/8'] });
+    const request = createRequest({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' }, '10.0.0.1');
+
+    logSystemError(request, new Error('boom'));
+
+    expect(getClientIP(request)).toBe('203.0.113.7');
+    expect(generateRateLimitKey(request, 'ip')).toBe('ip:203.0.113.7');
+    expect(auditLogger.getRecentLogs(1)[0].clientIP).toBe('203.0.113.7');
+  });
+
+  it('should record the connection address in the middleware', async () => {
+    vi.stubEnv('STACK_PROJECT_ID', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setRuntimeOptions({ trustedProxies: ['10.0.0.0/8'] });
+    const { onRequest } = await import('../../src/middleware.js');
+
+    const request = new Request('http://localhost:3000/', {
+      headers: { 'x-forwarded-for': '1.2.3.4' }
+    });
+    let seenIP: string | null = null;
+    const next = vi.fn(async () => {
+      seenIP = getClientIP(request);
+      return new Response('page');
+    });
+
+    await (onRequest as any)({ request, url: new URL(request.url), locals: {}, clientAddress: '198.51.100.20' }, next);
+
+    expect(seenIP).toBe('198.51.100.20');
+  });
+
+  it('should validate trustedProxies', () => {
+    expect(validateStackAuthOptions({ trustedProxies: ['10.0.0.0/8', '::1', '2001:db8::/32'] }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ trustedProxies: 2 }).isValid).toBe(true);
+    expect(validateStackAuthOptions({ trustedProxies: ['10.0.0.0/33', 'proxy.internal'] }).errors).toEqual([
+      'trustedProxies[0] must be an IP address or CIDR range',
+      'trustedProxies[1] must be an IP address or CIDR range'
+    ]);
+    expect(validateStackAuthOptions({ trustedProxies: -1 }).errors)
+      .toContain('trustedProxies must be a list of addresses or a number of proxy hops');
+  });
+});
@@ -376,6 +376,7 @@ export const astroTestUtils = {
       addClientDirective: vi.fn(),
       addMiddleware: vi.fn(),
       addDevToolbarApp: vi.fn(),
+      updateConfig: vi.fn(),
       injectRoute: vi.fn(),
       injectScript: vi.fn(),
       logger: {
@@ -84,6 +84,7 @@ export async function createTestContainer(config: Partial<AstroConfig> = {}) {
             addClientDirective: container.addClientDirective.bind(container),
             addMiddleware: container.addMiddleware.bind(container),
             addDevToolbarApp: vi.fn(),
+            updateConfig: vi.fn(),
             injectRoute: container.injectRoute.bind(container),
             injectScript: vi.fn(),
             logger: {
@@ -136,6 +137,7 @@ export class MockContainerAPI {
           addClientDirective: vi.fn(),
           addMiddleware: vi.fn(),
           addDevToolbarApp: vi.fn(),
+          updateConfig: vi.fn(),
           injectRoute: vi.fn(),
           injectScript: vi.fn(),
           logger: {
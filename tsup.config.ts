@@ -61,6 +61,7 @@ export default defineConfig((options) => ({
   external: [
     'astro',
     'astro:middleware',
+    'virtual:astro-stack-auth/options',
     '@stackframe/stack',
     '@stackframe/stack-ui',
     'react',
@@ -147,7 +147,10 @@ export default defineConfig({
       'astro-stack-auth/server': resolve(__dirname, './src/server.ts'),
       'astro-stack-auth/client': resolve(__dirname, './src/client.ts'),
       'astro-stack-auth/components': resolve(__dirname, './src/components.ts'),
-      'astro-stack-auth/middleware': resolve(__dirname, './src/middleware.ts')
+      'astro-stack-auth/middleware': resolve(__dirname, './src/middleware.ts'),
+      // Astro virtual modules are only available inside an Astro project
+      'astro:middleware': resolve(__dirname, './tests/mocks/astro-middleware.ts'),
+      'virtual:astro-stack-auth/options': resolve(__dirname, './tests/mocks/runtime-options.ts')
     },
     // Better module resolution for dependencies
     conditions: ['import', 'module', 'browser', 'default'],